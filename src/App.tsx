@@ -19,10 +19,18 @@ import sessionManager from './lib/sessionManager';
 import { useSessionStore } from './stores/sessionStore';
 import { usePilotProgramStore } from './stores/pilotProgramStore';
 import NetworkStatusIndicator from './components/common/NetworkStatusIndicator';
+import SyncQueueStatus from './components/common/SyncQueueStatus';
+import UpdatePrompt from './components/common/UpdatePrompt';
+import { startImageUploadQueue } from './utils/imageUploadQueue';
+import { ensureStorageSpace } from './utils/storageQuota';
+import { restoreQueryCache, startQueryCachePersistence } from './lib/queryPersistence';
 import { registerAuthErrorHandler } from './lib/queryClient';
 
 // Lazy load pages to improve initial load time
 const HomePage = lazy(() => import('./pages/HomePage'));
+const TodayPage = lazy(() => import('./pages/TodayPage'));
+const CodeLineagePage = lazy(() => import('./pages/CodeLineagePage'));
+const ProgramComparisonPage = lazy(() => import('./pages/ProgramComparisonPage'));
 const PilotProgramsPage = lazy(() => import('./pages/PilotProgramsPage'));
 const SitesPage = lazy(() => import('./pages/SitesPage'));
 const SubmissionsPage = lazy(() => import('./pages/SubmissionsPage'));
@@ -48,7 +56,8 @@ function App() {
   const { 
     setActiveSessions, 
     setIsLoading, 
-    setCurrentSessionId
+    setCurrentSessionId,
+    remapIds
   } = useSessionStore();
   
   // Add a ref to track if auto-sync has been initialized
@@ -72,6 +81,11 @@ function App() {
     const checkPendingSubmissions = async () => {
       if (!user) return;
       
+      // Replay sessions and edits recorded while offline before anything else
+      if (isOnline) {
+        await syncManager.replayOutbox();
+      }
+      
       const count = await syncManager.getPendingSubmissionsCount();
       setPendingCount(count);
       
@@ -86,6 +100,29 @@ function App() {
     checkPendingSubmissions();
   }, [user, isOnline]);
 
+  // Keep the session store in step when offline sessions receive server IDs
+  useEffect(() => {
+    return syncManager.onIdsRemapped(remapIds);
+  }, [remapIds]);
+
+  // Resume background image uploads left over from earlier visits
+  useEffect(() => {
+    if (!user) return;
+    return startImageUploadQueue();
+  }, [user]);
+
+  // Save the query cache to IndexedDB so pages have data offline
+  useEffect(() => {
+    if (!user) return;
+    return startQueryCachePersistence(user.id);
+  }, [user]);
+
+  // Free space taken by synced data early rather than when a capture fails
+  useEffect(() => {
+    if (!user) return;
+    ensureStorageSpace();
+  }, [user]);
+
   // Set up auto-sync when online
   useEffect(() => {
     // Don't setup auto-sync if no user or already initialized
@@ -218,6 +255,9 @@ function App() {
         if (sessionData.session) {
           console.log('User is authenticated:', sessionData.session.user.email);
           
+          // Load cached queries before any page renders so they show even when offline
+          await restoreQueryCache(sessionData.session.user.id);
+          
           // Check if user is active
           const isActive = await checkUserActive(sessionData.session.user.id);
           
@@ -315,6 +355,12 @@ function App() {
         {/* Network status indicator */}
         <NetworkStatusIndicator />
         
+        {/* Background image uploads and items that failed to sync */}
+        <SyncQueueStatus />
+        
+        {/* Prompt to reload when a new version has been installed */}
+        <UpdatePrompt />
+        
         <Routes>
           <Route path="/login" element={!user ? <LoginPage /> : <Navigate to="/home" />} />
           <Route path="/register" element={!user ? <RegisterPage /> : <Navigate to="/home" />} />
@@ -329,6 +375,11 @@ function App() {
                   <HomePage />
                 </Suspense>
               } />
+              <Route path="/today" element={
+                <Suspense fallback={<LoadingScreen />}>
+                  <TodayPage />
+                </Suspense>
+              } />
               <Route path="/programs" element={
                 <Suspense fallback={<LoadingScreen />}>
                   <PilotProgramsPage />
@@ -339,6 +390,11 @@ function App() {
                   <SitesPage />
                 </Suspense>
               } />
+              <Route path="/programs/:programId/comparison" element={
+                <Suspense fallback={<LoadingScreen />}>
+                  <ProgramComparisonPage />
+                </Suspense>
+              } />
               <Route path="/programs/:programId/sites/:siteId" element={
                 <Suspense fallback={<LoadingScreen />}>
                   <SubmissionsPage />
@@ -359,6 +415,16 @@ function App() {
                   <SiteTemplateManagementPage />
                 </Suspense>
               } />
+              <Route path="/programs/:programId/sites/:siteId/codes" element={
+                <Suspense fallback={<LoadingScreen />}>
+                  <CodeLineagePage />
+                </Suspense>
+              } />
+              <Route path="/programs/:programId/sites/:siteId/codes/:kind/:code" element={
+                <Suspense fallback={<LoadingScreen />}>
+                  <CodeLineagePage />
+                </Suspense>
+              } />
               <Route path="/programs/:programId/audit-log" element={
                 <Suspense fallback={<LoadingScreen />}>
                   <AuditLogPage />
@@ -0,0 +1,47 @@
+import { History, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { useOnlineStatus } from '../../hooks/useOnlineStatus';
+import { isFromPersistedCache } from '../../lib/queryPersistence';
+
+interface CachedDataNoticeProps {
+  // dataUpdatedAt of the query whose data is on screen
+  dataUpdatedAt: number;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+  testId?: string;
+}
+
+// Tell the user the list comes from the device cache rather than the server
+const CachedDataNotice = ({ dataUpdatedAt, onRefresh, isRefreshing = false, testId = 'cached-data-notice' }: CachedDataNoticeProps) => {
+  const isOnline = useOnlineStatus();
+
+  if (!isFromPersistedCache(dataUpdatedAt)) return null;
+
+  return (
+    <div
+      className="mb-4 px-3 py-2 rounded-md bg-warning-50 border border-warning-200 text-sm text-warning-800 flex items-center justify-between"
+      data-testid={testId}
+    >
+      <div className="flex items-center">
+        <History size={16} className="mr-2 flex-shrink-0" />
+        <span>
+          Showing cached data from {format(new Date(dataUpdatedAt), 'PPp')}
+          {!isOnline && ' while offline'}
+        </span>
+      </div>
+      {onRefresh && isOnline && (
+        <button
+          type="button"
+          onClick={onRefresh}
+          disabled={isRefreshing}
+          className="ml-3 flex items-center text-warning-900 hover:underline disabled:opacity-50"
+        >
+          <RefreshCw size={14} className={`mr-1 ${isRefreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CachedDataNotice;
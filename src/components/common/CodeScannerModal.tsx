@@ -0,0 +1,191 @@
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+import { CameraOff, ImagePlus } from 'lucide-react';
+import Modal from './Modal';
+import Button from './Button';
+import { decodeImageFile, detectCode } from '../../utils/codeScanner';
+import { createLogger } from '../../utils/logger';
+
+// Create a component-specific logger
+const logger = createLogger('CodeScannerModal');
+
+// How often a camera frame is checked for a code
+const SCAN_INTERVAL_MS = 250;
+
+interface CodeScannerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called once with the first code read from the camera or a photo
+  onScan: (value: string) => void;
+  title?: string;
+  testId?: string;
+}
+
+// Reads a petri or gasifier label with the camera, or from a photo of it
+const CodeScannerModal = ({
+  isOpen,
+  onClose,
+  onScan,
+  title = 'Scan Code',
+  testId = 'code-scanner-modal'
+}: CodeScannerModalProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const onScanRef = useRef(onScan);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [isReadingImage, setIsReadingImage] = useState(false);
+
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+
+      try {
+        const value = video.readyState >= video.HAVE_CURRENT_DATA ? await detectCode(video) : null;
+        if (value && !cancelled) {
+          cancelled = true;
+          onScanRef.current(value);
+          return;
+        }
+      } catch (error) {
+        logger.warn('Error scanning camera frame:', error);
+      }
+
+      if (!cancelled) timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    };
+
+    const startCamera = async () => {
+      setCameraError(null);
+      setImageError(null);
+
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError('This device has no camera available. Choose a photo of the label instead.');
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false
+        });
+        // The modal closed while the camera was starting, after cleanup had already run
+        if (cancelled || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        scanFrame();
+      } catch (error) {
+        logger.error('Error starting camera:', error);
+        if (!cancelled) {
+          setCameraError(
+            error instanceof DOMException && error.name === 'NotAllowedError'
+              ? 'Camera access was denied. Allow it in your browser settings or choose a photo of the label.'
+              : 'The camera could not be started. Choose a photo of the label instead.'
+          );
+        }
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isOpen]);
+
+  const handleImageSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsReadingImage(true);
+    setImageError(null);
+    try {
+      const value = await decodeImageFile(file);
+      if (value) {
+        onScanRef.current(value);
+      } else {
+        setImageError('No code was found in that image. Try a closer, sharper photo of the label.');
+      }
+    } catch (error) {
+      logger.error('Error reading code from image:', error);
+      setImageError('That image could not be read.');
+    } finally {
+      setIsReadingImage(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} maxWidth="md" testId={testId}>
+      <div className="p-4 space-y-4">
+        {cameraError ? (
+          <div className="flex flex-col items-center text-center py-6 bg-gray-50 rounded-md" data-testid="code-scanner-camera-error">
+            <CameraOff className="h-10 w-10 text-gray-400" />
+            <p className="text-sm text-gray-600 mt-2">{cameraError}</p>
+          </div>
+        ) : (
+          <div className="relative bg-black rounded-md overflow-hidden aspect-[4/3]">
+            <video
+              ref={videoRef}
+              className="w-full h-full object-cover"
+              muted
+              playsInline
+              data-testid="code-scanner-video"
+            />
+            {/* Aiming guide */}
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <div className="w-1/2 aspect-square border-2 border-white/80 rounded-lg" />
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-500">
+          Hold the label inside the frame. The code fills in as soon as it is read.
+        </p>
+
+        {imageError && (
+          <p className="text-sm text-error-600" data-testid="code-scanner-image-error">{imageError}</p>
+        )}
+
+        <div className="flex justify-between">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleImageSelected}
+            data-testid="code-scanner-file-input"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            icon={<ImagePlus size={16} />}
+            onClick={() => fileInputRef.current?.click()}
+            isLoading={isReadingImage}
+            testId="code-scanner-choose-image"
+          >
+            Use a Photo
+          </Button>
+          <Button type="button" variant="outline" onClick={onClose} testId="code-scanner-cancel">
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CodeScannerModal;
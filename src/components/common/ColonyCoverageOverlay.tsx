@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react';
+import { ColonyEstimate } from '../../utils/colonyCoverage';
+
+interface ColonyCoverageOverlayProps {
+  estimate: ColonyEstimate;
+  // Growth found by an analysis run in this session; stored estimates only have the plate
+  mask?: Uint8Array | null;
+  testId?: string;
+}
+
+// Growth tint and rim outline, drawn on the analysis grid and stretched over the preview
+const GROWTH_COLOR = [236, 72, 153, 150];
+const RIM_COLOR = 'rgba(255, 255, 255, 0.9)';
+
+// The plate and the growth the colony estimate was based on, laid over the photo
+const ColonyCoverageOverlay = ({ estimate, mask, testId }: ColonyCoverageOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const { width, height, plate } = estimate;
+    context.clearRect(0, 0, width, height);
+
+    if (mask && mask.length === width * height) {
+      const tint = context.createImageData(width, height);
+      for (let i = 0; i < mask.length; i++) {
+        if (!mask[i]) continue;
+        tint.data.set(GROWTH_COLOR, i * 4);
+      }
+      context.putImageData(tint, 0, 0);
+    }
+
+    context.strokeStyle = RIM_COLOR;
+    context.lineWidth = Math.max(1, Math.min(width, height) / 120);
+    context.setLineDash(estimate.plate_found ? [] : [4, 3]);
+    context.beginPath();
+    context.arc(plate.x, plate.y, plate.r, 0, Math.PI * 2);
+    context.stroke();
+  }, [estimate, mask]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={estimate.width}
+      height={estimate.height}
+      // Matches the preview's background-size: cover
+      className="absolute inset-0 w-full h-full object-cover pointer-events-none"
+      data-testid={testId}
+    />
+  );
+};
+
+export default ColonyCoverageOverlay;
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { Loader2, Microscope, Pencil, RotateCcw, AlertTriangle } from 'lucide-react';
+import Button from './Button';
+import {
+  ColonyAnalysis,
+  clearColonyOverride,
+  colonyValues,
+  overrideColonyAnalysis
+} from '../../utils/colonyCoverage';
+
+interface ColonyCoverageSummaryProps {
+  analysis: ColonyAnalysis | null | undefined;
+  isAnalyzing: boolean;
+  // Whether there is a photo to estimate from
+  canEstimate: boolean;
+  onEstimate: () => void;
+  onChange: (analysis: ColonyAnalysis | null) => void;
+  disabled?: boolean;
+  testId?: string;
+}
+
+const parseValue = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || isNaN(parsed) ? null : parsed;
+};
+
+// Colony coverage and count for a petri photo, which the tech can correct
+const ColonyCoverageSummary = ({
+  analysis,
+  isAnalyzing,
+  canEstimate,
+  onEstimate,
+  onChange,
+  disabled = false,
+  testId
+}: ColonyCoverageSummaryProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [coverageInput, setCoverageInput] = useState('');
+  const [countInput, setCountInput] = useState('');
+
+  const { coverage_percent, colony_count, isOverridden } = colonyValues(analysis);
+  const estimate = analysis?.estimate;
+
+  const startEditing = () => {
+    setCoverageInput(coverage_percent !== null ? String(coverage_percent) : '');
+    setCountInput(colony_count !== null ? String(colony_count) : '');
+    setIsEditing(true);
+  };
+
+  const saveOverride = () => {
+    const coverage = parseValue(coverageInput);
+    const count = parseValue(countInput);
+    // Blank values, or the estimate's own, aren't an override
+    const matchesEstimate = !!estimate && coverage === estimate.coverage_percent && count === estimate.colony_count;
+    if (matchesEstimate || (coverage === null && count === null)) {
+      onChange(clearColonyOverride(analysis));
+    } else {
+      onChange(overrideColonyAnalysis(analysis, coverage, count));
+    }
+    setIsEditing(false);
+  };
+
+  if (isAnalyzing) {
+    return (
+      <p className="text-xs text-gray-500 mt-1 flex items-center" data-testid={testId}>
+        <Loader2 size={12} className="mr-1 animate-spin" />
+        Estimating colony coverage...
+      </p>
+    );
+  }
+
+  if (isEditing) {
+    return (
+      <div className="mt-2 p-2 bg-gray-50 border border-gray-200 rounded-md" data-testid={testId}>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-600">
+            Coverage (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={0.1}
+              value={coverageInput}
+              onChange={(e) => setCoverageInput(e.target.value)}
+              className="input-field mt-0.5 py-1 text-sm"
+              data-testid={`${testId}-coverage-input`}
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Colonies
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={countInput}
+              onChange={(e) => setCountInput(e.target.value)}
+              className="input-field mt-0.5 py-1 text-sm"
+              data-testid={`${testId}-count-input`}
+            />
+          </label>
+        </div>
+        <div className="flex justify-end gap-2 mt-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+          <Button type="button" variant="primary" size="sm" onClick={saveOverride} testId={`${testId}-save`}>
+            Save
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!analysis) {
+    if (disabled || !canEstimate) return null;
+
+    return (
+      <div className="mt-1 flex items-center gap-3 text-xs" data-testid={testId}>
+        <button
+          type="button"
+          onClick={onEstimate}
+          className="flex items-center text-primary-600 hover:text-primary-800"
+          data-testid={`${testId}-estimate`}
+        >
+          <Microscope size={12} className="mr-1" />
+          Estimate colony coverage
+        </button>
+        <button
+          type="button"
+          onClick={startEditing}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          Enter manually
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1 text-xs" data-testid={testId}>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <span className="flex items-center text-gray-700">
+          <Microscope size={12} className="mr-1 text-primary-600" />
+          <span className="font-medium">
+            {coverage_percent !== null ? `${coverage_percent}%` : '—'} coverage
+            {' · '}
+            {colony_count !== null ? `${colony_count} ${colony_count === 1 ? 'colony' : 'colonies'}` : '— colonies'}
+          </span>
+          <span className="ml-1 text-gray-500">{isOverridden ? '(entered)' : '(estimated)'}</span>
+        </span>
+        {!disabled && (
+          <button
+            type="button"
+            onClick={startEditing}
+            className="flex items-center text-primary-600 hover:text-primary-800"
+            data-testid={`${testId}-adjust`}
+          >
+            <Pencil size={12} className="mr-1" />
+            Adjust
+          </button>
+        )}
+        {!disabled && isOverridden && (
+          <button
+            type="button"
+            onClick={() => onChange(clearColonyOverride(analysis))}
+            className="flex items-center text-gray-500 hover:text-gray-700"
+            data-testid={`${testId}-reset`}
+          >
+            <RotateCcw size={12} className="mr-1" />
+            {estimate ? 'Use estimate' : 'Clear'}
+          </button>
+        )}
+      </div>
+      {isOverridden && estimate && (
+        <p className="text-gray-500 mt-0.5">
+          Estimated {estimate.coverage_percent}% and {estimate.colony_count} {estimate.colony_count === 1 ? 'colony' : 'colonies'}
+        </p>
+      )}
+      {estimate && !estimate.plate_found && !isOverridden && (
+        <p className="flex items-center text-warning-700 mt-0.5">
+          <AlertTriangle size={12} className="mr-1" />
+          Plate edge not found in the photo; check the estimate
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ColonyCoverageSummary;
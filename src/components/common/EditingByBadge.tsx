@@ -0,0 +1,30 @@
+import { PenLine } from 'lucide-react';
+import { PresenceMember } from '../../utils/presence';
+
+interface EditingByBadgeProps {
+  members: PresenceMember[];
+  testId?: string;
+}
+
+// Warns that other collaborators currently have a form open
+const EditingByBadge = ({ members, testId = 'editing-by-badge' }: EditingByBadgeProps) => {
+  if (members.length === 0) return null;
+
+  const names = members.map(member => member.name);
+  const label = names.length === 1
+    ? names[0]
+    : `${names[0]} and ${names.length - 1} other${names.length > 2 ? 's' : ''}`;
+
+  return (
+    <span
+      className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-warning-100 text-warning-800"
+      title={names.join(', ')}
+      data-testid={testId}
+    >
+      <PenLine size={12} className="mr-1" />
+      Being edited by {label}
+    </span>
+  );
+};
+
+export default EditingByBadge;
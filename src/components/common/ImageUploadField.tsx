@@ -1,8 +1,20 @@
 import { useState, useEffect, useRef } from 'react';
-import { Upload, Check, AlertCircle, XCircle } from 'lucide-react';
+import { Upload, Check, AlertCircle, XCircle, UploadCloud, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import offlineStorage from '../../utils/offlineStorage';
+import { cancelImageUpload } from '../../utils/imageUploadQueue';
+import { compressImage, getImageExtension, ImageCompressionOptions } from '../../utils/imageCompression';
+import { ensureStorageSpace } from '../../utils/storageQuota';
 import useWeather from '../../hooks/useWeather';
+import { useImageUploadStatus } from '../../hooks/useImageUploads';
 import { createLogger } from '../../utils/logger';
+import {
+  analyzeColonyImage,
+  ColonyAnalysis,
+  createColonyAnalysis
+} from '../../utils/colonyCoverage';
+import ColonyCoverageOverlay from './ColonyCoverageOverlay';
+import ColonyCoverageSummary from './ColonyCoverageSummary';
 
 // Create a component-specific logger
 const logger = createLogger('ImageUploadField');
@@ -25,6 +37,12 @@ interface ImageUploadFieldProps {
   disabled?: boolean;
   testId?: string;
   className?: string;
+  // Overrides for the resize/re-encode settings applied before the image is stored
+  compression?: Partial<ImageCompressionOptions>;
+  // Estimate colony coverage on new photos and show it over the preview, for petri plates
+  analyzeColonies?: boolean;
+  colonyAnalysis?: ColonyAnalysis | null;
+  onColonyAnalysisChange?: (analysis: ColonyAnalysis | null) => void;
 }
 
 const ImageUploadField = ({
@@ -37,7 +55,11 @@ const ImageUploadField = ({
   onClear,
   disabled = false,
   testId,
-  className = ''
+  className = '',
+  compression,
+  analyzeColonies = false,
+  colonyAnalysis,
+  onColonyAnalysisChange
 }: ImageUploadFieldProps) => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(initialImageUrl || null);
@@ -45,11 +67,18 @@ const ImageUploadField = ({
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [tempImageKey, setTempImageKey] = useState<string | undefined>(initialTempImageKey);
   const [showClearButton, setShowClearButton] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // Growth found by the latest colony analysis run here; the stored estimate doesn't keep it
+  const [colonyMask, setColonyMask] = useState<{ analyzedAt: string | null; mask: Uint8Array } | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Weather hook for environmental data capture
   const { currentConditions } = useWeather();
   
+  // Progress of this image in the background upload queue, once it has been saved
+  const uploadStatus = useImageUploadStatus(tempImageKey);
+  
   const isExistingImage = initialImageUrl !== undefined && initialImageUrl !== null;
   const hasImage = !!imageFile || !!isExistingImage || !!tempImageKey;
 
@@ -63,16 +92,12 @@ const ImageUploadField = ({
     });
   }, [imageId, initialImageUrl, initialTempImageKey, submissionSessionId, hasImage]);
 
+  // Large photos are fine; they are resized before being stored
   const validateImageFile = (file: File) => {
-    const validTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-    if (!validTypes.includes(file.type)) {
-      setUploadError('Invalid file type. Please upload a JPEG, PNG, GIF, or WebP image.');
-      return false;
-    }
-    
-    const maxSize = 5 * 1024 * 1024;
-    if (file.size > maxSize) {
-      setUploadError('File is too large. Maximum size is 5MB.');
+    const validTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic', 'image/heif'];
+    const hasHeicExtension = /\.(heic|heif)$/i.test(file.name);
+    if (!validTypes.includes(file.type) && !hasHeicExtension) {
+      setUploadError('Invalid file type. Please upload a JPEG, PNG, GIF, WebP, or HEIC image.');
       return false;
     }
     
@@ -80,6 +105,38 @@ const ImageUploadField = ({
     return true;
   };
 
+  // Colony analysis is a best-effort extra; the photo is kept whether or not it works
+  const runColonyAnalysis = async (image: Blob) => {
+    setIsAnalyzing(true);
+    try {
+      const result = await analyzeColonyImage(image);
+      logger.debug(`Colony analysis for ${imageId}`, {
+        coverage: result.coverage_percent,
+        colonies: result.colony_count,
+        plateFound: result.plate_found
+      });
+      const analysis = createColonyAnalysis(result);
+      setColonyMask({ analyzedAt: analysis.analyzed_at, mask: result.mask });
+      onColonyAnalysisChange?.(analysis);
+    } catch (error) {
+      logger.warn('Colony analysis failed:', error);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Estimate from the photo already on the field, for images taken before estimates were made
+  const handleEstimateColonies = async () => {
+    try {
+      const image = imageFile || (initialImageUrl ? await (await fetch(initialImageUrl)).blob() : null);
+      if (image) {
+        await runColonyAnalysis(image);
+      }
+    } catch (error) {
+      logger.warn('Could not load the image for colony analysis:', error);
+    }
+  };
+
   const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (disabled) return;
     
@@ -91,34 +148,40 @@ const ImageUploadField = ({
     }
 
     if (validateImageFile(file)) {
+      setIsProcessing(true);
+      
       try {
-        setImageFile(file);
+        // The original size is an upper bound on what will be stored
+        if (!(await ensureStorageSpace(file.size))) {
+          throw new Error('Not enough storage space on this device to save the photo');
+        }
         
-        const newTempKey = `${submissionSessionId}-${imageId}-${Date.now()}`;
+        // Resize and re-encode before storing so large phone photos stay manageable
+        const compressed = await compressImage(file, compression);
+        const processedFile = new File(
+          [compressed.image],
+          `${file.name.replace(/\.[^.]+$/, '')}.${getImageExtension(compressed.image.type)}`,
+          { type: compressed.image.type }
+        );
         
-        const fileBlob = new Blob([await file.arrayBuffer()], { type: file.type });
+        setImageFile(processedFile);
         
-        await offlineStorage.saveTempImage(newTempKey, fileBlob);
+        const newTempKey = `${submissionSessionId}-${imageId}-${Date.now()}`;
+        
+        await offlineStorage.saveTempImageWithThumbnail(newTempKey, compressed.image, compressed.thumbnail);
         logger.debug(`Image saved with key: ${newTempKey}`, {
-          fileSize: file.size,
-          fileType: file.type,
+          originalSize: file.size,
+          originalType: file.type,
+          fileSize: processedFile.size,
+          fileType: processedFile.type,
+          width: compressed.width,
+          height: compressed.height,
           imageId,
           submissionSessionId
         });
         
         setTempImageKey(newTempKey);
-        
-        const reader = new FileReader();
-        reader.onload = () => {
-          setImagePreview(reader.result as string);
-        };
-        reader.onerror = () => {
-          setUploadError('Failed to read image file');
-          setImageFile(null);
-          setImagePreview(null);
-          setTempImageKey(undefined);
-        };
-        reader.readAsDataURL(file);
+        setImagePreview(URL.createObjectURL(compressed.thumbnail));
 
         // Capture outdoor environmental data when image is uploaded
         const environmentalData = {
@@ -134,17 +197,26 @@ const ImageUploadField = ({
 
         // Call the onChange callback with the new data
         onChange({ 
-          file, 
+          file: processedFile, 
           tempImageKey: newTempKey,
           isDirty: true,
           ...environmentalData
         });
         
+        if (analyzeColonies) {
+          // A new photo replaces the previous estimate and any override of it
+          setColonyMask(null);
+          onColonyAnalysisChange?.(null);
+          runColonyAnalysis(compressed.image);
+        }
+        
       } catch (error) {
-        logger.error('Error storing image:', error);
-        setUploadError('Failed to store image for offline use');
+        logger.error('Error processing image:', error);
+        setUploadError(error instanceof Error ? error.message : 'Failed to store image for offline use');
         setImageFile(null);
         setTempImageKey(undefined);
+      } finally {
+        setIsProcessing(false);
       }
     }
 
@@ -160,10 +232,12 @@ const ImageUploadField = ({
           const blob = await offlineStorage.getTempImage(tempImageKey);
           
           if (blob) {
-            const file = new File([blob], `image-${imageId}.jpg`, { type: blob.type });
+            const file = new File([blob], `image-${imageId}.${getImageExtension(blob.type)}`, { type: blob.type });
             setImageFile(file);
             
-            const url = URL.createObjectURL(blob);
+            // Preview from the thumbnail when there is one
+            const thumbnail = await offlineStorage.getTempThumbnail(tempImageKey);
+            const url = URL.createObjectURL(thumbnail || blob);
             setImagePreview(url);
             
             logger.debug(`Successfully loaded temp image for key: ${tempImageKey}`, {
@@ -212,6 +286,7 @@ const ImageUploadField = ({
     if (tempImageKey) {
       try {
         logger.debug(`Deleting temp image with key: ${tempImageKey}`);
+        cancelImageUpload(tempImageKey);
         offlineStorage.deleteTempImage(tempImageKey);
       } catch (error) {
         logger.error('Error deleting temp image:', error);
@@ -226,11 +301,22 @@ const ImageUploadField = ({
       isDirty: true
     });
     
+    if (analyzeColonies) {
+      setColonyMask(null);
+      onColonyAnalysisChange?.(null);
+    }
+    
     if (onClear) {
       onClear();
     }
   };
   
+  // Release object URLs created for previews
+  useEffect(() => {
+    if (!imagePreview?.startsWith('blob:')) return;
+    return () => URL.revokeObjectURL(imagePreview);
+  }, [imagePreview]);
+  
   // Update showClearButton based on image state
   useEffect(() => {
     setShowClearButton(!!imageFile || !!imagePreview || !!tempImageKey);
@@ -274,7 +360,7 @@ const ImageUploadField = ({
           type="file"
           ref={fileInputRef}
           className="hidden"
-          accept="image/jpeg,image/png,image/gif,image/webp"
+          accept="image/jpeg,image/png,image/gif,image/webp,image/heic,image/heif,.heic,.heif"
           onChange={handleImageChange}
           disabled={disabled}
           data-testid={`${testId}-input`}
@@ -283,7 +369,12 @@ const ImageUploadField = ({
         {/* Show upload UI only if no image */}
         {!imagePreview && (
           <div className="flex flex-col items-center justify-center p-2">
-            {uploadError ? (
+            {isProcessing ? (
+              <>
+                <Loader2 className="w-6 h-6 text-primary-500 animate-spin" />
+                <p className="text-xs text-gray-500 mt-1">Processing image...</p>
+              </>
+            ) : uploadError ? (
               <div className="flex items-center text-error-600">
                 <AlertCircle size={16} className="mr-1" />
                 <span className="font-medium text-sm">Image required</span>
@@ -299,6 +390,15 @@ const ImageUploadField = ({
           </div>
         )}
         
+        {/* Plate and growth the colony estimate was based on */}
+        {analyzeColonies && imagePreview && colonyAnalysis?.estimate && (
+          <ColonyCoverageOverlay
+            estimate={colonyAnalysis.estimate}
+            mask={colonyMask?.analyzedAt === colonyAnalysis.analyzed_at ? colonyMask.mask : null}
+            testId={`${testId}-colony-overlay`}
+          />
+        )}
+        
         {/* Show green checkmark overlay when image is present */}
         {imagePreview && (
           <div className="absolute inset-0 bg-black bg-opacity-10 flex items-center justify-center">
@@ -308,6 +408,17 @@ const ImageUploadField = ({
           </div>
         )}
         
+        {/* Background upload progress */}
+        {uploadStatus && uploadStatus.status !== 'complete' && (
+          <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-white bg-opacity-70">
+            <div
+              className={`h-full transition-all ${uploadStatus.status === 'failed' ? 'bg-error-500' : 'bg-primary-500'}`}
+              style={{ width: `${Math.round(uploadStatus.progress * 100)}%` }}
+              data-testid={`${testId}-upload-progress`}
+            />
+          </div>
+        )}
+        
         {/* Clear button */}
         {showClearButton && !disabled && (
           <button
@@ -323,8 +434,30 @@ const ImageUploadField = ({
       </div>
       {(imageTouched && !imageFile && !imagePreview && !tempImageKey) || uploadError ? (
         <p className="mt-1 text-sm text-error-600">{uploadError || 'Image is required'}</p>
+      ) : uploadStatus ? (
+        <p className={`text-xs mt-1 flex items-center ${uploadStatus.status === 'failed' ? 'text-error-600' : 'text-gray-500'}`}>
+          <UploadCloud size={12} className="mr-1" />
+          {uploadStatus.status === 'complete'
+            ? 'Uploaded'
+            : uploadStatus.status === 'failed'
+              ? `Upload failed, retrying ${uploadStatus.nextAttemptAt ? formatDistanceToNow(new Date(uploadStatus.nextAttemptAt), { addSuffix: true }) : 'soon'}`
+              : uploadStatus.status === 'uploading'
+                ? `Uploading ${Math.round(uploadStatus.progress * 100)}%`
+                : 'Waiting to upload'}
+        </p>
       ) : (
-        <p className="text-xs text-gray-500 mt-1">JPEG, PNG, GIF or WebP up to 5MB</p>
+        <p className="text-xs text-gray-500 mt-1">JPEG, PNG, GIF, WebP or HEIC (resized automatically)</p>
+      )}
+      {analyzeColonies && (
+        <ColonyCoverageSummary
+          analysis={colonyAnalysis}
+          isAnalyzing={isAnalyzing}
+          canEstimate={!!imageFile || !!initialImageUrl}
+          onEstimate={handleEstimateColonies}
+          onChange={(analysis) => onColonyAnalysisChange?.(analysis)}
+          disabled={disabled}
+          testId={`${testId}-colonies`}
+        />
       )}
     </div>
   );
@@ -0,0 +1,68 @@
+import classNames from 'classnames';
+import { PresenceMember, getInitials } from '../../utils/presence';
+
+interface PresenceAvatarsProps {
+  members: PresenceMember[];
+  // Avatars shown before the rest are summarized as "+N"
+  maxVisible?: number;
+  size?: 'sm' | 'md';
+  testId?: string;
+}
+
+// Background colors assigned to users by a hash of their ID, so each person keeps one color
+const AVATAR_COLORS = [
+  'bg-primary-600',
+  'bg-secondary-600',
+  'bg-accent-600',
+  'bg-warning-600',
+  'bg-error-600',
+  'bg-success-700'
+];
+
+const colorFor = (userId: string) => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+};
+
+// Overlapping initials of the people currently in a session
+const PresenceAvatars = ({ members, maxVisible = 4, size = 'md', testId = 'presence-avatars' }: PresenceAvatarsProps) => {
+  if (members.length === 0) return null;
+
+  const visible = members.slice(0, maxVisible);
+  const hiddenCount = members.length - visible.length;
+  const sizeClasses = size === 'sm' ? 'h-5 w-5 text-[10px]' : 'h-7 w-7 text-xs';
+
+  return (
+    <div className="flex items-center -space-x-1.5" data-testid={testId}>
+      {visible.map(member => (
+        <span
+          key={member.userId}
+          className={classNames(
+            'inline-flex items-center justify-center rounded-full text-white font-medium ring-2 ring-white',
+            sizeClasses,
+            colorFor(member.userId)
+          )}
+          title={member.editing ? `${member.name} (editing)` : member.name}
+        >
+          {getInitials(member.name)}
+        </span>
+      ))}
+      {hiddenCount > 0 && (
+        <span
+          className={classNames(
+            'inline-flex items-center justify-center rounded-full bg-gray-200 text-gray-700 font-medium ring-2 ring-white',
+            sizeClasses
+          )}
+          title={members.slice(maxVisible).map(member => member.name).join(', ')}
+        >
+          +{hiddenCount}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { Edit } from 'lucide-react';
+import { toast } from 'react-toastify';
+import SyncStatus from './SyncStatus';
+import Modal from './Modal';
+import Button from './Button';
+import DeleteConfirmModal from './DeleteConfirmModal';
+import { useImageUploads } from '../../hooks/useImageUploads';
+import { useSyncQueue } from '../../hooks/useSyncQueue';
+import { useOnlineStatus } from '../../hooks/useOnlineStatus';
+import {
+  SyncQueueItem,
+  getSyncQueueItemRecord,
+  updateSyncQueueItemRecord,
+  retrySyncQueueItem,
+  discardSyncQueueItem
+} from '../../utils/syncManager';
+import { createLogger } from '../../utils/logger';
+
+// Create a logger for the sync queue status banner
+const logger = createLogger('SyncQueueStatus');
+
+// Banner listing background image uploads and items that failed to sync
+const SyncQueueStatus = () => {
+  const isOnline = useOnlineStatus();
+  const imageUploads = useImageUploads();
+  const { items } = useSyncQueue();
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [editingItem, setEditingItem] = useState<SyncQueueItem | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [discardingItem, setDiscardingItem] = useState<SyncQueueItem | null>(null);
+
+  // Items that are simply waiting their turn aren't worth showing
+  const failedItems = items.filter(item => item.deadLettered || item.attempts > 0);
+  const pendingUploads = imageUploads.filter(upload => upload.status !== 'complete');
+
+  if (imageUploads.length === 0 && failedItems.length === 0 && !editingItem && !discardingItem) {
+    return null;
+  }
+
+  const runItemAction = async (item: SyncQueueItem, action: () => Promise<unknown>, failureMessage: string) => {
+    setBusyItemId(item.id);
+    try {
+      await action();
+    } catch (error) {
+      logger.error(`${failureMessage}:`, error);
+      toast.error(failureMessage);
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handleRetry = (item: SyncQueueItem) => {
+    if (!isOnline) {
+      toast.warning('You are offline. The item will be retried when you reconnect.');
+      return;
+    }
+    runItemAction(item, () => retrySyncQueueItem(item.id), 'Failed to retry item');
+  };
+
+  const handleExport = async (item: SyncQueueItem) => {
+    try {
+      const record = await getSyncQueueItemRecord(item.id);
+      if (!record) {
+        toast.error('Item no longer exists');
+        return;
+      }
+
+      const blob = new Blob([JSON.stringify(record, null, 2)], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `sync-item-${item.id.replace(/[^a-zA-Z0-9-]/g, '_')}.json`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      logger.error('Error exporting sync queue item:', error);
+      toast.error('Failed to export item');
+    }
+  };
+
+  const handleEdit = async (item: SyncQueueItem) => {
+    try {
+      const record = await getSyncQueueItemRecord(item.id);
+      if (!record) {
+        toast.error('Item no longer exists');
+        return;
+      }
+      setEditText(JSON.stringify(record, null, 2));
+      setEditError(null);
+      setEditingItem(item);
+    } catch (error) {
+      logger.error('Error loading sync queue item:', error);
+      toast.error('Failed to load item');
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingItem) return;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(editText);
+    } catch (error) {
+      setEditError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      setEditError('The item must be a JSON object');
+      return;
+    }
+
+    setIsSavingEdit(true);
+    try {
+      await updateSyncQueueItemRecord(editingItem.id, record as Parameters<typeof updateSyncQueueItemRecord>[1]);
+      toast.success('Item updated. Retry it to sync the changes.');
+      setEditingItem(null);
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : 'Failed to save item');
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const handleConfirmDiscard = async () => {
+    if (!discardingItem) return;
+    await runItemAction(discardingItem, () => discardSyncQueueItem(discardingItem.id), 'Failed to discard item');
+    setDiscardingItem(null);
+  };
+
+  const getStatus = () => {
+    if (!isOnline) return 'offline';
+    if (failedItems.length > 0 || imageUploads.some(upload => upload.status === 'failed')) return 'error';
+    if (pendingUploads.length === 0) return 'synced';
+    return 'syncing';
+  };
+
+  const getMessage = () => {
+    if (!isOnline) return undefined;
+    const deadLetteredCount = failedItems.filter(item => item.deadLettered).length;
+    if (deadLetteredCount > 0) {
+      return `${deadLetteredCount} item${deadLetteredCount !== 1 ? 's' : ''} could not be synced. Retry, edit, export or discard ${deadLetteredCount !== 1 ? 'them' : 'it'} below.`;
+    }
+    if (failedItems.length > 0) {
+      return `${failedItems.length} item${failedItems.length !== 1 ? 's' : ''} failed to sync. Will retry automatically.`;
+    }
+    if (pendingUploads.length === 0) return 'All images uploaded';
+    return `Uploading ${pendingUploads.length} image(s)`;
+  };
+
+  return (
+    <>
+      {(imageUploads.length > 0 || failedItems.length > 0) && (
+        <SyncStatus
+          status={getStatus()}
+          message={getMessage()}
+          pendingCount={pendingUploads.length + failedItems.length}
+          uploads={imageUploads}
+          queueItems={failedItems}
+          onRetryItem={handleRetry}
+          onEditItem={handleEdit}
+          onExportItem={handleExport}
+          onDiscardItem={setDiscardingItem}
+          busyItemId={busyItemId}
+        />
+      )}
+
+      <Modal
+        isOpen={!!editingItem}
+        onClose={() => setEditingItem(null)}
+        title={
+          <div className="text-xl font-semibold flex items-center">
+            <Edit className="mr-2 h-5 w-5 text-primary-600" />
+            Edit {editingItem?.label}
+          </div>
+        }
+        maxWidth="3xl"
+        testId="sync-item-edit-modal"
+      >
+        <div className="p-4">
+          {editingItem?.lastError && (
+            <p className="text-sm text-error-700 mb-2">Last error: {editingItem.lastError}</p>
+          )}
+          <textarea
+            value={editText}
+            onChange={e => {
+              setEditText(e.target.value);
+              setEditError(null);
+            }}
+            className="w-full h-96 font-mono text-xs border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            spellCheck={false}
+            data-testid="sync-item-edit-textarea"
+          />
+          {editError && <p className="text-sm text-error-600 mt-1">{editError}</p>}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button type="button" variant="outline" onClick={() => setEditingItem(null)} disabled={isSavingEdit}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="primary"
+              onClick={handleSaveEdit}
+              isLoading={isSavingEdit}
+              testId="sync-item-edit-save"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <DeleteConfirmModal
+        isOpen={!!discardingItem}
+        onClose={() => setDiscardingItem(null)}
+        onConfirm={handleConfirmDiscard}
+        title="Discard Item"
+        message={`Discard "${discardingItem?.label}"? It will not be synced and cannot be recovered unless you exported it.`}
+        confirmText="Discard"
+        isLoading={!!discardingItem && busyItemId === discardingItem.id}
+      />
+    </>
+  );
+};
+
+export default SyncQueueStatus;
@@ -1,7 +1,9 @@
-import { Wifi, WifiOff, AlertTriangle, Loader2, X, RefreshCw } from 'lucide-react';
+import { Wifi, WifiOff, AlertTriangle, Loader2, X, RefreshCw, Edit, Download, Trash2 } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import Button from './Button';
 import classNames from 'classnames';
+import { ImageUploadProgress } from '../../utils/imageUploadQueue';
+import { SyncQueueItem } from '../../utils/syncManager';
 
 interface SyncStatusProps {
   status: 'synced' | 'syncing' | 'offline' | 'error' | 'reconnecting';
@@ -12,13 +14,29 @@ interface SyncStatusProps {
     total: number;
     failed?: number;
   };
+  uploads?: ImageUploadProgress[];
+  // Items that failed to sync, with actions the user can take on each
+  queueItems?: SyncQueueItem[];
+  onRetryItem?: (item: SyncQueueItem) => void;
+  onEditItem?: (item: SyncQueueItem) => void;
+  onExportItem?: (item: SyncQueueItem) => void;
+  onDiscardItem?: (item: SyncQueueItem) => void;
+  // ID of the item an action is currently running for
+  busyItemId?: string | null;
 }
 
 const SyncStatus: React.FC<SyncStatusProps> = ({ 
   status, 
   message = '',
   pendingCount = 0,
-  progress 
+  progress,
+  uploads = [],
+  queueItems = [],
+  onRetryItem,
+  onEditItem,
+  onExportItem,
+  onDiscardItem,
+  busyItemId = null
 }) => {
   const [isVisible, setIsVisible] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -126,9 +144,120 @@ const SyncStatus: React.FC<SyncStatusProps> = ({
       )}
       data-testid={`sync-status-${status}`}
     >
-      <div className="flex items-center space-x-2">
-        {icon}
-        <span className="text-sm font-medium">{displayMessage}</span>
+      <div className="flex-grow">
+        <div className="flex items-center space-x-2">
+          {icon}
+          <span className="text-sm font-medium">{displayMessage}</span>
+        </div>
+        
+        {/* Per-image progress for the background upload queue */}
+        {uploads.length > 0 && (
+          <ul className="mt-2 space-y-1 max-w-md" data-testid="sync-status-uploads">
+            {uploads.map(upload => (
+              <li key={upload.tempImageKey} className="text-xs">
+                <div className="flex justify-between">
+                  <span>
+                    {upload.type === 'petri' ? 'Petri' : 'Gasifier'} image
+                    {upload.attempts > 0 && ` (attempt ${upload.attempts + 1})`}
+                  </span>
+                  <span>
+                    {upload.status === 'failed'
+                      ? upload.lastError || 'Failed'
+                      : upload.status === 'complete'
+                        ? 'Uploaded'
+                        : `${Math.round(upload.progress * 100)}%`}
+                  </span>
+                </div>
+                <div className="h-1 bg-white bg-opacity-60 rounded">
+                  <div
+                    className={classNames('h-full rounded', upload.status === 'failed' ? 'bg-error-500' : 'bg-primary-500')}
+                    style={{ width: `${Math.round(upload.progress * 100)}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        
+        {/* Items that failed to sync */}
+        {queueItems.length > 0 && (
+          <ul className="mt-2 space-y-2 max-w-2xl max-h-60 overflow-y-auto" data-testid="sync-status-queue-items">
+            {queueItems.map(item => (
+              <li key={item.id} className="text-xs bg-white bg-opacity-60 rounded p-2 flex items-start justify-between">
+                <div className="mr-2 min-w-0">
+                  <div className="font-medium">
+                    {item.label}
+                    {item.deadLettered && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded bg-error-200 text-error-900">Needs attention</span>
+                    )}
+                  </div>
+                  <div className="break-words">
+                    {item.lastError || 'Failed to sync'}
+                    {` (${item.attempts} attempt${item.attempts !== 1 ? 's' : ''})`}
+                  </div>
+                  {!item.deadLettered && item.nextRetryAt && (
+                    <div className="text-gray-600">
+                      Next retry at {new Date(item.nextRetryAt).toLocaleTimeString()}
+                    </div>
+                  )}
+                </div>
+                <div className="flex space-x-1 flex-shrink-0">
+                  {onRetryItem && (
+                    <button
+                      type="button"
+                      onClick={() => onRetryItem(item)}
+                      disabled={busyItemId === item.id}
+                      className="p-1 rounded hover:bg-white disabled:opacity-50"
+                      title="Retry now"
+                      aria-label="Retry now"
+                      data-testid={`sync-item-retry-${item.id}`}
+                    >
+                      <RefreshCw size={14} className={busyItemId === item.id ? 'animate-spin' : undefined} />
+                    </button>
+                  )}
+                  {onEditItem && (
+                    <button
+                      type="button"
+                      onClick={() => onEditItem(item)}
+                      disabled={busyItemId === item.id}
+                      className="p-1 rounded hover:bg-white disabled:opacity-50"
+                      title="Edit"
+                      aria-label="Edit"
+                      data-testid={`sync-item-edit-${item.id}`}
+                    >
+                      <Edit size={14} />
+                    </button>
+                  )}
+                  {onExportItem && (
+                    <button
+                      type="button"
+                      onClick={() => onExportItem(item)}
+                      className="p-1 rounded hover:bg-white"
+                      title="Export as JSON"
+                      aria-label="Export as JSON"
+                      data-testid={`sync-item-export-${item.id}`}
+                    >
+                      <Download size={14} />
+                    </button>
+                  )}
+                  {onDiscardItem && (
+                    <button
+                      type="button"
+                      onClick={() => onDiscardItem(item)}
+                      disabled={busyItemId === item.id}
+                      className="p-1 rounded hover:bg-white text-error-700 disabled:opacity-50"
+                      title="Discard"
+                      aria-label="Discard"
+                      data-testid={`sync-item-discard-${item.id}`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
       
       {/* Action buttons based on status */}
@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import { Download, X } from 'lucide-react';
+import Button from './Button';
+import { onUpdateAvailable, applyUpdate } from '../../utils/serviceWorker';
+
+// Offer to switch to a new release once its service worker has installed
+const UpdatePrompt = () => {
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => onUpdateAvailable(setUpdateAvailable), []);
+
+  if (!updateAvailable || isDismissed) return null;
+
+  const handleUpdate = () => {
+    setIsUpdating(true);
+    applyUpdate();
+  };
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 z-50 max-w-sm px-4 py-3 rounded-lg text-sm shadow-md bg-primary-50 text-primary-900 border border-primary-200 animate-fade-in"
+      role="status"
+      data-testid="update-prompt"
+    >
+      <div className="flex items-start space-x-3">
+        <Download size={18} className="flex-shrink-0 mt-0.5 text-primary-600" />
+        <div className="flex-grow">
+          <p className="font-medium">A new version is available</p>
+          <p className="text-primary-800 mt-0.5">
+            Save any open work, then reload to update. Offline changes are kept.
+          </p>
+          <div className="flex space-x-2 mt-2">
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handleUpdate}
+              isLoading={isUpdating}
+              testId="update-prompt-reload"
+            >
+              Reload
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsDismissed(true)}
+              disabled={isUpdating}
+              testId="update-prompt-later"
+            >
+              Later
+            </Button>
+          </div>
+        </div>
+        <button
+          onClick={() => setIsDismissed(true)}
+          className="text-primary-500 hover:text-primary-700"
+          aria-label="Close"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -1,29 +1,42 @@
-import { useState, useEffect } from 'react';
-import { Line } from 'react-chartjs-2';
-import { 
-  Chart as ChartJS, 
-  CategoryScale, 
-  LinearScale, 
-  PointElement, 
-  LineElement, 
-  Title, 
-  Tooltip, 
+import { useMemo, useState } from 'react';
+import { Bar, Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  BarElement,
+  Title,
+  Tooltip,
   Legend,
   ChartData,
   ChartOptions
 } from 'chart.js';
-import { format, subDays } from 'date-fns';
+import { endOfDay, format, startOfDay } from 'date-fns';
 import Button from '../common/Button';
 import { Calendar, Filter, RefreshCw } from 'lucide-react';
+import { AnalyticsGranularity, EnvironmentalTrend } from '../../lib/types';
+import useEnvironmentalAnalytics from '../../hooks/useEnvironmentalAnalytics';
+import {
+  ANALYTICS_GRANULARITIES,
+  ANALYTICS_PERIODS,
+  AnalyticsPeriod,
+  DateRange,
+  allowedGranularities,
+  fitGranularity,
+  periodStart
+} from '../../utils/analyticsPeriods';
 
 // Register ChartJS components
 ChartJS.register(
-  CategoryScale, 
-  LinearScale, 
-  PointElement, 
-  LineElement, 
-  Title, 
-  Tooltip, 
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  BarElement,
+  Title,
+  Tooltip,
   Legend
 );
 
@@ -32,83 +45,91 @@ interface AnalyticsChartProps {
   siteId: string | null;
 }
 
-// Interface for submission count data
-interface SubmissionCount {
-  date: string;
-  count: number;
-}
+type AnalyticsView = 'submissions' | 'environment' | 'weather';
+
+type RangePreset = Exclude<AnalyticsPeriod, 'all'> | 'custom';
+
+type EnvironmentSeries = keyof Pick<EnvironmentalTrend,
+  'avg_temperature' | 'avg_indoor_temperature' | 'avg_humidity' | 'avg_indoor_humidity'
+>;
+
+const VIEWS: { value: AnalyticsView; label: string }[] = [
+  { value: 'submissions', label: 'Submissions' },
+  { value: 'environment', label: 'Environment' },
+  { value: 'weather', label: 'Weather' }
+];
+
+// Temperatures are plotted against the left axis and humidity against the right
+const ENVIRONMENT_SERIES: { key: EnvironmentSeries; label: string; axis: 'y' | 'y1'; color: string }[] = [
+  { key: 'avg_temperature', label: 'Outdoor Temp (°F)', axis: 'y', color: '255, 99, 132' },
+  { key: 'avg_indoor_temperature', label: 'Indoor Temp (°F)', axis: 'y', color: '255, 159, 64' },
+  { key: 'avg_humidity', label: 'Outdoor Humidity (%)', axis: 'y1', color: '54, 162, 235' },
+  { key: 'avg_indoor_humidity', label: 'Indoor Humidity (%)', axis: 'y1', color: '75, 192, 192' }
+];
+
+const WEATHER_SERIES = [
+  { key: 'clear_count', label: 'Clear', color: '255, 205, 86' },
+  { key: 'cloudy_count', label: 'Cloudy', color: '156, 163, 175' },
+  { key: 'rain_count', label: 'Rain', color: '54, 162, 235' }
+] as const;
+
+const INTERVAL_FORMATS: Record<AnalyticsGranularity, string> = {
+  '12hour': 'MMM d h a',
+  day: 'MMM d',
+  week: "'Week of' MMM d"
+};
+
+const DATE_INPUT_FORMAT = 'yyyy-MM-dd';
 
 const AnalyticsChart = ({ programId, siteId }: AnalyticsChartProps) => {
-  const [timeRange, setTimeRange] = useState<'7days' | '30days' | '90days'>('30days');
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [submissionData, setSubmissionData] = useState<SubmissionCount[]>([]);
-  
-  // Fetch submission counts
-  const fetchSubmissionCounts = async () => {
-    if (!programId && !siteId) return;
-    
-    setIsLoading(true);
-    try {
-      let endDate = new Date();
-      let startDate: Date;
-      
-      // Calculate start date based on time range
-      switch (timeRange) {
-        case '7days':
-          startDate = subDays(endDate, 7);
-          break;
-        case '30days':
-          startDate = subDays(endDate, 30);
-          break;
-        case '90days':
-          startDate = subDays(endDate, 90);
-          break;
-        default:
-          startDate = subDays(endDate, 30);
-      }
-      
-      const formattedStartDate = format(startDate, 'yyyy-MM-dd');
-      const formattedEndDate = format(endDate, 'yyyy-MM-dd');
-      
-      // Mock submission count data for demonstration
-      const mockData: SubmissionCount[] = [];
-      let currentDate = new Date(startDate);
-      
-      while (currentDate <= endDate) {
-        // Generate random count between 0 and 5
-        const count = Math.floor(Math.random() * 6);
-        
-        mockData.push({
-          date: format(currentDate, 'yyyy-MM-dd'),
-          count
-        });
-        
-        // Move to next day
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-      
-      setSubmissionData(mockData);
-    } catch (error) {
-      console.error('Error fetching analytics data:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-  
-  // Fetch data when dependencies change
-  useEffect(() => {
-    if (programId || siteId) {
-      fetchSubmissionCounts();
+  const [view, setView] = useState<AnalyticsView>('submissions');
+  const [rangePreset, setRangePreset] = useState<RangePreset>('30days');
+  const [customStart, setCustomStart] = useState(() => format(periodStart('30days') || new Date(), DATE_INPUT_FORMAT));
+  const [customEnd, setCustomEnd] = useState(() => format(new Date(), DATE_INPUT_FORMAT));
+  const [preferredGranularity, setPreferredGranularity] = useState<AnalyticsGranularity>('day');
+  const [visibleSeries, setVisibleSeries] = useState<Record<EnvironmentSeries, boolean>>({
+    avg_temperature: true,
+    avg_indoor_temperature: true,
+    avg_humidity: false,
+    avg_indoor_humidity: false
+  });
+
+  // Presets run to the end of today; custom ranges cover both chosen days in full
+  const range = useMemo<DateRange | null>(() => {
+    if (rangePreset !== 'custom') {
+      return { start: periodStart(rangePreset) || new Date(), end: endOfDay(new Date()) };
     }
-  }, [programId, siteId, timeRange]);
-  
+    const start = new Date(`${customStart}T00:00`);
+    const end = new Date(`${customEnd}T00:00`);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) return null;
+    return { start: startOfDay(start), end: endOfDay(end) };
+  }, [rangePreset, customStart, customEnd]);
+
+  // An invalid custom range charts nothing, but the hooks below still need a range
+  const chartRange = useMemo<DateRange>(
+    () => range || { start: startOfDay(new Date()), end: endOfDay(new Date()) },
+    [range]
+  );
+  const granularities = allowedGranularities(chartRange);
+  const granularity = fitGranularity(chartRange, preferredGranularity);
+
+  const { trends, weather, isLoading, isFetching, refetch } = useEnvironmentalAnalytics(
+    range ? programId : null,
+    range ? siteId : null,
+    chartRange,
+    granularity
+  );
+
+  const labels = trends.map(trend => format(new Date(trend.interval_start), INTERVAL_FORMATS[granularity]));
+  const hasSubmissions = trends.some(trend => trend.submission_count > 0);
+
   // Format submission count data for line chart
   const submissionChartData: ChartData<'line'> = {
-    labels: submissionData.map(item => format(new Date(item.date), 'MMM d')),
+    labels,
     datasets: [
       {
         label: 'Submissions',
-        data: submissionData.map(item => item.count),
+        data: trends.map(trend => trend.submission_count),
         borderColor: 'rgb(75, 192, 192)',
         backgroundColor: 'rgba(75, 192, 192, 0.5)',
         tension: 0.4,
@@ -116,10 +137,11 @@ const AnalyticsChart = ({ programId, siteId }: AnalyticsChartProps) => {
       }
     ]
   };
-  
+
   // Chart options
   const submissionChartOptions: ChartOptions<'line'> = {
     responsive: true,
+    maintainAspectRatio: false,
     plugins: {
       legend: {
         position: 'top',
@@ -139,81 +161,261 @@ const AnalyticsChart = ({ programId, siteId }: AnalyticsChartProps) => {
       }
     }
   };
-  
+
+  const shownSeries = ENVIRONMENT_SERIES.filter(series => visibleSeries[series.key]);
+
+  const environmentChartData: ChartData<'line'> = {
+    labels,
+    datasets: shownSeries.map(series => ({
+      label: series.label,
+      data: trends.map(trend => trend[series.key]),
+      yAxisID: series.axis,
+      borderColor: `rgb(${series.color})`,
+      backgroundColor: `rgba(${series.color}, 0.5)`,
+      tension: 0.4,
+      fill: false,
+      spanGaps: true
+    }))
+  };
+
+  const environmentChartOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top',
+      },
+      title: {
+        display: true,
+        text: 'Average Conditions'
+      }
+    },
+    scales: {
+      y: {
+        display: shownSeries.some(series => series.axis === 'y'),
+        position: 'left',
+        title: {
+          display: true,
+          text: 'Temperature (°F)'
+        }
+      },
+      y1: {
+        display: shownSeries.some(series => series.axis === 'y1'),
+        position: 'right',
+        min: 0,
+        max: 100,
+        grid: {
+          drawOnChartArea: false
+        },
+        title: {
+          display: true,
+          text: 'Humidity (%)'
+        }
+      }
+    }
+  };
+
+  const weatherChartData: ChartData<'bar'> = {
+    labels,
+    datasets: WEATHER_SERIES.map(series => ({
+      label: series.label,
+      data: weather.map(counts => counts[series.key]),
+      backgroundColor: `rgba(${series.color}, 0.8)`
+    }))
+  };
+
+  const weatherChartOptions: ChartOptions<'bar'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top',
+      },
+      title: {
+        display: true,
+        text: 'Weather Conditions'
+      }
+    },
+    scales: {
+      x: {
+        stacked: true
+      },
+      y: {
+        stacked: true,
+        beginAtZero: true,
+        ticks: {
+          precision: 0
+        },
+        title: {
+          display: true,
+          text: 'Submission Count'
+        }
+      }
+    }
+  };
+
+  const renderChart = () => {
+    switch (view) {
+      case 'environment':
+        return shownSeries.length > 0 ? (
+          <Line data={environmentChartData} options={environmentChartOptions} />
+        ) : (
+          <div className="flex justify-center items-center h-full">
+            <p className="text-gray-500">Choose at least one reading to plot.</p>
+          </div>
+        );
+      case 'weather':
+        return <Bar data={weatherChartData} options={weatherChartOptions} />;
+      default:
+        return <Line data={submissionChartData} options={submissionChartOptions} />;
+    }
+  };
+
   return (
     <div>
       <div className="mb-4 flex flex-wrap gap-2 justify-between">
         <div className="flex gap-2">
-          <Button
-            variant="primary"
-            size="sm"
-          >
-            Submissions
-          </Button>
+          {VIEWS.map(option => (
+            <Button
+              key={option.value}
+              variant={view === option.value ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setView(option.value)}
+              testId={`analytics-view-${option.value}`}
+            >
+              {option.label}
+            </Button>
+          ))}
         </div>
-        
-        <div className="flex gap-2">
-          <Button
-            variant={timeRange === '7days' ? 'primary' : 'outline'}
-            size="sm"
-            icon={<Calendar size={14} />}
-            onClick={() => setTimeRange('7days')}
-          >
-            7 Days
-          </Button>
-          <Button
-            variant={timeRange === '30days' ? 'primary' : 'outline'}
-            size="sm"
-            icon={<Calendar size={14} />}
-            onClick={() => setTimeRange('30days')}
-          >
-            30 Days
-          </Button>
+
+        <div className="flex flex-wrap gap-2">
+          {ANALYTICS_PERIODS.filter(option => option.value !== 'all').map(option => (
+            <Button
+              key={option.value}
+              variant={rangePreset === option.value ? 'primary' : 'outline'}
+              size="sm"
+              icon={<Calendar size={14} />}
+              onClick={() => setRangePreset(option.value as RangePreset)}
+            >
+              {option.label}
+            </Button>
+          ))}
           <Button
-            variant={timeRange === '90days' ? 'primary' : 'outline'}
+            variant={rangePreset === 'custom' ? 'primary' : 'outline'}
             size="sm"
             icon={<Calendar size={14} />}
-            onClick={() => setTimeRange('90days')}
+            onClick={() => setRangePreset('custom')}
+            testId="analytics-range-custom"
           >
-            90 Days
+            Custom
           </Button>
-          
+
           <Button
             variant="outline"
             size="sm"
             icon={<RefreshCw size={14} />}
-            onClick={fetchSubmissionCounts}
+            onClick={() => refetch()}
+            isLoading={isFetching && !isLoading}
           >
             Refresh
           </Button>
         </div>
       </div>
-      
-      {isLoading ? (
+
+      <div className="mb-4 flex flex-wrap gap-x-6 gap-y-2 items-center text-sm">
+        {rangePreset === 'custom' && (
+          <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor="analytics-custom-start" className="text-gray-600">From</label>
+            <input
+              id="analytics-custom-start"
+              type="date"
+              className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              value={customStart}
+              max={customEnd}
+              onChange={e => setCustomStart(e.target.value)}
+              data-testid="analytics-custom-start"
+            />
+            <label htmlFor="analytics-custom-end" className="text-gray-600">to</label>
+            <input
+              id="analytics-custom-end"
+              type="date"
+              className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              value={customEnd}
+              min={customStart}
+              onChange={e => setCustomEnd(e.target.value)}
+              data-testid="analytics-custom-end"
+            />
+          </div>
+        )}
+
+        <div className="flex items-center gap-1">
+          <span className="text-gray-600 mr-1">Group by</span>
+          {ANALYTICS_GRANULARITIES.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setPreferredGranularity(option.value)}
+              disabled={!granularities.includes(option.value)}
+              className={`px-2 py-0.5 rounded-md ${
+                granularity === option.value
+                  ? 'bg-primary-100 text-primary-800'
+                  : 'text-gray-600 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent'
+              }`}
+              title={granularities.includes(option.value) ? undefined : 'Too many points for this date range'}
+              data-testid={`analytics-granularity-${option.value}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {view === 'environment' && (
+          <div className="flex flex-wrap items-center gap-3">
+            {ENVIRONMENT_SERIES.map(series => (
+              <label key={series.key} className="flex items-center text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-1"
+                  checked={visibleSeries[series.key]}
+                  onChange={e => setVisibleSeries(current => ({ ...current, [series.key]: e.target.checked }))}
+                  data-testid={`analytics-series-${series.key}`}
+                />
+                {series.label}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!(programId || siteId) ? (
+        <div className="flex flex-col justify-center items-center h-64 bg-gray-50 rounded-lg border border-gray-200 p-6">
+          <Filter size={48} className="text-gray-300 mb-4" />
+          <p className="text-gray-600 font-medium mb-2">Select a program or site to view analytics</p>
+          <p className="text-gray-500 text-sm text-center">
+            Charts will display submission data based on your selection
+          </p>
+        </div>
+      ) : !range ? (
+        <div className="flex justify-center items-center h-64">
+          <p className="text-gray-500">Choose a start date on or before the end date.</p>
+        </div>
+      ) : isLoading ? (
         <div className="flex justify-center items-center h-64">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
         </div>
-      ) : (programId || siteId) ? (
+      ) : (
         <div className="h-64">
-          {submissionData.length > 0 ? (
-            <Line data={submissionChartData} options={submissionChartOptions} />
+          {hasSubmissions ? (
+            renderChart()
           ) : (
             <div className="flex justify-center items-center h-full">
               <p className="text-gray-500">No submission data available for the selected time period.</p>
             </div>
           )}
         </div>
-      ) : (
-        <div className="flex flex-col justify-center items-center h-64 bg-gray-50 rounded-lg border border-gray-200 p-6">
-          <Filter size={48} className="text-gray-300 mb-4" />
-          <p className="text-gray-600 font-medium mb-2">Select a program or site to view analytics</p>
-          <p className="text-gray-500 text-sm text-center">
-            Charts will display submission data based on your selection
-          </p>
-        </div>
       )}
     </div>
   );
 };
 
-export default AnalyticsChart;
\ No newline at end of file
+export default AnalyticsChart;
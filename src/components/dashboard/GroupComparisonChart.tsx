@@ -0,0 +1,111 @@
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions
+} from 'chart.js';
+import { format } from 'date-fns';
+import { AnalyticsGranularity } from '../../lib/types';
+import {
+  COMPARISON_GROUP_LABELS,
+  COMPARISON_GROUPS,
+  ComparisonGroup,
+  MetricDefinition,
+  ProgramComparison
+} from '../../utils/siteComparison';
+
+// Register ChartJS components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface GroupComparisonChartProps {
+  comparison: ProgramComparison;
+  metric: MetricDefinition;
+}
+
+const GROUP_COLORS: Record<ComparisonGroup, { border: string; background: string }> = {
+  control: { border: 'rgb(107, 114, 128)', background: 'rgba(107, 114, 128, 0.5)' },
+  treatment: { border: 'rgb(75, 192, 192)', background: 'rgba(75, 192, 192, 0.5)' }
+};
+
+const SAMPLE_LABELS: Record<MetricDefinition['sample'], string> = {
+  colony_observations: 'plates',
+  gasifier_observations: 'gasifier readings',
+  submissions: 'submissions'
+};
+
+const INTERVAL_FORMATS: Record<AnalyticsGranularity, string> = {
+  '12hour': 'MMM d h a',
+  day: 'MMM d',
+  week: "'Week of' MMM d"
+};
+
+// One metric for control and treatment sites over time, with each point's sample size in its tooltip
+const GroupComparisonChart = ({ comparison, metric }: GroupComparisonChartProps) => {
+  const chartData: ChartData<'line'> = {
+    labels: comparison.intervals.map(interval => format(interval, INTERVAL_FORMATS[comparison.granularity])),
+    datasets: COMPARISON_GROUPS.map(group => ({
+      label: COMPARISON_GROUP_LABELS[group],
+      data: comparison.groups[group].series.map(stats => stats[metric.key]),
+      borderColor: GROUP_COLORS[group].border,
+      backgroundColor: GROUP_COLORS[group].background,
+      tension: 0.4,
+      fill: false,
+      spanGaps: true
+    }))
+  };
+
+  const chartOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top',
+      },
+      title: {
+        display: true,
+        text: metric.label
+      },
+      tooltip: {
+        callbacks: {
+          label: context => `${context.dataset.label}: ${(context.parsed.y as number).toFixed(1)}${metric.unit}`,
+          afterLabel: context => {
+            const stats = comparison.groups[COMPARISON_GROUPS[context.datasetIndex]].series[context.dataIndex];
+            return `n = ${stats[metric.sample]} ${SAMPLE_LABELS[metric.sample]} at ${stats.sites} ${stats.sites === 1 ? 'site' : 'sites'}`;
+          }
+        }
+      }
+    },
+    scales: {
+      y: {
+        beginAtZero: metric.category !== 'environment',
+        title: {
+          display: true,
+          text: metric.unit ? `${metric.label} (${metric.unit})` : metric.label
+        }
+      }
+    }
+  };
+
+  return (
+    <div className="h-64">
+      <Line data={chartData} options={chartOptions} />
+    </div>
+  );
+};
+
+export default GroupComparisonChart;
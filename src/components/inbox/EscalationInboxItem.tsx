@@ -0,0 +1,240 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertOctagon, Check, CornerUpLeft, UserPlus, ChevronRight } from 'lucide-react';
+import { formatDistance, formatDistanceToNow } from 'date-fns';
+import Button from '../common/Button';
+import { supabase } from '../../lib/supabaseClient';
+import sessionManager from '../../lib/sessionManager';
+import { InboxItem } from '../../types/inbox';
+import { EscalationAction, SessionEscalation } from '../../types/session';
+
+interface EscalationInboxItemProps {
+  item: InboxItem;
+  escalation?: SessionEscalation;
+  onChanged: () => void;
+  onNavigate: () => void;
+}
+
+interface ProgramUser {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+}
+
+const statusClasses: Record<string, string> = {
+  Pending: 'bg-warning-100 text-warning-800',
+  Acknowledged: 'bg-primary-100 text-primary-800',
+  Accepted: 'bg-success-100 text-success-800',
+  Reassigned: 'bg-secondary-100 text-secondary-800',
+  Returned: 'bg-gray-100 text-gray-800'
+};
+
+// An escalation in the recipient's inbox: acknowledge it, then accept, reassign or return it
+const EscalationInboxItem = ({ item, escalation, onChanged, onNavigate }: EscalationInboxItemProps) => {
+  const navigate = useNavigate();
+  const [pendingAction, setPendingAction] = useState<EscalationAction | null>(null);
+  const [note, setNote] = useState('');
+  const [reassignTo, setReassignTo] = useState('');
+  const [programUsers, setProgramUsers] = useState<ProgramUser[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isOpen = escalation?.status === 'Pending' || escalation?.status === 'Acknowledged';
+
+  // Load the people the escalation could be reassigned to
+  useEffect(() => {
+    if (pendingAction !== 'reassign' || !escalation || programUsers.length > 0) return;
+
+    supabase
+      .rpc('get_program_users', { program_id_param: escalation.program_id })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching program users:', error);
+          return;
+        }
+        setProgramUsers((data || []).filter((u: ProgramUser) => u.user_id !== escalation.assigned_to_user_id));
+      });
+  }, [pendingAction, escalation, programUsers.length]);
+
+  const handleAcknowledge = async () => {
+    if (!escalation) return;
+    setIsWorking(true);
+    try {
+      const result = await sessionManager.acknowledgeEscalation(escalation.escalation_id);
+      if (result.success) onChanged();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!escalation || !pendingAction) return;
+    setIsWorking(true);
+    try {
+      const result = await sessionManager.resolveEscalation(
+        escalation.escalation_id,
+        pendingAction,
+        note,
+        pendingAction === 'reassign' ? reassignTo : null
+      );
+      if (result.success) {
+        setPendingAction(null);
+        setNote('');
+        setReassignTo('');
+        onChanged();
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleOpenSession = () => {
+    if (!item.link_path) return;
+    onNavigate();
+    navigate(item.link_path);
+  };
+
+  const isAwaitingAck = item.requires_acknowledgement && !item.acknowledged_at;
+
+  return (
+    <div
+      className={`border rounded-lg p-3 ${isAwaitingAck ? 'border-warning-300 bg-warning-50' : 'border-gray-200 bg-white'}`}
+      data-testid={`inbox-item-${item.item_id}`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex items-start min-w-0">
+          <AlertOctagon size={18} className="text-warning-600 mr-2 mt-0.5 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900">{item.title}</p>
+            <p className="text-xs text-gray-500">
+              {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+            </p>
+          </div>
+        </div>
+        {escalation && (
+          <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${statusClasses[escalation.status]}`}>
+            {escalation.status}
+          </span>
+        )}
+      </div>
+
+      {item.body && (
+        <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{item.body}</p>
+      )}
+
+      {escalation?.acknowledged_at && (
+        <p className="text-xs text-gray-500 mt-2">
+          Acknowledged {formatDistance(new Date(escalation.acknowledged_at), new Date(escalation.created_at))} after escalation
+        </p>
+      )}
+
+      {escalation?.resolution_note && (
+        <p className="text-xs text-gray-600 mt-1 italic">"{escalation.resolution_note}"</p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        {escalation?.status === 'Pending' && (
+          <Button
+            variant="warning"
+            size="sm"
+            icon={<Check size={14} />}
+            onClick={handleAcknowledge}
+            isLoading={isWorking}
+            testId="acknowledge-escalation-button"
+          >
+            Acknowledge
+          </Button>
+        )}
+
+        {isOpen && !pendingAction && (
+          <>
+            <Button
+              variant="primary"
+              size="sm"
+              icon={<Check size={14} />}
+              onClick={() => setPendingAction('accept')}
+              disabled={isWorking}
+            >
+              Accept
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<UserPlus size={14} />}
+              onClick={() => setPendingAction('reassign')}
+              disabled={isWorking}
+            >
+              Reassign
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<CornerUpLeft size={14} />}
+              onClick={() => setPendingAction('return')}
+              disabled={isWorking}
+            >
+              Return
+            </Button>
+          </>
+        )}
+
+        {item.link_path && !pendingAction && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleOpenSession}
+          >
+            Open Session
+            <ChevronRight size={14} className="ml-1" />
+          </Button>
+        )}
+      </div>
+
+      {pendingAction && (
+        <div className="mt-3 space-y-2">
+          {pendingAction === 'reassign' && (
+            <select
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              value={reassignTo}
+              onChange={e => setReassignTo(e.target.value)}
+              data-testid="reassign-escalation-select"
+            >
+              <option value="">Reassign to...</option>
+              {programUsers.map(u => (
+                <option key={u.user_id} value={u.user_id}>{u.full_name || u.email}</option>
+              ))}
+            </select>
+          )}
+          <textarea
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            placeholder={pendingAction === 'return' ? 'Tell the technician what to do next' : 'Add a note (optional)'}
+            value={note}
+            onChange={e => setNote(e.target.value)}
+          ></textarea>
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPendingAction(null)}
+              disabled={isWorking}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handleResolve}
+              isLoading={isWorking}
+              disabled={pendingAction === 'reassign' && !reassignTo}
+              testId="confirm-escalation-action-button"
+            >
+              {pendingAction === 'accept' ? 'Accept' : pendingAction === 'reassign' ? 'Reassign' : 'Return'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EscalationInboxItem;
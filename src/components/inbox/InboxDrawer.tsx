@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Inbox, X, Check, ChevronRight, Info, BellRing } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import Button from '../common/Button';
+import EscalationInboxItem from './EscalationInboxItem';
+import { supabase } from '../../lib/supabaseClient';
+import { InboxItem } from '../../types/inbox';
+import { SessionEscalation } from '../../types/session';
+
+interface InboxDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: InboxItem[];
+  isLoading: boolean;
+  onRefresh: () => Promise<unknown>;
+  onMarkRead: (itemIds: string[]) => Promise<void>;
+  onAcknowledge: (itemId: string) => Promise<boolean>;
+}
+
+const InboxDrawer = ({
+  isOpen,
+  onClose,
+  items,
+  isLoading,
+  onRefresh,
+  onMarkRead,
+  onAcknowledge
+}: InboxDrawerProps) => {
+  const navigate = useNavigate();
+  const [escalations, setEscalations] = useState<Map<string, SessionEscalation>>(new Map());
+
+  const escalationIds = items
+    .filter(item => item.item_type === 'escalation' && item.reference_id)
+    .map(item => item.reference_id as string);
+  const escalationKey = escalationIds.join(',');
+
+  // Load the escalations behind the inbox items so their status and actions are current
+  const loadEscalations = useCallback(async () => {
+    if (!escalationKey) {
+      setEscalations(new Map());
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('session_escalations')
+      .select('*')
+      .in('escalation_id', escalationKey.split(','));
+
+    if (error) {
+      console.error('Error fetching escalations:', error);
+      return;
+    }
+
+    setEscalations(new Map((data || []).map((e: SessionEscalation) => [e.escalation_id, e])));
+  }, [escalationKey]);
+
+  useEffect(() => {
+    if (isOpen) loadEscalations();
+  }, [isOpen, loadEscalations]);
+
+  // Opening the inbox reads everything that does not need an acknowledgement
+  useEffect(() => {
+    if (!isOpen) return;
+    const unread = items
+      .filter(item => !item.read_at && !item.requires_acknowledgement)
+      .map(item => item.item_id);
+    onMarkRead(unread);
+  }, [isOpen, items, onMarkRead]);
+
+  const handleEscalationChanged = async () => {
+    await onRefresh();
+    await loadEscalations();
+  };
+
+  const handleOpenLink = (item: InboxItem) => {
+    if (!item.link_path) return;
+    onClose();
+    navigate(item.link_path);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 block">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      {/* Drawer */}
+      <div className="absolute right-0 top-0 h-full w-full sm:w-4/5 md:w-3/5 lg:max-w-md bg-white shadow-lg overflow-hidden" data-testid="inbox-drawer">
+        <div className="flex flex-col h-full">
+          {/* Header */}
+          <div className="px-4 py-3 border-b border-gray-200 flex justify-between items-center">
+            <div className="flex items-center">
+              <Inbox size={20} className="text-primary-600 mr-2" />
+              <h2 className="text-lg font-semibold">Inbox</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+              aria-label="Close drawer"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 overflow-y-auto p-4">
+            <div className="mb-4 flex justify-between items-center">
+              <p className="text-sm text-gray-600">
+                {items.length === 0
+                  ? 'Your inbox is empty'
+                  : `${items.length} item${items.length !== 1 ? 's' : ''}`}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleEscalationChanged}
+                isLoading={isLoading}
+              >
+                Refresh
+              </Button>
+            </div>
+
+            {items.length === 0 ? (
+              <div className="text-center py-12 bg-gray-50 rounded-lg">
+                <Inbox size={48} className="mx-auto text-gray-300 mb-3" />
+                <p className="text-gray-600 font-medium">Nothing here</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  Sessions escalated to you and alerts from your programs will appear here.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {items.map(item => item.item_type === 'escalation' ? (
+                  <EscalationInboxItem
+                    key={item.item_id}
+                    item={item}
+                    escalation={item.reference_id ? escalations.get(item.reference_id) : undefined}
+                    onChanged={handleEscalationChanged}
+                    onNavigate={onClose}
+                  />
+                ) : (
+                  <div
+                    key={item.item_id}
+                    className={`border rounded-lg p-3 ${item.read_at ? 'border-gray-200 bg-white' : 'border-primary-200 bg-primary-50'}`}
+                    data-testid={`inbox-item-${item.item_id}`}
+                  >
+                    <div className="flex items-start">
+                      {item.item_type === 'threshold_alert' ? (
+                        <BellRing size={18} className="text-warning-600 mr-2 mt-0.5 flex-shrink-0" />
+                      ) : (
+                        <Info size={18} className="text-primary-600 mr-2 mt-0.5 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium text-gray-900">{item.title}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+                        </p>
+                        {item.body && (
+                          <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{item.body}</p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex gap-2 mt-3">
+                      {item.requires_acknowledgement && !item.acknowledged_at && (
+                        <Button
+                          variant="warning"
+                          size="sm"
+                          icon={<Check size={14} />}
+                          onClick={() => onAcknowledge(item.item_id)}
+                        >
+                          {item.item_type === 'threshold_alert' ? 'Resolve' : 'Acknowledge'}
+                        </Button>
+                      )}
+                      {item.link_path && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleOpenLink(item)}
+                        >
+                          Open
+                          <ChevronRight size={14} className="ml-1" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InboxDrawer;
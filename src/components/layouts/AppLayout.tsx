@@ -13,7 +13,9 @@ import {
   History,
   Building,
   Leaf,
-  ClipboardList
+  ClipboardList,
+  Inbox,
+  MapPinned
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { toast } from 'react-toastify';
@@ -22,6 +24,8 @@ import ActiveSessionsDrawer from '../submissions/ActiveSessionsDrawer';
 import { useSessionStore } from '../../stores/sessionStore';
 import sessionManager from '../../lib/sessionManager';
 import Button from '../common/Button';
+import InboxDrawer from '../inbox/InboxDrawer';
+import useInbox from '../../hooks/useInbox';
 
 const AppLayout = () => {
   const { user } = useAuthStore();
@@ -36,6 +40,9 @@ const AppLayout = () => {
   const { activeSessions, setActiveSessions, setIsLoading } = useSessionStore();
   const [hasActiveSessions, setHasActiveSessions] = useState(false);
   const [showSessionIndicator, setShowSessionIndicator] = useState(false);
+  const [isInboxOpen, setIsInboxOpen] = useState(false);
+  const inbox = useInbox();
+  const inboxBadgeCount = inbox.pendingAcknowledgementCount || inbox.unreadCount;
   
   const handleSignOut = async () => {
     try {
@@ -149,6 +156,15 @@ const AppLayout = () => {
                 <span className="hidden lg:inline">Home</span>
               </Link>
               
+              <Link 
+                to="/today" 
+                className="flex items-center space-x-1 px-2 py-1.5 lg:px-3 lg:py-2 rounded-md hover:bg-primary-600 transition-colors"
+                data-testid="today-link"
+              >
+                <MapPinned size={18} />
+                <span className="hidden lg:inline">Today</span>
+              </Link>
+              
               <button
                 className={`relative flex items-center space-x-1 px-2 py-1.5 lg:px-3 lg:py-2 rounded-md hover:bg-primary-600 transition-colors ${
                   isSessionsDrawerOpen ? 'bg-primary-600' : ''
@@ -162,6 +178,27 @@ const AppLayout = () => {
                   <span className="absolute -top-1 -right-1 w-3 h-3 bg-accent-500 rounded-full"></span>
                 )}
               </button>
+
+              <button
+                className={`relative flex items-center space-x-1 px-2 py-1.5 lg:px-3 lg:py-2 rounded-md hover:bg-primary-600 transition-colors ${
+                  isInboxOpen ? 'bg-primary-600' : ''
+                }`}
+                onClick={() => setIsInboxOpen(!isInboxOpen)}
+                data-testid="inbox-button"
+              >
+                <Inbox size={18} />
+                <span className="hidden lg:inline">Inbox</span>
+                {inboxBadgeCount > 0 && (
+                  <span
+                    className={`absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full text-xs font-medium flex items-center justify-center ${
+                      inbox.pendingAcknowledgementCount > 0 ? 'bg-warning-500 text-white' : 'bg-accent-500 text-white'
+                    }`}
+                    data-testid="inbox-badge"
+                  >
+                    {inboxBadgeCount}
+                  </span>
+                )}
+              </button>
               
               {userCompany && (
                 <Link 
@@ -210,6 +247,18 @@ const AppLayout = () => {
               </div>
             </Link>
             
+            <Link 
+              to="/today" 
+              className="block px-3 py-2 rounded-md hover:bg-gray-100 transition-colors"
+              onClick={() => setIsMobileMenuOpen(false)}
+              data-testid="mobile-today-link"
+            >
+              <div className="flex items-center space-x-2">
+                <MapPinned size={18} />
+                <span>Today</span>
+              </div>
+            </Link>
+            
             <button
               className="w-full text-left block px-3 py-2 rounded-md hover:bg-gray-100 transition-colors"
               onClick={() => {
@@ -226,6 +275,25 @@ const AppLayout = () => {
                 )}
               </div>
             </button>
+
+            <button
+              className="w-full text-left block px-3 py-2 rounded-md hover:bg-gray-100 transition-colors"
+              onClick={() => {
+                setIsInboxOpen(true);
+                setIsMobileMenuOpen(false);
+              }}
+              data-testid="mobile-inbox-button"
+            >
+              <div className="flex items-center space-x-2">
+                <Inbox size={18} />
+                <span>Inbox</span>
+                {inboxBadgeCount > 0 && (
+                  <span className="ml-2 px-1.5 rounded-full text-xs font-medium bg-warning-500 text-white">
+                    {inboxBadgeCount}
+                  </span>
+                )}
+              </div>
+            </button>
             
             <Link 
               to="/programs" 
@@ -321,6 +389,17 @@ const AppLayout = () => {
         isOpen={isSessionsDrawerOpen}
         onClose={() => setIsSessionsDrawerOpen(false)}
       />
+
+      {/* Inbox Drawer */}
+      <InboxDrawer
+        isOpen={isInboxOpen}
+        onClose={() => setIsInboxOpen(false)}
+        items={inbox.items}
+        isLoading={inbox.isLoading}
+        onRefresh={inbox.refresh}
+        onMarkRead={inbox.markRead}
+        onAcknowledge={inbox.acknowledgeItem}
+      />
       
       {/* Pulsing Session Indicator for Mobile */}
       {showSessionIndicator && hasActiveSessions && (
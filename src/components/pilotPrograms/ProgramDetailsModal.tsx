@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
-import { Calendar, FileText, Building, Users, Edit, Trash2, History } from 'lucide-react';
+import { Calendar, FileText, Building, Users, Edit, Trash2, History, Clock } from 'lucide-react';
 import Button from '../common/Button';
 import Input from '../common/Input';
 import Modal from '../common/Modal';
@@ -12,6 +12,8 @@ import useUserRole from '../../hooks/useUserRole';
 import { toast } from 'react-toastify';
 import ProgramUsersModal from '../users/ProgramUsersModal';
 import usePilotPrograms from '../../hooks/usePilotPrograms';
+import SessionExpirationPolicyFields from '../submissions/SessionExpirationPolicyFields';
+import { describeExpirationPolicy, resolveExpirationPolicy } from '../../utils/sessionExpiration';
 
 interface ProgramDetailsModalProps {
   isOpen: boolean;
@@ -58,6 +60,7 @@ const ProgramDetailsModal = ({
       description: program.description,
       startDate: program.start_date,
       endDate: program.end_date,
+      sessionExpirationPolicy: program.session_expiration_policy ?? null,
     },
     validationSchema: ProgramSchema,
     onSubmit: async (values, { setSubmitting }) => {
@@ -67,6 +70,7 @@ const ProgramDetailsModal = ({
           description: values.description,
           start_date: values.startDate,
           end_date: values.endDate,
+          session_expiration_policy: values.sessionExpirationPolicy,
         });
         
         if (updated) {
@@ -168,6 +172,19 @@ const ProgramDetailsModal = ({
                 />
               </div>
               
+              <div className="border-t pt-4">
+                <h4 className="font-medium mb-3">Session Expiration</h4>
+                <SessionExpirationPolicyFields
+                  value={formik.values.sessionExpirationPolicy}
+                  onChange={policy => formik.setFieldValue('sessionExpirationPolicy', policy)}
+                  inheritLabel="Default (end of the site-local day)"
+                  testId="program-expiration-policy"
+                />
+                <p className="text-xs text-gray-500">
+                  Sites can override this. Sessions already in progress keep their current deadline.
+                </p>
+              </div>
+              
               <div className="flex justify-end space-x-3 mt-6">
                 <Button 
                   type="button"
@@ -249,6 +266,16 @@ const ProgramDetailsModal = ({
                 </div>
               </div>
               
+              <div className="flex items-center mb-6">
+                <Clock className="text-primary-500 mr-2" size={18} />
+                <div>
+                  <p className="text-sm text-gray-500">Session Expiration</p>
+                  <p className="font-medium">
+                    {describeExpirationPolicy(resolveExpirationPolicy(null, program.session_expiration_policy))}
+                  </p>
+                </div>
+              </div>
+              
               <div className="border rounded-lg p-4 bg-gray-50 mb-6">
                 <h4 className="font-medium mb-2">Program Statistics</h4>
                 <div className="grid grid-cols-2 gap-4">
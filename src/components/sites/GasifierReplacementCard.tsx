@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, formatDistanceToNowStrict } from 'date-fns';
+import { ChevronDown, ChevronUp, Hourglass } from 'lucide-react';
+import Card, { CardHeader, CardContent } from '../common/Card';
+import { codeLineagePath } from '../../utils/codeLineage';
+import {
+  GasifierForecast,
+  GasifierReplacementPolicy,
+  MEASURE_MAX,
+  ReplacementStatus,
+  needsReplacement
+} from '../../utils/gasifierDepletion';
+
+interface GasifierReplacementCardProps {
+  programId: string;
+  siteId: string;
+  forecasts: GasifierForecast[];
+  policy: GasifierReplacementPolicy;
+}
+
+const STATUS_STYLES: Record<ReplacementStatus, { label: string; className: string }> = {
+  replace_now: { label: 'Replace now', className: 'bg-error-100 text-error-800' },
+  replace_soon: { label: 'Replace soon', className: 'bg-warning-100 text-warning-800' },
+  ok: { label: 'OK', className: 'bg-success-100 text-success-800' },
+  not_depleting: { label: 'Not depleting', className: 'bg-gray-100 text-gray-700' },
+  insufficient_data: { label: 'Needs more readings', className: 'bg-gray-100 text-gray-700' }
+};
+
+const SPARKLINE_WIDTH = 96;
+const SPARKLINE_HEIGHT = 28;
+
+// A gasifier's readings with the replacement threshold; anomalies are hollow
+const Sparkline = ({ forecast, threshold }: { forecast: GasifierForecast; threshold: number }) => {
+  const times = forecast.readings.map(reading => new Date(reading.observed_at).getTime());
+  const first = Math.min(...times);
+  const span = Math.max(...times) - first || 1;
+  const x = (time: number) => 2 + (time - first) / span * (SPARKLINE_WIDTH - 4);
+  const y = (measure: number) => 2 + (1 - measure / MEASURE_MAX) * (SPARKLINE_HEIGHT - 4);
+  const usable = forecast.readings.filter(reading => !reading.anomaly);
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="flex-shrink-0" aria-hidden="true">
+      <line
+        x1={0}
+        x2={SPARKLINE_WIDTH}
+        y1={y(threshold)}
+        y2={y(threshold)}
+        className="stroke-error-300"
+        strokeDasharray="3 2"
+      />
+      <polyline
+        points={usable.map(reading => `${x(new Date(reading.observed_at).getTime())},${y(reading.measure)}`).join(' ')}
+        fill="none"
+        className="stroke-primary-500"
+        strokeWidth={1.5}
+      />
+      {forecast.readings.map(reading => (
+        <circle
+          key={reading.observation_id}
+          cx={x(new Date(reading.observed_at).getTime())}
+          cy={y(reading.measure)}
+          r={2}
+          className={reading.anomaly ? 'fill-white stroke-warning-500' : 'fill-primary-600'}
+        />
+      ))}
+    </svg>
+  );
+};
+
+// A gasifier's latest reading, depletion rate and projected replacement
+const ForecastRow = ({ forecast, threshold, lineagePath }: {
+  forecast: GasifierForecast;
+  threshold: number;
+  lineagePath: string;
+}) => {
+  const status = STATUS_STYLES[forecast.status];
+
+  return (
+    <li className="flex items-center gap-3 py-2" data-testid={`gasifier-forecast-${forecast.code}`}>
+      <div className="min-w-0 flex-grow">
+        <div className="flex items-center gap-2">
+          <Link to={lineagePath} className="font-medium text-gray-900 hover:text-primary-700">
+            {forecast.code}
+          </Link>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+            {status.label}
+          </span>
+        </div>
+        <p className="text-xs text-gray-500 mt-0.5">
+          {forecast.latest ? `Measure ${forecast.latest.measure} on ${format(new Date(forecast.latest.observed_at), 'PP')}` : 'No usable readings'}
+          {forecast.fit && forecast.fit.rate_per_day > 0 && ` · losing ${forecast.fit.rate_per_day.toFixed(2)}/day`}
+          {forecast.replaceBy && forecast.status !== 'replace_now' && (
+            ` · reaches ${threshold} ${formatDistanceToNowStrict(forecast.replaceBy, { addSuffix: true })} (${format(forecast.replaceBy, 'PP')})`
+          )}
+        </p>
+      </div>
+      <Sparkline forecast={forecast} threshold={threshold} />
+    </li>
+  );
+};
+
+// Gasifier bags due for replacement at a site, with every forecast on request
+const GasifierReplacementCard = ({ programId, siteId, forecasts, policy }: GasifierReplacementCardProps) => {
+  const [showAll, setShowAll] = useState(false);
+
+  if (forecasts.length === 0) return null;
+
+  const due = forecasts.filter(needsReplacement);
+  const shown = showAll ? forecasts : due;
+
+  return (
+    <Card className="mb-4 md:mb-6" testId="gasifier-replacement-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold flex items-center">
+            <Hourglass className="mr-2 h-5 w-5 text-primary-600" />
+            Gasifier Replacement
+          </h2>
+          <span className="text-sm text-gray-500">Replace at {policy.threshold}</span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {due.length === 0 && !showAll ? (
+          <p className="text-sm text-gray-600" data-testid="gasifier-replacement-none-due">
+            No gasifiers are projected to need replacing in the next {policy.lead_days} days.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {shown.map(forecast => (
+              <ForecastRow
+                key={forecast.code}
+                forecast={forecast}
+                threshold={policy.threshold}
+                lineagePath={codeLineagePath(programId, siteId, 'gasifier', forecast.code)}
+              />
+            ))}
+          </ul>
+        )}
+
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="mt-3 text-sm text-primary-600 hover:text-primary-800 flex items-center"
+          data-testid="gasifier-replacement-toggle"
+        >
+          {showAll ? <ChevronUp size={16} className="mr-1" /> : <ChevronDown size={16} className="mr-1" />}
+          {showAll ? 'Show only gasifiers to replace' : `Show all ${forecasts.length} gasifiers`}
+        </button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GasifierReplacementCard;
@@ -0,0 +1,149 @@
+import { ArrowDown, ArrowUp, ClipboardList, Minus, Play, Plus, RotateCcw } from 'lucide-react';
+import Button from '../common/Button';
+import ScheduleStatusBadge from './ScheduleStatusBadge';
+import { RouteSite } from '../../hooks/useRoutePlanner';
+import { isDueOnRoute } from '../../utils/routePlanner';
+
+interface RouteStopItemProps {
+  site: RouteSite;
+  // Position on today's route, starting at 1; omitted for sites off the route
+  position?: number;
+  isFirst?: boolean;
+  isLast?: boolean;
+  disabled?: boolean;
+  onStart: (site: RouteSite) => void;
+  onResume: (site: RouteSite) => void;
+  onMove?: (site: RouteSite, offset: -1 | 1) => void;
+  onAdd?: (site: RouteSite) => void;
+  onRemove?: (site: RouteSite) => void;
+}
+
+// One site on the Today page, with its schedule, any session in progress and
+// the controls to start, resume or reorder it
+const RouteStopItem = ({
+  site,
+  position,
+  isFirst = false,
+  isLast = false,
+  disabled = false,
+  onStart,
+  onResume,
+  onMove,
+  onAdd,
+  onRemove
+}: RouteStopItemProps) => {
+  const session = site.activeSession;
+
+  return (
+    <li
+      className="flex flex-col sm:flex-row sm:items-center gap-3 py-3"
+      data-testid={`route-stop-${site.site_id}`}
+    >
+      <div className="flex items-start flex-grow min-w-0">
+        {position !== undefined && (
+          <span className="flex-shrink-0 w-7 h-7 mr-3 rounded-full bg-primary-100 text-primary-800 text-sm font-semibold flex items-center justify-center">
+            {position}
+          </span>
+        )}
+        <div className="min-w-0">
+          <div className="flex items-center flex-wrap gap-2">
+            <p className="font-medium truncate">{site.site_name}</p>
+            <span className="pill bg-secondary-100 text-secondary-800">{site.site_type}</span>
+          </div>
+          <p className="text-xs text-gray-500 truncate">{site.program_name}</p>
+          <div className="flex items-center flex-wrap gap-2 mt-1">
+            {site.status ? (
+              <ScheduleStatusBadge status={site.status} testId={`route-stop-status-${site.site_id}`} />
+            ) : (
+              <span className="text-xs text-gray-500">No schedule</span>
+            )}
+            {session && (
+              <span
+                className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-accent-100 text-accent-800"
+                data-testid={`route-stop-session-${site.site_id}`}
+              >
+                <ClipboardList size={12} className="mr-1" />
+                Session in progress ({Math.round(session.percentage_complete || 0)}%)
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1 flex-shrink-0">
+        {onMove && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<ArrowUp size={14} />}
+              onClick={() => onMove(site, -1)}
+              disabled={disabled || isFirst}
+              testId={`route-stop-up-${site.site_id}`}
+            >
+              <span className="sr-only">Move up</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<ArrowDown size={14} />}
+              onClick={() => onMove(site, 1)}
+              disabled={disabled || isLast}
+              testId={`route-stop-down-${site.site_id}`}
+            >
+              <span className="sr-only">Move down</span>
+            </Button>
+          </>
+        )}
+        {onRemove && !isDueOnRoute(site) && (
+          <Button
+            variant="outline"
+            size="sm"
+            icon={<Minus size={14} />}
+            onClick={() => onRemove(site)}
+            disabled={disabled}
+            testId={`route-stop-remove-${site.site_id}`}
+          >
+            Remove
+          </Button>
+        )}
+        {onAdd && (
+          <Button
+            variant="outline"
+            size="sm"
+            icon={<Plus size={14} />}
+            onClick={() => onAdd(site)}
+            disabled={disabled}
+            testId={`route-stop-add-${site.site_id}`}
+          >
+            Add to route
+          </Button>
+        )}
+        {session ? (
+          <Button
+            variant="accent"
+            size="sm"
+            icon={<RotateCcw size={14} />}
+            onClick={() => onResume(site)}
+            testId={`route-stop-resume-${site.site_id}`}
+          >
+            Resume
+          </Button>
+        ) : (
+          <Button
+            variant="primary"
+            size="sm"
+            icon={<Play size={14} />}
+            onClick={() => onStart(site)}
+            disabled={disabled}
+            testId={`route-stop-start-${site.site_id}`}
+          >
+            Start
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export default RouteStopItem;
@@ -0,0 +1,57 @@
+import { ReactNode } from 'react';
+import { AlarmClock, CalendarCheck, CalendarClock, CalendarDays, CalendarX } from 'lucide-react';
+import { ScheduleStatus, formatScheduleTime } from '../../utils/submissionSchedule';
+
+interface ScheduleStatusBadgeProps {
+  status: ScheduleStatus;
+  testId?: string;
+}
+
+// Whether a scheduled site's readings are due, overdue or done, in site-local time
+const ScheduleStatusBadge = ({ status, testId }: ScheduleStatusBadgeProps) => {
+  const { state, nextWindow, missedCount, timeZone } = status;
+
+  let className: string;
+  let icon: ReactNode;
+  let label: string;
+
+  switch (state) {
+    case 'overdue':
+      className = 'bg-error-100 text-error-800';
+      icon = <CalendarX size={12} className="mr-1" />;
+      label = missedCount > 1 ? `Overdue (${missedCount} missed)` : 'Overdue';
+      break;
+    case 'due':
+      className = 'bg-warning-100 text-warning-800';
+      icon = <AlarmClock size={12} className="mr-1" />;
+      label = nextWindow ? `Due until ${formatScheduleTime(nextWindow.end, timeZone)}` : 'Due now';
+      break;
+    case 'upcoming':
+      className = 'bg-primary-100 text-primary-800';
+      icon = <CalendarClock size={12} className="mr-1" />;
+      label = nextWindow ? `Due at ${formatScheduleTime(nextWindow.start, timeZone)}` : 'Due today';
+      break;
+    case 'submitted':
+      className = 'bg-success-100 text-success-800';
+      icon = <CalendarCheck size={12} className="mr-1" />;
+      label = 'Done today';
+      break;
+    default:
+      className = 'bg-gray-100 text-gray-700';
+      icon = <CalendarDays size={12} className="mr-1" />;
+      label = nextWindow ? `Next ${formatScheduleTime(nextWindow.start, timeZone, true)}` : 'Scheduled';
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${className}`}
+      title={`Site time (${timeZone})`}
+      data-testid={testId}
+    >
+      {icon}
+      {label}
+    </span>
+  );
+};
+
+export default ScheduleStatusBadge;
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { BellRing, Check, Plus, Trash2 } from 'lucide-react';
+import Button from '../common/Button';
+import Input from '../common/Input';
+import Card, { CardHeader, CardContent } from '../common/Card';
+import { Site } from '../../lib/types';
+import { useAlertRules, useSiteAlerts } from '../../hooks/useAlertRules';
+import {
+  ALERT_COMPARATORS,
+  ALERT_FIELDS,
+  AlertComparator,
+  AlertField,
+  AlertRuleDraft,
+  MAX_CONSECUTIVE_READINGS,
+  alertLinkPath,
+  describeAlertRule,
+  describeSiteAlert,
+  rulesForSite,
+  validateAlertRule
+} from '../../utils/alertRules';
+
+interface SiteAlertRulesCardProps {
+  site: Site;
+  canEdit: boolean;
+}
+
+const alertFields = Object.entries(ALERT_FIELDS) as [AlertField, (typeof ALERT_FIELDS)[AlertField]][];
+const alertComparators = Object.entries(ALERT_COMPARATORS) as [AlertComparator, string][];
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100';
+
+const emptyDraft = (siteId: string): AlertRuleDraft => ({
+  site_id: siteId,
+  field: 'indoor_humidity',
+  comparator: '>',
+  threshold: NaN,
+  consecutive_readings: 1
+});
+
+// The threshold rules that apply to a site, and the alerts they have raised that are still open
+const SiteAlertRulesCard = ({ site, canEdit }: SiteAlertRulesCardProps) => {
+  const { rules, isLoading, createRule, setRuleActive, deleteRule, isSaving } = useAlertRules(site.program_id);
+  const { alerts, resolveAlert } = useSiteAlerts(site.program_id);
+  const [draft, setDraft] = useState<AlertRuleDraft>(() => emptyDraft(site.site_id));
+  const [isAdding, setIsAdding] = useState(false);
+
+  const siteRules = rulesForSite(rules, site.site_id);
+  const siteAlerts = alerts.filter(alert => alert.site_id === site.site_id);
+  const draftError = validateAlertRule(draft);
+
+  const handleAdd = async () => {
+    try {
+      await createRule(draft);
+      setDraft(emptyDraft(site.site_id));
+      setIsAdding(false);
+    } catch {
+      // The hook reports the error
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <h2 className="text-xl font-semibold flex items-center">
+          <BellRing className="mr-2 h-5 w-5 text-primary-600" />
+          Alert Rules
+        </h2>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          When a session is completed or expires, its readings are checked against these rules. Each reading that breaks
+          one is sent to the program's admins, linked to the observation it came from.
+        </p>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading rules...</p>
+        ) : siteRules.length === 0 ? (
+          <p className="text-sm text-gray-500" data-testid="alert-rules-empty">No rules apply to this site yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 mb-4" data-testid="alert-rules-list">
+            {siteRules.map(rule => (
+              <li key={rule.rule_id} className="flex items-center justify-between py-2 text-sm">
+                <div className={rule.is_active ? '' : 'text-gray-400'}>
+                  <p>{describeAlertRule(rule)}</p>
+                  <p className="text-xs text-gray-500">
+                    {rule.site_id ? 'This site' : 'Every site in the program'}
+                    {!rule.is_active && ' · Paused'}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center space-x-2">
+                    <label className="flex items-center text-xs text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-1"
+                        checked={rule.is_active}
+                        onChange={e => setRuleActive(rule.rule_id, e.target.checked).catch(() => undefined)}
+                        disabled={isSaving}
+                        data-testid={`alert-rule-active-${rule.rule_id}`}
+                      />
+                      Active
+                    </label>
+                    <button
+                      type="button"
+                      className="p-1 text-gray-400 hover:text-error-600 disabled:opacity-50"
+                      onClick={() => deleteRule(rule.rule_id).catch(() => undefined)}
+                      disabled={isSaving}
+                      aria-label="Delete rule"
+                      data-testid={`delete-alert-rule-${rule.rule_id}`}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canEdit && !isAdding && (
+          <Button
+            variant="outline"
+            size="sm"
+            icon={<Plus size={14} />}
+            onClick={() => setIsAdding(true)}
+            testId="add-alert-rule"
+          >
+            Add Rule
+          </Button>
+        )}
+
+        {canEdit && isAdding && (
+          <div className="border border-gray-200 rounded-md p-4 mt-2" data-testid="alert-rule-form">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="alert-rule-field" className="block text-sm font-medium text-gray-700 mb-1">Reading</label>
+                <select
+                  id="alert-rule-field"
+                  className={selectClassName}
+                  value={draft.field}
+                  onChange={e => setDraft(current => ({ ...current, field: e.target.value as AlertField }))}
+                >
+                  {alertFields.map(([field, { label, perCode }]) => (
+                    <option key={field} value={field}>{perCode ? `${label} (per code)` : label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="alert-rule-comparator" className="block text-sm font-medium text-gray-700 mb-1">Alert when</label>
+                <select
+                  id="alert-rule-comparator"
+                  className={selectClassName}
+                  value={draft.comparator}
+                  onChange={e => setDraft(current => ({ ...current, comparator: e.target.value as AlertComparator }))}
+                >
+                  {alertComparators.map(([comparator, label]) => (
+                    <option key={comparator} value={comparator}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <Input
+                label={ALERT_FIELDS[draft.field].unit ? `Threshold (${ALERT_FIELDS[draft.field].unit})` : 'Threshold'}
+                id="alert-rule-threshold"
+                type="number"
+                min={ALERT_FIELDS[draft.field].min}
+                max={ALERT_FIELDS[draft.field].max}
+                step="any"
+                value={isNaN(draft.threshold) ? '' : draft.threshold}
+                onChange={e => setDraft(current => ({ ...current, threshold: parseFloat(e.target.value) }))}
+                testId="alert-rule-threshold"
+              />
+              <Input
+                label="Consecutive readings"
+                id="alert-rule-consecutive"
+                type="number"
+                min={1}
+                max={MAX_CONSECUTIVE_READINGS}
+                step={1}
+                value={isNaN(draft.consecutive_readings) ? '' : draft.consecutive_readings}
+                onChange={e => setDraft(current => ({ ...current, consecutive_readings: parseInt(e.target.value, 10) }))}
+                helperText={ALERT_FIELDS[draft.field].perCode
+                  ? 'Alert only once this many readings in a row for the same code break the rule'
+                  : 'Alert only once this many submissions in a row break the rule'}
+                testId="alert-rule-consecutive"
+              />
+              <div>
+                <label htmlFor="alert-rule-scope" className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+                <select
+                  id="alert-rule-scope"
+                  className={selectClassName}
+                  value={draft.site_id ? 'site' : 'program'}
+                  onChange={e => setDraft(current => ({ ...current, site_id: e.target.value === 'site' ? site.site_id : null }))}
+                >
+                  <option value="site">This site</option>
+                  <option value="program">Every site in the program</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-gray-600" data-testid="alert-rule-preview">
+                {draftError || describeAlertRule(draft)}
+              </p>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setIsAdding(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={handleAdd}
+                  isLoading={isSaving}
+                  disabled={!!draftError}
+                  testId="save-alert-rule"
+                >
+                  Add
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {siteAlerts.length > 0 && (
+          <div className="mt-6" data-testid="site-open-alerts">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Open alerts</h3>
+            <ul className="space-y-2">
+              {siteAlerts.map(alert => (
+                <li key={alert.alert_id} className="flex items-center justify-between bg-warning-50 border border-warning-200 rounded-md px-3 py-2 text-sm">
+                  <div>
+                    <Link to={alertLinkPath(alert)} className="text-warning-800 hover:underline">
+                      {describeSiteAlert(alert)}
+                    </Link>
+                    <p className="text-xs text-gray-500">
+                      {formatDistanceToNow(new Date(alert.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={<Check size={14} />}
+                      onClick={() => resolveAlert(alert.alert_id).catch(() => undefined)}
+                      testId={`resolve-alert-${alert.alert_id}`}
+                    >
+                      Resolve
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SiteAlertRulesCard;
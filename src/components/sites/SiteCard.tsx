@@ -1,10 +1,13 @@
-import { Leaf, Trash2, Settings, Eye, MoreVertical, Zap, History } from 'lucide-react';
+import { Leaf, Trash2, Settings, Eye, MoreVertical, Zap, History, BellRing } from 'lucide-react';
 import Card, { CardHeader, CardContent } from '../common/Card';
 import Button from '../common/Button';
 import { Site } from '../../lib/types';
 import { useState, useRef, useEffect } from 'react';
 import DeleteConfirmModal from '../common/DeleteConfirmModal';
 import { useNavigate } from 'react-router-dom';
+import ScheduleStatusBadge from './ScheduleStatusBadge';
+import { ScheduleStatus } from '../../utils/submissionSchedule';
+import { COMPARISON_GROUP_LABELS, ComparisonGroup } from '../../utils/siteComparison';
 
 interface SiteCardProps {
   site: Site;
@@ -15,6 +18,10 @@ interface SiteCardProps {
   canManageTemplate: boolean;
   canViewAuditLog?: boolean;
   programId: string;
+  // Whether the site's scheduled readings are due; omitted for unscheduled sites
+  scheduleStatus?: ScheduleStatus | null;
+  // Open threshold alerts raised by the site's readings
+  alertCount?: number;
   testId?: string;
 }
 
@@ -27,12 +34,15 @@ const SiteCard = ({
   canManageTemplate,
   canViewAuditLog = false,
   programId,
+  scheduleStatus,
+  alertCount = 0,
   testId 
 }: SiteCardProps) => {
   const navigate = useNavigate();
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showActionsDropdown, setShowActionsDropdown] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const comparisonGroup: ComparisonGroup | null | undefined = site.comparison_group;
   
   // Handle click outside to close the dropdown
   useEffect(() => {
@@ -61,9 +71,29 @@ const SiteCard = ({
             <h3 className="text-lg font-semibold text-gray-900 truncate" title={site.name}>
               {site.name}
             </h3>
-            <span className="pill bg-secondary-100 text-secondary-800" data-testid={`site-type-${site.site_id}`}>
-              {site.type}
-            </span>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {alertCount > 0 && (
+                <span
+                  className="pill bg-warning-100 text-warning-800 flex items-center"
+                  title={`${alertCount} open alert${alertCount === 1 ? '' : 's'}`}
+                  data-testid={`site-alert-count-${site.site_id}`}
+                >
+                  <BellRing size={12} className="mr-1" />
+                  {alertCount}
+                </span>
+              )}
+              {comparisonGroup && (
+                <span
+                  className={`pill ${comparisonGroup === 'treatment' ? 'bg-primary-100 text-primary-800' : 'bg-gray-100 text-gray-700'}`}
+                  data-testid={`site-comparison-group-${site.site_id}`}
+                >
+                  {COMPARISON_GROUP_LABELS[comparisonGroup]}
+                </span>
+              )}
+              <span className="pill bg-secondary-100 text-secondary-800" data-testid={`site-type-${site.site_id}`}>
+                {site.type}
+              </span>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="flex justify-between items-center" testId={`site-content-${site.site_id}`}>
@@ -80,6 +110,14 @@ const SiteCard = ({
               </div>
               <span className="text-gray-500">{site.total_gasifiers} Gasifier samples</span>
             </div>
+            {scheduleStatus && (
+              <div>
+                <ScheduleStatusBadge
+                  status={scheduleStatus}
+                  testId={`site-schedule-status-${site.site_id}`}
+                />
+              </div>
+            )}
           </div>
           
           {/* Actions Dropdown Button */}
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Users } from 'lucide-react';
+import Card, { CardHeader, CardContent } from '../common/Card';
+import { Site } from '../../lib/types';
+import { COMPARISON_GROUP_LABELS, COMPARISON_GROUPS, ComparisonGroup } from '../../utils/siteComparison';
+
+interface SiteComparisonGroupsCardProps {
+  sites: Site[];
+  canEdit: boolean;
+  onChange: (siteId: string, group: ComparisonGroup | null) => Promise<unknown>;
+}
+
+// Which of a program's sites are control sites and which are treatment sites
+const SiteComparisonGroupsCard = ({ sites, canEdit, onChange }: SiteComparisonGroupsCardProps) => {
+  const [savingSiteId, setSavingSiteId] = useState<string | null>(null);
+
+  const handleChange = async (siteId: string, value: string) => {
+    setSavingSiteId(siteId);
+    try {
+      await onChange(siteId, value ? value as ComparisonGroup : null);
+    } finally {
+      setSavingSiteId(null);
+    }
+  };
+
+  const sortedSites = [...sites].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+  return (
+    <Card testId="site-comparison-groups">
+      <CardHeader>
+        <h2 className="text-lg font-semibold flex items-center">
+          <Users className="mr-2 h-5 w-5 text-primary-600" />
+          Site Groups
+        </h2>
+      </CardHeader>
+      <CardContent>
+        {sortedSites.length === 0 ? (
+          <p className="text-sm text-gray-600">This program has no sites yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {sortedSites.map(site => (
+              <li key={site.site_id} className="flex items-center justify-between gap-2 py-2">
+                <label htmlFor={`comparison-group-${site.site_id}`} className="text-sm text-gray-900 truncate" title={site.name}>
+                  {site.name}
+                </label>
+                <select
+                  id={`comparison-group-${site.site_id}`}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+                  value={site.comparison_group || ''}
+                  onChange={e => handleChange(site.site_id, e.target.value)}
+                  disabled={!canEdit || savingSiteId === site.site_id}
+                  data-testid={`comparison-group-${site.site_id}`}
+                >
+                  <option value="">Not compared</option>
+                  {COMPARISON_GROUPS.map(group => (
+                    <option key={group} value={group}>{COMPARISON_GROUP_LABELS[group]}</option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SiteComparisonGroupsCard;
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { ListChecks, Save } from 'lucide-react';
+import Button from '../common/Button';
+import Card, { CardHeader, CardContent } from '../common/Card';
+import { Site } from '../../lib/types';
+import {
+  CompletionRules,
+  DEFAULT_COMPLETION_RULES,
+  GASIFIER_COMPLETION_FIELDS,
+  GasifierCompletionField,
+  PETRI_COMPLETION_FIELDS,
+  PetriCompletionField,
+  describeRequiredFields,
+  resolveCompletionRules
+} from '../../utils/completionRules';
+
+interface SiteCompletionRulesCardProps {
+  site: Site;
+  canEdit: boolean;
+  onSave: (rules: CompletionRules | null) => Promise<unknown>;
+}
+
+const petriFields = Object.entries(PETRI_COMPLETION_FIELDS) as [PetriCompletionField, string][];
+const gasifierFields = Object.entries(GASIFIER_COMPLETION_FIELDS) as [GasifierCompletionField, string][];
+
+// Which fields a site's petri and gasifier observations need before they count as complete
+const SiteCompletionRulesCard = ({ site, canEdit, onSave }: SiteCompletionRulesCardProps) => {
+  const [useDefaults, setUseDefaults] = useState(!site.completion_rules);
+  const [rules, setRules] = useState<CompletionRules>(resolveCompletionRules(site.completion_rules));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setUseDefaults(!site.completion_rules);
+    setRules(resolveCompletionRules(site.completion_rules));
+  }, [site.completion_rules]);
+
+  const savedRules = site.completion_rules ? resolveCompletionRules(site.completion_rules) : null;
+  const nextRules = useDefaults ? null : rules;
+  const isDirty = JSON.stringify(nextRules) !== JSON.stringify(savedRules);
+
+  const togglePetriField = (field: PetriCompletionField) => {
+    setRules(current => ({
+      ...current,
+      petri: {
+        required: current.petri.required.includes(field)
+          ? current.petri.required.filter(f => f !== field)
+          : petriFields.map(([f]) => f).filter(f => f === field || current.petri.required.includes(f))
+      }
+    }));
+  };
+
+  const toggleGasifierField = (field: GasifierCompletionField) => {
+    setRules(current => ({
+      ...current,
+      gasifier: {
+        required: current.gasifier.required.includes(field)
+          ? current.gasifier.required.filter(f => f !== field)
+          : gasifierFields.map(([f]) => f).filter(f => f === field || current.gasifier.required.includes(f))
+      }
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(nextRules);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const effectiveRules = useDefaults ? DEFAULT_COMPLETION_RULES : rules;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <h2 className="text-xl font-semibold flex items-center">
+          <ListChecks className="mr-2 h-5 w-5 text-primary-600" />
+          Completion Criteria
+        </h2>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          An observation counts towards a session's progress once it has every required field.
+        </p>
+
+        <label className="flex items-center text-sm mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+            checked={useDefaults}
+            onChange={e => setUseDefaults(e.target.checked)}
+            disabled={!canEdit}
+            data-testid="completion-rules-use-defaults"
+          />
+          Use the default criteria
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <fieldset disabled={!canEdit || useDefaults} data-testid="completion-rules-petri">
+            <legend className="text-sm font-medium text-gray-700 mb-2">Petri observations</legend>
+            <div className="space-y-1">
+              {petriFields.map(([field, label]) => (
+                <label key={field} className="flex items-center text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                    checked={effectiveRules.petri.required.includes(field)}
+                    onChange={() => togglePetriField(field)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset disabled={!canEdit || useDefaults} data-testid="completion-rules-gasifier">
+            <legend className="text-sm font-medium text-gray-700 mb-2">Gasifier observations</legend>
+            <div className="space-y-1">
+              {gasifierFields.map(([field, label]) => (
+                <label key={field} className="flex items-center text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                    checked={effectiveRules.gasifier.required.includes(field)}
+                    onChange={() => toggleGasifierField(field)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="flex items-center justify-between mt-4">
+          <div className="text-sm text-gray-600" data-testid="completion-rules-summary">
+            <p>Petri: {describeRequiredFields('petri', effectiveRules)}</p>
+            <p>Gasifier: {describeRequiredFields('gasifier', effectiveRules)}</p>
+          </div>
+          {canEdit && (
+            <Button
+              variant="primary"
+              size="sm"
+              icon={<Save size={14} />}
+              onClick={handleSave}
+              isLoading={isSaving}
+              disabled={!isDirty}
+              testId="save-site-completion-rules"
+            >
+              Save
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SiteCompletionRulesCard;
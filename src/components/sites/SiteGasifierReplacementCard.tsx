@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { Hourglass, Save } from 'lucide-react';
+import Button from '../common/Button';
+import Input from '../common/Input';
+import Card, { CardHeader, CardContent } from '../common/Card';
+import { Site } from '../../lib/types';
+import {
+  DEFAULT_GASIFIER_REPLACEMENT_POLICY,
+  GasifierReplacementPolicy,
+  MEASURE_MAX,
+  MEASURE_MIN,
+  resolveReplacementPolicy
+} from '../../utils/gasifierDepletion';
+
+interface SiteGasifierReplacementCardProps {
+  site: Site;
+  canEdit: boolean;
+  onSave: (policy: GasifierReplacementPolicy | null) => Promise<unknown>;
+}
+
+const MAX_LEAD_DAYS = 60;
+
+// The measure at which a site's gasifier bags are replaced, and how much warning to give
+const SiteGasifierReplacementCard = ({ site, canEdit, onSave }: SiteGasifierReplacementCardProps) => {
+  const [useDefaults, setUseDefaults] = useState(!site.gasifier_replacement_policy);
+  const [policy, setPolicy] = useState<GasifierReplacementPolicy>(resolveReplacementPolicy(site.gasifier_replacement_policy));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setUseDefaults(!site.gasifier_replacement_policy);
+    setPolicy(resolveReplacementPolicy(site.gasifier_replacement_policy));
+  }, [site.gasifier_replacement_policy]);
+
+  const savedPolicy = site.gasifier_replacement_policy ? resolveReplacementPolicy(site.gasifier_replacement_policy) : null;
+  const nextPolicy = useDefaults ? null : policy;
+  const isDirty = JSON.stringify(nextPolicy) !== JSON.stringify(savedPolicy);
+
+  const thresholdError = !useDefaults && (isNaN(policy.threshold) || policy.threshold < MEASURE_MIN || policy.threshold > MEASURE_MAX)
+    ? `Enter a measure from ${MEASURE_MIN} to ${MEASURE_MAX}`
+    : undefined;
+  const leadDaysError = !useDefaults && (!Number.isInteger(policy.lead_days) || policy.lead_days < 0 || policy.lead_days > MAX_LEAD_DAYS)
+    ? `Enter a whole number of days up to ${MAX_LEAD_DAYS}`
+    : undefined;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(nextPolicy);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const effectivePolicy = useDefaults ? DEFAULT_GASIFIER_REPLACEMENT_POLICY : policy;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <h2 className="text-xl font-semibold flex items-center">
+          <Hourglass className="mr-2 h-5 w-5 text-primary-600" />
+          Gasifier Replacement
+        </h2>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          Each gasifier's measures are trended across submissions to project when it reaches the replacement
+          threshold. Readings flagged as anomalies are left out.
+        </p>
+
+        <label className="flex items-center text-sm mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+            checked={useDefaults}
+            onChange={e => setUseDefaults(e.target.checked)}
+            disabled={!canEdit}
+            data-testid="gasifier-replacement-use-defaults"
+          />
+          Use the defaults
+        </label>
+
+        <fieldset disabled={!canEdit || useDefaults} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Replace at measure"
+            id="gasifier-replacement-threshold"
+            type="number"
+            min={MEASURE_MIN}
+            max={MEASURE_MAX}
+            step={0.1}
+            value={isNaN(effectivePolicy.threshold) ? '' : effectivePolicy.threshold}
+            onChange={e => setPolicy(current => ({ ...current, threshold: parseFloat(e.target.value) }))}
+            error={thresholdError}
+            helperText={`Bags at or below this are due for replacement (${MEASURE_MIN}-${MEASURE_MAX})`}
+            testId="gasifier-replacement-threshold"
+          />
+          <Input
+            label="Warn days ahead"
+            id="gasifier-replacement-lead-days"
+            type="number"
+            min={0}
+            max={MAX_LEAD_DAYS}
+            step={1}
+            value={isNaN(effectivePolicy.lead_days) ? '' : effectivePolicy.lead_days}
+            onChange={e => setPolicy(current => ({ ...current, lead_days: parseInt(e.target.value, 10) }))}
+            error={leadDaysError}
+            helperText="Bags projected to reach the threshold within this many days are listed to replace soon"
+            testId="gasifier-replacement-lead-days"
+          />
+        </fieldset>
+
+        {canEdit && (
+          <div className="flex justify-end">
+            <Button
+              variant="primary"
+              size="sm"
+              icon={<Save size={14} />}
+              onClick={handleSave}
+              isLoading={isSaving}
+              disabled={!isDirty || !!thresholdError || !!leadDaysError}
+              testId="save-gasifier-replacement-policy"
+            >
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SiteGasifierReplacementCard;
@@ -0,0 +1,207 @@
+import { useMemo, useRef, useState } from 'react';
+import { Printer, QrCode } from 'lucide-react';
+import Button from '../common/Button';
+import Input from '../common/Input';
+import Card, { CardHeader, CardContent } from '../common/Card';
+import { GasifierDefaults, PetriDefaults, Site } from '../../lib/types';
+import {
+  DEFAULT_LABEL_SHEET_LAYOUT,
+  DEFAULT_LABEL_SHEET_OPTIONS,
+  LABEL_SHEET_LAYOUTS,
+  LabelSheetOptions,
+  buildLabelSheetHtml,
+  getLabelSheetLayout,
+  labelsPerSheet,
+  paginateLabels,
+  screenHeight,
+  templateLabels
+} from '../../utils/labelSheets';
+
+interface SiteLabelSheetCardProps {
+  site: Site;
+}
+
+const MAX_COPIES = 10;
+
+// CSS pixels per millimetre, and how far the sheet preview is shrunk
+const PX_PER_MM = 96 / 25.4;
+const PREVIEW_SCALE = 0.45;
+
+// QR labels for the codes on a site's template, laid out on a label sheet to print
+const SiteLabelSheetCard = ({ site }: SiteLabelSheetCardProps) => {
+  const previewRef = useRef<HTMLIFrameElement>(null);
+  const [layoutId, setLayoutId] = useState(DEFAULT_LABEL_SHEET_LAYOUT.id);
+  const [options, setOptions] = useState<LabelSheetOptions>(DEFAULT_LABEL_SHEET_OPTIONS);
+
+  const layout = getLabelSheetLayout(layoutId);
+  const perSheet = labelsPerSheet(layout);
+
+  const labels = useMemo(
+    () => templateLabels(
+      site.name,
+      site.petri_defaults as PetriDefaults[] | null,
+      site.gasifier_defaults as GasifierDefaults[] | null,
+      options
+    ),
+    [site.name, site.petri_defaults, site.gasifier_defaults, options]
+  );
+
+  const sheets = useMemo(() => paginateLabels(labels, layout, options), [labels, layout, options]);
+
+  const html = useMemo(
+    () => buildLabelSheetHtml(sheets, layout, `${site.name} labels`),
+    [sheets, layout, site.name]
+  );
+
+  const update = (changes: Partial<LabelSheetOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const hasTemplateCodes = templateLabels(
+    site.name,
+    site.petri_defaults as PetriDefaults[] | null,
+    site.gasifier_defaults as GasifierDefaults[] | null,
+    DEFAULT_LABEL_SHEET_OPTIONS
+  ).length > 0;
+
+  const labelCount = labels.length * options.copies;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <h2 className="text-xl font-semibold flex items-center">
+          <QrCode className="mr-2 h-5 w-5 text-primary-600" />
+          Labels
+        </h2>
+      </CardHeader>
+      <CardContent>
+        {!hasTemplateCodes ? (
+          <p className="text-sm text-gray-600" data-testid="site-labels-empty">
+            Add petri or gasifier codes to the template to print labels for them.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="mb-4">
+                <label htmlFor="site-labels-layout" className="block text-sm font-medium text-gray-700 mb-1">
+                  Label sheet
+                </label>
+                <select
+                  id="site-labels-layout"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  value={layoutId}
+                  onChange={e => {
+                    setLayoutId(e.target.value);
+                    update({ startPosition: 1 });
+                  }}
+                  data-testid="site-labels-layout"
+                >
+                  {LABEL_SHEET_LAYOUTS.map(option => (
+                    <option key={option.id} value={option.id}>
+                      {option.name} ({option.description})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="mb-4">
+                <p className="block text-sm font-medium text-gray-700 mb-1">Codes</p>
+                <div className="flex items-center space-x-4 py-2">
+                  <label className="flex items-center text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                      checked={options.includePetri}
+                      onChange={e => update({ includePetri: e.target.checked })}
+                      data-testid="site-labels-include-petri"
+                    />
+                    Petri dishes
+                  </label>
+                  <label className="flex items-center text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                      checked={options.includeGasifier}
+                      onChange={e => update({ includeGasifier: e.target.checked })}
+                      data-testid="site-labels-include-gasifier"
+                    />
+                    Gasifier bags
+                  </label>
+                </div>
+              </div>
+
+              <Input
+                label="Copies of each label"
+                id="site-labels-copies"
+                type="number"
+                min={1}
+                max={MAX_COPIES}
+                value={options.copies}
+                onChange={e => update({ copies: Math.min(MAX_COPIES, Math.max(1, Number(e.target.value) || 1)) })}
+                testId="site-labels-copies"
+              />
+              <Input
+                label="Start at label"
+                id="site-labels-start"
+                type="number"
+                min={1}
+                max={perSheet}
+                value={options.startPosition}
+                onChange={e => update({ startPosition: Math.min(perSheet, Math.max(1, Number(e.target.value) || 1)) })}
+                helperText="Skip labels already used on a partly used sheet, counting across rows"
+                testId="site-labels-start"
+              />
+            </div>
+
+            {labelCount === 0 ? (
+              <p className="text-sm text-gray-600 mb-4">Choose petri dishes, gasifier bags or both.</p>
+            ) : (
+              <div
+                className="mb-4 overflow-auto bg-gray-200 rounded-md border border-gray-200"
+                style={{ maxHeight: 480 }}
+              >
+                <div
+                  style={{
+                    width: layout.pageWidth * PX_PER_MM * PREVIEW_SCALE,
+                    height: screenHeight(layout, sheets.length) * PX_PER_MM * PREVIEW_SCALE
+                  }}
+                  className="mx-auto"
+                >
+                  <iframe
+                    ref={previewRef}
+                    title={`${site.name} label sheets`}
+                    srcDoc={html}
+                    style={{
+                      width: layout.pageWidth * PX_PER_MM,
+                      height: screenHeight(layout, sheets.length) * PX_PER_MM,
+                      transform: `scale(${PREVIEW_SCALE})`,
+                      transformOrigin: 'top left',
+                      border: 0
+                    }}
+                    data-testid="site-labels-preview"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600" data-testid="site-labels-summary">
+                {labelCount} {labelCount === 1 ? 'label' : 'labels'} on {sheets.length} {sheets.length === 1 ? 'sheet' : 'sheets'}.
+                Print with margins set to none and scale at 100%, or save as PDF.
+              </p>
+              <Button
+                variant="primary"
+                icon={<Printer size={16} />}
+                onClick={() => previewRef.current?.contentWindow?.print()}
+                disabled={labelCount === 0}
+                testId="site-labels-print"
+              >
+                Print Labels
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SiteLabelSheetCard;
@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react';
+import { CalendarClock, Save } from 'lucide-react';
+import Button from '../common/Button';
+import Input from '../common/Input';
+import Card, { CardHeader, CardContent } from '../common/Card';
+import { Site } from '../../lib/types';
+import { getDeviceTimeZone, getZonedParts, isValidTimeZone } from '../../utils/sessionExpiration';
+import {
+  DAY_LABELS,
+  MAX_INTERVAL_WEEKS,
+  SubmissionSchedule,
+  describeSchedule,
+  formatScheduleTime,
+  getScheduleStatus,
+  isValidSchedule
+} from '../../utils/submissionSchedule';
+
+interface SiteScheduleCardProps {
+  site: Site;
+  canEdit: boolean;
+  onSave: (schedule: SubmissionSchedule | null) => Promise<unknown>;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Today's date at the site as YYYY-MM-DD
+const siteToday = (timeZone: string) => {
+  const { year, month, day } = getZonedParts(new Date(), timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const defaultSchedule = (timeZone: string): SubmissionSchedule => ({
+  days_of_week: [1, 3, 5],
+  interval_weeks: 1,
+  starts_on: siteToday(timeZone),
+  window_start: null,
+  window_end: null
+});
+
+// The days and site-local window a site's readings are due
+const SiteScheduleCard = ({ site, canEdit, onSave }: SiteScheduleCardProps) => {
+  const timeZone = isValidTimeZone(site.timezone) ? site.timezone : getDeviceTimeZone();
+  const [isScheduled, setIsScheduled] = useState(!!site.submission_schedule);
+  const [schedule, setSchedule] = useState<SubmissionSchedule>(site.submission_schedule || defaultSchedule(timeZone));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsScheduled(!!site.submission_schedule);
+    setSchedule(site.submission_schedule || defaultSchedule(timeZone));
+  }, [site.submission_schedule, timeZone]);
+
+  const nextSchedule = isScheduled ? schedule : null;
+  const isDirty = JSON.stringify(nextSchedule) !== JSON.stringify(site.submission_schedule ?? null);
+  const scheduleError = isScheduled && !isValidSchedule(schedule)
+    ? 'Choose at least one day and a start date'
+    : undefined;
+
+  const nextWindow = isScheduled && !scheduleError
+    ? getScheduleStatus(schedule, { timeZone }).nextWindow
+    : null;
+
+  const update = (changes: Partial<SubmissionSchedule>) => {
+    setSchedule(current => ({ ...current, ...changes }));
+  };
+
+  const toggleDay = (day: number) => {
+    update({
+      days_of_week: schedule.days_of_week.includes(day)
+        ? schedule.days_of_week.filter(d => d !== day)
+        : [...schedule.days_of_week, day].sort((a, b) => a - b)
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(nextSchedule);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <h2 className="text-xl font-semibold flex items-center">
+          <CalendarClock className="mr-2 h-5 w-5 text-primary-600" />
+          Submission Schedule
+        </h2>
+      </CardHeader>
+      <CardContent>
+        <label className="flex items-center text-sm mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+            checked={isScheduled}
+            onChange={e => setIsScheduled(e.target.checked)}
+            disabled={!canEdit}
+            data-testid="site-schedule-enabled"
+          />
+          Readings are due on a recurring schedule
+        </label>
+
+        {isScheduled && (
+          <fieldset disabled={!canEdit} data-testid="site-schedule-fields">
+            <p className="block text-sm font-medium text-gray-700 mb-1">Days</p>
+            <div className="flex flex-wrap gap-2 mb-4" role="group" aria-label="Days readings are due">
+              {DAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={`px-3 py-1.5 rounded-md text-sm border transition-colors ${
+                    schedule.days_of_week.includes(day)
+                      ? 'bg-primary-100 border-primary-200 text-primary-800'
+                      : 'bg-gray-50 border-gray-200 text-gray-600 hover:bg-gray-100'
+                  }`}
+                  aria-pressed={schedule.days_of_week.includes(day)}
+                  data-testid={`site-schedule-day-${day}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="mb-4">
+                <label htmlFor="site-schedule-interval" className="block text-sm font-medium text-gray-700 mb-1">
+                  Repeats
+                </label>
+                <select
+                  id="site-schedule-interval"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  value={schedule.interval_weeks || 1}
+                  onChange={e => update({ interval_weeks: Number(e.target.value) })}
+                  data-testid="site-schedule-interval"
+                >
+                  {Array.from({ length: MAX_INTERVAL_WEEKS }, (_, index) => index + 1).map(weeks => (
+                    <option key={weeks} value={weeks}>
+                      {weeks === 1 ? 'Every week' : `Every ${weeks} weeks`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <Input
+                label="Starts on"
+                id="site-schedule-starts-on"
+                type="date"
+                value={schedule.starts_on}
+                onChange={e => update({ starts_on: e.target.value })}
+                testId="site-schedule-starts-on"
+              />
+              <Input
+                label="Window opens"
+                id="site-schedule-window-start"
+                type="time"
+                value={schedule.window_start || ''}
+                onChange={e => update({ window_start: e.target.value || null })}
+                helperText="Leave empty to allow readings from midnight"
+                testId="site-schedule-window-start"
+              />
+              <Input
+                label="Window closes"
+                id="site-schedule-window-end"
+                type="time"
+                value={schedule.window_end || ''}
+                onChange={e => update({ window_end: e.target.value || null })}
+                helperText="Leave empty to allow readings until the end of the day"
+                testId="site-schedule-window-end"
+              />
+            </div>
+          </fieldset>
+        )}
+
+        <div className="flex items-center justify-between mt-2">
+          <div className="text-sm text-gray-600" data-testid="site-schedule-preview">
+            {!isScheduled ? (
+              <p>This site has no schedule, so it is never shown as due or overdue.</p>
+            ) : scheduleError ? (
+              <p className="text-error-600">{scheduleError}</p>
+            ) : (
+              <>
+                <p>{describeSchedule(schedule)} ({timeZone})</p>
+                {nextWindow && (nextWindow.start <= new Date() ? (
+                  <p>
+                    A window is open until{' '}
+                    <span className="font-medium">{formatScheduleTime(nextWindow.end, timeZone, true)}</span>
+                  </p>
+                ) : (
+                  <p>
+                    Next window opens{' '}
+                    <span className="font-medium">{formatScheduleTime(nextWindow.start, timeZone, true)}</span>
+                  </p>
+                ))}
+              </>
+            )}
+          </div>
+          {canEdit && (
+            <Button
+              variant="primary"
+              size="sm"
+              icon={<Save size={14} />}
+              onClick={handleSave}
+              isLoading={isSaving}
+              disabled={!isDirty || !!scheduleError}
+              testId="save-site-schedule"
+            >
+              Save
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SiteScheduleCard;
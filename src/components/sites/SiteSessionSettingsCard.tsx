@@ -0,0 +1,130 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Clock, Save } from 'lucide-react';
+import Button from '../common/Button';
+import Input from '../common/Input';
+import Card, { CardHeader, CardContent } from '../common/Card';
+import SessionExpirationPolicyFields from '../submissions/SessionExpirationPolicyFields';
+import { Site, PilotProgram } from '../../lib/types';
+import {
+  SessionExpirationPolicy,
+  calculateSessionExpiration,
+  describeExpirationPolicy,
+  getDeviceTimeZone,
+  isValidTimeZone,
+  resolveExpirationPolicy
+} from '../../utils/sessionExpiration';
+
+interface SiteSessionSettingsCardProps {
+  site: Site;
+  program?: PilotProgram | null;
+  canEdit: boolean;
+  onSave: (timezone: string | null, policy: SessionExpirationPolicy | null) => Promise<unknown>;
+}
+
+// Timezones offered as suggestions; any IANA name is accepted
+const timeZoneSuggestions = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  return intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+};
+
+// Site timezone and the policy that decides when its submission sessions expire
+const SiteSessionSettingsCard = ({ site, program, canEdit, onSave }: SiteSessionSettingsCardProps) => {
+  const [timezone, setTimezone] = useState(site.timezone || '');
+  const [policy, setPolicy] = useState<SessionExpirationPolicy | null>(site.session_expiration_policy ?? null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setTimezone(site.timezone || '');
+    setPolicy(site.session_expiration_policy ?? null);
+  }, [site.timezone, site.session_expiration_policy]);
+
+  const suggestions = useMemo(timeZoneSuggestions, []);
+  const timezoneError = timezone && !isValidTimeZone(timezone) ? 'Enter a timezone such as America/Chicago' : undefined;
+
+  const effectivePolicy = resolveExpirationPolicy(policy, program?.session_expiration_policy);
+  const effectiveTimezone = isValidTimeZone(timezone) ? timezone : getDeviceTimeZone();
+  const previewExpiration = calculateSessionExpiration(new Date(), effectivePolicy, effectiveTimezone);
+
+  const isDirty = timezone !== (site.timezone || '') ||
+    JSON.stringify(policy) !== JSON.stringify(site.session_expiration_policy ?? null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(timezone || null, policy);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inheritLabel = program?.session_expiration_policy
+    ? `Use the program setting (${describeExpirationPolicy(program.session_expiration_policy).toLowerCase()})`
+    : 'Use the program setting (end of the site-local day)';
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <h2 className="text-xl font-semibold flex items-center">
+          <Clock className="mr-2 h-5 w-5 text-primary-600" />
+          Session Expiration
+        </h2>
+      </CardHeader>
+      <CardContent>
+        <Input
+          label="Site timezone"
+          id="site-timezone"
+          list="site-timezone-options"
+          placeholder={getDeviceTimeZone()}
+          value={timezone}
+          onChange={e => setTimezone(e.target.value.trim())}
+          error={timezoneError}
+          helperText="Expiration times are evaluated in this timezone, whatever the technician's device is set to"
+          disabled={!canEdit}
+          testId="site-timezone-input"
+        />
+        <datalist id="site-timezone-options">
+          {suggestions.map(zone => (
+            <option key={zone} value={zone} />
+          ))}
+        </datalist>
+
+        <SessionExpirationPolicyFields
+          value={policy}
+          onChange={setPolicy}
+          inheritLabel={inheritLabel}
+          disabled={!canEdit}
+          testId="site-expiration-policy"
+        />
+
+        <div className="flex items-center justify-between mt-2">
+          <p className="text-sm text-gray-600" data-testid="site-expiration-preview">
+            A session started now would expire at{' '}
+            <span className="font-medium">
+              {previewExpiration.toLocaleString(undefined, {
+                timeZone: effectiveTimezone,
+                dateStyle: 'medium',
+                timeStyle: 'short'
+              })}
+            </span>{' '}
+            ({effectiveTimezone})
+          </p>
+          {canEdit && (
+            <Button
+              variant="primary"
+              size="sm"
+              icon={<Save size={14} />}
+              onClick={handleSave}
+              isLoading={isSaving}
+              disabled={!isDirty || !!timezoneError}
+              testId="save-site-session-settings"
+            >
+              Save
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SiteSessionSettingsCard;
@@ -1,29 +1,100 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { ClipboardList, Clock, User, BarChart4, X, ChevronRight, Users, Hash } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { ClipboardList, X, CheckSquare, Filter } from 'lucide-react';
 import Button from '../common/Button';
 import { useSessionStore } from '../../stores/sessionStore';
 import sessionManager from '../../lib/sessionManager';
 import { formatDistanceToNow } from 'date-fns';
 import { supabase } from '../../lib/supabaseClient';
 import SessionProgress from './SessionProgress';
+import BulkSessionActions from './BulkSessionActions';
+import { useSessionProgressUpdates } from '../../hooks/useSessionPresence';
+import { ActiveSession } from '../../types/session';
 
 interface ActiveSessionsDrawerProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+type SessionScope = 'mine' | 'administered';
+
+interface SessionFilters {
+  programId: string;
+  siteId: string;
+  status: string;
+  // Minimum minutes since the last activity, 0 for any
+  idleMinutes: number;
+}
+
+const emptyFilters: SessionFilters = { programId: '', siteId: '', status: '', idleMinutes: 0 };
+
+const idleOptions = [
+  { value: 0, label: 'Any age' },
+  { value: 60, label: 'Idle 1+ hour' },
+  { value: 24 * 60, label: 'Idle 1+ day' },
+  { value: 3 * 24 * 60, label: 'Idle 3+ days' },
+  { value: 7 * 24 * 60, label: 'Idle 7+ days' }
+];
+
+const filterSelectClasses = 'w-full px-2 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+const matchesFilters = (session: ActiveSession, filters: SessionFilters, now: number) =>
+  (!filters.programId || session.program_id === filters.programId) &&
+  (!filters.siteId || session.site_id === filters.siteId) &&
+  (!filters.status || session.session_status === filters.status) &&
+  (!filters.idleMinutes || now - new Date(session.last_activity_time).getTime() >= filters.idleMinutes * 60000);
+
 const ActiveSessionsDrawer: React.FC<ActiveSessionsDrawerProps> = ({ isOpen, onClose }) => {
-  const navigate = useNavigate();
   const { 
     activeSessions, 
     setActiveSessions, 
     setIsLoading,
     setError,
+    updateSession,
     currentSessionId
   } = useSessionStore();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [sharedUsersDetails, setSharedUsersDetails] = useState<Map<string, { full_name: string | null; email: string }>>(new Map());
+  // Active sessions in the programs this user administers; empty for everyone else
+  const [administeredSessions, setAdministeredSessions] = useState<ActiveSession[]>([]);
+  const [scope, setScope] = useState<SessionScope>('mine');
+  const [filters, setFilters] = useState<SessionFilters>(emptyFilters);
+  const [showFilters, setShowFilters] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const listedSessions = scope === 'administered' ? administeredSessions : activeSessions;
+
+  const filteredSessions = useMemo(() => {
+    const now = Date.now();
+    return listedSessions.filter(session => matchesFilters(session, filters, now));
+  }, [listedSessions, filters]);
+
+  // Only act on selected sessions the filters still show
+  const selectedSessions = useMemo(
+    () => filteredSessions.filter(session => selectedIds.has(session.session_id)),
+    [filteredSessions, selectedIds]
+  );
+
+  const programOptions = useMemo(() => {
+    const byId = new Map<string, string>();
+    listedSessions.forEach(session => byId.set(session.program_id, session.program_name));
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [listedSessions]);
+
+  const siteOptions = useMemo(() => {
+    const byId = new Map<string, string>();
+    listedSessions
+      .filter(session => !filters.programId || session.program_id === filters.programId)
+      .forEach(session => byId.set(session.site_id, session.site_name));
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [listedSessions, filters.programId]);
+
+  const statusOptions = useMemo(
+    () => Array.from(new Set(listedSessions.map(session => session.session_status))).sort(),
+    [listedSessions]
+  );
+
+  const hasActiveFilters = filters.programId || filters.siteId || filters.status || filters.idleMinutes > 0;
 
   // Load active sessions when the drawer is opened
   useEffect(() => {
@@ -32,18 +103,33 @@ const ActiveSessionsDrawer: React.FC<ActiveSessionsDrawerProps> = ({ isOpen, onC
     }
   }, [isOpen]);
 
+  // Keep progress current from updates broadcast by whoever is working on each session
+  useSessionProgressUpdates(
+    isOpen ? listedSessions.map(session => session.session_id) : [],
+    ({ sessionId, percentage_complete, session_status, last_activity_time }) => {
+      const updates = { percentage_complete, session_status, last_activity_time };
+      updateSession(sessionId, updates);
+      setAdministeredSessions(sessions =>
+        sessions.map(session => (session.session_id === sessionId ? { ...session, ...updates } : session))
+      );
+    }
+  );
+
   // Function to load active sessions
   const loadActiveSessions = async () => {
     setIsRefreshing(true);
     try {
       setIsLoading(true);
       
-      // Get active sessions using the enhanced RPC function
-      const sessions = await sessionManager.getActiveSessions();
+      // Get active sessions using the enhanced RPC function, and those of any programs the user administers
+      const [sessions, administered] = await Promise.all([
+        sessionManager.getActiveSessions(),
+        sessionManager.getAdministeredSessions().catch(() => [] as ActiveSession[])
+      ]);
       
       // Collect all unique user IDs from escalated_to_user_ids arrays
       const uniqueUserIds = new Set<string>();
-      sessions.forEach(session => {
+      [...sessions, ...administered].forEach(session => {
         if (session.escalated_to_user_ids && session.escalated_to_user_ids.length > 0) {
           session.escalated_to_user_ids.forEach(userId => uniqueUserIds.add(userId));
         }
@@ -69,6 +155,10 @@ const ActiveSessionsDrawer: React.FC<ActiveSessionsDrawerProps> = ({ isOpen, onC
       }
       
       setActiveSessions(sessions);
+      setAdministeredSessions(administered);
+      if (administered.length === 0) {
+        setScope('mine');
+      }
     } catch (error) {
       console.error('Error loading active sessions:', error);
       setError('Failed to load active sessions');
@@ -78,8 +168,45 @@ const ActiveSessionsDrawer: React.FC<ActiveSessionsDrawerProps> = ({ isOpen, onC
     }
   };
 
+  const changeScope = (next: SessionScope) => {
+    setScope(next);
+    setFilters(emptyFilters);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelecting = () => {
+    setIsSelecting(selecting => !selecting);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (sessionId: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(sessionId)) {
+        next.delete(sessionId);
+      } else {
+        next.add(sessionId);
+      }
+      return next;
+    });
+  };
+
+  const allShownSelected = filteredSessions.length > 0 && selectedSessions.length === filteredSessions.length;
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allShownSelected ? new Set() : new Set(filteredSessions.map(session => session.session_id)));
+  };
+
+  const handleBulkCompleted = () => {
+    setSelectedIds(new Set());
+    loadActiveSessions();
+  };
+
+  // Nothing inside needs to stay subscribed to live updates while the drawer is closed
+  if (!isOpen) return null;
+
   return (
-    <div className={`fixed inset-0 z-50 ${isOpen ? 'block' : 'hidden'}`}>
+    <div className="fixed inset-0 z-50 block">
       {/* Backdrop */}
       <div 
         className="absolute inset-0 bg-black bg-opacity-50"
@@ -104,26 +231,149 @@ const ActiveSessionsDrawer: React.FC<ActiveSessionsDrawerProps> = ({ isOpen, onC
             </button>
           </div>
           
+          {/* Scope */}
+          {administeredSessions.length > 0 && (
+            <div className="px-4 pt-3 flex border-b border-gray-200" role="tablist">
+              <button
+                role="tab"
+                aria-selected={scope === 'mine'}
+                onClick={() => changeScope('mine')}
+                className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${scope === 'mine' ? 'border-primary-600 text-primary-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                data-testid="sessions-scope-mine"
+              >
+                My Sessions ({activeSessions.length})
+              </button>
+              <button
+                role="tab"
+                aria-selected={scope === 'administered'}
+                onClick={() => changeScope('administered')}
+                className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${scope === 'administered' ? 'border-primary-600 text-primary-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                data-testid="sessions-scope-administered"
+              >
+                My Programs ({administeredSessions.length})
+              </button>
+            </div>
+          )}
+
           {/* Content */}
           <div className="flex-1 overflow-y-auto p-4">
             <div className="mb-4 flex justify-between items-center">
               <p className="text-sm text-gray-600">
-                {activeSessions.length === 0 
-                  ? 'You have no active sessions' 
-                  : `You have ${activeSessions.length} active session${activeSessions.length !== 1 ? 's' : ''}`}
+                {scope === 'administered'
+                  ? `${administeredSessions.length} active session${administeredSessions.length !== 1 ? 's' : ''} in your programs`
+                  : activeSessions.length === 0 
+                    ? 'You have no active sessions' 
+                    : `You have ${activeSessions.length} active session${activeSessions.length !== 1 ? 's' : ''}`}
               </p>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={loadActiveSessions}
-                isLoading={isRefreshing}
-                disabled={isRefreshing}
-              >
-                Refresh
-              </Button>
+              <div className="flex items-center space-x-2">
+                {listedSessions.length > 0 && (
+                  <>
+                    <Button
+                      variant={showFilters || hasActiveFilters ? 'primary' : 'outline'}
+                      size="sm"
+                      icon={<Filter size={14} />}
+                      onClick={() => setShowFilters(show => !show)}
+                      aria-label="Filter sessions"
+                      testId="toggle-session-filters"
+                    >
+                      Filter
+                    </Button>
+                    <Button
+                      variant={isSelecting ? 'primary' : 'outline'}
+                      size="sm"
+                      icon={<CheckSquare size={14} />}
+                      onClick={toggleSelecting}
+                      testId="toggle-session-selection"
+                    >
+                      Select
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={loadActiveSessions}
+                  isLoading={isRefreshing}
+                  disabled={isRefreshing}
+                >
+                  Refresh
+                </Button>
+              </div>
             </div>
+
+            {showFilters && listedSessions.length > 0 && (
+              <div className="mb-4 grid grid-cols-2 gap-2" data-testid="session-filters">
+                <select
+                  className={filterSelectClasses}
+                  value={filters.programId}
+                  onChange={e => setFilters(current => ({ ...current, programId: e.target.value, siteId: '' }))}
+                  aria-label="Filter by program"
+                >
+                  <option value="">All programs</option>
+                  {programOptions.map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+                <select
+                  className={filterSelectClasses}
+                  value={filters.siteId}
+                  onChange={e => setFilters(current => ({ ...current, siteId: e.target.value }))}
+                  aria-label="Filter by site"
+                >
+                  <option value="">All sites</option>
+                  {siteOptions.map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+                <select
+                  className={filterSelectClasses}
+                  value={filters.status}
+                  onChange={e => setFilters(current => ({ ...current, status: e.target.value }))}
+                  aria-label="Filter by status"
+                >
+                  <option value="">All statuses</option>
+                  {statusOptions.map(status => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
+                </select>
+                <select
+                  className={filterSelectClasses}
+                  value={filters.idleMinutes}
+                  onChange={e => setFilters(current => ({ ...current, idleMinutes: Number(e.target.value) }))}
+                  aria-label="Filter by age"
+                >
+                  {idleOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {hasActiveFilters && (
+                  <button
+                    className="col-span-2 text-left text-xs text-primary-600 hover:text-primary-800"
+                    onClick={() => setFilters(emptyFilters)}
+                  >
+                    Clear filters ({filteredSessions.length} of {listedSessions.length} shown)
+                  </button>
+                )}
+              </div>
+            )}
+
+            {isSelecting && filteredSessions.length > 0 && (
+              <label className="mb-3 flex items-center text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                  checked={allShownSelected}
+                  onChange={toggleSelectAll}
+                  data-testid="select-all-sessions"
+                />
+                Select all {filteredSessions.length} shown
+                {selectedSessions.length > 0 && (
+                  <span className="ml-auto text-xs text-gray-500">{selectedSessions.length} selected</span>
+                )}
+              </label>
+            )}
             
-            {activeSessions.length === 0 ? (
+            {listedSessions.length === 0 ? (
               <div className="text-center py-12 bg-gray-50 rounded-lg">
                 <ClipboardList size={48} className="mx-auto text-gray-300 mb-3" />
                 <p className="text-gray-600 font-medium">No Active Sessions</p>
@@ -131,21 +381,45 @@ const ActiveSessionsDrawer: React.FC<ActiveSessionsDrawerProps> = ({ isOpen, onC
                   When you start a submission, it will appear here.
                 </p>
               </div>
+            ) : filteredSessions.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-8">No sessions match these filters.</p>
             ) : (
               <div className="space-y-4">
-                {activeSessions.map((session) => (
-                  <SessionProgress 
-                    key={session.session_id}
-                    session={session}
-                    variant="compact"
-                    sharedUsersDetails={sharedUsersDetails}
-                    currentSessionId={currentSessionId}
-                    onCloseDrawer={onClose}
-                  />
+                {filteredSessions.map((session) => (
+                  <div key={session.session_id} className="flex items-start">
+                    {isSelecting && (
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 text-primary-600 border-gray-300 rounded mt-3 mr-2 flex-shrink-0"
+                        checked={selectedIds.has(session.session_id)}
+                        onChange={() => toggleSelected(session.session_id)}
+                        aria-label={`Select session at ${session.site_name}`}
+                        data-testid={`select-session-${session.session_id}`}
+                      />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <SessionProgress 
+                        session={session}
+                        variant="compact"
+                        sharedUsersDetails={sharedUsersDetails}
+                        currentSessionId={currentSessionId}
+                        onCloseDrawer={onClose}
+                        showOwner={scope === 'administered'}
+                      />
+                    </div>
+                  </div>
                 ))}
               </div>
             )}
           </div>
+
+          {isSelecting && (
+            <BulkSessionActions
+              sessions={selectedSessions}
+              canAdminister={scope === 'administered'}
+              onCompleted={handleBulkCompleted}
+            />
+          )}
         </div>
       </div>
     </div>
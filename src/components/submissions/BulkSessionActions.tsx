@@ -0,0 +1,332 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Share2, Timer, UserCheck, X, XCircle } from 'lucide-react';
+import Button from '../common/Button';
+import { supabase } from '../../lib/supabaseClient';
+import sessionManager from '../../lib/sessionManager';
+import { ActiveSession, BulkSessionActionResult } from '../../types/session';
+
+interface BulkSessionActionsProps {
+  sessions: ActiveSession[];
+  // Extending and reassigning are only offered for sessions the user administers
+  canAdminister: boolean;
+  onCompleted: () => void;
+}
+
+type BulkAction = 'cancel' | 'extend' | 'reassign' | 'share';
+
+interface ProgramUser {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+}
+
+interface BulkActionSummary {
+  label: string;
+  succeeded: string[];
+  failed: { label: string; message: string }[];
+}
+
+const extendOptions = [
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 120, label: '2 hours' },
+  { value: 240, label: '4 hours' },
+  { value: 480, label: '8 hours' },
+  { value: 1440, label: '24 hours' }
+];
+
+const actionLabels: Record<BulkAction, string> = {
+  cancel: 'Cancel',
+  extend: 'Extend',
+  reassign: 'Reassign',
+  share: 'Share'
+};
+
+const selectClasses = 'w-full px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+const sessionLabel = (session: ActiveSession) =>
+  session.global_submission_id ? `${session.site_name} #${session.global_submission_id}` : session.site_name;
+
+const userLabel = (user: ProgramUser) => user.full_name || user.email;
+
+// Applies one action to every selected session and summarizes which succeeded and which failed
+const BulkSessionActions = ({ sessions, canAdminister, onCompleted }: BulkSessionActionsProps) => {
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [extendMinutes, setExtendMinutes] = useState(60);
+  const [reassignTo, setReassignTo] = useState('');
+  const [shareWith, setShareWith] = useState<string[]>([]);
+  const [candidates, setCandidates] = useState<ProgramUser[]>([]);
+  const [isLoadingCandidates, setIsLoadingCandidates] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [summary, setSummary] = useState<BulkActionSummary | null>(null);
+
+  const programIds = useMemo(
+    () => Array.from(new Set(sessions.map(session => session.program_id))).sort(),
+    [sessions]
+  );
+  const programKey = programIds.join(',');
+
+  // Only people in every selected session's program can take all of them
+  useEffect(() => {
+    if ((action !== 'reassign' && action !== 'share') || programIds.length === 0) return;
+
+    let cancelled = false;
+    setIsLoadingCandidates(true);
+
+    Promise.all(
+      programIds.map(programId =>
+        supabase.rpc('get_program_users', { program_id_param: programId }).then(({ data, error }) => {
+          if (error) {
+            console.error('Error fetching program users:', error);
+            return [] as ProgramUser[];
+          }
+          return (data || []) as ProgramUser[];
+        })
+      )
+    ).then(usersByProgram => {
+      if (cancelled) return;
+      const [first = [], ...rest] = usersByProgram;
+      setCandidates(first.filter(user => rest.every(users => users.some(u => u.user_id === user.user_id))));
+      setIsLoadingCandidates(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [action, programKey]);
+
+  const chooseAction = (next: BulkAction) => {
+    setAction(current => (current === next ? null : next));
+    setReassignTo('');
+    setShareWith([]);
+  };
+
+  const toggleShareWith = (userId: string) => {
+    setShareWith(current =>
+      current.includes(userId) ? current.filter(id => id !== userId) : [...current, userId]
+    );
+  };
+
+  const canRun =
+    sessions.length > 0 &&
+    !isRunning &&
+    (action === 'cancel' ||
+      action === 'extend' ||
+      (action === 'reassign' && !!reassignTo) ||
+      (action === 'share' && shareWith.length > 0));
+
+  const handleRun = async () => {
+    if (!action || !canRun) return;
+
+    if (action === 'cancel') {
+      const confirmed = window.confirm(
+        `Cancel ${sessions.length} session${sessions.length !== 1 ? 's' : ''}? Their observations will be deleted.`
+      );
+      if (!confirmed) return;
+    }
+
+    const sessionIds = sessions.map(session => session.session_id);
+    // Keep the labels: cancelled sessions drop out of the list once it reloads
+    const labels = new Map(sessions.map(session => [session.session_id, sessionLabel(session)]));
+
+    setIsRunning(true);
+    try {
+      let result: BulkSessionActionResult;
+      switch (action) {
+        case 'cancel':
+          result = await sessionManager.bulkCancelSessions(sessionIds);
+          break;
+        case 'extend':
+          result = await sessionManager.bulkExtendSessions(sessionIds, extendMinutes);
+          break;
+        case 'reassign':
+          result = await sessionManager.bulkReassignSessions(sessionIds, reassignTo);
+          break;
+        case 'share':
+          result = await sessionManager.bulkShareSessions(sessionIds, shareWith);
+          break;
+      }
+
+      setSummary({
+        label: actionLabels[action],
+        succeeded: result.succeeded.map(id => labels.get(id) || id),
+        failed: result.failed.map(failure => ({
+          label: labels.get(failure.sessionId) || failure.sessionId,
+          message: failure.message
+        }))
+      });
+      setAction(null);
+      onCompleted();
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 bg-gray-50 p-3 space-y-3" data-testid="bulk-session-actions">
+      {summary && (
+        <div className="bg-white border border-gray-200 rounded-md p-3 text-sm" data-testid="bulk-action-summary">
+          <div className="flex justify-between items-start mb-1">
+            <p className="font-medium">
+              {summary.label}: {summary.succeeded.length} succeeded, {summary.failed.length} failed
+            </p>
+            <button
+              onClick={() => setSummary(null)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Dismiss summary"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <ul className="max-h-32 overflow-y-auto space-y-0.5">
+            {summary.succeeded.map((label, index) => (
+              <li key={`ok-${index}`} className="flex items-center text-success-700">
+                <CheckCircle size={12} className="mr-1 flex-shrink-0" />
+                <span className="truncate">{label}</span>
+              </li>
+            ))}
+            {summary.failed.map((failure, index) => (
+              <li key={`failed-${index}`} className="flex items-start text-error-700">
+                <XCircle size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+                <span>{failure.label}: {failure.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant={action === 'cancel' ? 'danger' : 'outline'}
+          icon={<XCircle size={14} />}
+          onClick={() => chooseAction('cancel')}
+          disabled={sessions.length === 0 || isRunning}
+          testId="bulk-cancel-button"
+        >
+          Cancel
+        </Button>
+        {canAdminister && (
+          <>
+            <Button
+              size="sm"
+              variant={action === 'extend' ? 'primary' : 'outline'}
+              icon={<Timer size={14} />}
+              onClick={() => chooseAction('extend')}
+              disabled={sessions.length === 0 || isRunning}
+              testId="bulk-extend-button"
+            >
+              Extend
+            </Button>
+            <Button
+              size="sm"
+              variant={action === 'reassign' ? 'primary' : 'outline'}
+              icon={<UserCheck size={14} />}
+              onClick={() => chooseAction('reassign')}
+              disabled={sessions.length === 0 || isRunning}
+              testId="bulk-reassign-button"
+            >
+              Reassign
+            </Button>
+          </>
+        )}
+        <Button
+          size="sm"
+          variant={action === 'share' ? 'primary' : 'outline'}
+          icon={<Share2 size={14} />}
+          onClick={() => chooseAction('share')}
+          disabled={sessions.length === 0 || isRunning}
+          testId="bulk-share-button"
+        >
+          Share
+        </Button>
+      </div>
+
+      {action === 'cancel' && (
+        <p className="text-sm text-error-700">
+          Cancelling deletes the observations of every selected session.
+        </p>
+      )}
+
+      {action === 'extend' && (
+        <div>
+          <label htmlFor="bulk-extend-minutes" className="block text-xs font-medium text-gray-700 mb-1">
+            Extend each session by
+          </label>
+          <select
+            id="bulk-extend-minutes"
+            className={selectClasses}
+            value={extendMinutes}
+            onChange={e => setExtendMinutes(Number(e.target.value))}
+            data-testid="bulk-extend-select"
+          >
+            {extendOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {(action === 'reassign' || action === 'share') && (
+        isLoadingCandidates ? (
+          <p className="text-sm text-gray-500">Loading people...</p>
+        ) : candidates.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No one belongs to every program of the selected sessions.
+          </p>
+        ) : action === 'reassign' ? (
+          <div>
+            <label htmlFor="bulk-reassign-user" className="block text-xs font-medium text-gray-700 mb-1">
+              New owner
+            </label>
+            <select
+              id="bulk-reassign-user"
+              className={selectClasses}
+              value={reassignTo}
+              onChange={e => setReassignTo(e.target.value)}
+              data-testid="bulk-reassign-select"
+            >
+              <option value="">Select a person...</option>
+              {candidates.map(user => (
+                <option key={user.user_id} value={user.user_id}>{userLabel(user)}</option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-1">Share with</p>
+            <div className="max-h-32 overflow-y-auto bg-white border border-gray-200 rounded-md divide-y divide-gray-100">
+              {candidates.map(user => (
+                <label key={user.user_id} className="flex items-center px-2 py-1.5 text-sm cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                    checked={shareWith.includes(user.user_id)}
+                    onChange={() => toggleShareWith(user.user_id)}
+                  />
+                  <span className="truncate">{userLabel(user)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+
+      {action && (
+        <Button
+          size="sm"
+          variant={action === 'cancel' ? 'danger' : 'primary'}
+          fullWidth
+          onClick={handleRun}
+          isLoading={isRunning}
+          disabled={!canRun}
+          testId="bulk-run-button"
+        >
+          {actionLabels[action]} {sessions.length} session{sessions.length !== 1 ? 's' : ''}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default BulkSessionActions;
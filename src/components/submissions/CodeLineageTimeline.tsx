@@ -0,0 +1,126 @@
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AlertTriangle, ArrowRight, Droplets, ExternalLink, Thermometer } from 'lucide-react';
+import { CodeLineageEntry, lineageChanges } from '../../utils/codeLineage';
+import { ObservationKind } from '../../utils/completionRules';
+
+interface CodeLineageTimelineProps {
+  programId: string;
+  siteId: string;
+  kind: ObservationKind;
+  entries: CodeLineageEntry[];
+}
+
+const Detail = ({ label, value }: { label: string; value: string | number | null | undefined }) => (
+  <div className="flex justify-between sm:block">
+    <span className="text-gray-500">{label}</span>
+    <span className="font-medium sm:block">{value !== null && value !== undefined && value !== '' ? value : '—'}</span>
+  </div>
+);
+
+// Observations of one code in time order, highlighting what changed between visits
+const CodeLineageTimeline = ({ programId, siteId, kind, entries }: CodeLineageTimelineProps) => {
+  const changes = lineageChanges(kind, entries);
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 ml-3 space-y-6" data-testid="code-lineage-timeline">
+      {entries.map((entry, index) => (
+        <li key={entry.observation_id} className="ml-6" data-testid={`code-lineage-entry-${entry.observation_id}`}>
+          <span className="absolute -left-[9px] mt-1.5 w-4 h-4 rounded-full bg-primary-500 border-2 border-white" />
+
+          <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+            <p className="font-medium text-gray-900">
+              {format(new Date(entry.observed_at), 'PPP p')}
+            </p>
+            <Link
+              to={`/programs/${programId}/sites/${siteId}/submissions/${entry.submission_id}/edit`}
+              className="text-sm text-primary-600 hover:text-primary-800"
+            >
+              {entry.global_submission_id ? `Submission #${entry.global_submission_id}` : 'View submission'}
+            </Link>
+          </div>
+
+          {changes[index].length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-2" data-testid={`code-lineage-changes-${entry.observation_id}`}>
+              {changes[index].map(change => (
+                <span
+                  key={change.field}
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-warning-100 text-warning-800"
+                >
+                  {change.label}: {change.from || 'none'}
+                  <ArrowRight size={12} className="mx-1" />
+                  {change.to || 'none'}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-4 bg-white border border-gray-200 rounded-lg p-3">
+            {entry.image_url ? (
+              <a
+                href={entry.image_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="relative flex-shrink-0 group"
+                title="Open full image"
+              >
+                <img
+                  src={entry.image_url}
+                  alt={`${entry.code} on ${format(new Date(entry.observed_at), 'PP')}`}
+                  loading="lazy"
+                  className="w-full sm:w-40 h-40 object-cover rounded-md bg-gray-100"
+                />
+                <ExternalLink size={14} className="absolute top-2 right-2 text-white opacity-0 group-hover:opacity-100" />
+              </a>
+            ) : (
+              <div className="flex-shrink-0 w-full sm:w-40 h-40 rounded-md bg-gray-100 flex items-center justify-center text-sm text-gray-500">
+                No image
+              </div>
+            )}
+
+            <div className="flex-grow grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+              <Detail label="Placement" value={entry.placement} />
+              <Detail
+                label={kind === 'petri' ? 'Placement dynamics' : 'Placement strategy'}
+                value={entry.placement_detail}
+              />
+              {kind === 'petri' ? (
+                <>
+                  <Detail label="Fungicide" value={entry.fungicide_used} />
+                  <Detail label="Water schedule" value={entry.surrounding_water_schedule} />
+                </>
+              ) : (
+                <>
+                  <Detail label="Chemical" value={entry.chemical_type} />
+                  <Detail label="Measure" value={entry.measure} />
+                </>
+              )}
+              <div className="sm:col-span-2 flex flex-wrap gap-4 text-gray-700 pt-1">
+                <span className="flex items-center">
+                  <Thermometer size={14} className="mr-1 text-error-500" />
+                  {entry.outdoor_temperature !== null ? `${entry.outdoor_temperature}°F` : '—'}
+                </span>
+                <span className="flex items-center">
+                  <Droplets size={14} className="mr-1 text-secondary-500" />
+                  {entry.outdoor_humidity !== null ? `${entry.outdoor_humidity}%` : '—'}
+                </span>
+                {entry.weather && <span>{entry.weather}</span>}
+                {entry.anomaly && (
+                  <span className="flex items-center text-warning-700">
+                    <AlertTriangle size={14} className="mr-1" />
+                    Anomaly reported
+                  </span>
+                )}
+              </div>
+              {entry.notes && (
+                <p className="sm:col-span-2 text-gray-600 italic">{entry.notes}</p>
+              )}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default CodeLineageTimeline;
@@ -0,0 +1,159 @@
+import { useFormik } from 'formik';
+import * as Yup from 'yup';
+import { AlertOctagon } from 'lucide-react';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+import sessionManager from '../../lib/sessionManager';
+import { EscalationReason, EscalationResponse } from '../../types/session';
+
+export const ESCALATION_REASONS: EscalationReason[] = [
+  'Equipment Issue',
+  'Site Access',
+  'Data Question',
+  'Safety Concern',
+  'Time Constraint',
+  'Other'
+];
+
+interface EscalateSessionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId: string;
+  // Who the session is escalated to; the program admin when not given
+  recipient?: { userId: string; name: string } | null;
+  onEscalated?: (result: EscalationResponse) => void;
+}
+
+const EscalationSchema = Yup.object().shape({
+  reasonCategory: Yup.string()
+    .oneOf(ESCALATION_REASONS, 'Choose a reason')
+    .required('Choose a reason'),
+  note: Yup.string()
+    .max(1000, 'Note must be at most 1000 characters')
+    .when('reasonCategory', {
+      is: 'Other',
+      then: schema => schema.required('Describe the problem when the reason is Other')
+    })
+});
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+const EscalateSessionModal = ({
+  isOpen,
+  onClose,
+  sessionId,
+  recipient,
+  onEscalated
+}: EscalateSessionModalProps) => {
+  const formik = useFormik({
+    initialValues: {
+      reasonCategory: '' as EscalationReason | '',
+      note: ''
+    },
+    validationSchema: EscalationSchema,
+    onSubmit: async (values, { setSubmitting, resetForm }) => {
+      try {
+        const result = await sessionManager.escalateSubmissionSession(sessionId, {
+          reasonCategory: values.reasonCategory as EscalationReason,
+          note: values.note.trim(),
+          assignToUserId: recipient?.userId
+        });
+
+        if (result.success) {
+          onEscalated?.(result);
+          resetForm();
+          onClose();
+        }
+      } finally {
+        setSubmitting(false);
+      }
+    }
+  });
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={
+        <div className="flex items-center">
+          <AlertOctagon className="h-5 w-5 text-warning-600 mr-2" />
+          <h2 className="text-xl font-semibold">Escalate Session</h2>
+        </div>
+      }
+      testId="escalate-session-modal"
+    >
+      <form onSubmit={formik.handleSubmit} className="p-4">
+        <p className="text-sm text-gray-600 mb-4">
+          {recipient
+            ? <>This session will be escalated to <span className="font-medium">{recipient.name}</span>.</>
+            : 'This session will be escalated to the program admin.'}
+          {' '}They will be notified and asked to acknowledge it.
+        </p>
+
+        <div className="mb-4">
+          <label htmlFor="reasonCategory" className="block text-sm font-medium text-gray-700 mb-1">
+            Reason
+          </label>
+          <select
+            id="reasonCategory"
+            name="reasonCategory"
+            className={selectClasses}
+            value={formik.values.reasonCategory}
+            onChange={formik.handleChange}
+            onBlur={formik.handleBlur}
+            data-testid="escalation-reason-select"
+          >
+            <option value="">Select a reason</option>
+            {ESCALATION_REASONS.map(reason => (
+              <option key={reason} value={reason}>{reason}</option>
+            ))}
+          </select>
+          {formik.touched.reasonCategory && formik.errors.reasonCategory && (
+            <p className="mt-1 text-sm text-error-600">{formik.errors.reasonCategory}</p>
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label htmlFor="note" className="block text-sm font-medium text-gray-700 mb-1">
+            Note
+          </label>
+          <textarea
+            id="note"
+            name="note"
+            rows={4}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            placeholder="What do you need help with?"
+            value={formik.values.note}
+            onChange={formik.handleChange}
+            onBlur={formik.handleBlur}
+            data-testid="escalation-note-textarea"
+          ></textarea>
+          {formik.touched.note && formik.errors.note && (
+            <p className="mt-1 text-sm text-error-600">{formik.errors.note}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="warning"
+            isLoading={formik.isSubmitting}
+            disabled={!(formik.isValid && formik.dirty)}
+            testId="confirm-escalate-button"
+          >
+            Escalate
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default EscalateSessionModal;
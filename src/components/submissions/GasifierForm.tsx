@@ -1,11 +1,17 @@
-import { useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import { useEffect, useState, forwardRef, useImperativeHandle, FocusEvent } from 'react';
+import { Link } from 'react-router-dom';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
-import { Trash2, Info, ChevronDown, ChevronUp } from 'lucide-react';
+import { Trash2, Info, ChevronDown, ChevronUp, ScanLine, History } from 'lucide-react';
 import Button from '../common/Button';
 import ImageUploadField from '../common/ImageUploadField';
+import EditingByBadge from '../common/EditingByBadge';
+import CodeScannerModal from '../common/CodeScannerModal';
 import { ChemicalType, PlacementHeight, DirectionalPlacement, PlacementStrategy } from '../../lib/types';
 import { createLogger } from '../../utils/logger';
+import { PresenceMember } from '../../utils/presence';
+import { CompletionRules, DEFAULT_COMPLETION_RULES, evaluateObservation, gasifierFormValues } from '../../utils/completionRules';
+import { checkCode, describeCodeCheck } from '../../utils/codeScanner';
 
 // Create a component-specific logger
 const logger = createLogger('GasifierForm');
@@ -55,6 +61,18 @@ interface GasifierFormProps {
   };
   disabled?: boolean;
   observationId?: string;
+  // Other collaborators who have this form open
+  editingBy?: PresenceMember[];
+  // Called when focus enters or leaves the form
+  onEditingChange?: (editing: boolean) => void;
+  // The site's rules for when an observation is complete
+  completionRules?: CompletionRules;
+  // The site template's gasifier codes, which entered codes are checked against
+  expectedCodes?: string[];
+  // Codes of the submission's other gasifier observations
+  otherCodes?: string[];
+  // Where the code's history across submissions is shown
+  getCodeHistoryPath?: (code: string) => string;
 }
 
 export interface GasifierFormRef {
@@ -131,19 +149,26 @@ const GasifierForm = forwardRef<GasifierFormRef, GasifierFormProps>(({
   showRemoveButton,
   initialData,
   disabled = false,
-  observationId
+  observationId,
+  editingBy = [],
+  onEditingChange,
+  completionRules = DEFAULT_COMPLETION_RULES,
+  expectedCodes = [],
+  otherCodes = [],
+  getCodeHistoryPath
 }, ref) => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [tempImageKey, setTempImageKey] = useState<string | undefined>(initialData?.tempImageKey);
   const [imageUrl, setImageUrl] = useState<string | undefined>(initialData?.imageUrl);
   const [isExpanded, setIsExpanded] = useState(false);
   const [isDirty, setIsDirty] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
   
   const formik = useFormik({
     initialValues: {
       gasifierCode: initialData?.gasifierCode || '',
       chemicalType: initialData?.chemicalType || 'CLO2',
-      measure: initialData?.measure || null,
+      measure: initialData?.measure ?? null,
       anomaly: initialData?.anomaly || false,
       placementHeight: initialData?.placementHeight || null,
       directionalPlacement: initialData?.directionalPlacement || null,
@@ -167,8 +192,8 @@ const GasifierForm = forwardRef<GasifierFormRef, GasifierFormProps>(({
         formik.setFieldTouched(field, true);
       });
       
-      // Check for image only if we don't already have one
-      if (!hasImage) {
+      // Check the site's completion rules, which may require an image
+      if (!completion.isComplete) {
         return false;
       }
       
@@ -189,10 +214,23 @@ const GasifierForm = forwardRef<GasifierFormRef, GasifierFormProps>(({
                   formik.values.anomaly || 
                   !!formik.values.notes;
   
-  // Form is valid if it has gasifier code, chemical type, and image
-  const isValid = !!formik.values.gasifierCode && 
-                  !!formik.values.chemicalType && 
-                  hasImage;
+  // Form is valid once it has every field the site's completion rules require
+  const completion = evaluateObservation('gasifier', gasifierFormValues({
+    gasifierCode: formik.values.gasifierCode,
+    hasImage,
+    chemicalType: formik.values.chemicalType,
+    measure: formik.values.measure,
+    placementHeight: formik.values.placementHeight,
+    directionalPlacement: formik.values.directionalPlacement,
+    placementStrategy: formik.values.placementStrategy,
+    notes: formik.values.notes
+  }), completionRules);
+  const isValid = completion.isComplete;
+
+  // Warn about codes that aren't on the template or are already in use
+  const codeWarning = formik.values.gasifierCode
+    ? describeCodeCheck(checkCode(formik.values.gasifierCode, expectedCodes, otherCodes), 'gasifier')
+    : null;
   
   const toggleExpanded = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent bubbling to parent containers
@@ -211,6 +249,17 @@ const GasifierForm = forwardRef<GasifierFormRef, GasifierFormProps>(({
     setIsDirty(true);
   };
 
+  // Fill the code from a scanned label, in the template's spelling when it matches
+  const handleCodeScanned = (value: string) => {
+    const check = checkCode(value, expectedCodes, otherCodes);
+    logger.debug(`Scanned gasifier code ${value} (${check.status})`);
+
+    setIsScannerOpen(false);
+    formik.setFieldValue('gasifierCode', check.code);
+    formik.setFieldTouched('gasifierCode', true, false);
+    setIsDirty(true);
+  };
+
   // Handle image change from ImageUploadField
   const handleImageChange = (data: { 
     file: File | null;
@@ -311,11 +360,29 @@ const GasifierForm = forwardRef<GasifierFormRef, GasifierFormProps>(({
     onUpdate
   ]);
 
+  // Report editing while focus is anywhere inside the form, not on each field change
+  const handleFocus = () => {
+    if (!disabled) onEditingChange?.(true);
+  };
+
+  const handleBlur = (e: FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      onEditingChange?.(false);
+    }
+  };
+
   return (
-    <div id={id} className="border border-gray-200 rounded-lg p-3 bg-gray-50" data-testid={`gasifier-form-${formId}`}>
+    <div
+      id={id}
+      className={`border rounded-lg p-3 bg-gray-50 ${editingBy.length > 0 ? 'border-warning-300' : 'border-gray-200'}`}
+      data-testid={`gasifier-form-${formId}`}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+    >
       <div className="flex justify-between items-center mb-2">
         <div className="flex items-center">
           <h4 className="font-medium text-gray-900">Gasifier Sample #{index}</h4>
+          <EditingByBadge members={editingBy} testId={`gasifier-editing-by-${formId}`} />
           {/* Toggle expand/collapse button */}
           <button 
             type="button"
@@ -346,6 +413,12 @@ const GasifierForm = forwardRef<GasifierFormRef, GasifierFormProps>(({
         )}
       </div>
       
+      {hasData && !completion.isComplete && !disabled && (
+        <p className="text-xs text-warning-700 mb-2" data-testid={`gasifier-missing-fields-${formId}`}>
+          Still needed: {completion.missing.join(', ')}
+        </p>
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
         {/* Column 1: Image uploader with preview inside */}
         <ImageUploadField
@@ -365,7 +438,7 @@ const GasifierForm = forwardRef<GasifierFormRef, GasifierFormProps>(({
             <label htmlFor={`gasifierCode-${formId}`} className="block text-sm font-medium text-gray-700 mb-1">
               Gasifier Code
             </label>
-            <div className="relative">
+            <div className="flex space-x-2">
               <input
                 id={`gasifierCode-${formId}`}
                 name="gasifierCode"
@@ -378,10 +451,39 @@ const GasifierForm = forwardRef<GasifierFormRef, GasifierFormProps>(({
                 disabled={disabled}
                 data-testid={`gasifier-code-input-${formId}`}
               />
+              {!disabled && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  icon={<ScanLine size={16} />}
+                  onClick={() => setIsScannerOpen(true)}
+                  className="flex-shrink-0"
+                  testId={`gasifier-code-scan-button-${formId}`}
+                >
+                  <span className="sr-only">Scan gasifier code</span>
+                </Button>
+              )}
             </div>
             {formik.touched.gasifierCode && formik.errors.gasifierCode && (
               <p className="mt-1 text-sm text-error-600">{formik.errors.gasifierCode}</p>
             )}
+            {codeWarning && !disabled && (
+              <p className="mt-1 text-sm text-warning-700" data-testid={`gasifier-code-warning-${formId}`}>
+                {codeWarning}
+              </p>
+            )}
+            {getCodeHistoryPath && formik.values.gasifierCode.trim() && (
+              <Link
+                to={getCodeHistoryPath(formik.values.gasifierCode)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center mt-1 text-xs text-primary-600 hover:text-primary-800"
+                data-testid={`gasifier-code-history-link-${formId}`}
+              >
+                <History size={12} className="mr-1" />
+                History of {formik.values.gasifierCode.trim()}
+              </Link>
+            )}
           </div>
 
           <div>
@@ -564,6 +666,14 @@ const GasifierForm = forwardRef<GasifierFormRef, GasifierFormProps>(({
         name="outdoor_humidity"
         value={formik.values.outdoor_humidity || ''}
       />
+
+      <CodeScannerModal
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={handleCodeScanned}
+        title={`Scan Gasifier Sample #${index}`}
+        testId={`gasifier-code-scanner-${formId}`}
+      />
     </div>
   );
 });
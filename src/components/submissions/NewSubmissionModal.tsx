@@ -17,6 +17,7 @@ import { useOnlineStatus } from '../../hooks/useOnlineStatus';
 import offlineStorage from '../../utils/offlineStorage';
 import ObservationListManager from '../forms/ObservationListManager';
 import TemplateWarningModal from './TemplateWarningModal';
+import { templateCodes } from '../../utils/codeScanner';
 
 // Schema for form validation
 const SubmissionSchema = Yup.object().shape({
@@ -554,7 +555,8 @@ const NewSubmissionModal = ({
           notes: existingPetriObservations[index-1].notes || '',
           observationId: existingPetriObservations[index-1].observation_id,
           placement: existingPetriObservations[index-1].placement,
-          placement_dynamics: existingPetriObservations[index-1].placement_dynamics
+          placement_dynamics: existingPetriObservations[index-1].placement_dynamics,
+          colonyAnalysis: existingPetriObservations[index-1].colony_analysis
         } 
       : selectedSite?.petri_defaults && selectedSite.petri_defaults[index-1] 
         ? {
@@ -583,6 +585,8 @@ const NewSubmissionModal = ({
         initialData={initialData}
         disabled={disabled}
         observationId={observation.observationId}
+        expectedCodes={templateCodes(selectedSite?.petri_defaults, 'petri_code')}
+        otherCodes={petriData.filter(data => data.formId !== observation.id).map(data => data.petriCode)}
       />
     );
   };
@@ -643,6 +647,8 @@ const NewSubmissionModal = ({
         initialData={initialData}
         disabled={disabled}
         observationId={observation.observationId}
+        expectedCodes={templateCodes(selectedSite?.gasifier_defaults, 'gasifier_code')}
+        otherCodes={gasifierData.filter(data => data.formId !== observation.id).map(data => data.gasifierCode)}
       />
     );
   };
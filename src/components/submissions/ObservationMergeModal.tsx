@@ -0,0 +1,273 @@
+import { useEffect, useState } from 'react';
+import { GitMerge, AlertTriangle } from 'lucide-react';
+import Modal from '../common/Modal';
+import Button from '../common/Button';
+import {
+  ObservationConflict,
+  PetriFormData,
+  GasifierFormData,
+  petriObservationToFormData,
+  gasifierObservationToFormData
+} from '../../utils/submissionUtils';
+
+type MergeSide = 'yours' | 'theirs';
+
+export type MergedObservation =
+  | { type: 'petri'; formData: PetriFormData }
+  | { type: 'gasifier'; formData: GasifierFormData };
+
+interface MergeField {
+  key: string;
+  label: string;
+}
+
+const PETRI_FIELDS: MergeField[] = [
+  { key: 'petriCode', label: 'Petri Code' },
+  { key: 'imageUrl', label: 'Image' },
+  { key: 'plantType', label: 'Plant Type' },
+  { key: 'fungicideUsed', label: 'Fungicide Used' },
+  { key: 'surroundingWaterSchedule', label: 'Water Schedule' },
+  { key: 'placement', label: 'Placement' },
+  { key: 'placement_dynamics', label: 'Placement Dynamics' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'outdoor_temperature', label: 'Outdoor Temperature' },
+  { key: 'outdoor_humidity', label: 'Outdoor Humidity' }
+];
+
+const GASIFIER_FIELDS: MergeField[] = [
+  { key: 'gasifierCode', label: 'Gasifier Code' },
+  { key: 'imageUrl', label: 'Image' },
+  { key: 'chemicalType', label: 'Chemical Type' },
+  { key: 'measure', label: 'Measure' },
+  { key: 'anomaly', label: 'Anomaly' },
+  { key: 'placementHeight', label: 'Placement Height' },
+  { key: 'directionalPlacement', label: 'Directional Placement' },
+  { key: 'placementStrategy', label: 'Placement Strategy' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'outdoor_temperature', label: 'Outdoor Temperature' },
+  { key: 'outdoor_humidity', label: 'Outdoor Humidity' }
+];
+
+interface ObservationMergeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conflicts: ObservationConflict[];
+  // Observations as they were when this page loaded them, keyed by observation ID.
+  // Used to pre-select whichever side actually changed a field.
+  baseObservations?: Record<string, PetriFormData | GasifierFormData>;
+  onResolve: (merged: MergedObservation[]) => void;
+  isSaving?: boolean;
+}
+
+const fieldsFor = (conflict: ObservationConflict) =>
+  conflict.type === 'petri' ? PETRI_FIELDS : GASIFIER_FIELDS;
+
+const theirsAsFormData = (conflict: ObservationConflict): PetriFormData | GasifierFormData =>
+  conflict.type === 'petri'
+    ? petriObservationToFormData(conflict.theirs, conflict.formId)
+    : gasifierObservationToFormData(conflict.theirs, conflict.formId);
+
+const valueOf = (data: PetriFormData | GasifierFormData | undefined, key: string): unknown => {
+  const value = data ? (data as unknown as Record<string, unknown>)[key] : undefined;
+  return value === undefined || value === '' ? null : value;
+};
+
+const choiceKey = (conflict: ObservationConflict, field: string) => `${conflict.observationId}:${field}`;
+
+const formatValue = (value: unknown) => {
+  if (value === null) return <span className="text-gray-400">—</span>;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const ObservationMergeModal = ({
+  isOpen,
+  onClose,
+  conflicts,
+  baseObservations = {},
+  onResolve,
+  isSaving = false
+}: ObservationMergeModalProps) => {
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+  // Default to your value, unless you left the field untouched and only they changed it
+  useEffect(() => {
+    const initialChoices: Record<string, MergeSide> = {};
+    conflicts.forEach(conflict => {
+      const base = baseObservations[conflict.observationId];
+      fieldsFor(conflict).forEach(field => {
+        const untouchedByYou = base && valueOf(conflict.yours, field.key) === valueOf(base, field.key);
+        initialChoices[choiceKey(conflict, field.key)] = untouchedByYou ? 'theirs' : 'yours';
+      });
+    });
+    setChoices(initialChoices);
+  }, [conflicts, baseObservations]);
+
+  const chooseAll = (conflict: ObservationConflict, side: MergeSide) => {
+    setChoices(prev => {
+      const next = { ...prev };
+      fieldsFor(conflict).forEach(field => {
+        next[choiceKey(conflict, field.key)] = side;
+      });
+      return next;
+    });
+  };
+
+  const buildMerged = (conflict: ObservationConflict): MergedObservation => {
+    // Start from their saved row so the merged save carries their revision
+    const merged: Record<string, unknown> = { ...theirsAsFormData(conflict) };
+    const yours = conflict.yours as unknown as Record<string, unknown>;
+
+    fieldsFor(conflict).forEach(field => {
+      if (choices[choiceKey(conflict, field.key)] === 'yours') {
+        merged[field.key] = yours[field.key];
+        if (field.key === 'imageUrl') {
+          merged.tempImageKey = yours.tempImageKey;
+          // The colony estimate belongs to the photo it was made from
+          if (conflict.type === 'petri') {
+            merged.colonyAnalysis = yours.colonyAnalysis;
+          }
+        }
+      }
+    });
+
+    merged.isDirty = true;
+    merged.hasImage = !!(merged.imageUrl || merged.tempImageKey);
+
+    return conflict.type === 'petri'
+      ? { type: 'petri', formData: merged as unknown as PetriFormData }
+      : { type: 'gasifier', formData: merged as unknown as GasifierFormData };
+  };
+
+  const handleResolve = () => {
+    onResolve(conflicts.map(buildMerged));
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={
+        <div className="text-xl font-semibold flex items-center">
+          <GitMerge className="mr-2 h-5 w-5 text-primary-600" />
+          Merge Changes
+        </div>
+      }
+      maxWidth="3xl"
+      testId="observation-merge-modal"
+    >
+      <div className="p-4">
+        <div className="p-3 bg-warning-50 border border-warning-200 rounded-md mb-4 flex items-start">
+          <AlertTriangle className="h-5 w-5 text-warning-500 mr-2 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-warning-800">
+            Someone else saved {conflicts.length === 1 ? 'this observation' : 'these observations'} after you opened this session.
+            Choose which value to keep for each field that differs.
+          </p>
+        </div>
+
+        <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+          {conflicts.map(conflict => {
+            const theirs = theirsAsFormData(conflict);
+            const base = baseObservations[conflict.observationId];
+            const differingFields = fieldsFor(conflict).filter(field =>
+              valueOf(conflict.yours, field.key) !== valueOf(theirs, field.key)
+            );
+            const code = conflict.type === 'petri' ? conflict.theirs.petri_code : conflict.theirs.gasifier_code;
+
+            return (
+              <div key={conflict.observationId} className="border border-gray-200 rounded-md">
+                <div className="flex justify-between items-center px-3 py-2 bg-gray-50 border-b border-gray-200">
+                  <h3 className="font-medium text-gray-900">
+                    {conflict.type === 'petri' ? 'Petri' : 'Gasifier'} {code}
+                  </h3>
+                  <div className="flex space-x-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => chooseAll(conflict, 'yours')}>
+                      Keep All Mine
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" onClick={() => chooseAll(conflict, 'theirs')}>
+                      Keep All Theirs
+                    </Button>
+                  </div>
+                </div>
+
+                {differingFields.length === 0 ? (
+                  <p className="px-3 py-2 text-sm text-gray-600">Both versions are identical.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="px-3 py-2 font-medium w-1/4">Field</th>
+                        <th className="px-3 py-2 font-medium">Yours</th>
+                        <th className="px-3 py-2 font-medium">Theirs</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {differingFields.map(field => {
+                        const key = choiceKey(conflict, field.key);
+                        const bothChanged = base &&
+                          valueOf(conflict.yours, field.key) !== valueOf(base, field.key) &&
+                          valueOf(theirs, field.key) !== valueOf(base, field.key);
+
+                        const renderOption = (side: MergeSide, value: unknown) => (
+                          <label
+                            className={`flex items-start p-2 rounded cursor-pointer border ${
+                              choices[key] === side ? 'border-primary-500 bg-primary-50' : 'border-transparent hover:bg-gray-50'
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name={key}
+                              className="mt-0.5 mr-2"
+                              checked={choices[key] === side}
+                              onChange={() => setChoices(prev => ({ ...prev, [key]: side }))}
+                            />
+                            {field.key === 'imageUrl' && typeof value === 'string' ? (
+                              <img src={value} alt={`${side} image`} className="h-16 w-16 object-cover rounded" />
+                            ) : (
+                              <span className="break-words">{formatValue(value)}</span>
+                            )}
+                          </label>
+                        );
+
+                        return (
+                          <tr key={field.key} className="border-t border-gray-100 align-top">
+                            <td className="px-3 py-2 text-gray-700">
+                              {field.label}
+                              {bothChanged && (
+                                <span className="block text-xs text-warning-600">Changed by both</span>
+                              )}
+                            </td>
+                            <td className="px-1 py-1">{renderOption('yours', valueOf(conflict.yours, field.key))}</td>
+                            <td className="px-1 py-1">{renderOption('theirs', valueOf(theirs, field.key))}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            onClick={handleResolve}
+            isLoading={isSaving}
+            icon={<GitMerge size={16} />}
+            testId="save-merged-observations-button"
+          >
+            Save Merged
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ObservationMergeModal;
@@ -1,11 +1,18 @@
-import { useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import { useEffect, useState, forwardRef, useImperativeHandle, FocusEvent } from 'react';
+import { Link } from 'react-router-dom';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
-import { Trash2, MapPin, ChevronDown, ChevronUp } from 'lucide-react';
+import { Trash2, MapPin, ChevronDown, ChevronUp, ScanLine, History } from 'lucide-react';
 import Button from '../common/Button';
 import ImageUploadField from '../common/ImageUploadField';
+import EditingByBadge from '../common/EditingByBadge';
+import CodeScannerModal from '../common/CodeScannerModal';
 import { PetriPlacement, PetriPlacementDynamics } from '../../lib/types';
 import { createLogger } from '../../utils/logger';
+import { PresenceMember } from '../../utils/presence';
+import { CompletionRules, DEFAULT_COMPLETION_RULES, evaluateObservation, petriFormValues } from '../../utils/completionRules';
+import { checkCode, describeCodeCheck } from '../../utils/codeScanner';
+import { ColonyAnalysis } from '../../utils/colonyCoverage';
 
 // Create a component-specific logger
 const logger = createLogger('PetriForm');
@@ -29,6 +36,7 @@ interface PetriFormProps {
     placement_dynamics?: PetriPlacementDynamics | null;
     outdoor_temperature?: number;
     outdoor_humidity?: number;
+    colonyAnalysis?: ColonyAnalysis | null;
     isValid: boolean;
     hasData: boolean;
     hasImage: boolean;
@@ -49,10 +57,23 @@ interface PetriFormProps {
     placement_dynamics?: PetriPlacementDynamics | null;
     outdoor_temperature?: number;
     outdoor_humidity?: number;
+    colonyAnalysis?: ColonyAnalysis | null;
     observationId?: string;
   };
   disabled?: boolean;
   observationId?: string;
+  // Other collaborators who have this form open
+  editingBy?: PresenceMember[];
+  // Called when focus enters or leaves the form
+  onEditingChange?: (editing: boolean) => void;
+  // The site's rules for when an observation is complete
+  completionRules?: CompletionRules;
+  // The site template's petri codes, which entered codes are checked against
+  expectedCodes?: string[];
+  // Codes of the submission's other petri observations
+  otherCodes?: string[];
+  // Where the code's history across submissions is shown
+  getCodeHistoryPath?: (code: string) => string;
 }
 
 export interface PetriFormRef {
@@ -108,13 +129,21 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
   showRemoveButton,
   initialData,
   disabled = false,
-  observationId
+  observationId,
+  editingBy = [],
+  onEditingChange,
+  completionRules = DEFAULT_COMPLETION_RULES,
+  expectedCodes = [],
+  otherCodes = [],
+  getCodeHistoryPath
 }, ref) => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [tempImageKey, setTempImageKey] = useState<string | undefined>(initialData?.tempImageKey);
   const [imageUrl, setImageUrl] = useState<string | undefined>(initialData?.imageUrl);
   const [isExpanded, setIsExpanded] = useState(false);
   const [isDirty, setIsDirty] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [colonyAnalysis, setColonyAnalysis] = useState<ColonyAnalysis | null | undefined>(initialData?.colonyAnalysis);
   
   const formik = useFormik({
     initialValues: {
@@ -141,8 +170,8 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
         formik.setFieldTouched(field, true);
       });
       
-      // Check for image only if we don't already have one
-      if (!hasImage) {
+      // Check the site's completion rules, which may require an image
+      if (!completion.isComplete) {
         return false;
       }
       
@@ -163,11 +192,22 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
                   formik.values.fungicideUsed !== 'No' || 
                   !!formik.values.notes;
   
-  // Form is valid if it has petri code, surrounding water schedule, fungicide used, and image
-  const isValid = !!formik.values.petriCode && 
-                 !!formik.values.surroundingWaterSchedule && 
-                 !!formik.values.fungicideUsed &&
-                 hasImage;
+  // Form is valid once it has every field the site's completion rules require
+  const completion = evaluateObservation('petri', petriFormValues({
+    petriCode: formik.values.petriCode,
+    hasImage,
+    fungicideUsed: formik.values.fungicideUsed,
+    surroundingWaterSchedule: formik.values.surroundingWaterSchedule,
+    placement: formik.values.placement,
+    plantType: initialData?.plantType || 'Other Fresh Perishable',
+    notes: formik.values.notes
+  }), completionRules);
+  const isValid = completion.isComplete;
+
+  // Warn about codes that aren't on the template or are already in use
+  const codeWarning = formik.values.petriCode
+    ? describeCodeCheck(checkCode(formik.values.petriCode, expectedCodes, otherCodes), 'petri')
+    : null;
   
   const toggleExpanded = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -186,6 +226,17 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
     setIsDirty(true);
   };
 
+  // Fill the code from a scanned label, in the template's spelling when it matches
+  const handleCodeScanned = (value: string) => {
+    const check = checkCode(value, expectedCodes, otherCodes);
+    logger.debug(`Scanned petri code ${value} (${check.status})`);
+
+    setIsScannerOpen(false);
+    formik.setFieldValue('petriCode', check.code);
+    formik.setFieldTouched('petriCode', true, false);
+    setIsDirty(true);
+  };
+
   // Handle image change from ImageUploadField
   const handleImageChange = (data: { 
     file: File | null;
@@ -220,6 +271,12 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
     }
   };
 
+  // A fresh estimate or a tech's correction of it
+  const handleColonyAnalysisChange = (analysis: ColonyAnalysis | null) => {
+    setColonyAnalysis(analysis);
+    setIsDirty(true);
+  };
+
   useEffect(() => {
     // Only update if there's data to report or this is a form with initial data
     if (hasData || initialData) {
@@ -254,6 +311,7 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
         placement_dynamics: initialData?.placement_dynamics,
         outdoor_temperature: formik.values.outdoor_temperature || undefined,
         outdoor_humidity: formik.values.outdoor_humidity || undefined,
+        colonyAnalysis,
         isValid,
         hasData,
         hasImage,
@@ -272,6 +330,7 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
     imageFile,
     imageUrl,
     tempImageKey,
+    colonyAnalysis,
     isValid,
     hasData,
     hasImage,
@@ -284,11 +343,29 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
     onUpdate
   ]);
 
+  // Report editing while focus is anywhere inside the form, not on each field change
+  const handleFocus = () => {
+    if (!disabled) onEditingChange?.(true);
+  };
+
+  const handleBlur = (e: FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      onEditingChange?.(false);
+    }
+  };
+
   return (
-    <div id={id} className="border border-gray-200 rounded-lg p-3 bg-gray-50" data-testid={`petri-form-${formId}`}>
+    <div
+      id={id}
+      className={`border rounded-lg p-3 bg-gray-50 ${editingBy.length > 0 ? 'border-warning-300' : 'border-gray-200'}`}
+      data-testid={`petri-form-${formId}`}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+    >
       <div className="flex justify-between items-center mb-2">
         <div className="flex items-center">
           <h4 className="font-medium text-gray-900">Petri Sample #{index}</h4>
+          <EditingByBadge members={editingBy} testId={`petri-editing-by-${formId}`} />
           {/* Toggle expand/collapse button */}
           <button 
             type="button"
@@ -319,6 +396,12 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
         )}
       </div>
       
+      {hasData && !completion.isComplete && !disabled && (
+        <p className="text-xs text-warning-700 mb-2" data-testid={`petri-missing-fields-${formId}`}>
+          Still needed: {completion.missing.join(', ')}
+        </p>
+      )}
+
       {/* Always visible: Two-column layout for image and basic info */}
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
         {/* Column 1: Image uploader with preview inside */}
@@ -329,6 +412,9 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
           submissionSessionId={submissionSessionId}
           imageId={formId}
           onChange={handleImageChange}
+          analyzeColonies
+          colonyAnalysis={colonyAnalysis}
+          onColonyAnalysisChange={handleColonyAnalysisChange}
           disabled={disabled}
           testId={`petri-image-upload-${formId}`}
         />
@@ -339,7 +425,7 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
             <label htmlFor={`petriCode-${formId}`} className="block text-sm font-medium text-gray-700 mb-1">
               Petri Code
             </label>
-            <div className="relative">
+            <div className="flex space-x-2">
               <input
                 id={`petriCode-${formId}`}
                 name="petriCode"
@@ -352,10 +438,39 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
                 disabled={disabled}
                 data-testid={`petri-code-input-${formId}`}
               />
+              {!disabled && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  icon={<ScanLine size={16} />}
+                  onClick={() => setIsScannerOpen(true)}
+                  className="flex-shrink-0"
+                  testId={`petri-code-scan-button-${formId}`}
+                >
+                  <span className="sr-only">Scan petri code</span>
+                </Button>
+              )}
             </div>
             {formik.touched.petriCode && formik.errors.petriCode && (
               <p className="mt-1 text-sm text-error-600">{formik.errors.petriCode}</p>
             )}
+            {codeWarning && !disabled && (
+              <p className="mt-1 text-sm text-warning-700" data-testid={`petri-code-warning-${formId}`}>
+                {codeWarning}
+              </p>
+            )}
+            {getCodeHistoryPath && formik.values.petriCode.trim() && (
+              <Link
+                to={getCodeHistoryPath(formik.values.petriCode)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center mt-1 text-xs text-primary-600 hover:text-primary-800"
+                data-testid={`petri-code-history-link-${formId}`}
+              >
+                <History size={12} className="mr-1" />
+                History of {formik.values.petriCode.trim()}
+              </Link>
+            )}
           </div>
           
           <div>
@@ -498,6 +613,14 @@ const PetriForm = forwardRef<PetriFormRef, PetriFormProps>(({
         name="outdoor_humidity"
         value={formik.values.outdoor_humidity || ''}
       />
+
+      <CodeScannerModal
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={handleCodeScanned}
+        title={`Scan Petri Sample #${index}`}
+        testId={`petri-code-scanner-${formId}`}
+      />
     </div>
   );
 });
@@ -0,0 +1,149 @@
+import { useFormik } from 'formik';
+import * as Yup from 'yup';
+import { RotateCcw } from 'lucide-react';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+import sessionManager from '../../lib/sessionManager';
+import { SubmissionSession } from '../../types/session';
+
+interface ReopenSessionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId: string;
+  onReopened: (session: SubmissionSession) => void;
+}
+
+// How long a reopened session stays open; the server accepts 15 to 240 minutes
+const windowOptions = [
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 120, label: '2 hours' },
+  { value: 240, label: '4 hours' }
+];
+
+const ReopenSchema = Yup.object().shape({
+  justification: Yup.string()
+    .trim()
+    .required('A justification is required')
+    .min(10, 'Justification must be at least 10 characters')
+    .max(1000, 'Justification must be at most 1000 characters'),
+  windowMinutes: Yup.number()
+    .oneOf(windowOptions.map(option => option.value))
+    .required()
+});
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+const ReopenSessionModal = ({
+  isOpen,
+  onClose,
+  sessionId,
+  onReopened
+}: ReopenSessionModalProps) => {
+  const formik = useFormik({
+    initialValues: {
+      justification: '',
+      windowMinutes: 60
+    },
+    validationSchema: ReopenSchema,
+    onSubmit: async (values, { setSubmitting, resetForm }) => {
+      try {
+        const result = await sessionManager.reopenSubmissionSession(
+          sessionId,
+          values.justification.trim(),
+          Number(values.windowMinutes)
+        );
+
+        if (result.success && result.session) {
+          onReopened(result.session);
+          resetForm();
+          onClose();
+        }
+      } finally {
+        setSubmitting(false);
+      }
+    }
+  });
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={
+        <div className="flex items-center">
+          <RotateCcw className="h-5 w-5 text-warning-600 mr-2" />
+          <h2 className="text-xl font-semibold">Reopen Expired Session</h2>
+        </div>
+      }
+      testId="reopen-session-modal"
+    >
+      <form onSubmit={formik.handleSubmit} className="p-4">
+        <div className="bg-warning-50 border border-warning-200 p-3 rounded-md mb-4">
+          <p className="text-sm text-warning-800">
+            The session will accept data again until the window closes. Anything entered
+            while it is reopened is marked as late, and the reopen is recorded in the audit log.
+          </p>
+        </div>
+
+        <div className="mb-4">
+          <label htmlFor="windowMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+            Reopen for
+          </label>
+          <select
+            id="windowMinutes"
+            name="windowMinutes"
+            className={selectClasses}
+            value={formik.values.windowMinutes}
+            onChange={e => formik.setFieldValue('windowMinutes', Number(e.target.value))}
+            data-testid="reopen-window-select"
+          >
+            {windowOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mb-4">
+          <label htmlFor="justification" className="block text-sm font-medium text-gray-700 mb-1">
+            Justification
+          </label>
+          <textarea
+            id="justification"
+            name="justification"
+            rows={4}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            placeholder="Why does this session need to be reopened?"
+            value={formik.values.justification}
+            onChange={formik.handleChange}
+            onBlur={formik.handleBlur}
+            data-testid="reopen-justification-textarea"
+          ></textarea>
+          {formik.touched.justification && formik.errors.justification && (
+            <p className="mt-1 text-sm text-error-600">{formik.errors.justification}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="warning"
+            isLoading={formik.isSubmitting}
+            disabled={!(formik.isValid && formik.dirty)}
+            testId="confirm-reopen-button"
+          >
+            Reopen Session
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ReopenSessionModal;
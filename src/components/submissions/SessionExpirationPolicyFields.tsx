@@ -0,0 +1,113 @@
+import Input from '../common/Input';
+import {
+  SessionExpirationPolicy,
+  SessionExpirationRule,
+  DEFAULT_CUTOFF_TIME,
+  DEFAULT_HOURS_AFTER_START,
+  DEFAULT_WARNING_MINUTES
+} from '../../utils/sessionExpiration';
+
+interface SessionExpirationPolicyFieldsProps {
+  // null means no policy of its own (inherit from the program, or the default)
+  value: SessionExpirationPolicy | null;
+  onChange: (policy: SessionExpirationPolicy | null) => void;
+  // Label for the "no policy of its own" option
+  inheritLabel: string;
+  disabled?: boolean;
+  testId?: string;
+}
+
+const ruleOptions: { value: SessionExpirationRule; label: string }[] = [
+  { value: 'end_of_day', label: 'End of the site-local day (11:59 PM)' },
+  { value: 'hours_after_start', label: 'A number of hours after the session starts' },
+  { value: 'custom_cutoff', label: 'A daily cutoff time (for night shifts)' }
+];
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+// Fields for choosing how submission sessions expire
+const SessionExpirationPolicyFields = ({
+  value,
+  onChange,
+  inheritLabel,
+  disabled = false,
+  testId = 'session-expiration-policy'
+}: SessionExpirationPolicyFieldsProps) => {
+  const handleRuleChange = (rule: string) => {
+    if (rule === 'inherit') {
+      onChange(null);
+      return;
+    }
+
+    onChange({
+      rule: rule as SessionExpirationRule,
+      hours_after_start: rule === 'hours_after_start' ? value?.hours_after_start || DEFAULT_HOURS_AFTER_START : null,
+      cutoff_time: rule === 'custom_cutoff' ? value?.cutoff_time || DEFAULT_CUTOFF_TIME : null,
+      warning_minutes: value?.warning_minutes ?? DEFAULT_WARNING_MINUTES
+    });
+  };
+
+  return (
+    <div data-testid={testId}>
+      <div className="mb-4">
+        <label htmlFor={`${testId}-rule`} className="block text-sm font-medium text-gray-700 mb-1">
+          Sessions expire
+        </label>
+        <select
+          id={`${testId}-rule`}
+          className={selectClasses}
+          value={value?.rule || 'inherit'}
+          onChange={e => handleRuleChange(e.target.value)}
+          disabled={disabled}
+        >
+          <option value="inherit">{inheritLabel}</option>
+          {ruleOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {value && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {value.rule === 'hours_after_start' && (
+            <Input
+              label="Hours after start"
+              id={`${testId}-hours`}
+              type="number"
+              min={1}
+              max={72}
+              value={value.hours_after_start ?? ''}
+              onChange={e => onChange({ ...value, hours_after_start: e.target.value ? Number(e.target.value) : null })}
+              disabled={disabled}
+            />
+          )}
+
+          {value.rule === 'custom_cutoff' && (
+            <Input
+              label="Cutoff time (site time)"
+              id={`${testId}-cutoff`}
+              type="time"
+              value={value.cutoff_time || ''}
+              onChange={e => onChange({ ...value, cutoff_time: e.target.value || null })}
+              helperText="Sessions started after the cutoff expire at the next day's cutoff"
+              disabled={disabled}
+            />
+          )}
+
+          <Input
+            label="Warn before expiration (minutes)"
+            id={`${testId}-warning`}
+            type="number"
+            min={0}
+            max={720}
+            value={value.warning_minutes ?? ''}
+            onChange={e => onChange({ ...value, warning_minutes: e.target.value ? Number(e.target.value) : null })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionExpirationPolicyFields;
@@ -1,10 +1,13 @@
 import { useState, useEffect } from 'react';
-import { BarChart4, Clock, User, Users, Hash } from 'lucide-react';
+import { BarChart4, Clock, User, Users, Hash, AlertTriangle } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import Button from '../common/Button';
 import { ActiveSession } from '../../types/session';
-import { formatDistanceToNow, differenceInSeconds, set } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 import { useSessionStore } from '../../stores/sessionStore';
+import PresenceAvatars from '../common/PresenceAvatars';
+import { useSessionPresence } from '../../hooks/useSessionPresence';
+import { useSessionCountdown } from '../../hooks/useSessionCountdown';
 
 interface SessionProgressProps {
   session: ActiveSession;
@@ -12,6 +15,8 @@ interface SessionProgressProps {
   sharedUsersDetails?: Map<string, { full_name: string | null; email: string }>;
   currentSessionId?: string | null;
   onCloseDrawer?: () => void;
+  // Show who opened the session, for lists of other people's sessions
+  showOwner?: boolean;
 }
 
 const SessionProgress: React.FC<SessionProgressProps> = ({ 
@@ -20,62 +25,21 @@ const SessionProgress: React.FC<SessionProgressProps> = ({
   sharedUsersDetails = new Map(),
   currentSessionId
   ,
-  onCloseDrawer
+  onCloseDrawer,
+  showOwner = false
 }) => {
   const navigate = useNavigate();
-  const [timeRemaining, setTimeRemaining] = useState<number>(0);
-  const [timeRemainingString, setTimeRemainingString] = useState<string>("");
   const [formattedSharedUsers, setFormattedSharedUsers] = useState<string>("");
   const isCurrentSession = currentSessionId === session.session_id;
-  
-  // Calculate time until expiration (11:59:59 PM of the session start date)
-  useEffect(() => {
-    // Calculate expiration time (11:59:59 PM of the day the session started)
-    const sessionStartTime = new Date(session.session_start_time);
-    const expirationTime = set(sessionStartTime, { hours: 23, minutes: 59, seconds: 59 });
-    const now = new Date();
-    
-    // If already expired, don't set up timer
-    if (now > expirationTime || 
-        ['Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete'].includes(session.session_status)) {
-      setTimeRemaining(0);
-      setTimeRemainingString("Expired");
-      return;
-    }
-    
-    // Format time remaining as HH:MM:SS
-    const formatTimeRemaining = (seconds: number) => {
-      if (seconds <= 0) return "00:00:00";
-      
-      const hours = Math.floor(seconds / 3600);
-      const minutes = Math.floor((seconds % 3600) / 60);
-      const secs = seconds % 60;
-      
-      return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-    };
-    
-    // Initial calculation
-    const initialRemaining = differenceInSeconds(expirationTime, now);
-    setTimeRemaining(initialRemaining);
-    setTimeRemainingString(formatTimeRemaining(initialRemaining));
-    
-    // Update every second
-    const interval = setInterval(() => {
-      const now = new Date();
-      if (now > expirationTime) {
-        clearInterval(interval);
-        setTimeRemaining(0);
-        setTimeRemainingString("Expired");
-        return;
-      }
-      
-      const seconds = differenceInSeconds(expirationTime, now);
-      setTimeRemaining(seconds);
-      setTimeRemainingString(formatTimeRemaining(seconds));
-    }, 1000);
-    
-    return () => clearInterval(interval);
-  }, [session.session_start_time, session.session_status]);
+  // People who have this session open right now
+  const presentMembers = useSessionPresence(session.session_id);
+  // Time left under the site's expiration policy
+  const {
+    expiresAt,
+    secondsRemaining: timeRemaining,
+    timeRemainingString,
+    isExpiringSoon
+  } = useSessionCountdown(session);
   
   // Process shared users when they change
   useEffect(() => {
@@ -128,9 +92,9 @@ const SessionProgress: React.FC<SessionProgressProps> = ({
   // Get color for countdown timer
   const getTimeRemainingColor = () => {
     const hoursRemaining = timeRemaining / 3600;
-    if (hoursRemaining > 8) return "text-success-600"; // Green for > 8 hours
-    if (hoursRemaining > 4) return "text-warning-600"; // Yellow for 4-8 hours
-    return "text-error-600"; // Red for ≤ 4 hours
+    if (isExpiringSoon) return "text-error-600"; // Red inside the warning window
+    if (hoursRemaining > 4) return "text-success-600"; // Green for > 4 hours
+    return "text-warning-600"; // Yellow for ≤ 4 hours
   };
 
   // Handle resuming the session
@@ -160,7 +124,11 @@ const SessionProgress: React.FC<SessionProgressProps> = ({
               {session.session_status}
             </span>
             {timeRemaining > 0 && (
-              <span className={`text-xs font-mono font-medium ${getTimeRemainingColor()}`}>
+              <span
+                className={`inline-flex items-center text-xs font-mono font-medium ${getTimeRemainingColor()}`}
+                title={expiresAt ? `Expires ${format(expiresAt, 'PPp')}` : undefined}
+              >
+                {isExpiringSoon && <AlertTriangle size={10} className="mr-0.5" />}
                 {timeRemainingString}
               </span>
             )}
@@ -188,10 +156,21 @@ const SessionProgress: React.FC<SessionProgressProps> = ({
           ) : (
             <span className="text-gray-400">No team members</span>
           )}
+          {presentMembers.length > 0 && (
+            <div className="ml-auto pl-2 flex-shrink-0">
+              <PresenceAvatars members={presentMembers} size="sm" maxVisible={3} />
+            </div>
+          )}
         </div>
         
         <div className="flex items-center justify-between mt-1">
-          <span className="text-xs text-gray-500">
+          <span className="text-xs text-gray-500 truncate">
+            {showOwner && (
+              <span className="font-medium text-gray-700">
+                {session.opened_by_user_name || session.opened_by_user_email}
+                {' · '}
+              </span>
+            )}
             Updated {formatDistanceToNow(new Date(session.last_activity_time), { addSuffix: true })}
           </span>
           <Button
@@ -230,7 +209,10 @@ const SessionProgress: React.FC<SessionProgressProps> = ({
         </div>
         <div className="flex items-center">
           {timeRemaining > 0 && (
-            <span className={`font-mono font-medium mr-3 ${getTimeRemainingColor()}`}>
+            <span
+              className={`font-mono font-medium mr-3 ${getTimeRemainingColor()}`}
+              title={expiresAt ? `Expires ${format(expiresAt, 'PPp')}` : undefined}
+            >
               {timeRemainingString}
             </span>
           )}
@@ -244,6 +226,16 @@ const SessionProgress: React.FC<SessionProgressProps> = ({
         </div>
       </div>
       
+      {/* Warning as the session nears expiration */}
+      {isExpiringSoon && expiresAt && (
+        <div className="flex items-center mb-3 px-3 py-2 rounded-md bg-error-50 border border-error-200 text-sm text-error-800" data-testid="session-expiring-warning">
+          <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+          <span>
+            This session expires at {format(expiresAt, 'p')}. Finish and submit before then.
+          </span>
+        </div>
+      )}
+      
       {/* Progress bar */}
       <div className="mb-3">
         <div className="flex items-center justify-between mb-1">
@@ -265,6 +257,12 @@ const SessionProgress: React.FC<SessionProgressProps> = ({
         ) : (
           <span className="text-gray-400">Not shared with team members</span>
         )}
+        {presentMembers.length > 0 && (
+          <div className="ml-auto flex items-center">
+            <span className="text-xs text-gray-500 mr-2">Here now</span>
+            <PresenceAvatars members={presentMembers} />
+          </div>
+        )}
       </div>
       
       <div className="text-xs text-gray-500 flex justify-between">
@@ -1,5 +1,6 @@
 import React from 'react';
 import { CheckCircle, Clock, AlertTriangle, XCircle, BarChart, Users } from 'lucide-react';
+import { SessionCompletionSummary } from '../../utils/completionRules';
 
 interface SessionProgressStagesProps {
   status: 'Opened' | 'Working' | 'Completed' | 'Cancelled' | 'Expired' | 'Escalated' | 'Shared' | 'Expired-Complete' | 'Expired-Incomplete';
@@ -8,6 +9,9 @@ interface SessionProgressStagesProps {
   petrisTotal?: number;
   gasifiersComplete?: number;
   gasifiersTotal?: number;
+  // The session evaluated against its site's completion rules; takes the place
+  // of the counts and percentage above and lists what is still missing
+  completion?: SessionCompletionSummary;
 }
 
 const SessionProgressStages: React.FC<SessionProgressStagesProps> = ({
@@ -16,8 +20,18 @@ const SessionProgressStages: React.FC<SessionProgressStagesProps> = ({
   petrisComplete = 0,
   petrisTotal = 0,
   gasifiersComplete = 0,
-  gasifiersTotal = 0
+  gasifiersTotal = 0,
+  completion
 }) => {
+  const completeCount = completion
+    ? completion.petrisComplete + completion.gasifiersComplete
+    : petrisComplete + gasifiersComplete;
+  const totalCount = completion
+    ? completion.petrisTotal + completion.gasifiersTotal
+    : petrisTotal + gasifiersTotal;
+  const percentage = completion ? Math.round(completion.percentage) : percentageComplete;
+
+
   // Define the stages
   const stages = [
     { key: 'Opened', label: 'Opened', icon: Clock },
@@ -79,16 +93,30 @@ const SessionProgressStages: React.FC<SessionProgressStagesProps> = ({
       {/* Progress statistics */}
       <div className="flex justify-between items-center mb-4">
         <div className="text-sm">
-          <span className="font-medium">{petrisComplete + gasifiersComplete}</span>
+          <span className="font-medium">{completeCount}</span>
           <span className="text-gray-500"> of </span>
-          <span className="font-medium">{petrisTotal + gasifiersTotal}</span>
+          <span className="font-medium">{totalCount}</span>
           <span className="text-gray-500"> observations complete</span>
         </div>
         <div className="text-sm font-medium">
-          {percentageComplete}% Complete
+          {percentage}% Complete
         </div>
       </div>
 
+      {/* What the site's completion rules still need */}
+      {completion && completion.incomplete.length > 0 && !status.startsWith('Expired') && status !== 'Cancelled' && status !== 'Completed' && (
+        <ul className="mb-4 text-xs text-warning-800 bg-warning-50 border border-warning-200 rounded-md p-2 space-y-0.5" data-testid="session-incomplete-observations">
+          {completion.incomplete.map(item => (
+            <li key={`${item.kind}-${item.index}`}>
+              <span className="font-medium">
+                {item.kind === 'petri' ? 'Petri' : 'Gasifier'} {item.code || `#${item.index + 1}`}:
+              </span>{' '}
+              needs {item.missing.join(', ').toLowerCase()}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Special status display for Cancelled or Expired */}
       {specialStatus && (
         <div className={`flex items-center justify-center p-3 mb-4 border border-gray-200 rounded-md ${specialStatus.className}`}>
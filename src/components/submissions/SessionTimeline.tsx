@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import {
+  AlertOctagon,
+  Camera,
+  CheckCircle,
+  Clock,
+  PenLine,
+  PlayCircle,
+  Plus,
+  RotateCcw,
+  Share2,
+  Timer,
+  UserCheck,
+  XCircle
+} from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { SessionEvent, SessionEventType } from '../../types/session';
+import { describeSessionEvent } from '../../lib/sessionEvents';
+
+interface SessionTimelineProps {
+  events: SessionEvent[];
+  isLoading?: boolean;
+  testId?: string;
+}
+
+const eventIcons: Record<SessionEventType, { icon: typeof Clock; className: string }> = {
+  Opened: { icon: PlayCircle, className: 'text-primary-600 bg-primary-50' },
+  ObservationAdded: { icon: Plus, className: 'text-secondary-600 bg-secondary-50' },
+  ObservationEdited: { icon: PenLine, className: 'text-secondary-600 bg-secondary-50' },
+  ImageCaptured: { icon: Camera, className: 'text-accent-600 bg-accent-50' },
+  Shared: { icon: Share2, className: 'text-primary-600 bg-primary-50' },
+  Escalated: { icon: AlertOctagon, className: 'text-warning-600 bg-warning-50' },
+  Completed: { icon: CheckCircle, className: 'text-success-600 bg-success-50' },
+  Cancelled: { icon: XCircle, className: 'text-gray-600 bg-gray-100' },
+  Expired: { icon: Clock, className: 'text-error-600 bg-error-50' },
+  Reopened: { icon: RotateCcw, className: 'text-warning-600 bg-warning-50' },
+  Extended: { icon: Timer, className: 'text-primary-600 bg-primary-50' },
+  OwnerReassigned: { icon: UserCheck, className: 'text-primary-600 bg-primary-50' }
+};
+
+const SYSTEM_FILTER = 'system';
+
+const eventUserName = (event: SessionEvent) =>
+  event.user_id ? event.user_name || event.user_email || 'Unknown user' : 'System';
+
+// A session's event log, newest first, filterable by who did what
+const SessionTimeline = ({ events, isLoading = false, testId = 'session-timeline' }: SessionTimelineProps) => {
+  const [userFilter, setUserFilter] = useState('');
+
+  const participants = useMemo(() => {
+    const byId = new Map<string, string>();
+    events.forEach(event => {
+      byId.set(event.user_id || SYSTEM_FILTER, eventUserName(event));
+    });
+    return Array.from(byId, ([id, name]) => ({ id, name }));
+  }, [events]);
+
+  // Anything logged after an admin reopened the session was entered late
+  const lateEventIds = useMemo(() => {
+    const late = new Set<string>();
+    let reopened = false;
+    events.forEach(event => {
+      if (reopened && event.event_type !== 'Expired' && event.event_type !== 'Reopened') {
+        late.add(event.event_id);
+      }
+      if (event.event_type === 'Reopened') reopened = true;
+    });
+    return late;
+  }, [events]);
+
+  const visibleEvents = useMemo(() => {
+    const filtered = userFilter
+      ? events.filter(event => (event.user_id || SYSTEM_FILTER) === userFilter)
+      : events;
+    return [...filtered].reverse();
+  }, [events, userFilter]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4" data-testid={testId}>
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div data-testid={testId}>
+      {participants.length > 1 && (
+        <div className="mb-3">
+          <label htmlFor={`${testId}-user-filter`} className="sr-only">Filter by person</label>
+          <select
+            id={`${testId}-user-filter`}
+            className="w-full sm:w-auto px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            value={userFilter}
+            onChange={e => setUserFilter(e.target.value)}
+            data-testid={`${testId}-user-filter`}
+          >
+            <option value="">Everyone</option>
+            {participants.map(participant => (
+              <option key={participant.id} value={participant.id}>{participant.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {visibleEvents.length === 0 ? (
+        <p className="text-sm text-gray-500 py-2">No activity recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-3">
+          {visibleEvents.map(event => {
+            const { icon: Icon, className } = eventIcons[event.event_type] || eventIcons.Opened;
+            return (
+              <li key={event.event_id} className="mb-3 ml-5" data-testid={`${testId}-event-${event.event_id}`}>
+                <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white ${className}`}>
+                  <Icon size={12} />
+                </span>
+                <p className="text-sm text-gray-900">
+                  {describeSessionEvent(event)}
+                  {lateEventIds.has(event.event_id) && (
+                    <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-warning-100 text-warning-800">
+                      Late
+                    </span>
+                  )}
+                </p>
+                {event.event_type === 'Reopened' && typeof event.details?.justification === 'string' && (
+                  <p className="text-xs text-gray-600 italic">"{event.details.justification}"</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  <span className="font-medium text-gray-700">{eventUserName(event)}</span>
+                  {' · '}
+                  <time dateTime={event.occurred_at} title={format(new Date(event.occurred_at), 'PPpp')}>
+                    {formatDistanceToNow(new Date(event.occurred_at), { addSuffix: true })}
+                  </time>
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default SessionTimeline;
@@ -15,7 +15,8 @@ import {
   CloudRain,
   Sun,
   Cloud,
-  ArrowRight
+  ArrowRight,
+  RotateCcw
 } from 'lucide-react';
 import Card, { CardHeader, CardContent, CardFooter } from '../common/Card';
 import Button from '../common/Button';
@@ -28,10 +29,12 @@ interface SubmissionCardProps {
   canDelete: boolean;
   sessionStatus?: string;
   lastActivityTime?: string;
+  // When an admin reopened the session after it expired
+  reopenedAt?: string;
   testId?: string;
 }
 
-const SubmissionCard = ({ submission, onDelete, canDelete, sessionStatus, lastActivityTime, testId }: SubmissionCardProps) => {
+const SubmissionCard = ({ submission, onDelete, canDelete, sessionStatus, lastActivityTime, reopenedAt, testId }: SubmissionCardProps) => {
   const navigate = useNavigate();
   const [isExpanded, setIsExpanded] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -108,6 +111,16 @@ const SubmissionCard = ({ submission, onDelete, canDelete, sessionStatus, lastAc
                   {sessionStatus}
                 </span>
               )}
+              {reopenedAt && (
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-warning-100 text-warning-800"
+                  title={`Reopened by an admin ${format(new Date(reopenedAt), 'PPp')}`}
+                  data-testid={`submission-reopened-badge-${submission.submission_id}`}
+                >
+                  <RotateCcw size={12} className="mr-1" />
+                  Reopened
+                </span>
+              )}
             </div>
           </div>
           <div className="flex items-center space-x-2">
@@ -1,11 +1,17 @@
 import { useState, useEffect } from 'react';
-import { Clock, BarChart4, User, Users, Hash, Share2 } from 'lucide-react';
-import { format, formatDistanceToNow, differenceInSeconds, set } from 'date-fns';
+import { Clock, BarChart4, User, Users, Hash, Share2, History, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
 import Card, { CardHeader, CardContent } from '../common/Card';
-import { SubmissionSession } from '../../types/session';
+import { SessionEvent, SubmissionSession } from '../../types/session';
 import SessionProgressStages from './SessionProgressStages';
+import SessionTimeline from './SessionTimeline';
 import { supabase } from '../../lib/supabaseClient';
 import Button from '../common/Button';
+import PresenceAvatars from '../common/PresenceAvatars';
+import { PresenceMember } from '../../utils/presence';
+import { useSessionCountdown } from '../../hooks/useSessionCountdown';
+import { calculateSessionExpiration } from '../../utils/sessionExpiration';
+import { SessionCompletionSummary } from '../../utils/completionRules';
 
 interface SubmissionOverviewCardProps {
   session: SubmissionSession | null;
@@ -19,6 +25,15 @@ interface SubmissionOverviewCardProps {
   petrisTotal?: number;
   gasifiersComplete?: number;
   gasifiersTotal?: number;
+  // The session evaluated against its site's completion rules
+  completion?: SessionCompletionSummary;
+  // Collaborators who have the session open right now
+  presentMembers?: PresenceMember[];
+  // The session's event log, oldest first
+  events?: SessionEvent[];
+  isLoadingEvents?: boolean;
+  // Shown to program admins on expired sessions
+  onReopen?: () => void;
 }
 
 const SubmissionOverviewCard: React.FC<SubmissionOverviewCardProps> = ({
@@ -31,12 +46,16 @@ const SubmissionOverviewCard: React.FC<SubmissionOverviewCardProps> = ({
   petrisComplete = 0,
   petrisTotal = 0,
   gasifiersComplete = 0,
-  gasifiersTotal = 0
+  gasifiersTotal = 0,
+  completion,
+  presentMembers = [],
+  events = [],
+  isLoadingEvents = false,
+  onReopen
 }) => {
-  const [timeRemaining, setTimeRemaining] = useState<number>(0);
-  const [timeRemainingString, setTimeRemainingString] = useState<string>("");
   const [sharedUsersDetails, setSharedUsersDetails] = useState<Map<string, { full_name: string | null; email: string }>>(new Map());
   const [formattedSharedUsers, setFormattedSharedUsers] = useState<string>("");
+  const [showTimeline, setShowTimeline] = useState(false);
   
   // Fetch shared users' details when session changes
   useEffect(() => {
@@ -99,70 +118,20 @@ const SubmissionOverviewCard: React.FC<SubmissionOverviewCardProps> = ({
     setFormattedSharedUsers(result);
   }, [session?.escalated_to_user_ids, sharedUsersDetails]);
 
-  if (!session && !submissionCreatedAt) return null;
+  // Time left under the site's expiration policy; legacy submissions without a
+  // session fall back to the default end-of-day rule from their creation time
+  const {
+    expiresAt,
+    secondsRemaining: timeRemaining,
+    timeRemainingString,
+    isExpired: isSessionPastExpiration,
+    isExpiringSoon
+  } = useSessionCountdown(session);
 
-  // Calculate expiration time (11:59:59 PM of the session start day)
-  const calculateExpirationTime = () => {
-    const startDate = session 
-      ? new Date(session.session_start_time) 
-      : submissionCreatedAt 
-        ? new Date(submissionCreatedAt) 
-        : new Date();
-    
-    // Create a new date set to 11:59:59 PM of the start date
-    const expirationTime = new Date(startDate);
-    expirationTime.setHours(23, 59, 59, 999);
-    
-    return expirationTime;
-  };
+  if (!session && !submissionCreatedAt) return null;
 
-  const expirationTime = calculateExpirationTime();
-  const now = new Date();
-  const isExpired = now > expirationTime;
-  
-  // Calculate and update time remaining
-  useEffect(() => {
-    if (isExpired || 
-        !session || 
-        ['Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete'].includes(session.session_status)) {
-      setTimeRemaining(0);
-      setTimeRemainingString("Expired");
-      return;
-    }
-    
-    // Format time remaining as HH:MM:SS
-    const formatTimeRemaining = (seconds: number) => {
-      if (seconds <= 0) return "00:00:00";
-      
-      const hours = Math.floor(seconds / 3600);
-      const minutes = Math.floor((seconds % 3600) / 60);
-      const secs = seconds % 60;
-      
-      return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-    };
-    
-    // Initial calculation
-    const initialRemaining = differenceInSeconds(expirationTime, now);
-    setTimeRemaining(initialRemaining);
-    setTimeRemainingString(formatTimeRemaining(initialRemaining));
-    
-    // Update every second
-    const interval = setInterval(() => {
-      const now = new Date();
-      if (now > expirationTime) {
-        clearInterval(interval);
-        setTimeRemaining(0);
-        setTimeRemainingString("Expired");
-        return;
-      }
-      
-      const seconds = differenceInSeconds(expirationTime, now);
-      setTimeRemaining(seconds);
-      setTimeRemainingString(formatTimeRemaining(seconds));
-    }, 1000);
-    
-    return () => clearInterval(interval);
-  }, [session, expirationTime, isExpired]);
+  const expirationTime = expiresAt || calculateSessionExpiration(submissionCreatedAt || new Date());
+  const isExpired = session ? isSessionPastExpiration : new Date() > expirationTime;
   
   // Get status color for badges
   const getStatusColor = (status: string) => {
@@ -183,9 +152,9 @@ const SubmissionOverviewCard: React.FC<SubmissionOverviewCardProps> = ({
   // Get color for countdown timer
   const getTimeRemainingColor = () => {
     const hoursRemaining = timeRemaining / 3600;
-    if (hoursRemaining > 8) return "text-success-600"; // Green for > 8 hours
-    if (hoursRemaining > 4) return "text-warning-600"; // Yellow for 4-8 hours
-    return "text-error-600"; // Red for ≤ 4 hours
+    if (isExpiringSoon) return "text-error-600"; // Red inside the warning window
+    if (hoursRemaining > 4) return "text-success-600"; // Green for > 4 hours
+    return "text-warning-600"; // Yellow for ≤ 4 hours
   };
   
   // Get display status - special case for Shared status
@@ -212,11 +181,17 @@ const SubmissionOverviewCard: React.FC<SubmissionOverviewCardProps> = ({
 
   return (
     <Card className="mb-4">
-      <CardHeader>
+      <CardHeader className="flex justify-between items-center">
         <h2 className="font-medium flex items-center">
           <Clock className="mr-2 h-5 w-5 text-primary-600" />
           Submission Status
         </h2>
+        {presentMembers.length > 0 && (
+          <div className="flex items-center">
+            <span className="text-xs text-gray-500 mr-2">Here now</span>
+            <PresenceAvatars members={presentMembers} testId="submission-presence-avatars" />
+          </div>
+        )}
       </CardHeader>
       <CardContent>
         {/* Progress stages */}
@@ -228,6 +203,7 @@ const SubmissionOverviewCard: React.FC<SubmissionOverviewCardProps> = ({
             petrisTotal={petrisTotal}
             gasifiersComplete={gasifiersComplete}
             gasifiersTotal={gasifiersTotal}
+            completion={completion}
           />
         )}
 
@@ -317,6 +293,7 @@ const SubmissionOverviewCard: React.FC<SubmissionOverviewCardProps> = ({
             )}
           </div>
 
+
           {/* Session status message */}
           {session && ['Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete'].includes(session.session_status) && (
             <div className="mt-4 p-3 bg-gray-100 border border-gray-200 rounded-md">
@@ -328,9 +305,60 @@ const SubmissionOverviewCard: React.FC<SubmissionOverviewCardProps> = ({
                     ? ' The session was manually cancelled.' : 
                     ' The submission has been finalized.'}
               </p>
+              {onReopen && session.session_status.includes('Expired') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={<RotateCcw size={14} />}
+                  onClick={onReopen}
+                  className="mt-2"
+                  testId="reopen-session-button"
+                >
+                  Reopen Session
+                </Button>
+              )}
+            </div>
+          )}
+
+          {session?.reopened_at && (
+            <div className="mt-4 p-3 bg-warning-50 border border-warning-200 rounded-md" data-testid="session-reopened-notice">
+              <p className="text-sm text-warning-800 flex items-center">
+                <RotateCcw size={14} className="mr-1.5 flex-shrink-0" />
+                Reopened by an admin {format(new Date(session.reopened_at), 'PPp')}. Data entered since then is marked late.
+              </p>
+              {session.reopen_justification && (
+                <p className="text-xs text-warning-700 italic mt-1">"{session.reopen_justification}"</p>
+              )}
             </div>
           )}
         </div>
+
+        {/* Activity timeline */}
+        {session && (
+          <div className="mt-4" data-testid="submission-activity">
+            <button
+              type="button"
+              className="w-full flex items-center justify-between text-left"
+              onClick={() => setShowTimeline(!showTimeline)}
+              aria-expanded={showTimeline}
+              data-testid="toggle-activity-timeline"
+            >
+              <span className="flex items-center text-sm font-medium text-gray-700">
+                <History className="mr-2 h-4 w-4 text-gray-500" />
+                Activity
+                {events.length > 0 && (
+                  <span className="ml-2 text-xs text-gray-500">({events.length})</span>
+                )}
+              </span>
+              {showTimeline ? <ChevronUp size={16} className="text-gray-500" /> : <ChevronDown size={16} className="text-gray-500" />}
+            </button>
+            {showTimeline && (
+              <div className="mt-3">
+                <SessionTimeline events={events} isLoading={isLoadingEvents} />
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
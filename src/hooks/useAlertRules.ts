@@ -0,0 +1,174 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-toastify';
+import { supabase } from '../lib/supabaseClient';
+import { resolveSiteAlert } from '../lib/siteAlerts';
+import { createLogger } from '../utils/logger';
+import { AlertRule, AlertRuleDraft, SiteAlert, countOpenAlertsBySite } from '../utils/alertRules';
+
+// Create a hook-specific logger
+const logger = createLogger('useAlertRules');
+
+// NUMERIC columns arrive as strings
+const toAlertRule = (row: AlertRule): AlertRule => ({ ...row, threshold: Number(row.threshold) });
+const toSiteAlert = (row: SiteAlert): SiteAlert => ({
+  ...row,
+  threshold: Number(row.threshold),
+  value: Number(row.value)
+});
+
+// A program's alert rules, program-wide ones first
+export function useAlertRules(programId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const rulesQuery = useQuery({
+    queryKey: ['alertRules', programId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .select('*')
+        .eq('program_id', programId)
+        .order('site_id', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching alert rules:', error);
+        throw error;
+      }
+
+      return ((data || []) as AlertRule[]).map(toAlertRule);
+    },
+    enabled: !!programId,
+    staleTime: 5 * 60 * 1000
+  });
+
+  const invalidateRules = () => queryClient.invalidateQueries({ queryKey: ['alertRules', programId] });
+
+  const createRuleMutation = useMutation({
+    mutationFn: async (draft: AlertRuleDraft) => {
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .insert({ ...draft, program_id: programId })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Error creating alert rule:', error);
+        throw error;
+      }
+
+      return toAlertRule(data as AlertRule);
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast.success('Alert rule added');
+    },
+    onError: (error) => {
+      toast.error(`Failed to add alert rule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  const setRuleActiveMutation = useMutation({
+    mutationFn: async ({ ruleId, isActive }: { ruleId: string; isActive: boolean }) => {
+      const { error } = await supabase
+        .from('alert_rules')
+        .update({ is_active: isActive })
+        .eq('rule_id', ruleId);
+
+      if (error) {
+        logger.error('Error updating alert rule:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateRules();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update alert rule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const { error } = await supabase
+        .from('alert_rules')
+        .delete()
+        .eq('rule_id', ruleId);
+
+      if (error) {
+        logger.error('Error deleting alert rule:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateRules();
+      // Deleting a rule deletes its alerts
+      queryClient.invalidateQueries({ queryKey: ['siteAlerts', programId] });
+      toast.success('Alert rule deleted');
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete alert rule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  return {
+    rules: rulesQuery.data || [],
+    isLoading: rulesQuery.isLoading,
+    error: rulesQuery.error,
+    createRule: createRuleMutation.mutateAsync,
+    setRuleActive: (ruleId: string, isActive: boolean) => setRuleActiveMutation.mutateAsync({ ruleId, isActive }),
+    deleteRule: deleteRuleMutation.mutateAsync,
+    isSaving: createRuleMutation.isPending || setRuleActiveMutation.isPending || deleteRuleMutation.isPending
+  };
+}
+
+// A program's open alerts, newest first, with how many each site has
+export function useSiteAlerts(programId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const alertsQuery = useQuery({
+    queryKey: ['siteAlerts', programId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('site_alerts')
+        .select('*')
+        .eq('program_id', programId)
+        .is('resolved_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        logger.error('Error fetching site alerts:', error);
+        throw error;
+      }
+
+      return ((data || []) as SiteAlert[]).map(toSiteAlert);
+    },
+    enabled: !!programId,
+    staleTime: 60 * 1000
+  });
+
+  const resolveAlertMutation = useMutation({
+    mutationFn: resolveSiteAlert,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['siteAlerts', programId] });
+      queryClient.invalidateQueries({ queryKey: ['inbox'] });
+      toast.success('Alert resolved');
+    },
+    onError: (error) => {
+      toast.error(`Failed to resolve alert: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  const alerts = alertsQuery.data;
+  const countsBySite = useMemo(() => countOpenAlertsBySite(alerts || []), [alerts]);
+
+  return {
+    alerts: alerts || [],
+    countsBySite,
+    isLoading: alertsQuery.isLoading,
+    error: alertsQuery.error,
+    resolveAlert: resolveAlertMutation.mutateAsync
+  };
+}
+
+export default useAlertRules;
@@ -0,0 +1,68 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabaseClient';
+import { createLogger } from '../utils/logger';
+import { ObservationKind } from '../utils/completionRules';
+import { normalizeCode } from '../utils/codeScanner';
+import { CodeLineageEntry, SiteCodeSummary } from '../utils/codeLineage';
+
+// Create a hook-specific logger
+const logger = createLogger('useCodeLineage');
+
+// The petri and gasifier codes observed at a site
+export function useSiteCodes(siteId: string | undefined) {
+  const codesQuery = useQuery({
+    queryKey: ['siteCodes', siteId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_site_codes', { p_site_id: siteId });
+
+      if (error) {
+        logger.error('Error fetching site codes:', error);
+        throw error;
+      }
+
+      return (data || []) as SiteCodeSummary[];
+    },
+    enabled: !!siteId,
+    staleTime: 5 * 60 * 1000
+  });
+
+  return {
+    codes: codesQuery.data || [],
+    isLoading: codesQuery.isLoading,
+    error: codesQuery.error
+  };
+}
+
+// Every observation of one code at a site, oldest first
+export function useCodeLineage(siteId: string | undefined, kind: ObservationKind | undefined, code: string | undefined) {
+  const lineageQuery = useQuery({
+    // Codes match regardless of case and spacing, so they share a cache entry too
+    queryKey: ['codeLineage', siteId, kind, code ? normalizeCode(code) : null],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_code_lineage', {
+        p_site_id: siteId,
+        p_kind: kind,
+        p_code: code
+      });
+
+      if (error) {
+        logger.error('Error fetching code lineage:', error);
+        throw error;
+      }
+
+      return (data || []) as CodeLineageEntry[];
+    },
+    enabled: !!siteId && !!kind && !!code,
+    staleTime: 5 * 60 * 1000
+  });
+
+  return {
+    entries: lineageQuery.data || [],
+    isLoading: lineageQuery.isLoading,
+    isFetching: lineageQuery.isFetching,
+    error: lineageQuery.error,
+    refetch: lineageQuery.refetch
+  };
+}
+
+export default useCodeLineage;
@@ -0,0 +1,77 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabaseClient';
+import { AnalyticsGranularity } from '../lib/types';
+import { createLogger } from '../utils/logger';
+import { DateRange } from '../utils/analyticsPeriods';
+import {
+  AnalyticsSubmission,
+  aggregateEnvironmentalTrends,
+  countWeatherConditions
+} from '../utils/environmentalAnalytics';
+
+// Create a hook-specific logger
+const logger = createLogger('useEnvironmentalAnalytics');
+
+const toNumber = (value: number | string | null) => value === null ? null : Number(value);
+
+// Submission counts, conditions and weather for a program or site, bucketed over a date range
+export function useEnvironmentalAnalytics(
+  programId: string | null,
+  siteId: string | null,
+  range: DateRange,
+  granularity: AnalyticsGranularity
+) {
+  const submissionsQuery = useQuery({
+    queryKey: ['environmentalAnalytics', programId, siteId, range.start.toISOString(), range.end.toISOString()],
+    queryFn: async () => {
+      let query = supabase
+        .from('submissions')
+        .select('created_at, temperature, humidity, indoor_temperature, indoor_humidity, weather')
+        .gte('created_at', range.start.toISOString())
+        .lte('created_at', range.end.toISOString())
+        .order('created_at', { ascending: true });
+
+      // A site narrows a program down, so it takes precedence
+      query = siteId ? query.eq('site_id', siteId) : query.eq('program_id', programId);
+
+      const { data, error } = await query;
+
+      if (error) {
+        logger.error('Error fetching environmental analytics:', error);
+        throw error;
+      }
+
+      // NUMERIC columns arrive as strings
+      return ((data || []) as AnalyticsSubmission[]).map(row => ({
+        ...row,
+        temperature: toNumber(row.temperature),
+        humidity: toNumber(row.humidity),
+        indoor_temperature: toNumber(row.indoor_temperature),
+        indoor_humidity: toNumber(row.indoor_humidity)
+      }));
+    },
+    enabled: !!programId || !!siteId,
+    staleTime: 5 * 60 * 1000
+  });
+
+  const trends = useMemo(
+    () => aggregateEnvironmentalTrends(submissionsQuery.data || [], range, granularity),
+    [submissionsQuery.data, range, granularity]
+  );
+  const weather = useMemo(
+    () => countWeatherConditions(submissionsQuery.data || [], range, granularity),
+    [submissionsQuery.data, range, granularity]
+  );
+
+  return {
+    trends,
+    weather,
+    isLoading: submissionsQuery.isLoading,
+    isFetching: submissionsQuery.isFetching,
+    error: submissionsQuery.error,
+    refetch: submissionsQuery.refetch
+  };
+}
+
+export default useEnvironmentalAnalytics;
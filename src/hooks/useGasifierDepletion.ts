@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabaseClient';
+import { createLogger } from '../utils/logger';
+import {
+  forecastGasifiers,
+  GasifierMeasure,
+  GasifierReplacementPolicy,
+  resolveReplacementPolicy
+} from '../utils/gasifierDepletion';
+
+// Create a hook-specific logger
+const logger = createLogger('useGasifierDepletion');
+
+// Depletion forecasts for every gasifier with readings at a site, the most urgent first
+export function useGasifierDepletion(
+  siteId: string | undefined,
+  policy?: Partial<GasifierReplacementPolicy> | null
+) {
+  const measuresQuery = useQuery({
+    queryKey: ['gasifierMeasures', siteId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_gasifier_measures', { p_site_id: siteId });
+
+      if (error) {
+        logger.error('Error fetching gasifier measures:', error);
+        throw error;
+      }
+
+      return ((data || []) as GasifierMeasure[]).map(row => ({ ...row, measure: Number(row.measure) }));
+    },
+    enabled: !!siteId,
+    staleTime: 5 * 60 * 1000
+  });
+
+  const resolvedPolicy = resolveReplacementPolicy(policy);
+  const { threshold, lead_days } = resolvedPolicy;
+  const forecasts = useMemo(
+    () => forecastGasifiers(measuresQuery.data || [], { threshold, lead_days }),
+    [measuresQuery.data, threshold, lead_days]
+  );
+
+  return {
+    forecasts,
+    policy: resolvedPolicy,
+    isLoading: measuresQuery.isLoading,
+    error: measuresQuery.error
+  };
+}
+
+export default useGasifierDepletion;
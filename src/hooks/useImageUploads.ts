@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+import { onImageUploadProgress, ImageUploadProgress } from '../utils/imageUploadQueue';
+
+// Track every image in the background upload queue
+export function useImageUploads() {
+  const [uploads, setUploads] = useState<ImageUploadProgress[]>([]);
+
+  useEffect(() => onImageUploadProgress(setUploads), []);
+
+  return uploads;
+}
+
+// Track the upload of a single temp image, if it is queued
+export function useImageUploadStatus(tempImageKey?: string) {
+  const uploads = useImageUploads();
+  return tempImageKey ? uploads.find(upload => upload.tempImageKey === tempImageKey) : undefined;
+}
@@ -0,0 +1,113 @@
+import { useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-toastify';
+import { supabase } from '../lib/supabaseClient';
+import { useAuthStore } from '../stores/authStore';
+import { InboxItem } from '../types/inbox';
+import { createLogger } from '../utils/logger';
+
+// Create a hook-specific logger
+const logger = createLogger('useInbox');
+
+const INBOX_LIMIT = 50;
+
+// The current user's in-app inbox, kept current over Realtime
+export function useInbox() {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const inboxQuery = useQuery({
+    queryKey: ['inbox', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('inbox_items')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(INBOX_LIMIT);
+
+      if (error) {
+        logger.error('Error fetching inbox:', error);
+        throw error;
+      }
+
+      return (data || []) as InboxItem[];
+    },
+    enabled: !!user,
+    staleTime: 60 * 1000
+  });
+
+  // Refetch whenever one of the user's items is added or changes
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`inbox:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'inbox_items', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            const item = payload.new as InboxItem;
+            if (item.requires_acknowledgement) {
+              toast.info(item.title);
+            }
+          }
+          queryClient.invalidateQueries({ queryKey: ['inbox', user.id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  const items = inboxQuery.data || [];
+
+  const markRead = useCallback(async (itemIds: string[]) => {
+    if (itemIds.length === 0) return;
+
+    const { error } = await supabase.rpc('mark_inbox_items_read', { p_item_ids: itemIds });
+    if (error) {
+      logger.error('Error marking inbox items read:', error);
+      return;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['inbox', user?.id] });
+  }, [queryClient, user?.id]);
+
+  const acknowledgeItem = useCallback(async (itemId: string) => {
+    const { data, error } = await supabase.rpc('acknowledge_inbox_item', { p_item_id: itemId });
+    if (error || !data?.success) {
+      logger.error('Error acknowledging inbox item:', error || data?.message);
+      toast.error('Failed to acknowledge item');
+      return false;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['inbox', user?.id] });
+    // Acknowledging a threshold alert resolves it
+    if (data.item?.item_type === 'threshold_alert') {
+      queryClient.invalidateQueries({ queryKey: ['siteAlerts'] });
+    }
+    return true;
+  }, [queryClient, user?.id]);
+
+  const refresh = useCallback(() => {
+    return queryClient.invalidateQueries({ queryKey: ['inbox', user?.id] });
+  }, [queryClient, user?.id]);
+
+  return {
+    items,
+    isLoading: inboxQuery.isLoading,
+    // Items still waiting on the user's acknowledgement
+    pendingAcknowledgementCount: items.filter(item => item.requires_acknowledgement && !item.acknowledged_at).length,
+    unreadCount: items.filter(item => !item.read_at).length,
+    markRead,
+    acknowledgeItem,
+    refresh
+  };
+}
+
+export default useInbox;
@@ -0,0 +1,58 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabaseClient';
+import { createLogger } from '../utils/logger';
+import { AnalyticsPeriod, periodStart } from '../utils/analyticsPeriods';
+import { compareGroups, ComparisonRow } from '../utils/siteComparison';
+
+// Create a hook-specific logger
+const logger = createLogger('useProgramComparison');
+
+const toNumber = (value: number | string | null) => value === null ? null : Number(value);
+
+// Control and treatment sites in a program, averaged over a period and each interval in it
+export function useProgramComparison(programId: string | undefined, period: AnalyticsPeriod) {
+  const comparisonQuery = useQuery({
+    queryKey: ['programComparison', programId, period],
+    queryFn: async () => {
+      const start = periodStart(period);
+      const { data, error } = await supabase.rpc('get_program_comparison', {
+        p_program_id: programId,
+        p_start: start ? start.toISOString() : null
+      });
+
+      if (error) {
+        logger.error('Error fetching program comparison:', error);
+        throw error;
+      }
+
+      // NUMERIC columns arrive as strings
+      return ((data || []) as ComparisonRow[]).map(row => ({
+        ...row,
+        temperature: toNumber(row.temperature),
+        humidity: toNumber(row.humidity),
+        indoor_temperature: toNumber(row.indoor_temperature),
+        indoor_humidity: toNumber(row.indoor_humidity),
+        colony_coverage_sum: Number(row.colony_coverage_sum),
+        colony_count_sum: Number(row.colony_count_sum)
+      }));
+    },
+    enabled: !!programId,
+    staleTime: 5 * 60 * 1000
+  });
+
+  const comparison = useMemo(
+    () => compareGroups(comparisonQuery.data || [], period),
+    [comparisonQuery.data, period]
+  );
+
+  return {
+    comparison,
+    isLoading: comparisonQuery.isLoading,
+    isFetching: comparisonQuery.isFetching,
+    error: comparisonQuery.error,
+    refetch: comparisonQuery.refetch
+  };
+}
+
+export default useProgramComparison;
@@ -0,0 +1,163 @@
+import { useMemo, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-toastify';
+import { supabase } from '../lib/supabaseClient';
+import { useAuthStore } from '../stores/authStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { ActiveSession } from '../types/session';
+import { createLogger } from '../utils/logger';
+import { SubmissionSchedule, getScheduleStatus } from '../utils/submissionSchedule';
+import { RouteStop, planRoute } from '../utils/routePlanner';
+import { useScheduleNow } from './useSiteSchedules';
+
+// Create a hook-specific logger
+const logger = createLogger('useRoutePlanner');
+
+// Sessions in these states can't be resumed
+const FINISHED_STATUSES = ['Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete'];
+
+const NO_SAVED_ORDER: string[] = [];
+
+// A row of get_route_sites()
+export interface RouteSiteRow {
+  site_id: string;
+  site_name: string;
+  site_type: string;
+  program_id: string;
+  program_name: string;
+  timezone: string | null;
+  submission_schedule: SubmissionSchedule | null;
+  last_submission_at: string | null;
+}
+
+export interface RouteSite extends RouteSiteRow, RouteStop {
+  // The user's session in progress at the site, if any
+  activeSession: ActiveSession | null;
+}
+
+// Every site the user can submit to across programs, split into today's route
+// and the rest, with the user's saved route order
+export function useRoutePlanner() {
+  const { user } = useAuthStore();
+  const { activeSessions } = useSessionStore();
+  const queryClient = useQueryClient();
+  const now = useScheduleNow();
+
+  const sitesQuery = useQuery({
+    queryKey: ['routeSites', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_route_sites');
+
+      if (error) {
+        logger.error('Error fetching route sites:', error);
+        throw error;
+      }
+
+      return (data || []) as RouteSiteRow[];
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000
+  });
+
+  const orderQuery = useQuery({
+    queryKey: ['routeOrder', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_route_orders')
+        .select('site_ids')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error fetching route order:', error);
+        throw error;
+      }
+
+      return (data?.site_ids || []) as string[];
+    },
+    enabled: !!user,
+    staleTime: Infinity
+  });
+
+  const saveOrderMutation = useMutation({
+    mutationFn: async (siteIds: string[]) => {
+      const { error } = await supabase
+        .from('user_route_orders')
+        .upsert({ user_id: user!.id, site_ids: siteIds, updated_at: new Date().toISOString() });
+
+      if (error) {
+        logger.error('Error saving route order:', error);
+        throw error;
+      }
+
+      return siteIds;
+    },
+    onSuccess: (siteIds) => {
+      queryClient.setQueryData(['routeOrder', user?.id], siteIds);
+    },
+    onError: (error) => {
+      toast.error(`Failed to save your route: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  const savedOrder = orderQuery.data ?? NO_SAVED_ORDER;
+
+  const sites = useMemo<RouteSite[]>(() => {
+    // The most recently active of the user's open sessions at each site
+    const sessionBySite = new Map<string, ActiveSession>();
+    activeSessions
+      .filter(session => !FINISHED_STATUSES.includes(session.session_status))
+      .forEach(session => {
+        const current = sessionBySite.get(session.site_id);
+        if (!current || session.last_activity_time > current.last_activity_time) {
+          sessionBySite.set(session.site_id, session);
+        }
+      });
+
+    return (sitesQuery.data || []).map(row => {
+      const activeSession = sessionBySite.get(row.site_id) || null;
+      return {
+        ...row,
+        status: row.submission_schedule
+          ? getScheduleStatus(row.submission_schedule, {
+            timeZone: row.timezone,
+            lastSubmissionAt: row.last_submission_at,
+            now
+          })
+          : null,
+        activeSession,
+        hasActiveSession: !!activeSession
+      };
+    });
+  }, [sitesQuery.data, activeSessions, now]);
+
+  const { route, others } = useMemo(() => planRoute(sites, savedOrder), [sites, savedOrder]);
+
+  const saveRouteOrder = useCallback(async (siteIds: string[]): Promise<boolean> => {
+    try {
+      await saveOrderMutation.mutateAsync(siteIds);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }, [saveOrderMutation]);
+
+  const refresh = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: ['routeSites'] });
+    await queryClient.invalidateQueries({ queryKey: ['siteSchedules'] });
+  }, [queryClient]);
+
+  return {
+    route,
+    others,
+    savedOrder,
+    isLoading: sitesQuery.isLoading || orderQuery.isLoading,
+    isFetching: sitesQuery.isFetching,
+    isSavingOrder: saveOrderMutation.isPending,
+    error: sitesQuery.error,
+    saveRouteOrder,
+    refresh
+  };
+}
+
+export default useRoutePlanner;
@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import {
+  ExpiringSession,
+  formatTimeRemaining,
+  getSessionExpiration,
+  getSessionWarningMinutes
+} from '../utils/sessionExpiration';
+
+const CLOSED_STATUSES = ['Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete'];
+
+// Live countdown to a session's expiration, ticking every second while it is open
+export function useSessionCountdown(session: (ExpiringSession & { session_status: string }) | null | undefined) {
+  const [now, setNow] = useState(() => new Date());
+
+  const expiresAtTime = session ? getSessionExpiration(session).getTime() : null;
+  const warningMinutes = session ? getSessionWarningMinutes(session) : 0;
+  const isClosed = !session || CLOSED_STATUSES.includes(session.session_status);
+
+  useEffect(() => {
+    if (isClosed || expiresAtTime === null) return;
+
+    setNow(new Date());
+    const interval = setInterval(() => {
+      const current = new Date();
+      setNow(current);
+      if (current.getTime() >= expiresAtTime) clearInterval(interval);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isClosed, expiresAtTime]);
+
+  const expiresAt = expiresAtTime !== null ? new Date(expiresAtTime) : null;
+  const secondsRemaining = expiresAtTime !== null && !isClosed
+    ? Math.max(0, Math.floor((expiresAtTime - now.getTime()) / 1000))
+    : 0;
+  const isExpired = expiresAtTime !== null && now.getTime() >= expiresAtTime;
+
+  return {
+    expiresAt,
+    secondsRemaining,
+    timeRemainingString: secondsRemaining > 0 ? formatTimeRemaining(secondsRemaining) : 'Expired',
+    isExpired,
+    // Inside the warning window before expiration
+    isExpiringSoon: secondsRemaining > 0 && secondsRemaining <= warningMinutes * 60,
+    warningMinutes
+  };
+}
+
+export default useSessionCountdown;
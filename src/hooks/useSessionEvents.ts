@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabaseClient';
+import { getSessionEvents } from '../lib/sessionEvents';
+import offlineStorage from '../utils/offlineStorage';
+
+// A session's event log, updated live as collaborators work
+export function useSessionEvents(sessionId?: string | null) {
+  const queryClient = useQueryClient();
+  // Sessions created offline have no log until they reach the server
+  const enabled = !!sessionId && !offlineStorage.isTempId(sessionId);
+
+  const eventsQuery = useQuery({
+    queryKey: ['sessionEvents', sessionId],
+    queryFn: () => getSessionEvents(sessionId as string),
+    enabled,
+    staleTime: 60 * 1000
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel(`session-events:${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'session_events', filter: `session_id=eq.${sessionId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['sessionEvents', sessionId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, sessionId, queryClient]);
+
+  return {
+    events: eventsQuery.data || [],
+    isLoading: eventsQuery.isLoading,
+    error: eventsQuery.error
+  };
+}
+
+export default useSessionEvents;
@@ -0,0 +1,78 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import presenceClient from '../lib/presenceClient';
+import { PresenceEditing, PresenceJoinHandle, PresenceMember, SessionProgressUpdate } from '../utils/presence';
+import { useAuthStore } from '../stores/authStore';
+import offlineStorage from '../utils/offlineStorage';
+
+// Sessions created offline have no channel until they reach the server
+const canShare = (sessionId?: string | null): sessionId is string =>
+  !!sessionId && !offlineStorage.isTempId(sessionId);
+
+// Who is currently in a session
+export function useSessionPresence(sessionId?: string | null) {
+  const [members, setMembers] = useState<PresenceMember[]>([]);
+
+  useEffect(() => {
+    if (!canShare(sessionId)) {
+      setMembers([]);
+      return;
+    }
+    return presenceClient.subscribeToMembers(sessionId, setMembers);
+  }, [sessionId]);
+
+  return members;
+}
+
+// Join a session as the current user while the component is mounted.
+// Returns the other collaborators and a function to report which form you are editing.
+export function useJoinSessionPresence(sessionId?: string | null) {
+  const { user } = useAuthStore();
+  const members = useSessionPresence(sessionId);
+  const handleRef = useRef<PresenceJoinHandle | null>(null);
+
+  const userId = user?.id;
+  const name = user?.user_metadata?.full_name || user?.email || 'Unknown user';
+
+  useEffect(() => {
+    if (!canShare(sessionId) || !userId) return;
+
+    const handle = presenceClient.join(sessionId, { userId, name });
+    handleRef.current = handle;
+
+    return () => {
+      handle.leave();
+      if (handleRef.current === handle) handleRef.current = null;
+    };
+  }, [sessionId, userId, name]);
+
+  const setEditing = useCallback((editing: PresenceEditing | null) => {
+    handleRef.current?.setEditing(editing);
+  }, []);
+
+  return {
+    members,
+    others: members.filter(member => member.userId !== userId),
+    setEditing
+  };
+}
+
+// Receive progress updates for a set of sessions
+export function useSessionProgressUpdates(
+  sessionIds: string[],
+  onUpdate: (update: SessionProgressUpdate) => void
+) {
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  // Resubscribe only when the set of sessions changes, not on every render
+  const sessionKey = sessionIds.filter(canShare).sort().join(',');
+
+  useEffect(() => {
+    if (!sessionKey) return;
+
+    const unsubscribes = sessionKey.split(',').map(sessionId =>
+      presenceClient.subscribeToProgress(sessionId, update => onUpdateRef.current(update))
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [sessionKey]);
+}
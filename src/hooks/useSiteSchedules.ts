@@ -0,0 +1,93 @@
+import { useEffect, useMemo, useState, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabaseClient';
+import { createLogger } from '../utils/logger';
+import { ScheduleStatus, SubmissionSchedule, getScheduleStatus } from '../utils/submissionSchedule';
+
+// Create a hook-specific logger
+const logger = createLogger('useSiteSchedules');
+
+// Statuses move on as windows open and close
+const REEVALUATE_INTERVAL_MS = 60 * 1000;
+
+// A row of get_site_schedules()
+export interface SiteScheduleRow {
+  site_id: string;
+  site_name: string;
+  program_id: string;
+  program_name: string;
+  timezone: string | null;
+  submission_schedule: SubmissionSchedule;
+  last_submission_at: string | null;
+}
+
+export interface SiteScheduleEntry extends SiteScheduleRow {
+  status: ScheduleStatus;
+}
+
+// The current time, ticking over often enough for schedule statuses to follow
+export function useScheduleNow() {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), REEVALUATE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return now;
+}
+
+// Scheduled sites of one program, or of every program when none is given,
+// with whether each is due or overdue
+export function useSiteSchedules(programId?: string | null) {
+  const queryClient = useQueryClient();
+  const now = useScheduleNow();
+
+  const schedulesQuery = useQuery({
+    queryKey: ['siteSchedules', programId || 'all'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_site_schedules', {
+        p_program_id: programId || null
+      });
+
+      if (error) {
+        logger.error('Error fetching site schedules:', error);
+        throw error;
+      }
+
+      return (data || []) as SiteScheduleRow[];
+    },
+    staleTime: 5 * 60 * 1000
+  });
+
+  const schedules = useMemo<SiteScheduleEntry[]>(
+    () => (schedulesQuery.data || []).map(row => ({
+      ...row,
+      status: getScheduleStatus(row.submission_schedule, {
+        timeZone: row.timezone,
+        lastSubmissionAt: row.last_submission_at,
+        now
+      })
+    })),
+    [schedulesQuery.data, now]
+  );
+
+  const statusBySite = useMemo(
+    () => Object.fromEntries(schedules.map(entry => [entry.site_id, entry.status])) as Record<string, ScheduleStatus>,
+    [schedules]
+  );
+
+  const refresh = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: ['siteSchedules'] });
+  }, [queryClient]);
+
+  return {
+    schedules,
+    statusBySite,
+    isLoading: schedulesQuery.isLoading,
+    error: schedulesQuery.error,
+    refresh
+  };
+}
+
+export default useSiteSchedules;
@@ -4,6 +4,11 @@ import { Site, SubmissionDefaults, PetriDefaults, GasifierDefaults, VentPlacemen
 import { toast } from 'react-toastify';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { withRetry, fetchSitesByProgramId, fetchSiteById } from '../lib/api';
+import { SessionExpirationPolicy } from '../utils/sessionExpiration';
+import { CompletionRules } from '../utils/completionRules';
+import { SubmissionSchedule } from '../utils/submissionSchedule';
+import { GasifierReplacementPolicy } from '../utils/gasifierDepletion';
+import { ComparisonGroup } from '../utils/siteComparison';
 
 // Interface for physical attributes and facility details
 interface SiteProperties {
@@ -138,6 +143,214 @@ export function useSites(programId?: string) {
     }
   });
 
+  // Update site timezone and session expiration policy mutation
+  const updateSiteSessionSettingsMutation = useMutation({
+    mutationFn: async ({
+      siteId,
+      timezone,
+      sessionExpirationPolicy
+    }: {
+      siteId: string;
+      timezone: string | null;
+      sessionExpirationPolicy: SessionExpirationPolicy | null;
+    }) => {
+      const { data, error } = await supabase
+        .from('sites')
+        .update({ 
+          timezone,
+          session_expiration_policy: sessionExpirationPolicy
+        })
+        .eq('site_id', siteId)
+        .select()
+        .single();
+    
+      if (error) {
+        console.error('[useSites] Error updating site session settings:', error);
+        throw error;
+      }
+      
+      return data as Site;
+    },
+    onSuccess: (updatedSite) => {
+      // Update cache for this site
+      queryClient.setQueryData(['site', updatedSite.site_id], updatedSite);
+      
+      // Update site in sites list
+      queryClient.setQueryData<Site[]>(['sites', programId], (oldData) => {
+        if (!oldData) return [updatedSite];
+        return oldData.map(site => site.site_id === updatedSite.site_id ? updatedSite : site);
+      });
+      
+      toast.success('Session expiration settings updated');
+    },
+    onError: (error) => {
+      console.error('[useSites] Error in updateSiteSessionSettings:', error);
+      toast.error(`Failed to update session expiration settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  // Update the rules deciding when a site's observations are complete
+  const updateSiteCompletionRulesMutation = useMutation({
+    mutationFn: async ({
+      siteId,
+      completionRules
+    }: {
+      siteId: string;
+      completionRules: CompletionRules | null;
+    }) => {
+      const { data, error } = await supabase
+        .from('sites')
+        .update({ completion_rules: completionRules })
+        .eq('site_id', siteId)
+        .select()
+        .single();
+    
+      if (error) {
+        console.error('[useSites] Error updating site completion rules:', error);
+        throw error;
+      }
+      
+      return data as Site;
+    },
+    onSuccess: (updatedSite) => {
+      queryClient.setQueryData(['site', updatedSite.site_id], updatedSite);
+      
+      queryClient.setQueryData<Site[]>(['sites', programId], (oldData) => {
+        if (!oldData) return [updatedSite];
+        return oldData.map(site => site.site_id === updatedSite.site_id ? updatedSite : site);
+      });
+      
+      toast.success('Completion rules updated');
+    },
+    onError: (error) => {
+      console.error('[useSites] Error in updateSiteCompletionRules:', error);
+      toast.error(`Failed to update completion rules: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  // Update when a site's readings are due
+  const updateSiteSubmissionScheduleMutation = useMutation({
+    mutationFn: async ({
+      siteId,
+      submissionSchedule
+    }: {
+      siteId: string;
+      submissionSchedule: SubmissionSchedule | null;
+    }) => {
+      const { data, error } = await supabase
+        .from('sites')
+        .update({ submission_schedule: submissionSchedule })
+        .eq('site_id', siteId)
+        .select()
+        .single();
+    
+      if (error) {
+        console.error('[useSites] Error updating site submission schedule:', error);
+        throw error;
+      }
+      
+      return data as Site;
+    },
+    onSuccess: (updatedSite) => {
+      queryClient.setQueryData(['site', updatedSite.site_id], updatedSite);
+      
+      queryClient.setQueryData<Site[]>(['sites', programId], (oldData) => {
+        if (!oldData) return [updatedSite];
+        return oldData.map(site => site.site_id === updatedSite.site_id ? updatedSite : site);
+      });
+      
+      // Due and overdue states depend on the schedule
+      queryClient.invalidateQueries({ queryKey: ['siteSchedules'] });
+      
+      toast.success('Submission schedule updated');
+    },
+    onError: (error) => {
+      console.error('[useSites] Error in updateSiteSubmissionSchedule:', error);
+      toast.error(`Failed to update submission schedule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  // Update when a site's gasifier bags are due for replacement
+  const updateSiteGasifierReplacementPolicyMutation = useMutation({
+    mutationFn: async ({
+      siteId,
+      policy
+    }: {
+      siteId: string;
+      policy: GasifierReplacementPolicy | null;
+    }) => {
+      const { data, error } = await supabase
+        .from('sites')
+        .update({ gasifier_replacement_policy: policy })
+        .eq('site_id', siteId)
+        .select()
+        .single();
+    
+      if (error) {
+        console.error('[useSites] Error updating gasifier replacement policy:', error);
+        throw error;
+      }
+      
+      return data as Site;
+    },
+    onSuccess: (updatedSite) => {
+      queryClient.setQueryData(['site', updatedSite.site_id], updatedSite);
+      
+      queryClient.setQueryData<Site[]>(['sites', programId], (oldData) => {
+        if (!oldData) return [updatedSite];
+        return oldData.map(site => site.site_id === updatedSite.site_id ? updatedSite : site);
+      });
+      
+      toast.success('Gasifier replacement settings updated');
+    },
+    onError: (error) => {
+      console.error('[useSites] Error in updateSiteGasifierReplacementPolicy:', error);
+      toast.error(`Failed to update gasifier replacement settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  // Update which side of the program's comparison a site is on
+  const updateSiteComparisonGroupMutation = useMutation({
+    mutationFn: async ({
+      siteId,
+      group
+    }: {
+      siteId: string;
+      group: ComparisonGroup | null;
+    }) => {
+      const { data, error } = await supabase
+        .from('sites')
+        .update({ comparison_group: group })
+        .eq('site_id', siteId)
+        .select()
+        .single();
+    
+      if (error) {
+        console.error('[useSites] Error updating comparison group:', error);
+        throw error;
+      }
+      
+      return data as Site;
+    },
+    onSuccess: (updatedSite) => {
+      queryClient.setQueryData(['site', updatedSite.site_id], updatedSite);
+      
+      queryClient.setQueryData<Site[]>(['sites', programId], (oldData) => {
+        if (!oldData) return [updatedSite];
+        return oldData.map(site => site.site_id === updatedSite.site_id ? updatedSite : site);
+      });
+      
+      // The comparison only includes grouped sites
+      queryClient.invalidateQueries({ queryKey: ['programComparison', updatedSite.program_id] });
+      
+      toast.success('Comparison group updated');
+    },
+    onError: (error) => {
+      console.error('[useSites] Error in updateSiteComparisonGroup:', error);
+      toast.error(`Failed to update comparison group: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
   // Update site weather defaults mutation
   const updateSiteWeatherDefaultsMutation = useMutation({
     mutationFn: async ({
@@ -615,6 +828,62 @@ export function useSites(programId?: string) {
     }
   }, [updateSiteNameMutation]);
 
+  const updateSiteSessionSettings = useCallback(async (
+    siteId: string,
+    timezone: string | null,
+    sessionExpirationPolicy: SessionExpirationPolicy | null
+  ): Promise<Site | null> => {
+    try {
+      return await updateSiteSessionSettingsMutation.mutateAsync({ siteId, timezone, sessionExpirationPolicy });
+    } catch (error) {
+      return null;
+    }
+  }, [updateSiteSessionSettingsMutation]);
+
+  const updateSiteCompletionRules = useCallback(async (
+    siteId: string,
+    completionRules: CompletionRules | null
+  ): Promise<Site | null> => {
+    try {
+      return await updateSiteCompletionRulesMutation.mutateAsync({ siteId, completionRules });
+    } catch (error) {
+      return null;
+    }
+  }, [updateSiteCompletionRulesMutation]);
+
+  const updateSiteSubmissionSchedule = useCallback(async (
+    siteId: string,
+    submissionSchedule: SubmissionSchedule | null
+  ): Promise<Site | null> => {
+    try {
+      return await updateSiteSubmissionScheduleMutation.mutateAsync({ siteId, submissionSchedule });
+    } catch (error) {
+      return null;
+    }
+  }, [updateSiteSubmissionScheduleMutation]);
+
+  const updateSiteGasifierReplacementPolicy = useCallback(async (
+    siteId: string,
+    policy: GasifierReplacementPolicy | null
+  ): Promise<Site | null> => {
+    try {
+      return await updateSiteGasifierReplacementPolicyMutation.mutateAsync({ siteId, policy });
+    } catch (error) {
+      return null;
+    }
+  }, [updateSiteGasifierReplacementPolicyMutation]);
+
+  const updateSiteComparisonGroup = useCallback(async (
+    siteId: string,
+    group: ComparisonGroup | null
+  ): Promise<Site | null> => {
+    try {
+      return await updateSiteComparisonGroupMutation.mutateAsync({ siteId, group });
+    } catch (error) {
+      return null;
+    }
+  }, [updateSiteComparisonGroupMutation]);
+
   const updateSiteWeatherDefaults = useCallback(async (siteId: string, temperature: number, humidity: number, weather: 'Clear' | 'Cloudy' | 'Rain'): Promise<boolean> => {
     try {
       await updateSiteWeatherDefaultsMutation.mutateAsync({ siteId, temperature, humidity, weather });
@@ -729,6 +998,9 @@ export function useSites(programId?: string) {
   return {
     sites: sitesQuery.data || [],
     loading: sitesQuery.isLoading,
+    // When the sites were last fetched, used to flag data restored from the offline cache
+    dataUpdatedAt: sitesQuery.dataUpdatedAt,
+    isFetching: sitesQuery.isFetching,
     error: sitesQuery.error ? String(sitesQuery.error) : null,
     fetchSites,
     fetchSite,
@@ -738,6 +1010,11 @@ export function useSites(programId?: string) {
       queryClient.setQueryData(['sites', programId], sites);
     },
     updateSiteName,
+    updateSiteSessionSettings,
+    updateSiteCompletionRules,
+    updateSiteSubmissionSchedule,
+    updateSiteGasifierReplacementPolicy,
+    updateSiteComparisonGroup,
     updateSiteWeatherDefaults,
     updateSiteProperties,
     updateSiteDimensionsAndDensity,
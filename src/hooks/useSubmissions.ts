@@ -305,6 +305,8 @@ export function useSubmissions(siteId?: string) {
     onSuccess: () => {
       // Invalidate and refetch submissions query to update the list
       queryClient.invalidateQueries({queryKey: ['submissions', siteId]});
+      // New readings change the site's depletion forecasts
+      queryClient.invalidateQueries({queryKey: ['gasifierMeasures', siteId]});
       toast.success('Submission created successfully!');
     },
     onError: (error) => {
@@ -421,7 +423,8 @@ export function useSubmissions(siteId?: string) {
       return {
         ...data,
         updatedPetriObservations: petriResult.updatedObservations,
-        updatedGasifierObservations: gasifierResult.updatedObservations
+        updatedGasifierObservations: gasifierResult.updatedObservations,
+        conflicts: [...petriResult.conflicts, ...gasifierResult.conflicts]
       };
     },
     onSuccess: (data) => {
@@ -431,8 +434,13 @@ export function useSubmissions(siteId?: string) {
       queryClient.invalidateQueries({queryKey: ['submission', data.submission_id]});
       queryClient.invalidateQueries({queryKey: ['petriObservations', data.submission_id]});
       queryClient.invalidateQueries({queryKey: ['gasifierObservations', data.submission_id]});
+      queryClient.invalidateQueries({queryKey: ['gasifierMeasures', siteId]});
       
-      toast.success('Submission updated successfully!');
+      if (data.conflicts.length > 0) {
+        toast.warning(`${data.conflicts.length} observation(s) were changed by someone else and need to be merged`);
+      } else {
+        toast.success('Submission updated successfully!');
+      }
     },
     onError: (error) => {
       console.error('Error updating submission:', error);
@@ -527,6 +535,9 @@ export function useSubmissions(siteId?: string) {
     submissions,
     loading,
     error,
+    // When the submissions were last fetched, used to flag data restored from the offline cache
+    dataUpdatedAt: submissionsQuery.dataUpdatedAt,
+    isFetching: submissionsQuery.isFetching,
     fetchSubmissions,
     fetchSubmissionPetriObservations,
     fetchSubmissionGasifierObservations,
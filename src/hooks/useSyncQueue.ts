@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getSyncQueueItems, onSyncQueueChanged, SyncQueueItem } from '../utils/syncManager';
+import { createLogger } from '../utils/logger';
+
+// Create a logger for the sync queue hook
+const logger = createLogger('useSyncQueue');
+
+// Track the items waiting to sync, including those set aside after repeated failures
+export function useSyncQueue() {
+  const [items, setItems] = useState<SyncQueueItem[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await getSyncQueueItems());
+    } catch (error) {
+      logger.error('Error loading sync queue:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return onSyncQueueChanged(refresh);
+  }, [refresh]);
+
+  return { items, refresh };
+}
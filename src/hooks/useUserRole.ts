@@ -34,6 +34,7 @@ interface UseUserRoleResult {
   canManageUsers: boolean;
   canViewAuditLog: boolean;
   canManageSiteTemplates: boolean;
+  canManageAlertRules: boolean;
   isCompanyAdminForProgram: boolean;
   refreshRole: () => Promise<void>;
 }
@@ -134,6 +135,7 @@ export const useUserRole = ({ programId }: UseUserRoleProps = {}): UseUserRoleRe
   const canManageUsers = isAdmin || isCompanyAdminForProgram;
   const canViewAuditLog = isAdmin || isCompanyAdminForProgram;
   const canManageSiteTemplates = isAdmin || isEditor || isCompanyAdminForProgram;
+  const canManageAlertRules = isAdmin || isCompanyAdminForProgram;
 
   return {
     role,
@@ -155,6 +157,7 @@ export const useUserRole = ({ programId }: UseUserRoleProps = {}): UseUserRoleRe
     canManageUsers,
     canViewAuditLog,
     canManageSiteTemplates,
+    canManageAlertRules,
     isCompanyAdminForProgram,
     refreshRole
   };
@@ -0,0 +1,70 @@
+import { supabase } from './supabaseClient';
+import {
+  createPresenceClient,
+  PresenceMember,
+  PresenceTransport,
+  SessionProgressUpdate
+} from '../utils/presence';
+import { createLogger } from '../utils/logger';
+
+// Create a logger for the Realtime presence transport
+const logger = createLogger('PresenceClient');
+
+const PROGRESS_EVENT = 'progress';
+
+// Presence over a Supabase Realtime channel per session
+export const createSupabasePresenceTransport = (): PresenceTransport => ({
+  join: (sessionId, handlers) => {
+    const channel = supabase.channel(`session-presence:${sessionId}`, {
+      config: { broadcast: { self: false } }
+    });
+
+    let subscribed = false;
+    // State to track once the channel is joined; null after untracking
+    let pendingMember: PresenceMember | null = null;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresenceMember>();
+        handlers.onMembers(
+          Object.values(state).flat().map(({ userId, name, editing, joinedAt }) => ({ userId, name, editing, joinedAt }))
+        );
+      })
+      .on('broadcast', { event: PROGRESS_EVENT }, ({ payload }) => {
+        handlers.onProgress(payload as SessionProgressUpdate);
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          subscribed = true;
+          if (pendingMember) {
+            channel.track(pendingMember);
+          }
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          logger.warn(`Presence channel for session ${sessionId} ${status}`);
+        }
+      });
+
+    return {
+      track: member => {
+        pendingMember = member;
+        if (subscribed) channel.track(member);
+      },
+      untrack: () => {
+        pendingMember = null;
+        if (subscribed) channel.untrack();
+      },
+      broadcast: update => {
+        channel.send({ type: 'broadcast', event: PROGRESS_EVENT, payload: update })
+          .catch(error => logger.warn('Failed to broadcast session progress', error));
+      },
+      unsubscribe: () => {
+        supabase.removeChannel(channel);
+      }
+    };
+  }
+});
+
+// Shared presence client for the app
+export const presenceClient = createPresenceClient(createSupabasePresenceTransport());
+
+export default presenceClient;
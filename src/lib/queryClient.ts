@@ -48,8 +48,8 @@ export const queryClient = new QueryClient({
     queries: {
       // Data will be considered stale immediately on window focus
       staleTime: 0,
-      // Keep unused data in cache for 10 minutes
-      gcTime: 10 * 60 * 1000,
+      // Keep unused data in cache for as long as it may be persisted (see queryPersistence.ts)
+      gcTime: 7 * 24 * 60 * 60 * 1000,
       // Retry failed queries 3 times with exponential backoff
       retry: 3,
       // Always refetch when window regains focus (critical for our issue)
@@ -0,0 +1,156 @@
+import { dehydrate, hydrate, Query, QueryKey } from '@tanstack/react-query';
+import { queryClient } from './queryClient';
+import offlineStorage from '../utils/offlineStorage';
+import { createLogger } from '../utils/logger';
+
+// Create a logger for query cache persistence
+const logger = createLogger('QueryPersistence');
+
+// Bump when the shape of cached query data changes so caches written by older releases are dropped
+export const QUERY_CACHE_VERSION = 1;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// How long persisted data stays usable, by the first element of the query key.
+// Queries not listed here are never written to disk. A query can override its
+// entry with `meta: { persistMaxAge }`. Keep gcTime in queryClient.ts at least as
+// long as the longest entry, or unused queries drop out of the saved cache early.
+const PERSISTED_QUERY_MAX_AGE: Record<string, number> = {
+  programs: 7 * DAY,
+  program: 7 * DAY,
+  sites: 7 * DAY,
+  site: 7 * DAY,
+  submissions: 3 * DAY,
+  submission: 3 * DAY,
+  petriObservations: 3 * DAY,
+  gasifierObservations: 3 * DAY,
+  userRole: DAY,
+  isCompanyAdminForProgram: DAY,
+  userCompany: DAY
+};
+
+// Writes are batched so a burst of query updates results in a single save
+const PERSIST_THROTTLE_MS = 1000;
+
+const getMaxAge = (queryKey: QueryKey, meta?: Record<string, unknown>): number | undefined => {
+  if (typeof meta?.persistMaxAge === 'number') return meta.persistMaxAge;
+  return typeof queryKey[0] === 'string' ? PERSISTED_QUERY_MAX_AGE[queryKey[0]] : undefined;
+};
+
+const shouldPersistQuery = (query: Query) => {
+  const maxAge = getMaxAge(query.queryKey, query.meta);
+  return query.state.status === 'success' &&
+    maxAge !== undefined &&
+    Date.now() - query.state.dataUpdatedAt < maxAge;
+};
+
+// Time this page load started using the persisted cache. Data last updated
+// before then was loaded from disk rather than fetched during this visit.
+let restoredAt: number | null = null;
+let restoredUserId: string | null = null;
+
+// Whether data with the given update time came from the persisted cache
+export const isFromPersistedCache = (dataUpdatedAt: number) =>
+  restoredAt !== null && dataUpdatedAt > 0 && dataUpdatedAt < restoredAt;
+
+// Load the user's persisted queries into the query client. Safe to call more than once.
+export const restoreQueryCache = async (userId: string) => {
+  if (restoredUserId === userId) return;
+
+  restoredUserId = userId;
+  restoredAt = Date.now();
+
+  try {
+    const cache = await offlineStorage.getPersistedQueryCache(userId);
+    if (!cache) return;
+
+    if (cache.version !== QUERY_CACHE_VERSION) {
+      logger.info(`Discarding query cache from version ${cache.version}`);
+      await offlineStorage.clearPersistedQueryCache(userId);
+      return;
+    }
+
+    const now = Date.now();
+    const queries = cache.state.queries.filter(query => {
+      const maxAge = getMaxAge(query.queryKey, query.meta);
+      return maxAge !== undefined && now - query.state.dataUpdatedAt < maxAge;
+    });
+
+    // Existing queries are only overwritten by older data if the cache is newer
+    hydrate(queryClient, { mutations: [], queries });
+    logger.info(`Restored ${queries.length} cached queries from ${cache.persistedAt}`);
+  } catch (error) {
+    logger.error('Error restoring query cache:', error);
+  }
+};
+
+const persistQueryCache = async (userId: string) => {
+  // The user signed out (or another signed in) since the save was scheduled
+  if (restoredUserId !== userId) return;
+
+  try {
+    await offlineStorage.savePersistedQueryCache({
+      userId,
+      version: QUERY_CACHE_VERSION,
+      persistedAt: new Date().toISOString(),
+      state: dehydrate(queryClient, { shouldDehydrateQuery: shouldPersistQuery })
+    });
+  } catch (error) {
+    logger.error('Error persisting query cache:', error);
+  }
+};
+
+// Restore the user's cache and keep saving it as queries change. Returns a cleanup function.
+export const startQueryCachePersistence = (userId: string) => {
+  let timerId: number | undefined;
+
+  const schedulePersist = () => {
+    if (timerId) return;
+    timerId = window.setTimeout(() => {
+      timerId = undefined;
+      persistQueryCache(userId);
+    }, PERSIST_THROTTLE_MS);
+  };
+
+  let unsubscribe: (() => void) | undefined;
+  let stopped = false;
+
+  restoreQueryCache(userId).then(() => {
+    if (stopped) return;
+    unsubscribe = queryClient.getQueryCache().subscribe(event => {
+      if (event.type === 'added' || event.type === 'removed' || event.type === 'updated') {
+        schedulePersist();
+      }
+    });
+  });
+
+  return () => {
+    stopped = true;
+    unsubscribe?.();
+    if (timerId) {
+      clearTimeout(timerId);
+      timerId = undefined;
+    }
+  };
+};
+
+// Forget the cached data of a user who signed out, in memory and on disk
+export const clearQueryCache = async (userId?: string) => {
+  queryClient.clear();
+  restoredUserId = null;
+  restoredAt = null;
+
+  try {
+    await offlineStorage.clearPersistedQueryCache(userId);
+  } catch (error) {
+    logger.error('Error clearing persisted query cache:', error);
+  }
+};
+
+export default {
+  restoreQueryCache,
+  startQueryCachePersistence,
+  clearQueryCache,
+  isFromPersistedCache
+};
@@ -0,0 +1,130 @@
+import { supabase } from './supabaseClient';
+import { ObservationEventType, SessionEvent } from '../types/session';
+import { createLogger } from '../utils/logger';
+import offlineStorage from '../utils/offlineStorage';
+
+// Create a module-specific logger
+const logger = createLogger('SessionEvents');
+
+interface SessionEventOptions {
+  observationId?: string | null;
+  observationType?: 'petri' | 'gasifier';
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Records observation work in the log of a submission's session. The log is a record
+ * of who did what, so failing to write it never fails the action being recorded.
+ */
+export const recordSessionEvent = async (
+  submissionId: string,
+  eventType: ObservationEventType,
+  options: SessionEventOptions = {}
+): Promise<void> => {
+  // Submissions that only exist on the device are logged once they sync
+  if (offlineStorage.isTempId(submissionId)) return;
+
+  try {
+    const { data, error } = await supabase.rpc('record_session_event', {
+      p_submission_id: submissionId,
+      p_event_type: eventType,
+      p_observation_id: options.observationId && !offlineStorage.isTempId(options.observationId)
+        ? options.observationId
+        : null,
+      p_observation_type: options.observationType || null,
+      p_details: options.details || null
+    });
+
+    if (error) {
+      logger.warn(`Failed to record ${eventType} event for submission ${submissionId}:`, error);
+    } else if (data && data.success === false) {
+      logger.warn(`${eventType} event for submission ${submissionId} not recorded:`, data.message);
+    }
+  } catch (err) {
+    logger.warn(`Error recording ${eventType} event:`, err);
+  }
+};
+
+/**
+ * Fetches a session's event log, oldest first
+ */
+export const getSessionEvents = async (sessionId: string): Promise<SessionEvent[]> => {
+  const { data, error } = await supabase.rpc('get_session_events', {
+    p_session_id: sessionId
+  });
+
+  if (error) {
+    logger.error('Error fetching session events:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+const observationLabel = (event: SessionEvent): string => {
+  const code = event.details?.code;
+  const kind = event.observation_type === 'gasifier' ? 'gasifier' : 'petri';
+  return typeof code === 'string' && code ? `${kind} ${code}` : `a ${kind} observation`;
+};
+
+/**
+ * Describes what happened in an event, without who did it
+ */
+export const describeSessionEvent = (event: SessionEvent): string => {
+  switch (event.event_type) {
+    case 'Opened':
+      return 'Opened the session';
+    case 'ObservationAdded':
+      return `Added ${observationLabel(event)}`;
+    case 'ObservationEdited':
+      return `Edited ${observationLabel(event)}`;
+    case 'ImageCaptured':
+      return `Captured an image for ${observationLabel(event)}`;
+    case 'Shared': {
+      const userIds = event.details?.user_ids;
+      return Array.isArray(userIds)
+        ? `Shared the session (${userIds.length} ${userIds.length === 1 ? 'person has' : 'people have'} access)`
+        : 'Shared the session';
+    }
+    case 'Escalated': {
+      const reason = event.details?.reason_category;
+      return typeof reason === 'string' ? `Escalated the session (${reason})` : 'Escalated the session';
+    }
+    case 'Completed':
+      return 'Completed the session';
+    case 'Cancelled':
+      return 'Cancelled the session';
+    case 'Expired': {
+      const status = event.details?.status;
+      return status === 'Expired-Complete'
+        ? 'Session expired with every observation complete'
+        : 'Session expired before it was complete';
+    }
+    case 'Reopened': {
+      const minutes = event.details?.window_minutes;
+      return typeof minutes === 'number'
+        ? `Reopened the session for ${minutes} minutes`
+        : 'Reopened the session';
+    }
+    case 'Extended': {
+      const minutes = event.details?.minutes;
+      return typeof minutes === 'number'
+        ? `Extended the session by ${minutes} minutes`
+        : 'Extended the session';
+    }
+    case 'OwnerReassigned': {
+      const name = event.details?.new_owner_name;
+      return typeof name === 'string' && name
+        ? `Reassigned the session to ${name}`
+        : 'Reassigned the session to a new owner';
+    }
+    default:
+      return event.event_type;
+  }
+};
+
+export default {
+  recordSessionEvent,
+  getSessionEvents,
+  describeSessionEvent
+};
@@ -4,18 +4,154 @@ import {
   SessionStatus, 
   InitialSubmissionData,
   CreateSessionResponse,
-  ActiveSession
+  ActiveSession,
+  BulkSessionActionResult,
+  EscalationAction,
+  EscalationReason,
+  EscalationResponse,
+  SessionEscalation
 } from '../types/session';
-import { PetriDefaults, GasifierDefaults, Submission } from './types';
+import { PetriDefaults, GasifierDefaults, Submission, PetriObservation, GasifierObservation } from './types';
 import { toast } from 'react-toastify';
-import { format, set, isAfter, endOfDay } from 'date-fns';
+import { format, isAfter } from 'date-fns';
 import { createLogger } from '../utils/logger';
+import offlineStorage from '../utils/offlineStorage';
+import presenceClient from './presenceClient';
+import { getSubmissionAlerts } from './siteAlerts';
+import {
+  calculateSessionExpiration as calculatePolicyExpiration,
+  ExpiringSession,
+  getSessionExpiration
+} from '../utils/sessionExpiration';
 
 // Create a module-specific logger
 const logger = createLogger('SessionManager');
 
 /**
- * Creates a new submission session with the provided data
+ * Creates a submission session on the device and queues its creation in the outbox.
+ * Observations are generated from the templates so the tech can start working right away.
+ */
+const createOfflineSubmissionSession = async (
+  siteId: string,
+  programId: string,
+  submissionData: InitialSubmissionData,
+  petriTemplates?: PetriDefaults[],
+  gasifierTemplates?: GasifierDefaults[]
+): Promise<CreateSessionResponse> => {
+  const { data: authData } = await supabase.auth.getSession();
+  const userId = authData.session?.user.id;
+  
+  if (!userId) {
+    return {
+      success: false,
+      message: 'You must be signed in to start a submission'
+    };
+  }
+  
+  const now = new Date().toISOString();
+  const tempSubmissionId = offlineStorage.createTempId();
+  const tempSessionId = offlineStorage.createTempId();
+  
+  const submission = {
+    submission_id: tempSubmissionId,
+    site_id: siteId,
+    program_id: programId,
+    temperature: submissionData.temperature,
+    humidity: submissionData.humidity,
+    indoor_temperature: submissionData.indoor_temperature ?? null,
+    indoor_humidity: submissionData.indoor_humidity ?? null,
+    airflow: submissionData.airflow,
+    odor_distance: submissionData.odor_distance,
+    weather: submissionData.weather,
+    notes: submissionData.notes ?? null,
+    submission_timezone: submissionData.timezone ?? null,
+    created_by: userId,
+    created_at: now,
+    updated_at: now
+  } as Submission;
+  
+  const petriObservations = (petriTemplates || []).map(template => ({
+    observation_id: offlineStorage.createTempId(),
+    submission_id: tempSubmissionId,
+    site_id: siteId,
+    petri_code: template.petri_code,
+    plant_type: template.plant_type,
+    fungicide_used: template.fungicide_used,
+    surrounding_water_schedule: template.surrounding_water_schedule,
+    placement: template.placement ?? null,
+    placement_dynamics: template.placement_dynamics ?? null,
+    notes: template.notes ?? null,
+    image_url: null,
+    created_at: now,
+    updated_at: now
+  })) as unknown as PetriObservation[];
+  
+  const gasifierObservations = (gasifierTemplates || []).map(template => ({
+    observation_id: offlineStorage.createTempId(),
+    submission_id: tempSubmissionId,
+    site_id: siteId,
+    gasifier_code: template.gasifier_code,
+    chemical_type: template.chemical_type,
+    placement_height: template.placement_height,
+    directional_placement: template.directional_placement,
+    placement_strategy: template.placement_strategy,
+    notes: template.notes ?? null,
+    measure: null,
+    anomaly: false,
+    image_url: null,
+    created_at: now,
+    updated_at: now
+  })) as unknown as GasifierObservation[];
+  
+  const session: SubmissionSession = {
+    session_id: tempSessionId,
+    submission_id: tempSubmissionId,
+    site_id: siteId,
+    program_id: programId,
+    opened_by_user_id: userId,
+    session_start_time: now,
+    last_activity_time: now,
+    session_status: 'Opened',
+    percentage_complete: 0,
+    valid_petris_logged: 0,
+    valid_gasifiers_logged: 0,
+    // Provisional until the server applies the site's policy on sync
+    expires_at: calculatePolicyExpiration(now, undefined, submissionData.timezone).toISOString()
+  };
+  
+  await offlineStorage.saveDraftSubmission(submission, petriObservations, gasifierObservations);
+  await offlineStorage.saveSession(session);
+  await offlineStorage.enqueueOutboxOperation({
+    type: 'createSession',
+    payload: {
+      tempSubmissionId,
+      tempSessionId,
+      siteId,
+      programId,
+      submissionData,
+      petriTemplates,
+      gasifierTemplates,
+      templateObservations: [
+        ...petriObservations.map(obs => ({ type: 'petri' as const, tempId: obs.observation_id, code: obs.petri_code })),
+        ...gasifierObservations.map(obs => ({ type: 'gasifier' as const, tempId: obs.observation_id, code: obs.gasifier_code }))
+      ]
+    }
+  });
+  
+  logger.debug('Session created offline', { tempSubmissionId, tempSessionId });
+  
+  return {
+    success: true,
+    submission_id: tempSubmissionId,
+    session_id: tempSessionId,
+    session,
+    offline: true
+  };
+};
+
+/**
+ * Creates a new submission session with the provided data.
+ * When the device is offline the session is created locally and synced later.
  */
 export const createSubmissionSession = async (
   siteId: string,
@@ -25,6 +161,16 @@ export const createSubmissionSession = async (
   gasifierTemplates?: GasifierDefaults[]
 ): Promise<CreateSessionResponse> => {
   try {
+    if (!navigator.onLine) {
+      return await createOfflineSubmissionSession(
+        siteId,
+        programId,
+        submissionData,
+        petriTemplates,
+        gasifierTemplates
+      );
+    }
+    
     // Convert template arrays to JSON for the database function
     const petriTemplatesJson = petriTemplates ? JSON.stringify(petriTemplates) : null;
     const gasifierTemplatesJson = gasifierTemplates ? JSON.stringify(gasifierTemplates) : null;
@@ -51,6 +197,7 @@ export const createSubmissionSession = async (
     }
 
     logger.debug('Session created successfully:', data);
+    
     return data as CreateSessionResponse;
   } catch (err) {
     logger.error('Error in createSubmissionSession:', err);
@@ -61,6 +208,20 @@ export const createSubmissionSession = async (
   }
 };
 
+/**
+ * Lets collaborators watching a session see its new progress without refetching
+ */
+const broadcastSessionProgress = (session: Partial<SubmissionSession> | null | undefined) => {
+  if (!session?.session_id) return;
+
+  presenceClient.broadcastProgress({
+    sessionId: session.session_id,
+    percentage_complete: Number(session.percentage_complete) || 0,
+    session_status: session.session_status || '',
+    last_activity_time: session.last_activity_time || new Date().toISOString()
+  });
+};
+
 /**
  * Updates a submission session's activity timestamp
  */
@@ -69,7 +230,7 @@ export const updateSessionActivity = async (sessionId: string): Promise<boolean>
     // Check if session is already expired before updating
     const { data: sessionData, error: sessionError } = await supabase
       .from('submission_sessions')
-      .select('session_start_time, session_status')
+      .select('session_start_time, session_status, expires_at')
       .eq('session_id', sessionId)
       .maybeSingle();  // Use maybeSingle instead of single to handle cases where the session doesn't exist
 
@@ -91,8 +252,7 @@ export const updateSessionActivity = async (sessionId: string): Promise<boolean>
     }
 
     // Check if session is expired but not marked as such
-    const sessionStartTime = new Date(sessionData.session_start_time);
-    const expirationTime = set(sessionStartTime, { hours: 23, minutes: 59, seconds: 59 });
+    const expirationTime = getSessionExpiration(sessionData);
     const now = new Date();
 
     if (isAfter(now, expirationTime)) {
@@ -145,6 +305,8 @@ export const updateSessionActivity = async (sessionId: string): Promise<boolean>
       return false;
     }
 
+    broadcastSessionProgress(data);
+
     return true;
   } catch (err) {
     logger.error('Error in updateSessionActivity:', err);
@@ -153,10 +315,42 @@ export const updateSessionActivity = async (sessionId: string): Promise<boolean>
 };
 
 /**
- * Completes a submission session
+ * Completes a submission session. The server works out its progress from the
+ * observations it has, and updates it as edits and images still queued on the
+ * device arrive.
  */
 export const completeSubmissionSession = async (sessionId: string): Promise<any> => {
   try {
+    // Queue the completion so it is replayed after any pending edits
+    if (!navigator.onLine || offlineStorage.isTempId(sessionId)) {
+      const now = new Date().toISOString();
+      const localSession = await offlineStorage.getSession(sessionId);
+      const session = localSession
+        ? {
+            ...localSession,
+            session_status: 'Completed' as SessionStatus,
+            completion_time: now,
+            last_activity_time: now
+          }
+        : undefined;
+      
+      if (session) {
+        await offlineStorage.saveSession(session);
+      }
+      
+      await offlineStorage.enqueueOutboxOperation({
+        type: 'completeSession',
+        payload: { sessionId, submissionId: localSession?.submission_id }
+      });
+      
+      return {
+        success: true,
+        offline: true,
+        message: 'Completion saved and will sync when online',
+        session
+      };
+    }
+    
     const { data, error } = await supabase.rpc('complete_submission_session', {
       p_session_id: sessionId
     });
@@ -170,6 +364,17 @@ export const completeSubmissionSession = async (sessionId: string): Promise<any>
       };
     }
 
+    if (data?.session) {
+      broadcastSessionProgress(data.session);
+    }
+
+    if (data?.success && data.session?.submission_id) {
+      const alerts = await getSubmissionAlerts(data.session.submission_id);
+      if (alerts.length > 0) {
+        toast.warning(`This submission raised ${alerts.length} alert${alerts.length === 1 ? '' : 's'} for the program admins`);
+      }
+    }
+
     // Return the entire data object, which includes success, message, and session properties
     return data;
   } catch (err) {
@@ -209,6 +414,43 @@ export const cancelSubmissionSession = async (sessionId: string): Promise<boolea
   }
 };
 
+/**
+ * Reopens an expired session for a bounded window. Program admins only; the
+ * justification is kept with the session and in the program history.
+ */
+export const reopenSubmissionSession = async (
+  sessionId: string,
+  justification: string,
+  windowMinutes: number
+): Promise<{ success: boolean; message?: string; session?: SubmissionSession }> => {
+  try {
+    const { data, error } = await supabase.rpc('reopen_submission_session', {
+      p_session_id: sessionId,
+      p_justification: justification,
+      p_window_minutes: windowMinutes
+    });
+
+    if (error) {
+      logger.error('Error reopening submission session:', error);
+      toast.error(`Failed to reopen session: ${error.message}`);
+      return { success: false, message: error.message };
+    }
+
+    if (!data.success) {
+      toast.error(data.message || 'Failed to reopen session');
+      return { success: false, message: data.message };
+    }
+
+    broadcastSessionProgress(data.session);
+
+    return data;
+  } catch (err) {
+    logger.error('Error in reopenSubmissionSession:', err);
+    toast.error('An error occurred while reopening the session');
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
 /**
  * Shares a submission session with other users
  */
@@ -244,34 +486,37 @@ export const shareSubmissionSession = async (
 };
 
 /**
- * Escalates a submission session to a site admin
+ * Escalates a submission session with a reason. The recipient defaults to the
+ * program admin and gets an inbox item they must acknowledge.
  */
-export const escalateSubmissionSession = async (sessionId: string, programId: string): Promise<any> => {
+export const escalateSubmissionSession = async (
+  sessionId: string,
+  details: {
+    reasonCategory: EscalationReason;
+    note?: string;
+    assignToUserId?: string | null;
+  }
+): Promise<EscalationResponse> => {
   try {
-    // First, get the admin user ID for this program
-    const { data: adminData, error: adminError } = await supabase.rpc('get_program_admin_user_id', {
-      p_program_id: programId
+    const { data, error } = await supabase.rpc('escalate_submission_session', {
+      p_session_id: sessionId,
+      p_reason_category: details.reasonCategory,
+      p_note: details.note || null,
+      p_assign_to_user_id: details.assignToUserId || null
     });
-    
-    if (adminError) {
-      logger.error('Error getting admin user ID:', adminError);
-      return { success: false, message: 'Failed to find an admin for this program' };
-    }
-    
-    if (!adminData) {
-      return { success: false, message: 'No admin found for this program' };
+
+    if (error) {
+      logger.error('Error escalating submission session:', error);
+      toast.error(`Failed to escalate submission: ${error.message}`);
+      return { success: false, message: error.message };
     }
-    
-    // Now share the session with the admin, specifically using the 'escalate' action type
-    const result = await shareSubmissionSession(sessionId, [adminData], 'escalate');
-    
-    // If sharing was successful, add additional context
-    if (result.success) {
-      result.isEscalated = true;
-      result.adminUserId = adminData;
+
+    if (!data.success) {
+      toast.error(data.message || 'Failed to escalate submission');
+      return { success: false, message: data.message };
     }
-    
-    return result;
+
+    return data;
   } catch (err) {
     logger.error('Error in escalateSubmissionSession:', err);
     toast.error('An error occurred while escalating the submission');
@@ -279,6 +524,91 @@ export const escalateSubmissionSession = async (sessionId: string, programId: st
   }
 };
 
+/**
+ * Acknowledges an escalation as its recipient
+ */
+export const acknowledgeEscalation = async (escalationId: string): Promise<EscalationResponse> => {
+  try {
+    const { data, error } = await supabase.rpc('acknowledge_escalation', {
+      p_escalation_id: escalationId
+    });
+
+    if (error) {
+      logger.error('Error acknowledging escalation:', error);
+      toast.error(`Failed to acknowledge escalation: ${error.message}`);
+      return { success: false, message: error.message };
+    }
+
+    if (!data.success) {
+      toast.error(data.message || 'Failed to acknowledge escalation');
+    }
+
+    return data;
+  } catch (err) {
+    logger.error('Error in acknowledgeEscalation:', err);
+    toast.error('An error occurred while acknowledging the escalation');
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+/**
+ * Accepts, reassigns or returns an escalated session
+ */
+export const resolveEscalation = async (
+  escalationId: string,
+  action: EscalationAction,
+  note?: string,
+  reassignToUserId?: string | null
+): Promise<EscalationResponse> => {
+  try {
+    const { data, error } = await supabase.rpc('resolve_escalation', {
+      p_escalation_id: escalationId,
+      p_action: action,
+      p_note: note || null,
+      p_reassign_to_user_id: reassignToUserId || null
+    });
+
+    if (error) {
+      logger.error(`Error resolving escalation (${action}):`, error);
+      toast.error(`Failed to update escalation: ${error.message}`);
+      return { success: false, message: error.message };
+    }
+
+    if (!data.success) {
+      toast.error(data.message || 'Failed to update escalation');
+    }
+
+    return data;
+  } catch (err) {
+    logger.error('Error in resolveEscalation:', err);
+    toast.error('An error occurred while updating the escalation');
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+/**
+ * Fetches the escalations of a session, newest first
+ */
+export const getSessionEscalations = async (sessionId: string): Promise<SessionEscalation[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('session_escalations')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Error fetching session escalations:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    logger.error('Error in getSessionEscalations:', err);
+    return [];
+  }
+};
+
 /**
  * Fetches all active sessions for the current user
  */
@@ -300,6 +630,112 @@ export const getActiveSessions = async (): Promise<ActiveSession[]> => {
   }
 };
 
+/**
+ * Fetches the active sessions in every program the current user administers,
+ * stalest first
+ */
+export const getAdministeredSessions = async (): Promise<ActiveSession[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_administered_sessions');
+
+    if (error) {
+      logger.error('Error getting administered sessions:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    logger.error('Error in getAdministeredSessions:', err);
+    throw err;
+  }
+};
+
+type SessionRpcResult = { data: any; error: { message: string } | null };
+
+/**
+ * Applies an RPC to each session in turn so one failure does not stop the rest.
+ * Failures are collected for the caller to summarize rather than toasted one by one.
+ */
+const runBulkSessionAction = async (
+  sessionIds: string[],
+  action: string,
+  call: (sessionId: string) => PromiseLike<SessionRpcResult>
+): Promise<BulkSessionActionResult> => {
+  const result: BulkSessionActionResult = { succeeded: [], failed: [] };
+
+  for (const sessionId of sessionIds) {
+    try {
+      const { data, error } = await call(sessionId);
+
+      if (error) {
+        logger.error(`Error in bulk ${action} for session ${sessionId}:`, error);
+        result.failed.push({ sessionId, message: error.message });
+        continue;
+      }
+
+      if (!data?.success) {
+        result.failed.push({ sessionId, message: data?.message || `Failed to ${action} session` });
+        continue;
+      }
+
+      result.succeeded.push(sessionId);
+    } catch (err) {
+      logger.error(`Error in bulk ${action} for session ${sessionId}:`, err);
+      result.failed.push({ sessionId, message: 'An unexpected error occurred' });
+    }
+  }
+
+  logger.debug(`Bulk ${action}: ${result.succeeded.length} succeeded, ${result.failed.length} failed`);
+  return result;
+};
+
+/**
+ * Cancels many sessions, deleting their observations
+ */
+export const bulkCancelSessions = (sessionIds: string[]): Promise<BulkSessionActionResult> =>
+  runBulkSessionAction(
+    sessionIds,
+    'cancel',
+    sessionId => supabase.rpc('cancel_submission_session', { p_session_id: sessionId })
+  );
+
+/**
+ * Pushes back the expiration of many sessions. Program admins only.
+ */
+export const bulkExtendSessions = (sessionIds: string[], minutes: number): Promise<BulkSessionActionResult> =>
+  runBulkSessionAction(
+    sessionIds,
+    'extend',
+    sessionId => supabase.rpc('extend_submission_session', { p_session_id: sessionId, p_minutes: minutes })
+  );
+
+/**
+ * Hands many sessions to another user of their programs. Program admins only.
+ */
+export const bulkReassignSessions = (sessionIds: string[], newOwnerUserId: string): Promise<BulkSessionActionResult> =>
+  runBulkSessionAction(
+    sessionIds,
+    'reassign',
+    sessionId => supabase.rpc('reassign_session_owner', {
+      p_session_id: sessionId,
+      p_new_owner_user_id: newOwnerUserId
+    })
+  );
+
+/**
+ * Shares many sessions with the same users
+ */
+export const bulkShareSessions = (sessionIds: string[], userIds: string[]): Promise<BulkSessionActionResult> =>
+  runBulkSessionAction(
+    sessionIds,
+    'share',
+    sessionId => supabase.rpc('share_submission_session', {
+      p_session_id: sessionId,
+      p_user_ids: userIds,
+      p_action_type: 'share'
+    })
+  );
+
 /**
  * Fetches a specific session by ID
  */
@@ -397,8 +833,7 @@ export const getSubmissionWithSession = async (submissionId: string): Promise<{
 
       // If session exists but might be expired, check expiration
       if (sessionData && !['Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete'].includes(sessionData.session_status)) {
-        const sessionStartTime = new Date(sessionData.session_start_time);
-        const expirationTime = set(sessionStartTime, { hours: 23, minutes: 59, seconds: 59 });
+        const expirationTime = getSessionExpiration(sessionData);
         const now = new Date();
 
         // If past expiration time, update session to appropriate Expired status
@@ -454,18 +889,18 @@ export const getSubmissionWithSession = async (submissionId: string): Promise<{
 };
 
 /**
- * Calculate expiration time for a session (11:59:59 PM of the start day)
+ * Calculate expiration time for a session from its server snapshot, or the
+ * default policy for sessions that have not been created on the server yet
  */
-export const calculateSessionExpiration = (sessionStartTime: string): Date => {
-  const startDate = new Date(sessionStartTime);
-  return set(startDate, { hours: 23, minutes: 59, seconds: 59 });
+export const calculateSessionExpiration = (session: ExpiringSession): Date => {
+  return getSessionExpiration(session);
 };
 
 /**
- * Check if a session is expired based on its start time
+ * Check if a session is expired
  */
-export const isSessionExpired = (sessionStartTime: string): boolean => {
-  const expirationTime = calculateSessionExpiration(sessionStartTime);
+export const isSessionExpired = (session: ExpiringSession): boolean => {
+  const expirationTime = calculateSessionExpiration(session);
   const now = new Date();
   return isAfter(now, expirationTime);
 };
@@ -473,8 +908,8 @@ export const isSessionExpired = (sessionStartTime: string): boolean => {
 /**
  * Format expiration time for display
  */
-export const formatExpirationTime = (sessionStartTime: string): string => {
-  const expirationTime = calculateSessionExpiration(sessionStartTime);
+export const formatExpirationTime = (session: ExpiringSession): string => {
+  const expirationTime = calculateSessionExpiration(session);
   return format(expirationTime, 'PPp');
 };
 
@@ -483,9 +918,18 @@ export default {
   updateSessionActivity,
   completeSubmissionSession,
   cancelSubmissionSession,
+  reopenSubmissionSession,
   shareSubmissionSession,
   escalateSubmissionSession,
+  acknowledgeEscalation,
+  resolveEscalation,
+  getSessionEscalations,
   getActiveSessions,
+  getAdministeredSessions,
+  bulkCancelSessions,
+  bulkExtendSessions,
+  bulkReassignSessions,
+  bulkShareSessions,
   getSessionById,
   getSubmissionWithSession,
   calculateSessionExpiration,
@@ -0,0 +1,50 @@
+import { supabase } from './supabaseClient';
+import { SiteAlert } from '../utils/alertRules';
+import { createLogger } from '../utils/logger';
+
+// Create a module-specific logger
+const logger = createLogger('SiteAlerts');
+
+/**
+ * The open alerts a submission's readings raised. The server checks the rules
+ * when the session is completed or expires; this only reads the result, so a
+ * failure to read it is logged rather than thrown.
+ */
+export const getSubmissionAlerts = async (submissionId: string): Promise<SiteAlert[]> => {
+  const { data, error } = await supabase
+    .from('site_alerts')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .is('resolved_at', null);
+
+  if (error) {
+    logger.warn(`Failed to fetch alerts for submission ${submissionId}:`, error);
+    return [];
+  }
+
+  return (data || []) as SiteAlert[];
+};
+
+/**
+ * Resolves an open alert and acknowledges its inbox items
+ */
+export const resolveSiteAlert = async (alertId: string): Promise<SiteAlert> => {
+  const { data, error } = await supabase.rpc('resolve_site_alert', {
+    p_alert_id: alertId
+  });
+
+  if (error) {
+    logger.error('Error resolving site alert:', error);
+    throw error;
+  }
+  if (!data?.success) {
+    throw new Error(data?.message || 'Failed to resolve alert');
+  }
+
+  return data.alert as SiteAlert;
+};
+
+export default {
+  getSubmissionAlerts,
+  resolveSiteAlert
+};
@@ -1,4 +1,10 @@
 import { Database } from './supabaseClient';
+import { SessionExpirationPolicy } from '../utils/sessionExpiration';
+import { CompletionRules } from '../utils/completionRules';
+import { SubmissionSchedule } from '../utils/submissionSchedule';
+import { ColonyAnalysis } from '../utils/colonyCoverage';
+import { GasifierReplacementPolicy } from '../utils/gasifierDepletion';
+import { ComparisonGroup } from '../utils/siteComparison';
 
 export type User = {
   id: string;
@@ -10,8 +16,20 @@ export type User = {
   };
 };
 
-export type PilotProgram = Database['public']['Tables']['pilot_programs']['Row'];
+export type PilotProgram = Database['public']['Tables']['pilot_programs']['Row'] & {
+  session_expiration_policy?: SessionExpirationPolicy | null;
+};
 export type Site = Database['public']['Tables']['sites']['Row'] & {
+  timezone?: string | null;
+  session_expiration_policy?: SessionExpirationPolicy | null;
+  // Required fields for an observation to count as complete; null uses the defaults
+  completion_rules?: Partial<CompletionRules> | null;
+  // Recurring days and window readings are due; null when unscheduled
+  submission_schedule?: SubmissionSchedule | null;
+  // Measure threshold and warning for replacing gasifier bags; null uses the defaults
+  gasifier_replacement_policy?: Partial<GasifierReplacementPolicy> | null;
+  // Control or treatment site in the program's comparison; null leaves it out
+  comparison_group?: ComparisonGroup | null;
   interior_working_surface_types?: InteriorWorkingSurfaceType[];
   microbial_risk_zone?: MicrobialRiskZone;
   quantity_deadzones?: number;
@@ -31,10 +49,16 @@ export type Submission = Database['public']['Tables']['submissions']['Row'] & {
 export type PetriObservation = Database['public']['Tables']['petri_observations']['Row'] & {
   outdoor_temperature?: number;
   outdoor_humidity?: number;
+  revision?: number;
+  // Colony coverage and count in effect, and the estimate or override behind them
+  colony_coverage_percent?: number | null;
+  colony_count?: number | null;
+  colony_analysis?: ColonyAnalysis | null;
 };
 export type GasifierObservation = Database['public']['Tables']['gasifier_observations']['Row'] & {
   outdoor_temperature?: number;
   outdoor_humidity?: number;
+  revision?: number;
 };
 export type UserRole = 'Admin' | 'Edit' | 'Respond' | 'ReadOnly';
 export type HistoryEventType = Database['public']['Tables']['pilot_program_history']['Row']['update_type'];
@@ -130,13 +154,13 @@ export interface SitePropertiesForm {
   ventilationStrategy?: VentilationStrategy;
 }
 
-// Analytics response types
+// Analytics response types. Averages are null for an interval with no readings of that kind.
 export interface EnvironmentalTrend {
   interval_start: string;
-  avg_temperature: number;
-  avg_humidity: number;
-  avg_indoor_temperature: number;
-  avg_indoor_humidity: number;
+  avg_temperature: number | null;
+  avg_humidity: number | null;
+  avg_indoor_temperature: number | null;
+  avg_indoor_humidity: number | null;
   submission_count: number;
 }
 
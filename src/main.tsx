@@ -10,6 +10,7 @@ import './index.css';
 import 'react-toastify/dist/ReactToastify.css';
 import ErrorBoundary from './components/common/ErrorBoundary';
 import { configureLogger, LogLevel, setLogLevel } from './utils/logger';
+import { registerServiceWorker } from './utils/serviceWorker';
 
 // Configure logger based on environment
 if (import.meta.env.PROD) {
@@ -32,6 +33,9 @@ if (import.meta.env.PROD) {
   console.log('Logger API available in console: window.setLogLevel(level)');
 }
 
+// Cache the app shell so the app still loads without a connection
+registerServiceWorker();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ErrorBoundary>
@@ -33,7 +33,15 @@ const eventTypeLabels: Record<HistoryEventType, string> = {
   GasifierUpdate: 'Gasifier Updated',
   GasifierDeletion: 'Gasifier Deleted',
   UserDeactivated: 'User Deactivated',
-  UserReactivated: 'User Reactivated'
+  UserReactivated: 'User Reactivated',
+  SessionReopened: 'Session Reopened',
+  SessionExtended: 'Session Extended',
+  SessionOwnerReassigned: 'Session Reassigned',
+  SessionEscalation: 'Session Escalated',
+  EscalationAcknowledged: 'Escalation Acknowledged',
+  EscalationAccepted: 'Escalation Accepted',
+  EscalationReassigned: 'Escalation Reassigned',
+  EscalationReturned: 'Escalation Returned'
 };
 
 // Object types for filtering
@@ -71,6 +79,14 @@ const eventTypeGroups = [
   {
     group: 'Users',
     types: ['UserAdded', 'UserRemoved', 'UserRoleChanged', 'UserDeactivated', 'UserReactivated'] as HistoryEventType[]
+  },
+  {
+    group: 'Sessions',
+    types: ['SessionReopened', 'SessionExtended', 'SessionOwnerReassigned'] as HistoryEventType[]
+  },
+  {
+    group: 'Escalations',
+    types: ['SessionEscalation', 'EscalationAcknowledged', 'EscalationAccepted', 'EscalationReassigned', 'EscalationReturned'] as HistoryEventType[]
   }
 ];
 
@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, GitCommitVertical } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Card, { CardHeader, CardContent } from '../components/common/Card';
+import LoadingScreen from '../components/common/LoadingScreen';
+import CodeLineageTimeline from '../components/submissions/CodeLineageTimeline';
+import { useSites } from '../hooks/useSites';
+import { useCodeLineage, useSiteCodes } from '../hooks/useCodeLineage';
+import { usePilotProgramStore } from '../stores/pilotProgramStore';
+import { codeLineagePath } from '../utils/codeLineage';
+import { normalizeCode, templateCodes } from '../utils/codeScanner';
+import { ObservationKind } from '../utils/completionRules';
+
+interface CodeOption {
+  kind: ObservationKind;
+  code: string;
+  observationCount: number;
+  lastObservedAt: string | null;
+  onTemplate: boolean;
+}
+
+const KIND_LABELS: Record<ObservationKind, string> = {
+  petri: 'Petri',
+  gasifier: 'Gasifier'
+};
+
+const isObservationKind = (value: string | undefined): value is ObservationKind =>
+  value === 'petri' || value === 'gasifier';
+
+// Every observation of one petri or gasifier code at a site, across submissions
+const CodeLineagePage = () => {
+  const navigate = useNavigate();
+  const { programId, siteId, kind: kindParam, code } = useParams<{
+    programId: string;
+    siteId: string;
+    kind?: string;
+    code?: string;
+  }>();
+  const kind = isObservationKind(kindParam) ? kindParam : undefined;
+  const { selectedSite, setSelectedSite } = usePilotProgramStore();
+  const { fetchSite } = useSites(programId);
+  const [isSiteLoading, setIsSiteLoading] = useState(selectedSite?.site_id !== siteId);
+
+  const { codes: observedCodes, isLoading: codesLoading } = useSiteCodes(siteId);
+  const { entries, isLoading: lineageLoading } = useCodeLineage(siteId, kind, code);
+
+  useEffect(() => {
+    if (!siteId || selectedSite?.site_id === siteId) {
+      setIsSiteLoading(false);
+      return;
+    }
+
+    const loadSite = async () => {
+      setIsSiteLoading(true);
+      try {
+        const site = await fetchSite(siteId);
+        if (site) {
+          setSelectedSite(site);
+        } else {
+          navigate(`/programs/${programId}/sites`);
+        }
+      } catch (error) {
+        console.error('Error loading site:', error);
+        toast.error('Failed to load site');
+      } finally {
+        setIsSiteLoading(false);
+      }
+    };
+
+    loadSite();
+  }, [siteId, programId, selectedSite?.site_id, fetchSite, setSelectedSite, navigate]);
+
+  // Codes on the template and codes observed at the site, matched the way the forms match them
+  const codeOptions = useMemo(() => {
+    const options = new Map<string, CodeOption>();
+    const key = (optionKind: ObservationKind, value: string) => `${optionKind}:${normalizeCode(value)}`;
+
+    (['petri', 'gasifier'] as const).forEach(optionKind => {
+      templateCodes(
+        optionKind === 'petri' ? selectedSite?.petri_defaults : selectedSite?.gasifier_defaults,
+        optionKind === 'petri' ? 'petri_code' : 'gasifier_code'
+      ).forEach(templateCode => {
+        options.set(key(optionKind, templateCode), {
+          kind: optionKind,
+          code: templateCode,
+          observationCount: 0,
+          lastObservedAt: null,
+          onTemplate: true
+        });
+      });
+    });
+
+    observedCodes.forEach(observed => {
+      const existing = options.get(key(observed.kind, observed.code));
+      options.set(key(observed.kind, observed.code), {
+        kind: observed.kind,
+        code: existing?.code || observed.code,
+        observationCount: observed.observation_count,
+        lastObservedAt: observed.last_observed_at,
+        onTemplate: !!existing?.onTemplate
+      });
+    });
+
+    return Array.from(options.values())
+      .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+  }, [selectedSite?.petri_defaults, selectedSite?.gasifier_defaults, observedCodes]);
+
+  if (isSiteLoading || codesLoading) {
+    return <LoadingScreen />;
+  }
+
+  if (!programId || !siteId || !selectedSite) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">Site not found.</p>
+      </div>
+    );
+  }
+
+  const selectedKey = kind && code ? `${kind}:${normalizeCode(code)}` : null;
+  const placements = Array.from(new Set(entries.map(entry => entry.placement).filter(Boolean)));
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex items-center mb-6">
+        <button
+          onClick={() => navigate(`/programs/${programId}/sites/${siteId}`)}
+          className="mr-4 p-2 rounded-full hover:bg-gray-100"
+          aria-label="Go back to site"
+        >
+          <ArrowLeft size={20} className="text-gray-500" />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {kind && code ? `${KIND_LABELS[kind]} ${code}` : 'Code History'}
+          </h1>
+          <p className="text-gray-600 mt-1">{selectedSite.name}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <Card className="lg:col-span-1 self-start" testId="code-lineage-codes">
+          <CardHeader>
+            <h2 className="text-lg font-semibold">Codes</h2>
+          </CardHeader>
+          <CardContent>
+            {codeOptions.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                This site has no codes on its template and none have been recorded yet.
+              </p>
+            ) : (
+              (['petri', 'gasifier'] as const).map(optionKind => {
+                const options = codeOptions.filter(option => option.kind === optionKind);
+                if (options.length === 0) return null;
+
+                return (
+                  <div key={optionKind} className="mb-4 last:mb-0">
+                    <h3 className="text-sm font-medium text-gray-500 mb-2">{KIND_LABELS[optionKind]}</h3>
+                    <ul className="space-y-1">
+                      {options.map(option => {
+                        const isSelected = selectedKey === `${option.kind}:${normalizeCode(option.code)}`;
+                        return (
+                          <li key={`${option.kind}:${option.code}`}>
+                            <Link
+                              to={codeLineagePath(programId, siteId, option.kind, option.code)}
+                              className={`flex justify-between items-center px-2 py-1.5 rounded-md text-sm ${
+                                isSelected ? 'bg-primary-100 text-primary-800' : 'hover:bg-gray-100 text-gray-700'
+                              }`}
+                              title={option.lastObservedAt
+                                ? `Last observed ${format(new Date(option.lastObservedAt), 'PP')}`
+                                : 'Not observed yet'}
+                              data-testid={`code-lineage-option-${option.kind}-${option.code}`}
+                            >
+                              <span className="font-medium">
+                                {option.code}
+                                {!option.onTemplate && (
+                                  <span className="ml-1 text-xs font-normal text-warning-700" title="Not on the site template">
+                                    (off template)
+                                  </span>
+                                )}
+                              </span>
+                              <span className="text-xs text-gray-500">{option.observationCount}</span>
+                            </Link>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-3">
+          {!kind || !code ? (
+            <Card>
+              <CardContent>
+                <div className="text-center py-8">
+                  <GitCommitVertical className="mx-auto h-12 w-12 text-gray-300" />
+                  <p className="text-gray-600 mt-2">Choose a code to follow it across submissions</p>
+                </div>
+              </CardContent>
+            </Card>
+          ) : lineageLoading ? (
+            <LoadingScreen />
+          ) : entries.length === 0 ? (
+            <Card>
+              <CardContent>
+                <p className="text-center text-gray-600 py-8" data-testid="code-lineage-empty">
+                  No observations of {code} have been recorded at this site yet.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6" data-testid="code-lineage-summary">
+                <div className="bg-white border border-gray-200 rounded-lg p-3">
+                  <p className="text-sm text-gray-500">Observations</p>
+                  <p className="text-xl font-semibold">{entries.length}</p>
+                </div>
+                <div className="bg-white border border-gray-200 rounded-lg p-3">
+                  <p className="text-sm text-gray-500">Observed</p>
+                  <p className="font-medium">
+                    {format(new Date(entries[0].observed_at), 'PP')}
+                    {entries.length > 1 && ` – ${format(new Date(entries[entries.length - 1].observed_at), 'PP')}`}
+                  </p>
+                </div>
+                <div className="bg-white border border-gray-200 rounded-lg p-3">
+                  <p className="text-sm text-gray-500">Placements</p>
+                  <p className="font-medium">{placements.length > 0 ? placements.join(', ') : '—'}</p>
+                </div>
+              </div>
+
+              <CodeLineageTimeline programId={programId} siteId={siteId} kind={kind} entries={entries} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CodeLineagePage;
@@ -1,6 +1,6 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Leaf, Plus, CloudRain, Sun, Cloud, Clock, Building, ArrowRight, MapPin, Home, Hash } from 'lucide-react';
+import { Leaf, Plus, CloudRain, Sun, Cloud, Clock, Building, ArrowRight, MapPin, Home, Hash, CalendarClock } from 'lucide-react';
 import Button from '../components/common/Button';
 import Card, { CardHeader, CardContent, CardFooter } from '../components/common/Card';
 import usePilotPrograms from '../hooks/usePilotPrograms';
@@ -14,6 +14,9 @@ import { PilotProgram, Site } from '../lib/types';
 import { toast } from 'react-toastify';
 import useWeather from '../hooks/useWeather';
 import AnalyticsChart from '../components/dashboard/AnalyticsChart';
+import ScheduleStatusBadge from '../components/sites/ScheduleStatusBadge';
+import useSiteSchedules from '../hooks/useSiteSchedules';
+import { SCHEDULE_STATE_ORDER, formatScheduleTime, needsVisitToday } from '../utils/submissionSchedule';
 
 // Type for recent submission from the get_recent_submissions RPC
 interface RecentSubmission {
@@ -34,6 +37,7 @@ const HomePage = () => {
   const navigate = useNavigate();
   const { programs, isLoading: programsLoading } = usePilotPrograms();
   const { userCompany, isAdmin: isCompanyAdmin, updateCompanyDefaultWeather, loading: companyLoading } = useCompanies();
+  const { schedules, refresh: refreshSchedules } = useSiteSchedules();
   
   // Weather hook moved here for clarity
   const { 
@@ -65,6 +69,17 @@ const HomePage = () => {
   const [hasUserManuallySetWeather, setHasUserManuallySetWeather] = useState(false);
   const [isNewSubmissionModalOpen, setIsNewSubmissionModalOpen] = useState(false);
   
+  // Sites whose schedule has readings due today, most urgent first
+  const dueToday = useMemo(
+    () => schedules
+      .filter(entry => entry.status.todayWindow || needsVisitToday(entry.status))
+      .sort((a, b) =>
+        SCHEDULE_STATE_ORDER[a.status.state] - SCHEDULE_STATE_ORDER[b.status.state] ||
+        (a.status.todayWindow?.start.getTime() ?? 0) - (b.status.todayWindow?.start.getTime() ?? 0)
+      ),
+    [schedules]
+  );
+  
   // Pre-select the first program when the page loads, but only once
   useEffect(() => {
     if (!programsLoading && programs.length > 0 && !selectedProgramId && !isInitialProgramSelectionDone.current) {
@@ -242,8 +257,9 @@ const HomePage = () => {
   // Handle submission created
   const handleSubmissionCreated = useCallback(() => {
     fetchRecentSubmissions();
+    refreshSchedules();
     setIsNewSubmissionModalOpen(false);
-  }, [fetchRecentSubmissions]);
+  }, [fetchRecentSubmissions, refreshSchedules]);
   
   if (programsLoading || companyLoading) {
     return <LoadingScreen />;
@@ -482,6 +498,63 @@ const HomePage = () => {
         </Card>
       </div>
       
+      {/* Due Today Card - Only shown if a scheduled site has readings due today */}
+      {dueToday.length > 0 && (
+        <Card className="mb-6" testId="due-today-card">
+          <CardHeader className="flex justify-between items-center">
+            <div className="flex items-center">
+              <CalendarClock className="mr-2 h-5 w-5 text-primary-500" />
+              <h2 className="text-lg font-semibold">Due Today</h2>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate('/today')}
+              testId="plan-route-button"
+            >
+              Plan Route
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-gray-100">
+              {dueToday.map(entry => (
+                <li
+                  key={entry.site_id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3"
+                  data-testid={`due-today-${entry.site_id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{entry.site_name}</p>
+                    <p className="text-xs text-gray-500">
+                      {entry.program_name}
+                      {entry.status.todayWindow && (
+                        <>
+                          {' · '}
+                          {formatScheduleTime(entry.status.todayWindow.start, entry.status.timeZone)}
+                          {' - '}
+                          {formatScheduleTime(entry.status.todayWindow.end, entry.status.timeZone)}
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <ScheduleStatusBadge status={entry.status} />
+                    <button
+                      onClick={() => navigate(`/programs/${entry.program_id}/sites/${entry.site_id}`)}
+                      className="text-primary-600 hover:text-primary-900 flex items-center text-sm font-medium"
+                      aria-label={`Open ${entry.site_name}`}
+                    >
+                      Open
+                      <ArrowRight className="ml-1 h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+      
       {/* Recent Submissions Card - Only shown if there are submissions or a site is selected */}
       {(recentSubmissions.length > 0 || selectedSite) && (
         <Card className="mb-6">
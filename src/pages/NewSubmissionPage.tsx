@@ -14,6 +14,8 @@ import useCompanies from '../hooks/useCompanies';
 import LoadingScreen from '../components/common/LoadingScreen';
 import { toast } from 'react-toastify';
 import sessionManager from '../lib/sessionManager';
+import { useSessionStore } from '../stores/sessionStore';
+import { useAuthStore } from '../stores/authStore';
 
 // Schema for form validation
 const SubmissionSchema = Yup.object().shape({
@@ -59,6 +61,8 @@ const NewSubmissionPage = () => {
   const { fetchSite, loading: siteLoading } = useSites(programId);
   const { userCompany } = useCompanies();
   const isOnline = useOnlineStatus();
+  const { addSession } = useSessionStore();
+  const { user } = useAuthStore();
   const [isCreatingSession, setIsCreatingSession] = useState(false);
   const [isTransportFacility, setIsTransportFacility] = useState(false);
   const [localSiteData, setLocalSiteData] = useState<any | null>(null); // New state to prevent infinite loop
@@ -208,9 +212,24 @@ const NewSubmissionPage = () => {
         );
         
         if (response.success && response.submission_id) {
+          if (response.offline && response.session) {
+            // Track the local session so it shows up alongside server sessions
+            addSession({
+              ...response.session,
+              site_name: localSiteData?.name || '',
+              program_name: selectedProgram?.name || '',
+              opened_by_user_email: user?.email || ''
+            });
+          }
+          
           // Navigate to the new submission edit page
           navigate(`/programs/${programId}/sites/${siteId}/submissions/${response.submission_id}/edit`);
-          toast.success('Submission created successfully. You can now add observations.');
+          
+          if (response.offline) {
+            toast.info('Submission started offline. It will sync when you reconnect.');
+          } else {
+            toast.success('Submission created successfully. You can now add observations.');
+          }
         } else {
           console.error('Failed to create submission session:', response);
           toast.error(response.message || 'Failed to create submission');
@@ -691,8 +710,8 @@ const NewSubmissionPage = () => {
               <div className="mb-6 bg-warning-50 border border-warning-200 p-3 rounded-md text-warning-800">
                 <p className="text-sm font-medium">You are currently offline</p>
                 <p className="text-xs mt-1">
-                  Your submission will be stored locally and will sync when you reconnect. Make sure you complete 
-                  this submission when online, as offline functionality may be limited.
+                  Your submission will be stored on this device and will sync automatically when you reconnect.
+                  You can keep adding observations and complete it while offline.
                 </p>
               </div>
             )}
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Calendar, FlaskConical, RefreshCw } from 'lucide-react';
+import Button from '../components/common/Button';
+import Card, { CardHeader, CardContent } from '../components/common/Card';
+import LoadingScreen from '../components/common/LoadingScreen';
+import GroupComparisonChart from '../components/dashboard/GroupComparisonChart';
+import SiteComparisonGroupsCard from '../components/sites/SiteComparisonGroupsCard';
+import { useSites } from '../hooks/useSites';
+import usePilotPrograms from '../hooks/usePilotPrograms';
+import useProgramComparison from '../hooks/useProgramComparison';
+import useUserRole from '../hooks/useUserRole';
+import { usePilotProgramStore } from '../stores/pilotProgramStore';
+import { Site } from '../lib/types';
+import { ANALYTICS_PERIODS, AnalyticsPeriod } from '../utils/analyticsPeriods';
+import {
+  COMPARISON_GROUP_LABELS,
+  COMPARISON_GROUPS,
+  COMPARISON_METRICS,
+  ComparisonMetric,
+  ComparisonStats,
+  MetricDefinition,
+  metricDifference
+} from '../utils/siteComparison';
+
+const CATEGORY_LABELS: Record<MetricDefinition['category'], string> = {
+  growth: 'Growth',
+  anomalies: 'Anomalies',
+  environment: 'Environment'
+};
+
+const SAMPLE_ROWS: { key: keyof ComparisonStats; label: string }[] = [
+  { key: 'sites', label: 'Sites' },
+  { key: 'submissions', label: 'Submissions' },
+  { key: 'colony_observations', label: 'Plates with colony estimates' },
+  { key: 'gasifier_observations', label: 'Gasifier readings' }
+];
+
+const formatMetric = (value: number | null, metric: MetricDefinition) =>
+  value === null ? '—' : `${value.toFixed(1)}${metric.unit}`;
+
+// Control and treatment sites in a program side by side over time
+const ProgramComparisonPage = () => {
+  const navigate = useNavigate();
+  const { programId } = useParams<{ programId: string }>();
+  const { selectedProgram, setSelectedProgram } = usePilotProgramStore();
+  const { fetchPilotProgram } = usePilotPrograms();
+  const { sites: programSites, loading: sitesLoading, updateSiteComparisonGroup } = useSites(programId);
+  const { canEditSite } = useUserRole({ programId });
+  const [period, setPeriod] = useState<AnalyticsPeriod>('30days');
+  const [metricKey, setMetricKey] = useState<ComparisonMetric>('colony_coverage');
+  const { comparison, isLoading, isFetching, refetch } = useProgramComparison(programId, period);
+
+  // Fetch selected program if not already in state
+  useEffect(() => {
+    const loadPilotProgram = async () => {
+      if (!programId) return;
+
+      if (selectedProgram && selectedProgram.program_id === programId) {
+        return;
+      }
+
+      const program = await fetchPilotProgram(programId);
+      if (program) {
+        setSelectedProgram(program);
+      } else {
+        console.error('Failed to fetch program');
+      }
+    };
+
+    loadPilotProgram();
+  }, [programId, selectedProgram, setSelectedProgram, fetchPilotProgram]);
+
+  if (sitesLoading) {
+    return <LoadingScreen />;
+  }
+
+  if (!programId) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">Program not found.</p>
+      </div>
+    );
+  }
+
+  const sites = programSites as Site[];
+  const groupSiteCounts = COMPARISON_GROUPS.map(group => sites.filter(site => site.comparison_group === group).length);
+  const hasBothGroups = groupSiteCounts.every(count => count > 0);
+  const metric = COMPARISON_METRICS.find(definition => definition.key === metricKey) || COMPARISON_METRICS[0];
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex items-center mb-6">
+        <button
+          onClick={() => navigate(`/programs/${programId}/sites`)}
+          className="mr-4 p-2 rounded-full hover:bg-gray-100"
+          aria-label="Go back to sites"
+        >
+          <ArrowLeft size={20} className="text-gray-500" />
+        </button>
+        <div className="flex-grow">
+          <h1 className="text-2xl font-bold text-gray-900">Control vs Treatment</h1>
+          <p className="text-gray-600 mt-1">{selectedProgram?.program_id === programId ? selectedProgram.name : ''}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-1 self-start">
+          <SiteComparisonGroupsCard sites={sites} canEdit={canEditSite} onChange={updateSiteComparisonGroup} />
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          <div className="flex flex-wrap gap-2 justify-end">
+            {ANALYTICS_PERIODS.map(option => (
+              <Button
+                key={option.value}
+                variant={period === option.value ? 'primary' : 'outline'}
+                size="sm"
+                icon={<Calendar size={14} />}
+                onClick={() => setPeriod(option.value)}
+                testId={`comparison-period-${option.value}`}
+              >
+                {option.label}
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<RefreshCw size={14} />}
+              onClick={() => refetch()}
+              isLoading={isFetching && !isLoading}
+            >
+              Refresh
+            </Button>
+          </div>
+
+          {!hasBothGroups ? (
+            <Card>
+              <CardContent>
+                <div className="text-center py-8" data-testid="comparison-needs-groups">
+                  <FlaskConical className="mx-auto h-12 w-12 text-gray-300" />
+                  <p className="text-gray-600 font-medium mt-2">Mark at least one control and one treatment site to compare them</p>
+                  <p className="text-gray-500 text-sm mt-1">
+                    {groupSiteCounts[0]} control and {groupSiteCounts[1]} treatment {groupSiteCounts[0] + groupSiteCounts[1] === 1 ? 'site' : 'sites'} so far
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          ) : isLoading ? (
+            <LoadingScreen />
+          ) : (
+            <>
+              <Card testId="comparison-summary">
+                <CardHeader>
+                  <h2 className="text-lg font-semibold">Summary</h2>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="px-3 py-2 font-medium"></th>
+                          {COMPARISON_GROUPS.map(group => (
+                            <th key={group} className="px-3 py-2 font-medium text-right">{COMPARISON_GROUP_LABELS[group]}</th>
+                          ))}
+                          <th className="px-3 py-2 font-medium text-right">Difference</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {COMPARISON_METRICS.map(definition => {
+                          const difference = metricDifference(comparison, definition.key);
+                          return (
+                            <tr key={definition.key} className="border-t border-gray-100">
+                              <td className="px-3 py-2 text-gray-700">{definition.label}</td>
+                              {COMPARISON_GROUPS.map(group => {
+                                const stats = comparison.groups[group].summary;
+                                return (
+                                  <td key={group} className="px-3 py-2 text-right">
+                                    <span className="font-medium">{formatMetric(stats[definition.key], definition)}</span>
+                                    <span className="block text-xs text-gray-500">n = {stats[definition.sample]}</span>
+                                  </td>
+                                );
+                              })}
+                              <td className="px-3 py-2 text-right font-medium">
+                                {difference === null ? '—' : `${difference > 0 ? '+' : ''}${formatMetric(difference, definition)}`}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                        {SAMPLE_ROWS.map(row => (
+                          <tr key={row.key} className="border-t border-gray-100 text-gray-500">
+                            <td className="px-3 py-2">{row.label}</td>
+                            {COMPARISON_GROUPS.map(group => (
+                              <td key={group} className="px-3 py-2 text-right">{comparison.groups[group].summary[row.key]}</td>
+                            ))}
+                            <td className="px-3 py-2"></td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card testId="comparison-trends">
+                <CardHeader>
+                  <h2 className="text-lg font-semibold">Over Time</h2>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 mb-4">
+                    {(['growth', 'anomalies', 'environment'] as const).map(category => (
+                      <div key={category} className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm text-gray-500 w-24">{CATEGORY_LABELS[category]}</span>
+                        {COMPARISON_METRICS.filter(definition => definition.category === category).map(definition => (
+                          <Button
+                            key={definition.key}
+                            variant={metricKey === definition.key ? 'primary' : 'outline'}
+                            size="sm"
+                            onClick={() => setMetricKey(definition.key)}
+                            testId={`comparison-metric-${definition.key}`}
+                          >
+                            {definition.label}
+                          </Button>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+
+                  {COMPARISON_GROUPS.every(group => comparison.groups[group].summary.submissions === 0) ? (
+                    <div className="flex justify-center items-center h-64">
+                      <p className="text-gray-500">No submissions at the compared sites for the selected time period.</p>
+                    </div>
+                  ) : (
+                    <GroupComparisonChart comparison={comparison} metric={metric} />
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgramComparisonPage;
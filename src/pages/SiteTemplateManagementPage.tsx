@@ -9,6 +9,12 @@ import Card, { CardHeader, CardContent } from '../components/common/Card';
 import LoadingScreen from '../components/common/LoadingScreen';
 import PermissionModal from '../components/common/PermissionModal';
 import SiteTemplateForm from '../components/sites/SiteTemplateForm';
+import SiteSessionSettingsCard from '../components/sites/SiteSessionSettingsCard';
+import SiteCompletionRulesCard from '../components/sites/SiteCompletionRulesCard';
+import SiteScheduleCard from '../components/sites/SiteScheduleCard';
+import SiteGasifierReplacementCard from '../components/sites/SiteGasifierReplacementCard';
+import SiteLabelSheetCard from '../components/sites/SiteLabelSheetCard';
+import SiteAlertRulesCard from '../components/sites/SiteAlertRulesCard';
 import { PetriDefaults, SubmissionDefaults, GasifierDefaults } from '../lib/types';
 import { toast } from 'react-toastify';
 import useCompanies from '../hooks/useCompanies';
@@ -23,9 +29,13 @@ const SiteTemplateManagementPage = () => {
     clearSiteTemplateDefaults, 
     updateSiteName,
     updateSiteProperties,
+    updateSiteSessionSettings,
+    updateSiteCompletionRules,
+    updateSiteSubmissionSchedule,
+    updateSiteGasifierReplacementPolicy,
     loading 
   } = useSites(programId);
-  const { canManageSiteTemplates, isLoading: roleLoading } = useUserRole({ programId });
+  const { canManageSiteTemplates, canManageAlertRules, isLoading: roleLoading } = useUserRole({ programId });
   const { fetchCompanyUsers, userCompany } = useCompanies();
   
   const [templateExists, setTemplateExists] = useState(false);
@@ -769,6 +779,46 @@ const SiteTemplateManagementPage = () => {
           </div>
         </div>
       )}
+
+      {!isEditing && (
+        <>
+          <SiteSessionSettingsCard
+            site={selectedSite}
+            program={selectedProgram}
+            canEdit={canManageSiteTemplates}
+            onSave={async (timezone, policy) => {
+              const updatedSite = await updateSiteSessionSettings(selectedSite.site_id, timezone, policy);
+              if (updatedSite) setSelectedSite(updatedSite);
+            }}
+          />
+          <SiteScheduleCard
+            site={selectedSite}
+            canEdit={canManageSiteTemplates}
+            onSave={async (schedule) => {
+              const updatedSite = await updateSiteSubmissionSchedule(selectedSite.site_id, schedule);
+              if (updatedSite) setSelectedSite(updatedSite);
+            }}
+          />
+          <SiteCompletionRulesCard
+            site={selectedSite}
+            canEdit={canManageSiteTemplates}
+            onSave={async (rules) => {
+              const updatedSite = await updateSiteCompletionRules(selectedSite.site_id, rules);
+              if (updatedSite) setSelectedSite(updatedSite);
+            }}
+          />
+          <SiteGasifierReplacementCard
+            site={selectedSite}
+            canEdit={canManageSiteTemplates}
+            onSave={async (policy) => {
+              const updatedSite = await updateSiteGasifierReplacementPolicy(selectedSite.site_id, policy);
+              if (updatedSite) setSelectedSite(updatedSite);
+            }}
+          />
+          <SiteAlertRulesCard site={selectedSite} canEdit={canManageAlertRules} />
+          <SiteLabelSheetCard site={selectedSite} />
+        </>
+      )}
     </div>
   );
 };
@@ -2,12 +2,15 @@ import { useEffect, useState, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useQueryClient } from '@tanstack/react-query';
 import { usePilotProgramStore } from '../stores/pilotProgramStore';
-import { Plus, Search, ArrowLeft, History } from 'lucide-react';
+import { Plus, Search, ArrowLeft, History, CalendarClock, FlaskConical } from 'lucide-react';
 import Button from '../components/common/Button';
 import Input from '../components/common/Input';
 import LoadingScreen from '../components/common/LoadingScreen';
+import CachedDataNotice from '../components/common/CachedDataNotice';
 import NewSiteModal from '../components/sites/NewSiteModal';
 import { useSites } from '../hooks/useSites';
+import useSiteSchedules from '../hooks/useSiteSchedules';
+import { useSiteAlerts } from '../hooks/useAlertRules';
 import { usePilotPrograms } from '../hooks/usePilotPrograms';
 import useUserRole from '../hooks/useUserRole';
 import PermissionModal from '../components/common/PermissionModal';
@@ -16,6 +19,7 @@ import { Site } from '../lib/types';
 import { toast } from 'react-toastify';
 import SiteCardSkeleton from '../components/sites/SiteCardSkeleton';
 import { debounce } from '../utils/helpers';
+import { needsVisitToday } from '../utils/submissionSchedule';
 
 const SitesPage = () => {
   const navigate = useNavigate();
@@ -26,8 +30,10 @@ const SitesPage = () => {
     selectedSite, 
     setSelectedSite,
   } = usePilotProgramStore();
-  const { sites, loading: sitesLoading, fetchSites, deleteSite } = useSites(programId);
+  const { sites, loading: sitesLoading, fetchSites, deleteSite, dataUpdatedAt: sitesUpdatedAt, isFetching: sitesFetching } = useSites(programId);
   const { fetchPilotProgram, loading: programLoading } = usePilotPrograms();
+  const { schedules, statusBySite } = useSiteSchedules(programId);
+  const { countsBySite: alertCountsBySite } = useSiteAlerts(programId);
   const { canCreateSite, canDeleteSite, canManageSiteTemplates, canViewAuditLog } = useUserRole({ programId });
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
@@ -36,6 +42,7 @@ const SitesPage = () => {
   const [permissionMessage, setPermissionMessage] = useState("");
   const [isDeleting, setIsDeleting] = useState(false);
   const [hasInitialized, setHasInitialized] = useState(false);
+  const [showDueOnly, setShowDueOnly] = useState(false);
   const queryClient = useQueryClient();
   
   // Handle search with debounce
@@ -132,11 +139,18 @@ const SitesPage = () => {
     }
   };
 
-  const filteredSites = debouncedSearchQuery 
+  const overdueCount = schedules.filter(entry => entry.status.state === 'overdue').length;
+  const dueCount = schedules.filter(entry => entry.status.state === 'due').length;
+  const upcomingCount = schedules.filter(entry => entry.status.state === 'upcoming').length;
+
+  const searchedSites = debouncedSearchQuery 
     ? sites.filter(site => 
         site.name.toLowerCase().includes(debouncedSearchQuery.toLowerCase())
       )
     : sites;
+  const filteredSites = showDueOnly
+    ? searchedSites.filter((site: Site) => statusBySite[site.site_id] && needsVisitToday(statusBySite[site.site_id]))
+    : searchedSites;
 
   // Only show loading screen on initial load when we have no data
   if ((programLoading || sitesLoading) && sites.length === 0) {
@@ -194,6 +208,14 @@ const SitesPage = () => {
           <p className="text-gray-600 mt-1">Select a Facility</p>
         </div>
         <div className="flex space-x-2">
+          <Button 
+            variant="outline" 
+            icon={<FlaskConical size={18} />}
+            onClick={() => navigate(`/programs/${programId}/comparison`)}
+            testId="view-comparison-button"
+          >
+            Compare
+          </Button>
           {canViewAuditLog && (
             <Button 
               variant="outline" 
@@ -215,6 +237,44 @@ const SitesPage = () => {
         </div>
       </div>
       
+      <CachedDataNotice
+        dataUpdatedAt={sitesUpdatedAt}
+        onRefresh={fetchSites}
+        isRefreshing={sitesFetching}
+        testId="sites-cached-data-notice"
+      />
+      
+      {schedules.length > 0 && (
+        <div
+          className="flex flex-wrap items-center justify-between gap-2 mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm"
+          data-testid="site-schedule-summary"
+        >
+          <div className="flex items-center flex-wrap gap-x-4 gap-y-1">
+            <span className="flex items-center font-medium text-gray-700">
+              <CalendarClock size={16} className="mr-1 text-primary-600" />
+              Scheduled readings
+            </span>
+            <span className={overdueCount > 0 ? 'text-error-700 font-medium' : 'text-gray-600'}>
+              {overdueCount} overdue
+            </span>
+            <span className={dueCount > 0 ? 'text-warning-700 font-medium' : 'text-gray-600'}>
+              {dueCount} due now
+            </span>
+            <span className="text-gray-600">{upcomingCount} later today</span>
+          </div>
+          <label className="flex items-center text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+              checked={showDueOnly}
+              onChange={e => setShowDueOnly(e.target.checked)}
+              data-testid="show-due-sites-only"
+            />
+            Only sites due today
+          </label>
+        </div>
+      )}
+
       <div className="relative mb-6">
         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
           <Search className="h-5 w-5 text-gray-400" />
@@ -247,13 +307,16 @@ const SitesPage = () => {
         </div>
       ) : filteredSites.length === 0 ? (
         <div className="text-center py-8 bg-gray-50 rounded-lg border border-gray-200" data-testid="no-search-results-message">
-          <p className="text-gray-600">No sites match your search</p>
+          <p className="text-gray-600">
+            {showDueOnly ? 'No sites match your search and are due today' : 'No sites match your search'}
+          </p>
           <Button 
             variant="outline" 
             className="mt-4"
             onClick={() => {
               setSearchQuery('');
               setDebouncedSearchQuery('');
+              setShowDueOnly(false);
             }}
             testId="clear-search-button"
           >
@@ -273,6 +336,8 @@ const SitesPage = () => {
               canManageTemplate={canManageSiteTemplates}
               canViewAuditLog={canViewAuditLog}
               programId={programId || ''}
+              scheduleStatus={statusBySite[site.site_id]}
+              alertCount={alertCountsBySite[site.site_id]}
               testId={`site-card-${site.site_id}`}
             />
           ))}
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import { supabase } from '../lib/supabaseClient';
 import { usePilotProgramStore } from '../stores/pilotProgramStore';
 import { 
@@ -35,18 +35,46 @@ import TemplateWarningModal from '../components/submissions/TemplateWarningModal
 import ConfirmSubmissionModal from '../components/submissions/ConfirmSubmissionModal';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
 import offlineStorage from '../utils/offlineStorage';
+import syncManager from '../utils/syncManager';
+import {
+  petriFormDataToObservation,
+  gasifierFormDataToObservation,
+  petriObservationToFormData,
+  gasifierObservationToFormData,
+  updatePetriObservation,
+  updateGasifierObservation,
+  ObservationConflict
+} from '../utils/submissionUtils';
 import useOfflineSession from '../hooks/useOfflineSession';
 import sessionManager from '../lib/sessionManager';
 import { useSessionStore } from '../stores/sessionStore';
 import useUserRole from '../hooks/useUserRole';
 import PermissionModal from '../components/common/PermissionModal';
 import SessionShareModal from '../components/submissions/SessionShareModal';
+import ReopenSessionModal from '../components/submissions/ReopenSessionModal';
 import SubmissionOverviewCard from '../components/submissions/SubmissionOverviewCard';
+import ObservationMergeModal, { MergedObservation } from '../components/submissions/ObservationMergeModal';
 import { useSubmissions } from '../hooks/useSubmissions';
+import { useJoinSessionPresence } from '../hooks/useSessionPresence';
+import useSessionEvents from '../hooks/useSessionEvents';
+import { PresenceEditing } from '../utils/presence';
+import { getSessionExpiration, getSessionWarningMinutes } from '../utils/sessionExpiration';
+import { templateCodes } from '../utils/codeScanner';
+import { codeLineagePath } from '../utils/codeLineage';
+import {
+  evaluateObservation,
+  evaluateSessionCompletion,
+  gasifierFormValues,
+  gasifierObservationValues,
+  petriFormValues,
+  petriObservationValues,
+  resolveCompletionRules
+} from '../utils/completionRules';
 
 const SubmissionEditPage = () => {
   const { programId, siteId, submissionId } = useParams<{ programId: string; siteId: string; submissionId: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuthStore();
   const { 
     selectedProgram, 
@@ -87,6 +115,32 @@ const SubmissionEditPage = () => {
   // Add state variables to store complete form data objects
   const [petriObservationData, setPetriObservationData] = useState<{[key: string]: any}>({});
   const [gasifierObservationData, setGasifierObservationData] = useState<{[key: string]: any}>({});
+
+  // What each observation needs before it counts as complete at this site
+  const completionRules = useMemo(
+    () => resolveCompletionRules(selectedSite?.completion_rules),
+    [selectedSite?.completion_rules]
+  );
+
+  // Codes on the site template, which entered and scanned codes are checked against
+  const expectedPetriCodes = useMemo(
+    () => templateCodes(selectedSite?.petri_defaults, 'petri_code'),
+    [selectedSite?.petri_defaults]
+  );
+  const expectedGasifierCodes = useMemo(
+    () => templateCodes(selectedSite?.gasifier_defaults, 'gasifier_code'),
+    [selectedSite?.gasifier_defaults]
+  );
+
+  // Codes entered on every observation form but the given one
+  const otherPetriCodes = (formId: string): string[] =>
+    Object.values(petriObservationData)
+      .filter(data => data.formId !== formId)
+      .map(data => data.petriCode);
+  const otherGasifierCodes = (formId: string): string[] =>
+    Object.values(gasifierObservationData)
+      .filter(data => data.formId !== formId)
+      .map(data => data.gasifierCode);
   
   const [isPetriAccordionOpen, setIsPetriAccordionOpen] = useState(true);
   const [isGasifierAccordionOpen, setIsGasifierAccordionOpen] = useState(true);
@@ -94,6 +148,13 @@ const SubmissionEditPage = () => {
   const [showTemplateWarning, setShowTemplateWarning] = useState<'Petri' | 'Gasifier' | null>(null);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   
+  // Revision of each observation as last loaded or saved, sent as a precondition on save
+  const [observationRevisions, setObservationRevisions] = useState<Record<string, number>>({});
+  // Bumped when a form's saved data is replaced by a merge so the form remounts with it
+  const [formVersions, setFormVersions] = useState<Record<string, number>>({});
+  const [mergeConflicts, setMergeConflicts] = useState<ObservationConflict[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+  
   // Session state
   const [session, setSession] = useState<any>(null);
   const [expectedPetriCount, setExpectedPetriCount] = useState(0);
@@ -105,12 +166,24 @@ const SubmissionEditPage = () => {
   const [showPermissionModal, setShowPermissionModal] = useState(false);
   const [permissionMessage, setPermissionMessage] = useState("");
   const [showShareModal, setShowShareModal] = useState(false);
+  const [showReopenModal, setShowReopenModal] = useState(false);
   
   // Add state for creator information
   const [creatorEmail, setCreatorEmail] = useState<string | undefined>(undefined);
   const [creatorName, setCreatorName] = useState<string | undefined>(undefined);
   
-  const { canEditSubmission } = useUserRole({ programId });
+  // Announce this user in the session and see which forms collaborators have open
+  const { members: presentMembers, others: otherMembers, setEditing } = useJoinSessionPresence(session?.session_id);
+  const { events: sessionEvents, isLoading: isLoadingSessionEvents } = useSessionEvents(session?.session_id);
+  
+  const getEditors = (type: PresenceEditing['type'], formId: string) =>
+    otherMembers.filter(member => member.editing?.type === type && member.editing.formId === formId);
+  
+  const handleEditingChange = (type: PresenceEditing['type'], formId: string, editing: boolean) => {
+    setEditing(editing ? { type, formId } : null);
+  };
+  
+  const { canEditSubmission, isAdmin: isProgramAdmin, isCompanyAdminForProgram } = useUserRole({ programId });
   const isOnline = useOnlineStatus();
   
   const sessionTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -127,6 +200,42 @@ const SubmissionEditPage = () => {
     submissionId
   });
 
+  // Move to the server route once an offline submission has been synced
+  useEffect(() => {
+    return syncManager.onIdsRemapped(mappings => {
+      if (submissionId && mappings[submissionId]) {
+        navigate(`/programs/${programId}/sites/${siteId}/submissions/${mappings[submissionId]}/edit`, { replace: true });
+      }
+    });
+  }, [programId, siteId, submissionId, navigate]);
+
+  // Offline edits that clashed with someone else's save when they synced wait here to be merged
+  useEffect(() => {
+    if (!submissionId || offlineStorage.isTempId(submissionId)) return;
+    
+    const showSyncConflicts = async () => {
+      const stored = await syncManager.getSyncConflicts(submissionId);
+      if (stored.length === 0) return;
+      
+      // Loaded forms are keyed by their observation ID
+      const conflicts = stored.map(conflict => ({
+        ...conflict,
+        formId: conflict.observationId,
+        yours: { ...conflict.yours, formId: conflict.observationId }
+      }) as ObservationConflict);
+      
+      setMergeConflicts(prev => [
+        ...prev.filter(c => !conflicts.some(conflict => conflict.observationId === c.observationId)),
+        ...conflicts
+      ]);
+    };
+    
+    showSyncConflicts().catch(error => console.error('Error loading sync conflicts:', error));
+    return syncManager.onSyncQueueChanged(() => {
+      showSyncConflicts().catch(error => console.error('Error loading sync conflicts:', error));
+    });
+  }, [submissionId]);
+
   // Load submission, observations, and session data
   useEffect(() => {
     const loadSubmissionData = async () => {
@@ -135,9 +244,39 @@ const SubmissionEditPage = () => {
       setLoading(true);
       
       try {
-        // Fetch submission with session data
-        const { submission: submissionData, session: sessionData, creator } = 
-          await sessionManager.getSubmissionWithSession(submissionId);
+        // Submissions started offline may have been synced since this route was opened
+        if (offlineStorage.isTempId(submissionId)) {
+          const serverSubmissionId = await offlineStorage.resolveId(submissionId);
+          if (serverSubmissionId !== submissionId) {
+            navigate(`/programs/${programId}/sites/${siteId}/submissions/${serverSubmissionId}/edit`, { replace: true });
+            return;
+          }
+        }
+        
+        let submissionData: any = null;
+        let sessionData: any = null;
+        let creator: { email: string; full_name: string | null } | null | undefined = null;
+        let petriData: any[] | null = null;
+        let gasifierData: any[] | null = null;
+        
+        // Submissions not on the server yet, or edited offline and reopened without a
+        // connection, are loaded from the draft kept in IndexedDB
+        const draft = offlineStorage.isTempId(submissionId) || !navigator.onLine
+          ? await offlineStorage.getDraftSubmission(submissionId)
+          : undefined;
+        
+        if (offlineStorage.isTempId(submissionId) || draft) {
+          const localSessions = await offlineStorage.getAllSessions();
+          
+          submissionData = draft?.submission || null;
+          sessionData = localSessions.find(s => s.submission_id === submissionId) || null;
+          petriData = draft?.petriObservations || [];
+          gasifierData = draft?.gasifierObservations || [];
+        } else {
+          // Fetch submission with session data
+          ({ submission: submissionData, session: sessionData, creator } = 
+            await sessionManager.getSubmissionWithSession(submissionId));
+        }
         
         if (!submissionData) {
           toast.error('Submission not found');
@@ -162,24 +301,34 @@ const SubmissionEditPage = () => {
         // Update title in browser
         document.title = `Submission #${submissionData.global_submission_id || ''} - GRMTek Sporeless`;
         
-        // Fetch petri observations
-        const { data: petriData, error: petriError } = await supabase
-          .from('petri_observations')
-          .select('*')
-          .eq('submission_id', submissionId);
+        if (!offlineStorage.isTempId(submissionId) && !draft) {
+          // Fetch petri observations
+          const { data: serverPetriData, error: petriError } = await supabase
+            .from('petri_observations')
+            .select('*')
+            .eq('submission_id', submissionId);
+            
+          if (petriError) throw petriError;
           
-        if (petriError) throw petriError;
-        
-        // Fetch gasifier observations
-        const { data: gasifierData, error: gasifierError } = await supabase
-          .from('gasifier_observations')
-          .select('*')
-          .eq('submission_id', submissionId);
+          // Fetch gasifier observations
+          const { data: serverGasifierData, error: gasifierError } = await supabase
+            .from('gasifier_observations')
+            .select('*')
+            .eq('submission_id', submissionId);
+            
+          if (gasifierError) throw gasifierError;
           
-        if (gasifierError) throw gasifierError;
+          petriData = serverPetriData;
+          gasifierData = serverGasifierData;
+        }
         
         setPetriObservations(petriData || []);
         setGasifierObservations(gasifierData || []);
+        setObservationRevisions(Object.fromEntries(
+          [...(petriData || []), ...(gasifierData || [])]
+            .filter(obs => obs.revision !== undefined)
+            .map(obs => [obs.observation_id, obs.revision])
+        ));
         
         // Get all temporary images from IndexedDB to match with observations
         const tempImageKeys = await offlineStorage.listTempImageKeys();
@@ -202,7 +351,7 @@ const SubmissionEditPage = () => {
           return { 
             id: obs.observation_id, 
             ref: formRef, 
-            isValid: !!obs.image_url || !!matchingKey,
+            isValid: evaluateObservation('petri', petriObservationValues(obs, !!obs.image_url || !!matchingKey), completionRules).isComplete,
             isDirty: false,
             observationId: obs.observation_id,
             tempImageKey: matchingKey
@@ -226,7 +375,7 @@ const SubmissionEditPage = () => {
           return { 
             id: obs.observation_id, 
             ref: formRef, 
-            isValid: !!obs.image_url || !!matchingKey,
+            isValid: evaluateObservation('gasifier', gasifierObservationValues(obs, !!obs.image_url || !!matchingKey), completionRules).isComplete,
             isDirty: false,
             observationId: obs.observation_id,
             tempImageKey: matchingKey
@@ -253,12 +402,13 @@ const SubmissionEditPage = () => {
               placement: observation.placement,
               placement_dynamics: observation.placement_dynamics,
               observationId: observation.observation_id,
-              isValid: !!observation.image_url || !!form.tempImageKey,
+              isValid: form.isValid,
               hasData: true,
               hasImage: !!observation.image_url || !!form.tempImageKey,
               isDirty: false,
               outdoor_temperature: observation.outdoor_temperature,
-              outdoor_humidity: observation.outdoor_humidity
+              outdoor_humidity: observation.outdoor_humidity,
+              colonyAnalysis: observation.colony_analysis
             };
           }
         });
@@ -283,7 +433,7 @@ const SubmissionEditPage = () => {
               placementStrategy: observation.placement_strategy,
               notes: observation.notes || '',
               observationId: observation.observation_id,
-              isValid: !!observation.image_url || !!form.tempImageKey,
+              isValid: form.isValid,
               hasData: true,
               hasImage: !!observation.image_url || !!form.tempImageKey,
               isDirty: false,
@@ -456,6 +606,91 @@ const SubmissionEditPage = () => {
     );
   };
   
+  const recordSavedRevisions = (saved: { observationId: string; revision?: number }[]) => {
+    setObservationRevisions(prev => {
+      const next = { ...prev };
+      saved.forEach(({ observationId, revision }) => {
+        if (revision !== undefined) {
+          next[observationId] = revision;
+        }
+      });
+      return next;
+    });
+  };
+  
+  // Observations as this page last loaded them, so the merge dialog can tell who changed what
+  const mergeBaseObservations = useMemo(() => Object.fromEntries([
+    ...petriObservations
+      .filter(obs => mergeConflicts.some(c => c.observationId === obs.observation_id))
+      .map(obs => [obs.observation_id, petriObservationToFormData(obs, obs.observation_id)]),
+    ...gasifierObservations
+      .filter(obs => mergeConflicts.some(c => c.observationId === obs.observation_id))
+      .map(obs => [obs.observation_id, gasifierObservationToFormData(obs, obs.observation_id)])
+  ]), [petriObservations, gasifierObservations, mergeConflicts]);
+  
+  // Save the merged observations against the revision the other user saved
+  const handleResolveConflicts = async (merged: MergedObservation[]) => {
+    if (!siteId || !submissionId) return;
+    
+    setIsMerging(true);
+    
+    try {
+      const remainingConflicts: ObservationConflict[] = [];
+      
+      for (const item of merged) {
+        const result = item.type === 'petri'
+          ? await updatePetriObservation(item.formData, submissionId, siteId)
+          : await updateGasifierObservation(item.formData, submissionId, siteId);
+        
+        if (result.conflict) {
+          remainingConflicts.push(result.conflict);
+          continue;
+        }
+        
+        if (!result.success || !result.observationId) {
+          throw new Error(result.message || 'Failed to save merged observation');
+        }
+        
+        const { formId } = item.formData;
+        const savedRow = {
+          ...(item.type === 'petri'
+            ? petriFormDataToObservation(item.formData)
+            : gasifierFormDataToObservation(item.formData)),
+          observation_id: result.observationId,
+          revision: result.revision
+        };
+        const replaceRow = (rows: any[]) => rows.map(row => row.observation_id === result.observationId ? { ...row, ...savedRow } : row);
+        const savedFormData = { ...item.formData, imageFile: null, isDirty: false };
+        
+        if (item.type === 'petri') {
+          setPetriObservations(replaceRow);
+          setPetriObservationData(prev => ({ ...prev, [formId]: savedFormData }));
+          setPetriForms(forms => forms.map(form => form.id === formId ? { ...form, isDirty: false, tempImageKey: item.formData.tempImageKey } : form));
+        } else {
+          setGasifierObservations(replaceRow);
+          setGasifierObservationData(prev => ({ ...prev, [formId]: savedFormData }));
+          setGasifierForms(forms => forms.map(form => form.id === formId ? { ...form, isDirty: false, tempImageKey: item.formData.tempImageKey } : form));
+        }
+        
+        recordSavedRevisions([{ observationId: result.observationId, revision: result.revision }]);
+        setFormVersions(prev => ({ ...prev, [formId]: (prev[formId] || 0) + 1 }));
+        await syncManager.resolveSyncConflict(result.observationId);
+      }
+      
+      if (remainingConflicts.length > 0) {
+        toast.warning('Someone saved again while you were merging. Please review their latest changes.');
+      } else {
+        toast.success('Merged changes saved');
+      }
+      setMergeConflicts(remainingConflicts);
+    } catch (error) {
+      console.error('Error saving merged observations:', error);
+      toast.error('Failed to save merged changes');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+  
   // Handle form submission
   const handleSave = async () => {
     if (!programId || !siteId || !submissionId) return;
@@ -479,9 +714,11 @@ const SubmissionEditPage = () => {
           placement: data.placement,
           placement_dynamics: data.placement_dynamics,
           observationId: data.observationId,
+          revision: data.observationId ? observationRevisions[data.observationId] : undefined,
           isValid: data.isValid,
           outdoor_temperature: data.outdoor_temperature,
           outdoor_humidity: data.outdoor_humidity,
+          colonyAnalysis: data.colonyAnalysis,
           formId: data.formId
         }));
       
@@ -501,14 +738,16 @@ const SubmissionEditPage = () => {
           directionalPlacement: data.directionalPlacement,
           placementStrategy: data.placementStrategy,
           observationId: data.observationId,
+          revision: data.observationId ? observationRevisions[data.observationId] : undefined,
           isValid: data.isValid,
           outdoor_temperature: data.outdoor_temperature,
           outdoor_humidity: data.outdoor_humidity,
           formId: data.formId
         }));
       
-      // If online, update the submission using the hook function
-      if (isOnline) {
+      // If online, update the submission using the hook function.
+      // Submissions started offline go through the outbox until they exist on the server.
+      if (isOnline && !offlineStorage.isTempId(submissionId)) {
         const result = await updateSubmission(
           submissionId,
           submission.temperature,
@@ -533,6 +772,9 @@ const SubmissionEditPage = () => {
           await sessionManager.updateSessionActivity(session.session_id);
         }
         
+        recordSavedRevisions([...result.updatedPetriObservations, ...result.updatedGasifierObservations]);
+        const conflictedFormIds = new Set(result.conflicts.map((c: ObservationConflict) => c.formId));
+        
         // Update observation IDs if they were created/changed during save
         if (result.updatedPetriObservations) {
           const petriIdMap = new Map(result.updatedPetriObservations.map(p => [p.clientId, p.observationId]));
@@ -568,31 +810,142 @@ const SubmissionEditPage = () => {
           setGasifierObservationData(updatedGasifierData);
         }
         
-        // Reset dirty flags for all forms
+        // Reset dirty flags for all forms except those still waiting to be merged
         petriForms.forEach(form => {
-          if (form.ref.current?.resetDirty) {
+          if (!conflictedFormIds.has(form.id) && form.ref.current?.resetDirty) {
             form.ref.current.resetDirty();
           }
         });
         
         gasifierForms.forEach(form => {
-          if (form.ref.current?.resetDirty) {
+          if (!conflictedFormIds.has(form.id) && form.ref.current?.resetDirty) {
             form.ref.current.resetDirty();
           }
         });
         
         // Update form state to reflect dirty flag reset
-        setPetriForms(forms => forms.map(form => ({...form, isDirty: false})));
-        setGasifierForms(forms => forms.map(form => ({...form, isDirty: false})));
+        setPetriForms(forms => forms.map(form => conflictedFormIds.has(form.id) ? form : {...form, isDirty: false}));
+        setGasifierForms(forms => forms.map(form => conflictedFormIds.has(form.id) ? form : {...form, isDirty: false}));
         
-        toast.success('Submission saved successfully');
+        if (result.conflicts.length > 0) {
+          setMergeConflicts(result.conflicts);
+        } else {
+          toast.success('Submission saved successfully');
+        }
       } else {
-        // If offline, store the changes locally
-        await offlineStorage.saveSubmissionOffline(
-          submission,
-          validPetriData,
-          validGasifierData
-        );
+        // If offline, queue the edits so they replay in order once back online.
+        // New observations get a temp ID so later saves update rather than insert again.
+        const queuedPetriData = validPetriData
+          .filter(data => petriObservationData[data.formId]?.isDirty)
+          .map(data => ({ ...data, observationId: data.observationId || offlineStorage.createTempId() }));
+        const queuedGasifierData = validGasifierData
+          .filter(data => gasifierObservationData[data.formId]?.isDirty)
+          .map(data => ({ ...data, observationId: data.observationId || offlineStorage.createTempId() }));
+        
+        const submissionFields = {
+          temperature: submission.temperature,
+          humidity: submission.humidity,
+          airflow: submission.airflow,
+          odor_distance: submission.odor_distance,
+          weather: submission.weather,
+          notes: submission.notes,
+          indoor_temperature: submission.indoor_temperature,
+          indoor_humidity: submission.indoor_humidity
+        };
+        
+        await offlineStorage.enqueueOutboxOperation({
+          type: 'updateSubmission',
+          payload: { submissionId, siteId, fields: submissionFields }
+        });
+        
+        for (const data of queuedPetriData) {
+          const { imageFile: _imageFile, ...formData } = data;
+          await offlineStorage.enqueueOutboxOperation({
+            type: 'updateObservation',
+            payload: {
+              submissionId,
+              siteId,
+              observation: {
+                type: 'petri',
+                formData: { ...formData, hasData: true, hasImage: !!(formData.imageUrl || formData.tempImageKey), isDirty: true }
+              }
+            }
+          });
+        }
+        
+        for (const data of queuedGasifierData) {
+          const { imageFile: _imageFile, ...formData } = data;
+          await offlineStorage.enqueueOutboxOperation({
+            type: 'updateObservation',
+            payload: {
+              submissionId,
+              siteId,
+              observation: {
+                type: 'gasifier',
+                formData: { ...formData, hasData: true, hasImage: !!(formData.imageUrl || formData.tempImageKey), isDirty: true }
+              }
+            }
+          });
+        }
+        
+        // Keep the local draft current so the submission can be reopened offline.
+        // Synced submissions start their draft from the copy loaded from the server.
+        const draft = await offlineStorage.getDraftSubmission(submissionId)
+          || (offlineStorage.isTempId(submissionId)
+            ? undefined
+            : { submission, petriObservations, gasifierObservations });
+        
+        if (draft) {
+          const mergeRows = (rows: any[], queued: any[], toObservation: (data: any) => any) => {
+            const merged = [...rows];
+            for (const data of queued) {
+              const row = { ...toObservation(data), observation_id: data.observationId, submission_id: submissionId, site_id: siteId };
+              const index = merged.findIndex(r => r.observation_id === data.observationId);
+              if (index === -1) {
+                merged.push(row);
+              } else {
+                merged[index] = { ...merged[index], ...row };
+              }
+            }
+            return merged;
+          };
+          
+          await offlineStorage.saveDraftSubmission(
+            { ...draft.submission, ...submissionFields },
+            mergeRows(draft.petriObservations, queuedPetriData, petriFormDataToObservation),
+            mergeRows(draft.gasifierObservations, queuedGasifierData, gasifierFormDataToObservation)
+          );
+        }
+        
+        const petriTempIds = new Map(queuedPetriData.map(d => [d.formId, d.observationId]));
+        const gasifierTempIds = new Map(queuedGasifierData.map(d => [d.formId, d.observationId]));
+        
+        setPetriObservationData(prevData => Object.fromEntries(
+          Object.entries(prevData).map(([formId, data]) => [
+            formId,
+            petriTempIds.has(formId) ? { ...data, observationId: petriTempIds.get(formId), isDirty: false } : data
+          ])
+        ));
+        setGasifierObservationData(prevData => Object.fromEntries(
+          Object.entries(prevData).map(([formId, data]) => [
+            formId,
+            gasifierTempIds.has(formId) ? { ...data, observationId: gasifierTempIds.get(formId), isDirty: false } : data
+          ])
+        ));
+        
+        // Reset dirty flags for all forms
+        petriForms.forEach(form => form.ref.current?.resetDirty?.());
+        gasifierForms.forEach(form => form.ref.current?.resetDirty?.());
+        setPetriForms(forms => forms.map(form => ({
+          ...form,
+          isDirty: false,
+          observationId: form.observationId || petriTempIds.get(form.id)
+        })));
+        setGasifierForms(forms => forms.map(form => ({
+          ...form,
+          isDirty: false,
+          observationId: form.observationId || gasifierTempIds.get(form.id)
+        })));
         
         toast.info('Changes saved locally and will sync when online');
       }
@@ -649,7 +1002,11 @@ const SubmissionEditPage = () => {
       const result = await sessionManager.completeSubmissionSession(session.session_id);
       
       if (result.success) {
-        toast.success('Submission completed successfully!');
+        if (result.offline) {
+          toast.info('Completion saved locally and will sync when online');
+        } else {
+          toast.success('Submission completed successfully!');
+        }
         // Update session data
         setSession(result.session);
         // Navigate back to submissions list
@@ -722,19 +1079,32 @@ const SubmissionEditPage = () => {
     setCompletedGasifierCount(completedCount);
   }, [gasifierForms]);
 
+  // Links to an observation (such as those in threshold alerts) scroll to its form once the forms load
+  useEffect(() => {
+    if (loading || !location.hash) return;
+    document.getElementById(decodeURIComponent(location.hash.slice(1)))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loading, location.hash]);
+
+  // The session's completion under the site's rules, from what the forms currently hold
+  const completionSummary = useMemo(
+    () => evaluateSessionCompletion(
+      petriForms.map(form => petriFormValues(petriObservationData[form.id] || {})),
+      gasifierForms.map(form => gasifierFormValues(gasifierObservationData[form.id] || {})),
+      completionRules
+    ),
+    [petriForms, gasifierForms, petriObservationData, gasifierObservationData, completionRules]
+  );
+
   // Handle session expiration checking
   useEffect(() => {
     const checkSessionExpiration = () => {
       if (!session?.session_start_time) return;
       
-      const sessionStart = new Date(session.session_start_time);
-      const expirationTime = new Date(sessionStart);
-      expirationTime.setHours(23, 59, 59, 999);
-      
+      const expirationTime = getSessionExpiration(session);
       const now = new Date();
-      const hoursRemaining = (expirationTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+      const minutesRemaining = (expirationTime.getTime() - now.getTime()) / (1000 * 60);
       
-      setIsSessionExpiring(hoursRemaining <= 1 && hoursRemaining > 0);
+      setIsSessionExpiring(minutesRemaining <= getSessionWarningMinutes(session) && minutesRemaining > 0);
       setIsSessionExpired(now > expirationTime);
     };
     
@@ -912,7 +1282,7 @@ const SubmissionEditPage = () => {
               <h3 className="text-sm font-medium text-warning-800">Session Expiring Soon</h3>
               <div className="mt-2 text-sm text-warning-700">
                 <p>
-                  This session will expire at midnight tonight. Please complete your submission before then.
+                  This session will expire at {format(getSessionExpiration(session), 'p')}. Please complete your submission before then.
                 </p>
               </div>
             </div>
@@ -932,6 +1302,11 @@ const SubmissionEditPage = () => {
         petrisTotal={petriObservations.length}
         gasifiersComplete={completedGasifierCount}
         gasifiersTotal={gasifierObservations.length}
+        completion={completionSummary}
+        presentMembers={presentMembers}
+        events={sessionEvents}
+        isLoadingEvents={isLoadingSessionEvents}
+        onReopen={(isProgramAdmin || isCompanyAdminForProgram) && isOnline ? () => setShowReopenModal(true) : undefined}
       />
 
       {/* Two-column layout for Petri and Gasifier observations */}
@@ -963,7 +1338,8 @@ const SubmissionEditPage = () => {
                         placement_dynamics: petriObservations.find(obs => obs.observation_id === form.id).placement_dynamics,
                         observationId: petriObservations.find(obs => obs.observation_id === form.id).observation_id,
                         outdoor_temperature: petriObservations.find(obs => obs.observation_id === form.id).outdoor_temperature,
-                        outdoor_humidity: petriObservations.find(obs => obs.observation_id === form.id).outdoor_humidity
+                        outdoor_humidity: petriObservations.find(obs => obs.observation_id === form.id).outdoor_humidity,
+                        colonyAnalysis: petriObservations.find(obs => obs.observation_id === form.id).colony_analysis
                       } 
                     : undefined;
                   
@@ -971,15 +1347,21 @@ const SubmissionEditPage = () => {
                   
                   return (
                     <PetriForm
-                      key={form.id}
+                      key={`${form.id}-${formVersions[form.id] || 0}`}
                       id={`petri-form-${form.id}`}
                       formId={form.id}
                       index={index + 1}
                       siteId={siteId!}
                       submissionSessionId={session?.session_id || submissionId!}
                       ref={form.ref}
+                      completionRules={completionRules}
+                      expectedCodes={expectedPetriCodes}
+                      otherCodes={otherPetriCodes(form.id)}
+                      getCodeHistoryPath={(code) => codeLineagePath(programId!, siteId!, 'petri', code)}
                       onUpdate={(data) => handlePetriUpdate(form.id, data)}
                       onRemove={() => removePetriForm(form.id)}
+                      editingBy={getEditors('petri', form.observationId || form.id)}
+                      onEditingChange={(editing) => handleEditingChange('petri', form.observationId || form.id, editing)}
                       showRemoveButton={petriForms.length > 1}
                       initialData={initialData}
                       disabled={isSessionReadOnly}
@@ -1041,15 +1423,21 @@ const SubmissionEditPage = () => {
                   
                   return (
                     <GasifierForm
-                      key={form.id}
+                      key={`${form.id}-${formVersions[form.id] || 0}`}
                       id={`gasifier-form-${form.id}`}
                       formId={form.id}
                       index={index + 1}
                       siteId={siteId!}
                       submissionSessionId={session?.session_id || submissionId!}
                       ref={form.ref}
+                      completionRules={completionRules}
+                      expectedCodes={expectedGasifierCodes}
+                      otherCodes={otherGasifierCodes(form.id)}
+                      getCodeHistoryPath={(code) => codeLineagePath(programId!, siteId!, 'gasifier', code)}
                       onUpdate={(data) => handleGasifierUpdate(form.id, data)}
                       onRemove={() => removeGasifierForm(form.id)}
+                      editingBy={getEditors('gasifier', form.observationId || form.id)}
+                      onEditingChange={(editing) => handleEditingChange('gasifier', form.observationId || form.id, editing)}
                       showRemoveButton={gasifierForms.length > 1}
                       initialData={initialData}
                       disabled={isSessionReadOnly}
@@ -1258,6 +1646,16 @@ const SubmissionEditPage = () => {
         siteName={selectedSite?.name || ''}
       />
       
+      {/* Merge dialog for observations someone else saved first */}
+      <ObservationMergeModal
+        isOpen={mergeConflicts.length > 0}
+        onClose={() => setMergeConflicts([])}
+        conflicts={mergeConflicts}
+        baseObservations={mergeBaseObservations}
+        onResolve={handleResolveConflicts}
+        isSaving={isMerging}
+      />
+      
       {/* Permission modal */}
       <PermissionModal
         isOpen={showPermissionModal}
@@ -1274,6 +1672,20 @@ const SubmissionEditPage = () => {
           programId={programId!}
         />
       )}
+
+      {/* Reopen modal */}
+      {showReopenModal && session && (
+        <ReopenSessionModal
+          isOpen={showReopenModal}
+          onClose={() => setShowReopenModal(false)}
+          sessionId={session.session_id}
+          onReopened={(reopenedSession) => {
+            setSession(reopenedSession);
+            setCurrentSessionId(reopenedSession.session_id);
+            toast.success('Session reopened');
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -2,7 +2,7 @@ import { useEffect, useState, useCallback } from 'react';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { usePilotProgramStore } from '../stores/pilotProgramStore';
-import { Plus, Search, ArrowLeft, Settings, History, FileText } from 'lucide-react';
+import { Plus, Search, ArrowLeft, Settings, History, FileText, GitCommitVertical } from 'lucide-react';
 import Button from '../components/common/Button';
 import Input from '../components/common/Input';
 import LoadingScreen from '../components/common/LoadingScreen';
@@ -14,6 +14,7 @@ import SiteCard from '../components/sites/SiteCard';
 import { Site } from '../lib/types';
 import { toast } from 'react-toastify';
 import DeleteConfirmModal from '../components/common/DeleteConfirmModal';
+import CachedDataNotice from '../components/common/CachedDataNotice';
 import SubmissionCard from '../components/submissions/SubmissionCard';
 import { useSubmissions } from '../hooks/useSubmissions';
 import { format } from 'date-fns';
@@ -21,6 +22,9 @@ import { useQueryClient } from '@tanstack/react-query';
 import SubmissionCardSkeleton from '../components/submissions/SubmissionCardSkeleton';
 import { supabase } from '../lib/supabaseClient';
 import { debounce } from '../utils/helpers';
+import { codeLineagePath } from '../utils/codeLineage';
+import GasifierReplacementCard from '../components/sites/GasifierReplacementCard';
+import { useGasifierDepletion } from '../hooks/useGasifierDepletion';
 
 const SubmissionsPage = () => {
   const navigate = useNavigate();
@@ -44,6 +48,7 @@ const SubmissionsPage = () => {
   const [hasInitialized, setHasInitialized] = useState(false);
   const [sessionStatuses, setSessionStatuses] = useState<{ [key: string]: string }>({});
   const [lastActivityTimes, setLastActivityTimes] = useState<{ [key: string]: string }>({});
+  const [reopenedTimes, setReopenedTimes] = useState<{ [key: string]: string }>({});
   const [searchDelayCompleted, setSearchDelayCompleted] = useState(true);
   const queryClient = useQueryClient();
   
@@ -52,9 +57,17 @@ const SubmissionsPage = () => {
     submissions, 
     loading: submissionsLoading, 
     fetchSubmissions,
-    deleteSubmission 
+    deleteSubmission,
+    dataUpdatedAt: submissionsUpdatedAt,
+    isFetching: submissionsFetching
   } = useSubmissions(siteId);
   
+  // Gasifier bags projected to need replacing
+  const { forecasts: gasifierForecasts, policy: replacementPolicy } = useGasifierDepletion(
+    siteId,
+    selectedSite?.gasifier_replacement_policy
+  );
+  
   // Session status query
   const sessionStatusesQuery = useQuery({
     queryKey: ['sessionStatuses', submissions?.map(s => s.submission_id)],
@@ -65,7 +78,7 @@ const SubmissionsPage = () => {
       
       const { data, error } = await supabase
         .from('submission_sessions')
-        .select('submission_id, session_status, last_activity_time')
+        .select('submission_id, session_status, last_activity_time, reopened_at')
         .in('submission_id', submissionIds);
         
       if (error) throw error;
@@ -73,15 +86,19 @@ const SubmissionsPage = () => {
       // Create lookup maps
       const statusMap: { [key: string]: string } = {};
       const activityMap: { [key: string]: string } = {};
+      const reopenedMap: { [key: string]: string } = {};
       
       if (data && data.length > 0) {
         data.forEach(session => {
           statusMap[session.submission_id] = session.session_status;
           activityMap[session.submission_id] = session.last_activity_time;
+          if (session.reopened_at) {
+            reopenedMap[session.submission_id] = session.reopened_at;
+          }
         });
       }
       
-      return { statusMap, activityMap };
+      return { statusMap, activityMap, reopenedMap };
     },
     enabled: !!submissions && submissions.length > 0,
     staleTime: 60000, // 1 minute
@@ -157,6 +174,9 @@ const SubmissionsPage = () => {
       if (sessionStatusesQuery.data.activityMap) {
         setLastActivityTimes(sessionStatusesQuery.data.activityMap);
       }
+      if (sessionStatusesQuery.data.reopenedMap) {
+        setReopenedTimes(sessionStatusesQuery.data.reopenedMap);
+      }
     }
   }, [sessionStatusesQuery.data]);
 
@@ -277,6 +297,14 @@ const SubmissionsPage = () => {
         
         {/* Desktop action buttons */}
         <div className="hidden md:flex space-x-3">
+          <Button 
+            variant="outline" 
+            icon={<GitCommitVertical size={18} />}
+            onClick={() => navigate(codeLineagePath(programId!, siteId!))}
+            testId="view-code-history-button"
+          >
+            Code History
+          </Button>
           {canViewAuditLog && (
             <Button 
               variant="outline" 
@@ -308,6 +336,20 @@ const SubmissionsPage = () => {
         </div>
       </div>
 
+      <CachedDataNotice
+        dataUpdatedAt={submissionsUpdatedAt}
+        onRefresh={fetchSubmissions}
+        isRefreshing={submissionsFetching}
+        testId="submissions-cached-data-notice"
+      />
+
+      <GasifierReplacementCard
+        programId={programId!}
+        siteId={siteId!}
+        forecasts={gasifierForecasts}
+        policy={replacementPolicy}
+      />
+
       {submissions.length > 0 && (
         <div className="relative mb-4 md:mb-6">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -372,6 +414,7 @@ const SubmissionsPage = () => {
                 canDelete={canDeleteSubmission}
                 sessionStatus={sessionStatus}
                 lastActivityTime={lastActivityTime}
+                reopenedAt={reopenedTimes[submission.submission_id]}
                 testId={`submission-card-${submission.submission_id}`}
               />
             );
@@ -381,6 +424,15 @@ const SubmissionsPage = () => {
       
       {/* Mobile bottom action bar */}
       <div className="md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 p-3 flex justify-around z-10">
+        <Button 
+          variant="outline" 
+          size="sm"
+          onClick={() => navigate(codeLineagePath(programId!, siteId!))}
+          className="flex-1 mx-1 !py-2"
+          icon={<GitCommitVertical size={16} />}
+        >
+          Codes
+        </Button>
         {canViewAuditLog && (
           <Button 
             variant="outline" 
@@ -0,0 +1,201 @@
+import { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MapPinned, RefreshCw, Route } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../components/common/Button';
+import Card, { CardHeader, CardContent } from '../components/common/Card';
+import LoadingScreen from '../components/common/LoadingScreen';
+import NewSubmissionModal from '../components/submissions/NewSubmissionModal';
+import RouteStopItem from '../components/sites/RouteStopItem';
+import useRoutePlanner, { RouteSite } from '../hooks/useRoutePlanner';
+import useCompanies from '../hooks/useCompanies';
+import useWeather from '../hooks/useWeather';
+import { fetchSiteById } from '../lib/api';
+import { Site } from '../lib/types';
+import { useSessionStore } from '../stores/sessionStore';
+import { moveStop } from '../utils/routePlanner';
+
+// Today's visits across every program the user submits to, in route order
+const TodayPage = () => {
+  const navigate = useNavigate();
+  const { setCurrentSessionId } = useSessionStore();
+  const { userCompany } = useCompanies();
+  const { currentConditions, isLoading: weatherLoading, suggestedWeatherType } = useWeather();
+  const {
+    route,
+    others,
+    savedOrder,
+    isLoading,
+    isFetching,
+    isSavingOrder,
+    saveRouteOrder,
+    refresh
+  } = useRoutePlanner();
+
+  const [startingSite, setStartingSite] = useState<{ site: Site; programId: string } | null>(null);
+  const [loadingSiteId, setLoadingSiteId] = useState<string | null>(null);
+  const [showOthers, setShowOthers] = useState(false);
+
+  const routeIds = route.map(site => site.site_id);
+
+  const handleStart = useCallback(async (stop: RouteSite) => {
+    setLoadingSiteId(stop.site_id);
+    try {
+      // The submission form needs the site's template defaults
+      const { data, error } = await fetchSiteById(stop.site_id);
+      if (error || !data) throw error || new Error('Site not found');
+      setStartingSite({ site: data as Site, programId: stop.program_id });
+    } catch (error) {
+      console.error('Error loading site:', error);
+      toast.error('Failed to load site');
+    } finally {
+      setLoadingSiteId(null);
+    }
+  }, []);
+
+  const handleResume = useCallback((stop: RouteSite) => {
+    const session = stop.activeSession;
+    if (!session) return;
+
+    setCurrentSessionId(session.session_id);
+    navigate(`/programs/${session.program_id}/sites/${session.site_id}/submissions/${session.submission_id}/edit`);
+  }, [navigate, setCurrentSessionId]);
+
+  const handleSubmissionCreated = useCallback(() => {
+    setStartingSite(null);
+    refresh();
+  }, [refresh]);
+
+  if (isLoading) {
+    return <LoadingScreen />;
+  }
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Today</h1>
+          <p className="text-gray-600 mt-1">
+            {new Date().toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {savedOrder.length > 0 && (
+            <Button
+              variant="outline"
+              icon={<Route size={16} />}
+              onClick={() => saveRouteOrder([])}
+              disabled={isSavingOrder}
+              testId="reset-route-button"
+            >
+              Order by due time
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            icon={<RefreshCw size={16} />}
+            onClick={refresh}
+            isLoading={isFetching}
+            testId="refresh-route-button"
+          >
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mb-6" testId="today-route-card">
+        <CardHeader className="flex items-center">
+          <MapPinned className="mr-2 h-5 w-5 text-primary-500" />
+          <h2 className="text-lg font-semibold">Your Route</h2>
+        </CardHeader>
+        <CardContent>
+          {route.length === 0 ? (
+            <div className="text-center py-8" data-testid="empty-route-message">
+              <MapPinned className="mx-auto h-12 w-12 text-gray-300" />
+              <p className="text-gray-600 mt-2">Nothing is due today</p>
+              <p className="text-sm text-gray-500 mt-1">
+                Add sites from the list below to plan a visit anyway.
+              </p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mb-2">
+                {savedOrder.length > 0
+                  ? 'In the order you set. Sites that become due are added after them.'
+                  : 'In order of when each site is due. Move a site to set your own order.'}
+              </p>
+              <ul className="divide-y divide-gray-100">
+                {route.map((site, index) => (
+                  <RouteStopItem
+                    key={site.site_id}
+                    site={site}
+                    position={index + 1}
+                    isFirst={index === 0}
+                    isLast={index === route.length - 1}
+                    disabled={isSavingOrder || loadingSiteId === site.site_id}
+                    onStart={handleStart}
+                    onResume={handleResume}
+                    onMove={(stop, offset) => saveRouteOrder(moveStop(routeIds, stop.site_id, offset))}
+                    onRemove={(stop) => saveRouteOrder(routeIds.filter(id => id !== stop.site_id))}
+                  />
+                ))}
+              </ul>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {others.length > 0 && (
+        <Card testId="other-sites-card">
+          <CardHeader className="flex justify-between items-center">
+            <h2 className="text-lg font-semibold">Other Sites ({others.length})</h2>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowOthers(!showOthers)}
+              testId="toggle-other-sites-button"
+            >
+              {showOthers ? 'Hide' : 'Show'}
+            </Button>
+          </CardHeader>
+          {showOthers && (
+            <CardContent>
+              <ul className="divide-y divide-gray-100">
+                {others.map(site => (
+                  <RouteStopItem
+                    key={site.site_id}
+                    site={site}
+                    disabled={isSavingOrder || loadingSiteId === site.site_id}
+                    onStart={handleStart}
+                    onResume={handleResume}
+                    onAdd={(stop) => saveRouteOrder([...routeIds, stop.site_id])}
+                  />
+                ))}
+              </ul>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      {startingSite && (
+        <NewSubmissionModal
+          isOpen={!!startingSite}
+          onClose={() => setStartingSite(null)}
+          siteId={startingSite.site.site_id}
+          siteName={startingSite.site.name}
+          programId={startingSite.programId}
+          onSubmissionCreated={handleSubmissionCreated}
+          selectedSite={startingSite.site}
+          companyDefaultWeather={userCompany?.default_weather}
+          initialWeather={suggestedWeatherType || userCompany?.default_weather}
+          initialTemperature={currentConditions?.temp}
+          initialHumidity={currentConditions?.humidity}
+          weatherData={currentConditions}
+          isWeatherLoading={weatherLoading}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TodayPage;
@@ -0,0 +1,99 @@
+// Service worker for the installed app. This file is a template: the build
+// replaces the placeholders below with the list of built files and a version
+// derived from them (see serviceWorkerPlugin in vite.config.ts), so every
+// release produces a different sw.js and the browser picks up the update.
+
+const PRECACHE_URLS = __PRECACHE_URLS__;
+const CACHE_VERSION = __CACHE_VERSION__;
+
+const SHELL_CACHE_PREFIX = 'grmtek-shell-';
+const SHELL_CACHE = `${SHELL_CACHE_PREFIX}${CACHE_VERSION}`;
+const FONT_CACHE = 'grmtek-fonts';
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', event => {
+  // The new version waits until the page asks it to take over (see SKIP_WAITING)
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then(cache => cache.addAll(PRECACHE_URLS))
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith(SHELL_CACHE_PREFIX) && key !== SHELL_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// Every client-side route is served by index.html, so navigations try the
+// network first and fall back to the cached shell when offline
+const handleNavigation = async request => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cache = await caches.open(SHELL_CACHE);
+    const shell = await cache.match('/index.html');
+    if (shell) return shell;
+    throw error;
+  }
+};
+
+// Built assets have content hashes in their names, so the cached copy is always right
+const handleShellAsset = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  return cached || fetch(request);
+};
+
+// Fonts rarely change; serve the cached copy and refresh it in the background
+const handleFont = async request => {
+  const cache = await caches.open(FONT_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(error => {
+      if (cached) return cached;
+      throw error;
+    });
+  return cached || refresh;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleFont(request));
+    return;
+  }
+
+  // Supabase and other API requests are handled by the app's own offline storage
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(handleShellAsset(request));
+  }
+});
@@ -1,12 +1,20 @@
 import { create } from 'zustand';
 import { User } from '../lib/types';
+import { clearQueryCache } from '../lib/queryPersistence';
 
 interface AuthState {
   user: User | null;
   setUser: (user: User | null) => void;
 }
 
-export const useAuthStore = create<AuthState>((set) => ({
+export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
-  setUser: (user) => set({ user }),
+  setUser: (user) => {
+    // Signing out or switching accounts drops the previous user's cached queries
+    const previousUser = get().user;
+    if (previousUser && previousUser.id !== user?.id) {
+      clearQueryCache(previousUser.id);
+    }
+    set({ user });
+  },
 }));
\ No newline at end of file
@@ -27,6 +27,9 @@ interface SessionState {
   // Remove a session from the list (e.g., after completion or cancellation)
   removeSession: (sessionId: string) => void;
   
+  // Replace temporary IDs from offline sessions with their server IDs
+  remapIds: (mappings: Record<string, string>) => void;
+  
   // Clear all sessions (e.g., on logout)
   clearSessions: () => void;
 }
@@ -89,6 +92,17 @@ export const useSessionStore = create<SessionState>((set) => ({
       : state.currentSessionId
   })),
   
+  remapIds: (mappings) => set((state) => ({
+    activeSessions: state.activeSessions.map((session) => ({
+      ...session,
+      session_id: mappings[session.session_id] || session.session_id,
+      submission_id: mappings[session.submission_id] || session.submission_id
+    })),
+    currentSessionId: state.currentSessionId
+      ? mappings[state.currentSessionId] || state.currentSessionId
+      : null
+  })),
+  
   clearSessions: () => set({
     activeSessions: [],
     currentSessionId: null,
@@ -0,0 +1,19 @@
+// Kinds of inbox items
+export type InboxItemType = 'escalation' | 'escalation_returned' | 'threshold_alert';
+
+// An item in a user's in-app inbox
+export interface InboxItem {
+  item_id: string;
+  user_id: string;
+  item_type: InboxItemType | string;
+  // The escalation, site alert or other record the item is about
+  reference_id: string | null;
+  program_id: string | null;
+  title: string;
+  body: string | null;
+  link_path: string | null;
+  requires_acknowledgement: boolean;
+  created_at: string;
+  read_at: string | null;
+  acknowledged_at: string | null;
+}
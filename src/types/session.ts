@@ -21,6 +21,13 @@ export interface SubmissionSession {
   valid_petris_logged: number;
   valid_gasifiers_logged: number;
   escalated_to_user_ids?: string[];
+  expires_at?: string | null;
+  expiration_warning_minutes?: number | null;
+  // Set when an admin reopened the session after it expired
+  reopened_at?: string | null;
+  reopened_by_user_id?: string | null;
+  reopen_justification?: string | null;
+  reopen_count?: number;
 }
 
 // Active session with related data
@@ -39,6 +46,77 @@ export interface ActiveSession {
   session_status: string;
   percentage_complete: number;
   global_submission_id?: number; // Added global submission ID
+  escalated_to_user_ids?: string[];
+  expires_at?: string | null;
+  expiration_warning_minutes?: number | null;
+}
+
+// Why a session was escalated, matching escalation_reason_enum
+export type EscalationReason = 'Equipment Issue' | 'Site Access' | 'Data Question' |
+                               'Safety Concern' | 'Time Constraint' | 'Other';
+
+// Escalation lifecycle, matching escalation_status_enum
+export type EscalationStatus = 'Pending' | 'Acknowledged' | 'Accepted' | 'Reassigned' | 'Returned';
+
+// What the recipient of an escalation can do with it
+export type EscalationAction = 'accept' | 'reassign' | 'return';
+
+// An escalation of a session to a recipient
+export interface SessionEscalation {
+  escalation_id: string;
+  session_id: string;
+  submission_id: string;
+  program_id: string;
+  site_id: string;
+  escalated_by_user_id: string;
+  assigned_to_user_id: string;
+  reason_category: EscalationReason;
+  note: string | null;
+  status: EscalationStatus;
+  created_at: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  resolved_by_user_id: string | null;
+  resolution_note: string | null;
+  reassigned_from_escalation_id: string | null;
+}
+
+// Response from the escalation RPCs
+export interface EscalationResponse {
+  success: boolean;
+  message?: string;
+  escalation?: SessionEscalation;
+  session?: SubmissionSession;
+}
+
+// Kinds of entries in a session's event log, matching session_event_type_enum
+export type SessionEventType = 'Opened' | 'ObservationAdded' | 'ObservationEdited' | 'ImageCaptured' |
+                               'Shared' | 'Escalated' | 'Completed' | 'Cancelled' | 'Expired' | 'Reopened' |
+                               'Extended' | 'OwnerReassigned';
+
+// The events clients record; the rest are recorded by the server with the change they describe
+export type ObservationEventType = Extract<SessionEventType, 'ObservationAdded' | 'ObservationEdited' | 'ImageCaptured'>;
+
+// An entry in a session's event log
+export interface SessionEvent {
+  event_id: string;
+  session_id: string;
+  submission_id: string;
+  event_type: SessionEventType;
+  // null for events recorded by the system, such as scheduled expiration
+  user_id: string | null;
+  user_email?: string | null;
+  user_name?: string | null;
+  occurred_at: string;
+  observation_id: string | null;
+  observation_type: 'petri' | 'gasifier' | null;
+  details: Record<string, unknown> | null;
+}
+
+// Outcome of applying one action to many sessions, one session at a time
+export interface BulkSessionActionResult {
+  succeeded: string[];
+  failed: { sessionId: string; message: string }[];
 }
 
 // Initial submission data for creating a new session
@@ -61,6 +139,7 @@ export interface CreateSessionResponse {
   session_id?: string;
   session?: SubmissionSession;
   message?: string;
+  offline?: boolean; // True when the session was created locally and queued for sync
 }
 
 // Session progress information
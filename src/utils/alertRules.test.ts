@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { AlertRuleDraft, MAX_CONSECUTIVE_READINGS, describeAlertRule, validateAlertRule } from './alertRules';
+
+const draft = (overrides: Partial<AlertRuleDraft> = {}): AlertRuleDraft => ({
+  site_id: null,
+  field: 'indoor_humidity',
+  comparator: '>',
+  threshold: 80,
+  consecutive_readings: 1,
+  ...overrides
+});
+
+describe('validateAlertRule', () => {
+  it('accepts a rule within the field\'s range', () => {
+    expect(validateAlertRule(draft())).toBeNull();
+  });
+
+  it('accepts thresholds at either end of the range', () => {
+    expect(validateAlertRule(draft({ threshold: 1 }))).toBeNull();
+    expect(validateAlertRule(draft({ threshold: 100 }))).toBeNull();
+    expect(validateAlertRule(draft({ field: 'temperature', threshold: -30 }))).toBeNull();
+  });
+
+  it('rejects thresholds outside the range', () => {
+    expect(validateAlertRule(draft({ threshold: 0 }))).toBe('Indoor humidity thresholds must be between 1 and 100');
+    expect(validateAlertRule(draft({ field: 'gasifier_measure', threshold: 10.5 })))
+      .toBe('Gasifier measure thresholds must be between 0 and 10');
+  });
+
+  it('asks for a threshold when none was entered', () => {
+    expect(validateAlertRule(draft({ threshold: NaN }))).toBe('Enter a threshold');
+  });
+
+  it('takes whole numbers of consecutive readings up to the maximum', () => {
+    expect(validateAlertRule(draft({ consecutive_readings: MAX_CONSECUTIVE_READINGS }))).toBeNull();
+
+    const problem = `Consecutive readings must be a whole number from 1 to ${MAX_CONSECUTIVE_READINGS}`;
+    expect(validateAlertRule(draft({ consecutive_readings: 0 }))).toBe(problem);
+    expect(validateAlertRule(draft({ consecutive_readings: MAX_CONSECUTIVE_READINGS + 1 }))).toBe(problem);
+    expect(validateAlertRule(draft({ consecutive_readings: 2.5 }))).toBe(problem);
+  });
+});
+
+describe('describeAlertRule', () => {
+  it('describes a rule that trips on a single reading', () => {
+    expect(describeAlertRule(draft())).toBe('Indoor humidity above 80%');
+  });
+
+  it('mentions consecutive readings when more than one is needed', () => {
+    expect(describeAlertRule(draft({ consecutive_readings: 3 })))
+      .toBe('Indoor humidity above 80% for 3 consecutive readings');
+  });
+
+  it('formats each field\'s unit', () => {
+    expect(describeAlertRule(draft({ field: 'temperature', comparator: '<=', threshold: 32 })))
+      .toBe('Outdoor temperature at or below 32°F');
+    expect(describeAlertRule(draft({ field: 'gasifier_measure', comparator: '<', threshold: 2 })))
+      .toBe('Gasifier measure below 2');
+  });
+});
@@ -0,0 +1,161 @@
+// Threshold alert rules on submission and observation readings. Rules are stored
+// in alert_rules; one with no site applies to every site in its program. Rules
+// are checked by evaluate_alert_rules() when a session is completed or expires,
+// and each reading that trips one becomes an open site_alerts row until it is resolved.
+export type AlertField =
+  | 'temperature'
+  | 'humidity'
+  | 'indoor_temperature'
+  | 'indoor_humidity'
+  | 'gasifier_measure'
+  | 'petri_colony_coverage';
+
+export type AlertComparator = '<' | '<=' | '>' | '>=' | '=';
+
+export interface AlertRule {
+  rule_id: string;
+  program_id: string;
+  site_id: string | null;
+  field: AlertField;
+  comparator: AlertComparator;
+  threshold: number;
+  consecutive_readings: number;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What an admin fills in to add a rule
+export type AlertRuleDraft = Pick<AlertRule, 'site_id' | 'field' | 'comparator' | 'threshold' | 'consecutive_readings'>;
+
+export interface SiteAlert {
+  alert_id: string;
+  rule_id: string;
+  program_id: string;
+  site_id: string;
+  submission_id: string;
+  observation_id: string | null;
+  observation_type: 'petri' | 'gasifier' | null;
+  code: string | null;
+  // The rule as it was when it tripped
+  field: AlertField;
+  comparator: AlertComparator;
+  threshold: number;
+  consecutive_readings: number;
+  value: number;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by_user_id: string | null;
+}
+
+interface AlertFieldDefinition {
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  // Gasifier and petri readings are followed per code; the rest per site
+  perCode: boolean;
+}
+
+export const ALERT_FIELDS: Record<AlertField, AlertFieldDefinition> = {
+  temperature: { label: 'Outdoor temperature', unit: '°F', min: -30, max: 130, perCode: false },
+  humidity: { label: 'Outdoor humidity', unit: '%', min: 0, max: 100, perCode: false },
+  indoor_temperature: { label: 'Indoor temperature', unit: '°F', min: 32, max: 120, perCode: false },
+  indoor_humidity: { label: 'Indoor humidity', unit: '%', min: 1, max: 100, perCode: false },
+  gasifier_measure: { label: 'Gasifier measure', unit: '', min: 0, max: 10, perCode: true },
+  petri_colony_coverage: { label: 'Colony coverage', unit: '%', min: 0, max: 100, perCode: true }
+};
+
+export const ALERT_COMPARATORS: Record<AlertComparator, string> = {
+  '<': 'below',
+  '<=': 'at or below',
+  '>': 'above',
+  '>=': 'at or above',
+  '=': 'equal to'
+};
+
+export const MAX_CONSECUTIVE_READINGS = 10;
+
+const formatValue = (field: AlertField, value: number): string => {
+  const { unit } = ALERT_FIELDS[field];
+  return unit === '%' ? `${value}%` : unit ? `${value}${unit}` : String(value);
+};
+
+/**
+ * Describes a rule in words, e.g. "Indoor humidity above 80% for 3 consecutive readings"
+ */
+export const describeAlertRule = (rule: Pick<AlertRule, 'field' | 'comparator' | 'threshold' | 'consecutive_readings'>): string => {
+  const description = `${ALERT_FIELDS[rule.field].label} ${ALERT_COMPARATORS[rule.comparator]} ${formatValue(rule.field, rule.threshold)}`;
+  return rule.consecutive_readings > 1
+    ? `${description} for ${rule.consecutive_readings} consecutive readings`
+    : description;
+};
+
+/**
+ * Describes what tripped an alert, e.g. "Gasifier measure (G-12) was 1.5, below 2"
+ */
+export const describeSiteAlert = (alert: SiteAlert): string => {
+  const label = alert.code ? `${ALERT_FIELDS[alert.field].label} (${alert.code})` : ALERT_FIELDS[alert.field].label;
+  return `${label} was ${formatValue(alert.field, alert.value)}, ${ALERT_COMPARATORS[alert.comparator]} ${formatValue(alert.field, alert.threshold)}`;
+};
+
+/**
+ * Where to see the reading behind an alert: its submission, scrolled to the
+ * observation when there is one. Matches the inbox links evaluate_alert_rules() sends.
+ */
+export const alertLinkPath = (alert: SiteAlert): string => {
+  const path = `/programs/${alert.program_id}/sites/${alert.site_id}/submissions/${alert.submission_id}/edit`;
+  return alert.observation_id && alert.observation_type
+    ? `${path}#${alert.observation_type}-form-${alert.observation_id}`
+    : path;
+};
+
+/**
+ * Checks a rule before it is saved; returns the problem, or null if there is none
+ */
+export const validateAlertRule = (draft: AlertRuleDraft): string | null => {
+  const { label, min, max } = ALERT_FIELDS[draft.field];
+
+  if (!Number.isFinite(draft.threshold)) {
+    return 'Enter a threshold';
+  }
+  if (draft.threshold < min || draft.threshold > max) {
+    return `${label} thresholds must be between ${min} and ${max}`;
+  }
+  if (!Number.isInteger(draft.consecutive_readings)
+      || draft.consecutive_readings < 1
+      || draft.consecutive_readings > MAX_CONSECUTIVE_READINGS) {
+    return `Consecutive readings must be a whole number from 1 to ${MAX_CONSECUTIVE_READINGS}`;
+  }
+
+  return null;
+};
+
+/**
+ * The rules that apply to a site: its own rules and the program-wide ones
+ */
+export const rulesForSite = (rules: AlertRule[], siteId: string): AlertRule[] =>
+  rules.filter(rule => rule.site_id === null || rule.site_id === siteId);
+
+/**
+ * Counts open alerts per site
+ */
+export const countOpenAlertsBySite = (alerts: SiteAlert[]): Record<string, number> =>
+  alerts.reduce<Record<string, number>>((counts, alert) => {
+    if (!alert.resolved_at) {
+      counts[alert.site_id] = (counts[alert.site_id] || 0) + 1;
+    }
+    return counts;
+  }, {});
+
+export default {
+  ALERT_FIELDS,
+  ALERT_COMPARATORS,
+  describeAlertRule,
+  describeSiteAlert,
+  alertLinkPath,
+  validateAlertRule,
+  rulesForSite,
+  countOpenAlertsBySite
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { allowedGranularities, fitGranularity, intervalStart, listIntervals, periodStart } from './analyticsPeriods';
+
+const day = (month: number, date: number, hour = 0) => new Date(2025, month, date, hour);
+
+describe('periodStart', () => {
+  it('starts at midnight the given number of days back', () => {
+    expect(periodStart('7days', day(5, 10, 15))).toEqual(day(5, 3));
+  });
+
+  it('has no start for all time', () => {
+    expect(periodStart('all', day(5, 10))).toBeNull();
+  });
+});
+
+describe('allowedGranularities', () => {
+  it('offers every granularity for a short range', () => {
+    expect(allowedGranularities({ start: day(5, 1), end: day(5, 7) })).toEqual(['12hour', 'day', 'week']);
+  });
+
+  it('drops 12-hour intervals past a month and days past a year', () => {
+    expect(allowedGranularities({ start: day(0, 1), end: day(5, 1) })).toEqual(['day', 'week']);
+    expect(allowedGranularities({ start: new Date(2023, 0, 1), end: day(5, 1) })).toEqual(['week']);
+  });
+});
+
+describe('fitGranularity', () => {
+  it('keeps an allowed granularity and otherwise uses the finest allowed', () => {
+    const quarter = { start: day(2, 1), end: day(5, 1) };
+    expect(fitGranularity(quarter, 'week')).toBe('week');
+    expect(fitGranularity(quarter, '12hour')).toBe('day');
+  });
+});
+
+describe('listIntervals', () => {
+  it('includes the intervals containing both ends', () => {
+    expect(listIntervals(day(5, 1, 18), day(5, 3, 6), 'day')).toEqual([day(5, 1), day(5, 2), day(5, 3)]);
+  });
+
+  describe('across a DST change', () => {
+    // Tests run in America/New_York, where clocks went forward on 9 March and back on 2 November 2025
+    const halfDays = (month: number, firstDate: number, count: number) =>
+      Array.from({ length: count }, (_, index) => day(month, firstDate + Math.floor(index / 2), (index % 2) * 12));
+
+    it('starts 12-hour intervals at midnight and noon on either side of the change', () => {
+      expect(listIntervals(day(2, 7), day(2, 12), '12hour')).toEqual(halfDays(2, 7, 11));
+      expect(listIntervals(day(10, 1), day(10, 4), '12hour')).toEqual(halfDays(10, 1, 7));
+    });
+
+    it('puts a time after the change in one of the listed intervals', () => {
+      const intervals = listIntervals(day(2, 7), day(2, 12), '12hour');
+
+      expect(intervalStart(day(2, 11, 9), '12hour')).toEqual(day(2, 11));
+      expect(intervals).toContainEqual(intervalStart(day(2, 11, 9), '12hour'));
+      expect(intervals).toContainEqual(intervalStart(day(2, 9, 15), '12hour'));
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { addDays, addWeeks, differenceInCalendarDays, setHours, startOfDay, startOfWeek, subDays } from 'date-fns';
+import { AnalyticsGranularity } from '../lib/types';
+
+// The time filters analytics views offer; 'all' starts at the earliest reading
+export type AnalyticsPeriod = '7days' | '30days' | '90days' | 'all';
+
+export const ANALYTICS_PERIODS: { value: AnalyticsPeriod; label: string }[] = [
+  { value: '7days', label: '7 Days' },
+  { value: '30days', label: '30 Days' },
+  { value: '90days', label: '90 Days' },
+  { value: 'all', label: 'All Time' }
+];
+
+const PERIOD_DAYS: Record<Exclude<AnalyticsPeriod, 'all'>, number> = {
+  '7days': 7,
+  '30days': 30,
+  '90days': 90
+};
+
+// When a period starts; null for all time
+export const periodStart = (period: AnalyticsPeriod, now: Date = new Date()): Date | null =>
+  period === 'all' ? null : startOfDay(subDays(now, PERIOD_DAYS[period]));
+
+// The interval a period is charted in, so each chart has a readable number of points
+export const periodGranularity = (period: AnalyticsPeriod): AnalyticsGranularity => {
+  switch (period) {
+    case '7days':
+      return '12hour';
+    case '30days':
+      return 'day';
+    default:
+      return 'week';
+  }
+};
+
+// A span of time to chart; both ends are included
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export const ANALYTICS_GRANULARITIES: { value: AnalyticsGranularity; label: string }[] = [
+  { value: '12hour', label: '12 Hours' },
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' }
+];
+
+// The longest range, in days, each granularity is offered for, so a chart never has hundreds of points
+const MAX_RANGE_DAYS: Record<AnalyticsGranularity, number> = {
+  '12hour': 31,
+  day: 366,
+  week: Infinity
+};
+
+// Granularities that keep a range's chart readable, finest first
+export const allowedGranularities = (range: DateRange): AnalyticsGranularity[] => {
+  const days = differenceInCalendarDays(range.end, range.start) + 1;
+  return ANALYTICS_GRANULARITIES
+    .map(option => option.value)
+    .filter(granularity => days <= MAX_RANGE_DAYS[granularity]);
+};
+
+// A granularity for a range: the one asked for if it's allowed, otherwise the finest that is
+export const fitGranularity = (range: DateRange, preferred: AnalyticsGranularity): AnalyticsGranularity => {
+  const allowed = allowedGranularities(range);
+  return allowed.includes(preferred) ? preferred : allowed[0];
+};
+
+// The start of the interval a time falls in, in the viewer's timezone. Weeks start on Monday.
+// Half days start at midnight and noon on the wall clock, even on days with a DST change.
+export const intervalStart = (date: Date, granularity: AnalyticsGranularity): Date => {
+  switch (granularity) {
+    case '12hour':
+      return date.getHours() < 12 ? startOfDay(date) : setHours(startOfDay(date), 12);
+    case 'day':
+      return startOfDay(date);
+    case 'week':
+      return startOfWeek(date, { weekStartsOn: 1 });
+  }
+};
+
+const nextInterval = (date: Date, granularity: AnalyticsGranularity): Date => {
+  switch (granularity) {
+    case '12hour':
+      return date.getHours() < 12 ? setHours(date, 12) : startOfDay(addDays(date, 1));
+    case 'day':
+      return addDays(date, 1);
+    case 'week':
+      return addWeeks(date, 1);
+  }
+};
+
+// Every interval from the one containing `start` to the one containing `end`,
+// so a chart shows gaps where nothing was recorded
+export const listIntervals = (start: Date, end: Date, granularity: AnalyticsGranularity): Date[] => {
+  const intervals: Date[] = [];
+  for (
+    let interval = intervalStart(start, granularity);
+    interval <= end;
+    interval = nextInterval(interval, granularity)
+  ) {
+    intervals.push(interval);
+  }
+  return intervals;
+};
+
+export default {
+  periodStart,
+  periodGranularity,
+  allowedGranularities,
+  fitGranularity,
+  intervalStart,
+  listIntervals
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { CodeLineageEntry, codeLineagePath, lineageChanges } from './codeLineage';
+
+const entry = (overrides: Partial<CodeLineageEntry> = {}): CodeLineageEntry => ({
+  observation_id: 'observation-1',
+  submission_id: 'submission-1',
+  global_submission_id: 1,
+  observed_at: '2025-06-02T14:00:00Z',
+  code: 'P-1',
+  image_url: null,
+  placement: 'Front-Left',
+  placement_detail: null,
+  fungicide_used: 'No',
+  surrounding_water_schedule: 'Daily',
+  chemical_type: null,
+  measure: null,
+  anomaly: null,
+  notes: null,
+  outdoor_temperature: null,
+  outdoor_humidity: null,
+  weather: null,
+  ...overrides
+});
+
+describe('lineageChanges', () => {
+  it('has nothing to compare the first observation with', () => {
+    expect(lineageChanges('petri', [entry()])).toEqual([[]]);
+  });
+
+  it('reports the tracked fields that changed since the previous observation', () => {
+    const changes = lineageChanges('petri', [
+      entry(),
+      entry({ observation_id: 'observation-2', placement: 'Back-Right', notes: 'Moved' }),
+      entry({ observation_id: 'observation-3', placement: 'Back-Right', fungicide_used: 'Yes' })
+    ]);
+
+    expect(changes).toEqual([
+      [],
+      [{ field: 'placement', label: 'Placement', from: 'Front-Left', to: 'Back-Right' }],
+      [{ field: 'fungicide_used', label: 'Fungicide', from: 'No', to: 'Yes' }]
+    ]);
+  });
+
+  it('treats an empty value and a missing one as the same', () => {
+    const changes = lineageChanges('petri', [
+      entry({ placement_detail: '' }),
+      entry({ observation_id: 'observation-2', placement_detail: null }),
+      entry({ observation_id: 'observation-3', placement_detail: 'Closed Door' })
+    ]);
+
+    expect(changes[1]).toEqual([]);
+    expect(changes[2]).toEqual([
+      { field: 'placement_detail', label: 'Placement dynamics', from: null, to: 'Closed Door' }
+    ]);
+  });
+
+  it('only tracks the fields that apply to the kind of code', () => {
+    const changes = lineageChanges('gasifier', [
+      entry({ code: 'G-1', chemical_type: 'CLO2' }),
+      entry({ observation_id: 'observation-2', code: 'G-1', chemical_type: 'Geraniol', fungicide_used: 'Yes' })
+    ]);
+
+    expect(changes[1]).toEqual([{ field: 'chemical_type', label: 'Chemical', from: 'CLO2', to: 'Geraniol' }]);
+  });
+});
+
+describe('codeLineagePath', () => {
+  it('links to a code\'s lineage, or to the site\'s codes without one', () => {
+    expect(codeLineagePath('program-1', 'site-1', 'petri', ' P 1/A ')).toBe('/programs/program-1/sites/site-1/codes/petri/P%201%2FA');
+    expect(codeLineagePath('program-1', 'site-1')).toBe('/programs/program-1/sites/site-1/codes');
+  });
+});
@@ -0,0 +1,85 @@
+import { ObservationKind } from './completionRules';
+
+// A row of get_code_lineage(): one observation of a code, with its submission's conditions
+export interface CodeLineageEntry {
+  observation_id: string;
+  submission_id: string;
+  global_submission_id: number | null;
+  observed_at: string;
+  code: string;
+  image_url: string | null;
+  // Petri placement, or a gasifier's height and direction
+  placement: string | null;
+  // Petri placement dynamics, or a gasifier's placement strategy
+  placement_detail: string | null;
+  fungicide_used: string | null;
+  surrounding_water_schedule: string | null;
+  chemical_type: string | null;
+  measure: number | null;
+  anomaly: boolean | null;
+  notes: string | null;
+  outdoor_temperature: number | null;
+  outdoor_humidity: number | null;
+  weather: string | null;
+}
+
+// A row of get_site_codes()
+export interface SiteCodeSummary {
+  kind: ObservationKind;
+  code: string;
+  observation_count: number;
+  first_observed_at: string;
+  last_observed_at: string;
+}
+
+type TrackedField = keyof Pick<
+  CodeLineageEntry,
+  'placement' | 'placement_detail' | 'fungicide_used' | 'surrounding_water_schedule' | 'chemical_type'
+>;
+
+export interface LineageChange {
+  field: TrackedField;
+  label: string;
+  from: string | null;
+  to: string | null;
+}
+
+// Setup that is expected to stay put between visits, so a change is worth pointing out
+export const TRACKED_FIELDS: Record<ObservationKind, { field: TrackedField; label: string }[]> = {
+  petri: [
+    { field: 'placement', label: 'Placement' },
+    { field: 'placement_detail', label: 'Placement dynamics' },
+    { field: 'fungicide_used', label: 'Fungicide' },
+    { field: 'surrounding_water_schedule', label: 'Water schedule' }
+  ],
+  gasifier: [
+    { field: 'placement', label: 'Placement' },
+    { field: 'placement_detail', label: 'Placement strategy' },
+    { field: 'chemical_type', label: 'Chemical' }
+  ]
+};
+
+/**
+ * What changed at each observation since the one before it, for entries in
+ * time order. The first observation has nothing to compare with.
+ */
+export const lineageChanges = (kind: ObservationKind, entries: CodeLineageEntry[]): LineageChange[][] =>
+  entries.map((entry, index) => {
+    const previous = entries[index - 1];
+    if (!previous) return [];
+
+    return TRACKED_FIELDS[kind]
+      .filter(({ field }) => (previous[field] || null) !== (entry[field] || null))
+      .map(({ field, label }) => ({ field, label, from: previous[field] || null, to: entry[field] || null }));
+  });
+
+// Where the lineage of a code at a site is shown; without a code, the site's list of codes
+export const codeLineagePath = (programId: string, siteId: string, kind?: ObservationKind, code?: string) =>
+  kind && code
+    ? `/programs/${programId}/sites/${siteId}/codes/${kind}/${encodeURIComponent(code.trim())}`
+    : `/programs/${programId}/sites/${siteId}/codes`;
+
+export default {
+  lineageChanges,
+  codeLineagePath
+};
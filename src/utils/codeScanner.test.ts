@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { PNG } from 'pngjs';
+import {
+  checkCode,
+  cleanScannedValue,
+  decodePixels,
+  describeCodeCheck,
+  ImagePixels,
+  normalizeCode,
+  templateCodes
+} from './codeScanner';
+
+// Fixture images decode to RGBA, the same layout the canvas hands the decoder
+const loadFixture = (name: string): ImagePixels => {
+  const png = PNG.sync.read(readFileSync(new URL(`./__fixtures__/codes/${name}`, import.meta.url)));
+  return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height };
+};
+
+describe('decodePixels', () => {
+  it('reads a printed petri label', () => {
+    expect(decodePixels(loadFixture('petri-label.png'))).toBe('P-1024');
+  });
+
+  it('reads a noisy, unevenly lit photo of a gasifier label', () => {
+    expect(decodePixels(loadFixture('gasifier-photo.png'))).toBe('G-17');
+  });
+
+  it('reads a label printed light on dark', () => {
+    const label = loadFixture('petri-label.png');
+    const inverted = label.data.map((value, index) => (index % 4 === 3 ? value : 255 - value));
+    expect(decodePixels({ ...label, data: inverted })).toBe('P-1024');
+  });
+
+  it('returns null for a photo without a code', () => {
+    expect(decodePixels(loadFixture('no-code.png'))).toBeNull();
+  });
+});
+
+describe('cleanScannedValue', () => {
+  it('strips whitespace and control characters added by scanners', () => {
+    expect(cleanScannedValue(' P-12\r\n')).toBe('P-12');
+    expect(cleanScannedValue('\u0002G-3\u0003')).toBe('G-3');
+  });
+});
+
+describe('normalizeCode', () => {
+  it('ignores case and spacing', () => {
+    expect(normalizeCode(' p- 12 ')).toBe('P-12');
+  });
+});
+
+describe('templateCodes', () => {
+  it('collects the codes set on template defaults', () => {
+    expect(templateCodes([{ petri_code: 'P-1' }, { petri_code: '' }, { petri_code: 'P-2' }], 'petri_code'))
+      .toEqual(['P-1', 'P-2']);
+    expect(templateCodes([{ gasifier_code: 'G-1' }, null], 'gasifier_code')).toEqual(['G-1']);
+  });
+
+  it('returns no codes for sites without defaults', () => {
+    expect(templateCodes(null, 'petri_code')).toEqual([]);
+  });
+});
+
+describe('checkCode', () => {
+  const expected = ['P-1', 'P-2', 'P-3'];
+
+  it('matches a template code and uses its spelling', () => {
+    expect(checkCode('p-2', expected, [])).toEqual({ code: 'P-2', status: 'matched' });
+  });
+
+  it('flags codes that are not on the template', () => {
+    expect(checkCode('P-9', expected, [])).toEqual({ code: 'P-9', status: 'unknown' });
+  });
+
+  it('flags codes already used in the submission ahead of template matching', () => {
+    expect(checkCode('P-1', expected, ['p-1', 'P-2'])).toEqual({ code: 'P-1', status: 'duplicate' });
+  });
+
+  it('ignores empty codes on other observations', () => {
+    expect(checkCode('P-1', expected, ['', 'P-2']).status).toBe('matched');
+  });
+
+  it('only checks duplicates when the site has no template codes', () => {
+    expect(checkCode('X-1', [], [])).toEqual({ code: 'X-1', status: 'unverified' });
+    expect(checkCode('X-1', [], ['X-1']).status).toBe('duplicate');
+  });
+});
+
+describe('describeCodeCheck', () => {
+  it('explains unknown and duplicate codes', () => {
+    expect(describeCodeCheck({ code: 'G-9', status: 'unknown' }, 'gasifier'))
+      .toBe("G-9 isn't one of this site's gasifier codes");
+    expect(describeCodeCheck({ code: 'P-1', status: 'duplicate' }, 'petri'))
+      .toBe('P-1 is already used by another petri sample in this submission');
+  });
+
+  it('has nothing to say about matched or unverified codes', () => {
+    expect(describeCodeCheck({ code: 'P-1', status: 'matched' }, 'petri')).toBeNull();
+    expect(describeCodeCheck({ code: 'P-1', status: 'unverified' }, 'petri')).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import jsQR from 'jsqr';
+import { createLogger } from './logger';
+import { createCanvas, decodeImage, ImagePixels } from './imageCompression';
+
+// Create a logger for code scanning
+const logger = createLogger('CodeScanner');
+
+// Label formats we read with the browser's BarcodeDetector. The JS fallback
+// only reads QR codes, which is what our printed labels use.
+export const SCANNABLE_FORMATS = ['qr_code', 'code_128', 'code_39', 'data_matrix'];
+
+// Frames and photos are scaled down to this before the JS decoder runs; a
+// label fills enough of the picture to survive it and decoding stays quick
+const MAX_DECODE_DIMENSION = 1024;
+
+export type { ImagePixels };
+
+// Anything we can decode a code from: a camera frame, a photo, or a canvas
+export type CodeSource = HTMLVideoElement | ImageBitmap | HTMLImageElement | HTMLCanvasElement;
+
+export type CodeCheckStatus = 'matched' | 'unknown' | 'duplicate' | 'unverified';
+
+export interface CodeCheck {
+  // The code to put in the form: the template's spelling when it matched
+  code: string;
+  status: CodeCheckStatus;
+}
+
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: CodeSource) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats?: () => Promise<string[]>;
+}
+
+// Decode a QR code from raw pixels with the JS decoder
+export const decodePixels = (pixels: ImagePixels): string | null => {
+  const result = jsQR(pixels.data, pixels.width, pixels.height, { inversionAttempts: 'attemptBoth' });
+  return result?.data ? cleanScannedValue(result.data) : null;
+};
+
+// Strip the whitespace and control characters scanners sometimes add around a value
+export const cleanScannedValue = (value: string): string =>
+  // eslint-disable-next-line no-control-regex
+  value.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+
+// Codes compare regardless of case and spacing, so "p-12 " matches "P-12"
+export const normalizeCode = (code: string): string =>
+  code.replace(/\s+/g, '').toUpperCase();
+
+// The codes set on a site template's petri or gasifier defaults
+export const templateCodes = (defaults: unknown, field: 'petri_code' | 'gasifier_code'): string[] =>
+  Array.isArray(defaults)
+    ? defaults
+      .map(entry => (entry && typeof entry === 'object' ? (entry as Record<string, unknown>)[field] : null))
+      .filter((code): code is string => typeof code === 'string' && code.trim() !== '')
+    : [];
+
+/**
+ * Checks a scanned or typed code against the site template's codes and the
+ * codes already used by the other observations in the submission. Sites
+ * without template codes can't be checked, so only duplicates are reported.
+ */
+export const checkCode = (code: string, expectedCodes: string[], otherCodes: string[]): CodeCheck => {
+  const normalized = normalizeCode(code);
+  const expected = expectedCodes.find(candidate => normalizeCode(candidate) === normalized);
+  const resolved = expected ?? code.trim();
+
+  if (otherCodes.some(other => other && normalizeCode(other) === normalized)) {
+    return { code: resolved, status: 'duplicate' };
+  }
+  if (expectedCodes.length === 0) {
+    return { code: resolved, status: 'unverified' };
+  }
+
+  return { code: resolved, status: expected ? 'matched' : 'unknown' };
+};
+
+// What to tell the technician about a code, or null when it's fine
+export const describeCodeCheck = (check: CodeCheck, kind: 'petri' | 'gasifier'): string | null => {
+  if (check.status === 'duplicate') {
+    return `${check.code} is already used by another ${kind} sample in this submission`;
+  }
+  if (check.status === 'unknown') {
+    return `${check.code} isn't one of this site's ${kind} codes`;
+  }
+  return null;
+};
+
+let barcodeDetector: Promise<BarcodeDetectorInstance | null> | null = null;
+
+// The browser's native detector, or null where it's missing or reads none of our formats
+const getBarcodeDetector = (): Promise<BarcodeDetectorInstance | null> => {
+  if (!barcodeDetector) {
+    barcodeDetector = (async () => {
+      const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+      if (!Detector) return null;
+
+      try {
+        const supported = Detector.getSupportedFormats ? await Detector.getSupportedFormats() : SCANNABLE_FORMATS;
+        const formats = SCANNABLE_FORMATS.filter(format => supported.includes(format));
+        return formats.length > 0 ? new Detector({ formats }) : null;
+      } catch (error) {
+        logger.warn('BarcodeDetector unavailable, using the JS decoder:', error);
+        return null;
+      }
+    })();
+  }
+
+  return barcodeDetector;
+};
+
+// Whether codes can be read natively, which also covers 1D barcodes
+export const hasNativeBarcodeDetector = async (): Promise<boolean> =>
+  (await getBarcodeDetector()) !== null;
+
+const sourceSize = (source: CodeSource) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.width, height: source.height };
+
+// Draw the source scaled down and read back its pixels for the JS decoder
+const readPixels = (source: CodeSource): ImagePixels | null => {
+  const { width, height } = sourceSize(source);
+  if (!width || !height) return null;
+
+  const scale = Math.min(1, MAX_DECODE_DIMENSION / Math.max(width, height));
+  const canvas = createCanvas(Math.round(width * scale), Math.round(height * scale));
+  const context = canvas.getContext('2d', { willReadFrequently: true }) as
+    CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) return null;
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Reads the first code in a camera frame or image. Uses BarcodeDetector where
+ * the browser has it and the JS decoder otherwise; with `thorough`, the JS
+ * decoder also gets a try when the native detector finds nothing, which is
+ * worth it for a single photo but too slow for every camera frame.
+ */
+export const detectCode = async (source: CodeSource, thorough = false): Promise<string | null> => {
+  const detector = await getBarcodeDetector();
+
+  if (detector) {
+    try {
+      const codes = await detector.detect(source);
+      const value = codes.map(code => cleanScannedValue(code.rawValue)).find(Boolean);
+      if (value) return value;
+      if (!thorough) return null;
+    } catch (error) {
+      logger.warn('BarcodeDetector failed, falling back to the JS decoder:', error);
+    }
+  }
+
+  const pixels = readPixels(source);
+  return pixels ? decodePixels(pixels) : null;
+};
+
+// Read a code from a photo of a label
+export const decodeImageFile = async (file: Blob): Promise<string | null> => {
+  const image = await decodeImage(file);
+  try {
+    return await detectCode(image, true);
+  } finally {
+    if ('close' in image) image.close();
+  }
+};
+
+export default {
+  decodePixels,
+  cleanScannedValue,
+  normalizeCode,
+  templateCodes,
+  checkCode,
+  describeCodeCheck,
+  hasNativeBarcodeDetector,
+  detectCode,
+  decodeImageFile
+};
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { PNG } from 'pngjs';
+import { ImagePixels } from './imageCompression';
+import {
+  analyzeColonies,
+  clearColonyOverride,
+  colonyValues,
+  createColonyAnalysis,
+  overrideColonyAnalysis
+} from './colonyCoverage';
+
+// Synthetic 320x240 plate photos with sensor noise; the expected coverage is
+// what share of the agar inside the rim was drawn as growth
+const loadFixture = (name: string): ImagePixels => {
+  const png = PNG.sync.read(readFileSync(new URL(`./__fixtures__/plates/${name}`, import.meta.url)));
+  return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height };
+};
+
+describe('analyzeColonies', () => {
+  it('finds the plate rim and no growth on a clean, unevenly lit plate', () => {
+    const result = analyzeColonies(loadFixture('plate-clean.png'));
+
+    expect(result.plate_found).toBe(true);
+    // The plate is centered with a radius of 100px, 75px on the 240px analysis grid
+    expect(Math.abs(result.plate.x - 120)).toBeLessThanOrEqual(4);
+    expect(Math.abs(result.plate.y - 90)).toBeLessThanOrEqual(4);
+    expect(Math.abs(result.plate.r - 75)).toBeLessThanOrEqual(4);
+    expect(result.coverage_percent).toBeLessThan(0.5);
+    expect(result.colony_count).toBe(0);
+  });
+
+  it('counts separate colonies of different colors and estimates their coverage', () => {
+    const result = analyzeColonies(loadFixture('plate-colonies.png'));
+
+    expect(result.plate_found).toBe(true);
+    expect(result.colony_count).toBe(7);
+    expect(Math.abs(result.coverage_percent - 7.6)).toBeLessThanOrEqual(1);
+  });
+
+  it('estimates coverage when growth covers most of the plate', () => {
+    const result = analyzeColonies(loadFixture('plate-heavy.png'));
+
+    expect(result.plate_found).toBe(true);
+    expect(Math.abs(result.coverage_percent - 52.6)).toBeLessThanOrEqual(4);
+  });
+
+  it('finds a plate darker than the surface it sits on', () => {
+    const plate = loadFixture('plate-clean.png');
+    const inverted = plate.data.map((value, index) => (index % 4 === 3 ? value : 255 - value));
+    const result = analyzeColonies({ ...plate, data: inverted });
+
+    expect(result.plate_found).toBe(true);
+    expect(Math.abs(result.plate.x - 120)).toBeLessThanOrEqual(4);
+    expect(Math.abs(result.plate.r - 75)).toBeLessThanOrEqual(4);
+  });
+
+  it('assumes a centered plate when the photo shows no rim', () => {
+    const result = analyzeColonies(loadFixture('agar-closeup.png'));
+
+    expect(result.plate_found).toBe(false);
+    expect(result.plate).toEqual({ x: 120, y: 90, r: 81 });
+    expect(result.colony_count).toBe(3);
+    expect(Math.abs(result.coverage_percent - 3.5)).toBeLessThanOrEqual(1);
+  });
+
+  it('marks growth on the analysis grid in line with the coverage', () => {
+    const result = analyzeColonies(loadFixture('plate-colonies.png'));
+    const growth = result.mask.reduce((sum, value) => sum + value, 0);
+    const agar = Math.PI * (result.plate.r * 0.88) ** 2;
+
+    expect(result.mask.length).toBe(result.width * result.height);
+    expect(Math.abs(growth / agar * 100 - result.coverage_percent)).toBeLessThan(0.5);
+  });
+});
+
+describe('colony analysis records', () => {
+  const estimate = analyzeColonies(loadFixture('plate-colonies.png'));
+
+  it('stores the estimate without the mask', () => {
+    const analysis = createColonyAnalysis(estimate);
+
+    expect(analysis.estimate).not.toHaveProperty('mask');
+    expect(analysis.override).toBeNull();
+    expect(colonyValues(analysis)).toEqual({
+      coverage_percent: estimate.coverage_percent,
+      colony_count: 7,
+      isOverridden: false
+    });
+  });
+
+  it('prefers the values a tech entered and keeps the estimate', () => {
+    const analysis = overrideColonyAnalysis(createColonyAnalysis(estimate), 12.5, 9);
+
+    expect(analysis.estimate?.colony_count).toBe(7);
+    expect(colonyValues(analysis)).toEqual({ coverage_percent: 12.5, colony_count: 9, isOverridden: true });
+  });
+
+  it('falls back to the estimate for a value left blank', () => {
+    const analysis = overrideColonyAnalysis(createColonyAnalysis(estimate), null, 9);
+    expect(colonyValues(analysis).coverage_percent).toBe(estimate.coverage_percent);
+  });
+
+  it('keeps entered values in range', () => {
+    const analysis = overrideColonyAnalysis(null, 140, -2.4);
+    expect(colonyValues(analysis)).toEqual({ coverage_percent: 100, colony_count: 0, isOverridden: true });
+  });
+
+  it('clears an override back to the estimate, or to nothing without one', () => {
+    const analysis = createColonyAnalysis(estimate);
+
+    expect(clearColonyOverride(overrideColonyAnalysis(analysis, 20, 3))).toEqual(analysis);
+    expect(clearColonyOverride(overrideColonyAnalysis(null, 20, 3))).toBeNull();
+    expect(colonyValues(null)).toEqual({ coverage_percent: null, colony_count: null, isOverridden: false });
+  });
+});
@@ -0,0 +1,463 @@
+import { ImagePixels, readImagePixels } from './imageCompression';
+
+// Bumped whenever the analysis changes enough that older estimates aren't comparable
+export const COLONY_ANALYSIS_VERSION = 1;
+
+// Photos are reduced to this before analysis. A plate still spans a couple of
+// hundred pixels, which keeps colonies worth counting and the work quick on a phone.
+export const ANALYSIS_DIMENSION = 240;
+
+// Plate radii searched for, as shares of the picture's shorter side
+const MIN_PLATE_RADIUS = 0.2;
+const MAX_PLATE_RADIUS = 0.55;
+
+// Share of a circle's circumference that must lie on a strong edge for it to count as the rim
+const MIN_RIM_SUPPORT = 0.3;
+
+// Sobel magnitude below which a pixel isn't treated as part of an edge
+const MIN_EDGE_STRENGTH = 40;
+
+// Share of the plate radius analyzed; the rim and the wall reflections beside it are left out
+const AGAR_RADIUS = 0.88;
+
+// Least color distance from the agar, on the 0-255 RGB scale, that is read as growth
+const MIN_CONTRAST = 32;
+
+// Growth smaller than this share of the agar, or this many pixels, is treated as noise
+const MIN_COLONY_SHARE = 0.0003;
+const MIN_COLONY_PIXELS = 4;
+
+// The plate circle, in pixels of the analysis grid
+export interface PlateCircle {
+  x: number;
+  y: number;
+  r: number;
+}
+
+// What the analysis found, in the form stored with the observation
+export interface ColonyEstimate {
+  // Share of the agar covered by growth, 0-100
+  coverage_percent: number;
+  colony_count: number;
+  plate: PlateCircle;
+  // False when no rim was found and a centered plate was assumed
+  plate_found: boolean;
+  // Size of the analysis grid the plate is measured in
+  width: number;
+  height: number;
+}
+
+export interface ColonyAnalysisResult extends ColonyEstimate {
+  // 1 where growth was found, row by row over the analysis grid
+  mask: Uint8Array;
+}
+
+// Values a tech entered in place of the estimate
+export interface ColonyOverride {
+  coverage_percent: number | null;
+  colony_count: number | null;
+  overridden_at: string;
+}
+
+// Stored as petri_observations.colony_analysis
+export interface ColonyAnalysis {
+  version: number;
+  analyzed_at: string | null;
+  estimate: ColonyEstimate | null;
+  override: ColonyOverride | null;
+}
+
+interface ColorGrid {
+  // Interleaved RGB
+  rgb: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Box-average the picture down to the analysis grid
+const downsample = (pixels: ImagePixels, maxDimension: number): ColorGrid => {
+  const scale = Math.min(1, maxDimension / Math.max(pixels.width, pixels.height));
+  const width = Math.max(1, Math.round(pixels.width * scale));
+  const height = Math.max(1, Math.round(pixels.height * scale));
+  const rgb = new Float32Array(width * height * 3);
+  const counts = new Uint32Array(width * height);
+
+  for (let y = 0; y < pixels.height; y++) {
+    const ty = Math.min(height - 1, Math.floor(y * height / pixels.height));
+    for (let x = 0; x < pixels.width; x++) {
+      const tx = Math.min(width - 1, Math.floor(x * width / pixels.width));
+      const source = (y * pixels.width + x) * 4;
+      const target = ty * width + tx;
+      rgb[target * 3] += pixels.data[source];
+      rgb[target * 3 + 1] += pixels.data[source + 1];
+      rgb[target * 3 + 2] += pixels.data[source + 2];
+      counts[target]++;
+    }
+  }
+
+  for (let i = 0; i < counts.length; i++) {
+    const count = counts[i] || 1;
+    rgb[i * 3] /= count;
+    rgb[i * 3 + 1] /= count;
+    rgb[i * 3 + 2] /= count;
+  }
+
+  return { rgb, width, height };
+};
+
+const luminance = ({ rgb, width, height }: ColorGrid): Float32Array => {
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = 0.299 * rgb[i * 3] + 0.587 * rgb[i * 3 + 1] + 0.114 * rgb[i * 3 + 2];
+  }
+  return values;
+};
+
+/**
+ * Finds the plate's rim with a gradient-directed circle Hough transform: each
+ * strong edge votes for the centers a rim through it could have, one per
+ * radius, on both sides so plates lighter or darker than the table are found.
+ * Returns null when no circle has enough of its circumference on an edge.
+ */
+export const findPlate = (lum: Float32Array, width: number, height: number): PlateCircle | null => {
+  const shorterSide = Math.min(width, height);
+  const minRadius = Math.max(3, Math.floor(shorterSide * MIN_PLATE_RADIUS));
+  const maxRadius = Math.max(minRadius, Math.ceil(shorterSide * MAX_PLATE_RADIUS));
+  const radii = maxRadius - minRadius + 1;
+  const votes = new Uint16Array(width * height * radii);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => lum[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      const magnitude = Math.hypot(gx, gy);
+      if (magnitude < MIN_EDGE_STRENGTH) continue;
+
+      const ux = gx / magnitude;
+      const uy = gy / magnitude;
+      for (let ri = 0; ri < radii; ri++) {
+        const r = minRadius + ri;
+        for (const side of [1, -1]) {
+          const cx = Math.round(x + side * ux * r);
+          const cy = Math.round(y + side * uy * r);
+          if (cx < 0 || cy < 0 || cx >= width || cy >= height) continue;
+          votes[(cy * width + cx) * radii + ri]++;
+        }
+      }
+    }
+  }
+
+  // Votes for a center land within a pixel or so of it, so neighbors are pooled
+  let best: PlateCircle | null = null;
+  let bestSupport = 0;
+  for (let cy = 1; cy < height - 1; cy++) {
+    for (let cx = 1; cx < width - 1; cx++) {
+      for (let ri = 0; ri < radii; ri++) {
+        if (votes[(cy * width + cx) * radii + ri] === 0) continue;
+
+        let pooled = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            for (let dr = Math.max(0, ri - 1); dr <= Math.min(radii - 1, ri + 1); dr++) {
+              pooled += votes[((cy + dy) * width + cx + dx) * radii + dr];
+            }
+          }
+        }
+
+        const r = minRadius + ri;
+        const support = pooled / (2 * Math.PI * r);
+        if (support > bestSupport) {
+          bestSupport = support;
+          best = { x: cx, y: cy, r };
+        }
+      }
+    }
+  }
+
+  return best && bestSupport >= MIN_RIM_SUPPORT ? best : null;
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Chromaticity bins per axis when looking for the agar's color
+const CHROMA_BINS = 64;
+
+/**
+ * The agar's color. The plate's most common chromaticity is taken as the
+ * agar's, since lighting shifts brightness far more than hue and a majority of
+ * growth rarely shares one color; the median of the pixels with that
+ * chromaticity keeps dark growth of a similar hue from pulling it down.
+ */
+const agarColor = (grid: ColorGrid, agar: Uint8Array): [number, number, number] => {
+  const binOf = (i: number) => {
+    const r = grid.rgb[i * 3];
+    const g = grid.rgb[i * 3 + 1];
+    const sum = r + g + grid.rgb[i * 3 + 2] || 1;
+    const u = Math.min(CHROMA_BINS - 1, Math.floor(r / sum * CHROMA_BINS));
+    const v = Math.min(CHROMA_BINS - 1, Math.floor(g / sum * CHROMA_BINS));
+    return u * CHROMA_BINS + v;
+  };
+
+  const bins = new Int32Array(agar.length);
+  const histogram = new Uint32Array(CHROMA_BINS * CHROMA_BINS);
+  for (let i = 0; i < agar.length; i++) {
+    if (!agar[i]) continue;
+    bins[i] = binOf(i);
+    histogram[bins[i]]++;
+  }
+
+  // Pool each bin with its neighbors so a color split across a bin edge still wins
+  const near = (a: number, b: number) =>
+    Math.abs(Math.floor(a / CHROMA_BINS) - Math.floor(b / CHROMA_BINS)) <= 1 &&
+    Math.abs(a % CHROMA_BINS - b % CHROMA_BINS) <= 1;
+  let mode = 0;
+  let modeCount = -1;
+  for (let u = 0; u < CHROMA_BINS; u++) {
+    for (let v = 0; v < CHROMA_BINS; v++) {
+      let count = 0;
+      for (let du = Math.max(0, u - 1); du <= Math.min(CHROMA_BINS - 1, u + 1); du++) {
+        for (let dv = Math.max(0, v - 1); dv <= Math.min(CHROMA_BINS - 1, v + 1); dv++) {
+          count += histogram[du * CHROMA_BINS + dv];
+        }
+      }
+      if (count > modeCount) {
+        modeCount = count;
+        mode = u * CHROMA_BINS + v;
+      }
+    }
+  }
+
+  const channels: number[][] = [[], [], []];
+  for (let i = 0; i < agar.length; i++) {
+    if (!agar[i] || !near(bins[i], mode)) continue;
+    channels[0].push(grid.rgb[i * 3]);
+    channels[1].push(grid.rgb[i * 3 + 1]);
+    channels[2].push(grid.rgb[i * 3 + 2]);
+  }
+
+  return [median(channels[0]), median(channels[1]), median(channels[2])];
+};
+
+// Least-squares plane through the agar's brightness, so uneven lighting isn't read as growth
+const fitLighting = (lum: Float32Array, width: number, pixels: number[]) => {
+  let n = 0, sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0, sl = 0, sxl = 0, syl = 0;
+  pixels.forEach(i => {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    const l = lum[i];
+    n++; sx += x; sy += y; sxx += x * x; syy += y * y; sxy += x * y;
+    sl += l; sxl += x * l; syl += y * l;
+  });
+
+  const det = n * (sxx * syy - sxy * sxy) - sx * (sx * syy - sxy * sy) + sy * (sx * sxy - sxx * sy);
+  if (n < 3 || Math.abs(det) < 1e-6) {
+    const mean = n > 0 ? sl / n : 0;
+    return () => mean;
+  }
+
+  // Cramer's rule on the normal equations for l = a + bx + cy
+  const a = (sl * (sxx * syy - sxy * sxy) - sx * (sxl * syy - sxy * syl) + sy * (sxl * sxy - sxx * syl)) / det;
+  const b = (n * (sxl * syy - sxy * syl) - sl * (sx * syy - sxy * sy) + sy * (sx * syl - sxl * sy)) / det;
+  const c = (n * (sxx * syl - sxl * sxy) - sx * (sx * syl - sxl * sy) + sl * (sx * sxy - sxx * sy)) / det;
+  return (x: number, y: number) => a + b * x + c * y;
+};
+
+// Keep pixels whose whole 3x3 neighborhood is set, then grow them back, dropping specks
+const open = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const morph = (source: Uint8Array, keep: (all: boolean, any: boolean) => boolean) => {
+    const result = new Uint8Array(source.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let all = true;
+        let any = false;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            const set = nx >= 0 && ny >= 0 && nx < width && ny < height && source[ny * width + nx] === 1;
+            all = all && set;
+            any = any || set;
+          }
+        }
+        result[y * width + x] = keep(all, any) ? 1 : 0;
+      }
+    }
+    return result;
+  };
+
+  const eroded = morph(mask, all => all);
+  // Growing back is limited to what was growth to begin with
+  const dilated = morph(eroded, (_, any) => any);
+  for (let i = 0; i < dilated.length; i++) {
+    dilated[i] &= mask[i];
+  }
+  return dilated;
+};
+
+// 8-connected regions of the mask; regions below minArea are cleared
+const labelColonies = (mask: Uint8Array, width: number, height: number, minArea: number): number => {
+  const visited = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  let colonies = 0;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    const region: number[] = [];
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    while (top > 0) {
+      const i = stack[--top];
+      region.push(i);
+      const x = i % width;
+      const y = Math.floor(i / width);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const j = ny * width + nx;
+          if (mask[j] && !visited[j]) {
+            visited[j] = 1;
+            stack[top++] = j;
+          }
+        }
+      }
+    }
+
+    if (region.length >= minArea) {
+      colonies++;
+    } else {
+      region.forEach(i => { mask[i] = 0; });
+    }
+  }
+
+  return colonies;
+};
+
+/**
+ * Estimates colony coverage on a petri plate photo. Finds the plate's rim,
+ * takes the agar's most common color as the background, and marks pixels that
+ * differ from it by more than the noise allows as growth. Touching colonies
+ * count as one, so the count is a lower bound; coverage is the share of the
+ * agar inside the rim that is growth.
+ */
+export const analyzeColonies = (pixels: ImagePixels, maxDimension = ANALYSIS_DIMENSION): ColonyAnalysisResult => {
+  const grid = downsample(pixels, maxDimension);
+  const { width, height } = grid;
+  const lum = luminance(grid);
+
+  const found = findPlate(lum, width, height);
+  const plate = found || { x: width / 2, y: height / 2, r: Math.min(width, height) * 0.45 };
+
+  // Pixels of agar inside the rim
+  const agarRadius = plate.r * AGAR_RADIUS;
+  const agar = new Uint8Array(width * height);
+  const agarPixels: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if ((x - plate.x) ** 2 + (y - plate.y) ** 2 <= agarRadius ** 2) {
+        agar[y * width + x] = 1;
+        agarPixels.push(y * width + x);
+      }
+    }
+  }
+
+  const [ar, ag, ab] = agarColor(grid, agar);
+  const agarLum = 0.299 * ar + 0.587 * ag + 0.114 * ab;
+  const distance = (i: number, shift: number) => Math.hypot(
+    grid.rgb[i * 3] - ar - shift,
+    grid.rgb[i * 3 + 1] - ag - shift,
+    grid.rgb[i * 3 + 2] - ab - shift
+  );
+
+  // First pass against a flat background to find the agar, then again with its lighting
+  const noise = median(agarPixels.map(i => distance(i, 0)).filter(d => d < MIN_CONTRAST));
+  const threshold = Math.max(MIN_CONTRAST, 3 * noise);
+  const lighting = fitLighting(lum, width, agarPixels.filter(i => distance(i, 0) < threshold));
+
+  const raw = new Uint8Array(width * height);
+  agarPixels.forEach(i => {
+    const shift = lighting(i % width, Math.floor(i / width)) - agarLum;
+    if (distance(i, shift) >= threshold) raw[i] = 1;
+  });
+
+  const mask = open(raw, width, height);
+  const minArea = Math.max(MIN_COLONY_PIXELS, agarPixels.length * MIN_COLONY_SHARE);
+  const colonyCount = labelColonies(mask, width, height, minArea);
+
+  let growth = 0;
+  for (let i = 0; i < mask.length; i++) growth += mask[i];
+
+  return {
+    coverage_percent: agarPixels.length > 0 ? Math.round(growth / agarPixels.length * 1000) / 10 : 0,
+    colony_count: colonyCount,
+    plate,
+    plate_found: !!found,
+    width,
+    height,
+    mask
+  };
+};
+
+// Analyze a photo as stored for an observation
+export const analyzeColonyImage = async (image: Blob): Promise<ColonyAnalysisResult> => {
+  // Read a little larger than the grid so downsampling averages out noise
+  const pixels = await readImagePixels(image, ANALYSIS_DIMENSION * 2);
+  return analyzeColonies(pixels);
+};
+
+// The record stored for a fresh analysis; a new photo replaces any earlier override
+export const createColonyAnalysis = (result: ColonyAnalysisResult): ColonyAnalysis => {
+  const { mask: _mask, ...estimate } = result;
+  return {
+    version: COLONY_ANALYSIS_VERSION,
+    analyzed_at: new Date().toISOString(),
+    estimate,
+    override: null
+  };
+};
+
+// Record a tech's own values, keeping the estimate they replace
+export const overrideColonyAnalysis = (
+  analysis: ColonyAnalysis | null | undefined,
+  coverage: number | null,
+  count: number | null
+): ColonyAnalysis => ({
+  version: analysis?.version ?? COLONY_ANALYSIS_VERSION,
+  analyzed_at: analysis?.analyzed_at ?? null,
+  estimate: analysis?.estimate ?? null,
+  override: {
+    coverage_percent: coverage === null ? null : Math.min(100, Math.max(0, coverage)),
+    colony_count: count === null ? null : Math.max(0, Math.round(count)),
+    overridden_at: new Date().toISOString()
+  }
+});
+
+// Go back to the estimate, or to nothing when the values were only ever entered by hand
+export const clearColonyOverride = (analysis: ColonyAnalysis | null | undefined): ColonyAnalysis | null =>
+  analysis?.estimate ? { ...analysis, override: null } : null;
+
+// The coverage and count in effect: the tech's where they entered one, the estimate otherwise
+export const colonyValues = (analysis: ColonyAnalysis | null | undefined) => ({
+  coverage_percent: analysis?.override?.coverage_percent ?? analysis?.estimate?.coverage_percent ?? null,
+  colony_count: analysis?.override?.colony_count ?? analysis?.estimate?.colony_count ?? null,
+  isOverridden: !!analysis?.override
+});
+
+export default {
+  findPlate,
+  analyzeColonies,
+  analyzeColonyImage,
+  createColonyAnalysis,
+  overrideColonyAnalysis,
+  clearColonyOverride,
+  colonyValues
+};
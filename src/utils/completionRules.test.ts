@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CompletionRules,
+  DEFAULT_COMPLETION_RULES,
+  describeRequiredFields,
+  evaluateObservation,
+  evaluateSessionCompletion,
+  gasifierObservationValues,
+  isFieldFilled,
+  petriObservationValues,
+  resolveCompletionRules
+} from './completionRules';
+
+const completePetri = {
+  petri_code: 'P-1',
+  image: true,
+  fungicide_used: 'No',
+  surrounding_water_schedule: 'Daily'
+};
+
+const completeGasifier = {
+  gasifier_code: 'G-1',
+  image: true,
+  chemical_type: 'CLO2'
+};
+
+describe('resolveCompletionRules', () => {
+  it('uses the defaults for sites without rules', () => {
+    expect(resolveCompletionRules(null)).toEqual(DEFAULT_COMPLETION_RULES);
+    expect(resolveCompletionRules(undefined)).toEqual(DEFAULT_COMPLETION_RULES);
+  });
+
+  it('fills in a kind the site has no rules for', () => {
+    const rules = resolveCompletionRules({ gasifier: { required: ['gasifier_code', 'measure'] } });
+    expect(rules.petri).toEqual(DEFAULT_COMPLETION_RULES.petri);
+    expect(rules.gasifier.required).toEqual(['gasifier_code', 'measure']);
+  });
+
+  it('drops unknown and repeated fields', () => {
+    const stored = { petri: { required: ['petri_code', 'petri_code', 'colour'] } } as unknown as Partial<CompletionRules>;
+    expect(resolveCompletionRules(stored).petri.required).toEqual(['petri_code']);
+  });
+
+  it('keeps an empty required list', () => {
+    expect(resolveCompletionRules({ petri: { required: [] } }).petri.required).toEqual([]);
+  });
+});
+
+describe('isFieldFilled', () => {
+  it('treats zero and false as answers', () => {
+    expect(isFieldFilled(0)).toBe(true);
+    expect(isFieldFilled(false)).toBe(true);
+  });
+
+  it('treats blank values as missing', () => {
+    expect(isFieldFilled(null)).toBe(false);
+    expect(isFieldFilled(undefined)).toBe(false);
+    expect(isFieldFilled('   ')).toBe(false);
+    expect(isFieldFilled(NaN)).toBe(false);
+  });
+});
+
+describe('evaluateObservation', () => {
+  it('matches what the forms always required by default', () => {
+    expect(evaluateObservation('petri', completePetri)).toEqual({ isComplete: true, missing: [] });
+    expect(evaluateObservation('gasifier', completeGasifier)).toEqual({ isComplete: true, missing: [] });
+  });
+
+  it('lists the labels of missing fields in rule order', () => {
+    const result = evaluateObservation('petri', { petri_code: 'P-1', fungicide_used: 'Yes' });
+    expect(result.isComplete).toBe(false);
+    expect(result.missing).toEqual(['Water schedule', 'Image']);
+  });
+
+  it('can make the image optional', () => {
+    const rules = resolveCompletionRules({ petri: { required: ['petri_code'] } });
+    expect(evaluateObservation('petri', { petri_code: 'P-1', image: false }, rules).isComplete).toBe(true);
+  });
+
+  it('can require a gasifier measure, accepting zero', () => {
+    const rules = resolveCompletionRules({ gasifier: { required: ['gasifier_code', 'measure'] } });
+    expect(evaluateObservation('gasifier', { gasifier_code: 'G-1', measure: null }, rules).missing).toEqual(['Measure']);
+    expect(evaluateObservation('gasifier', { gasifier_code: 'G-1', measure: 0 }, rules).isComplete).toBe(true);
+  });
+});
+
+describe('evaluateSessionCompletion', () => {
+  it('counts complete observations of each kind', () => {
+    const summary = evaluateSessionCompletion(
+      [completePetri, { ...completePetri, image: false }],
+      [completeGasifier]
+    );
+
+    expect(summary).toMatchObject({
+      petrisComplete: 1,
+      petrisTotal: 2,
+      gasifiersComplete: 1,
+      gasifiersTotal: 1,
+      percentage: 66.67,
+      isComplete: false
+    });
+    expect(summary.incomplete).toEqual([{ kind: 'petri', index: 1, code: 'P-1', missing: ['Image'] }]);
+  });
+
+  it('is complete when every observation is', () => {
+    const summary = evaluateSessionCompletion([completePetri], [completeGasifier]);
+    expect(summary.percentage).toBe(100);
+    expect(summary.isComplete).toBe(true);
+  });
+
+  it('reports no progress for a session without observations', () => {
+    expect(evaluateSessionCompletion([], [])).toMatchObject({ percentage: 0, isComplete: true });
+  });
+
+  it('reports an observation without a code by position', () => {
+    const summary = evaluateSessionCompletion([], [{ image: true, chemical_type: 'CLO2' }]);
+    expect(summary.incomplete[0]).toEqual({ kind: 'gasifier', index: 0, code: null, missing: ['Gasifier code'] });
+  });
+});
+
+describe('stored observations', () => {
+  it('reads a stored petri observation, counting an uploaded image', () => {
+    const values = petriObservationValues({
+      petri_code: 'P-1',
+      image_url: 'https://example.com/p1.jpg',
+      fungicide_used: 'No',
+      surrounding_water_schedule: 'Daily'
+    });
+    expect(evaluateObservation('petri', values).isComplete).toBe(true);
+  });
+
+  it('counts an image captured offline when told so', () => {
+    const values = gasifierObservationValues({ gasifier_code: 'G-1', image_url: null, chemical_type: 'CLO2' }, true);
+    expect(evaluateObservation('gasifier', values).isComplete).toBe(true);
+  });
+});
+
+describe('describeRequiredFields', () => {
+  it('lists the required fields', () => {
+    expect(describeRequiredFields('gasifier', DEFAULT_COMPLETION_RULES)).toBe('Gasifier code, Chemical type, Image');
+    expect(describeRequiredFields('petri', resolveCompletionRules({ petri: { required: [] } }))).toBe('Nothing required');
+  });
+});
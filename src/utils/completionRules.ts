@@ -0,0 +1,257 @@
+// Which fields an observation needs before it counts as complete. Rules are
+// stored with a site's template in sites.completion_rules; sites without rules
+// use the defaults, which match what the forms always required. Field names are
+// the observation table's columns, except 'image', which means an image has
+// been captured whether or not it has been uploaded yet.
+export type ObservationKind = 'petri' | 'gasifier';
+
+export type PetriCompletionField =
+  | 'petri_code'
+  | 'image'
+  | 'fungicide_used'
+  | 'surrounding_water_schedule'
+  | 'placement'
+  | 'plant_type'
+  | 'notes';
+
+export type GasifierCompletionField =
+  | 'gasifier_code'
+  | 'image'
+  | 'chemical_type'
+  | 'measure'
+  | 'placement_height'
+  | 'directional_placement'
+  | 'placement_strategy'
+  | 'notes';
+
+export interface CompletionRules {
+  petri: { required: PetriCompletionField[] };
+  gasifier: { required: GasifierCompletionField[] };
+}
+
+export const PETRI_COMPLETION_FIELDS: Record<PetriCompletionField, string> = {
+  petri_code: 'Petri code',
+  image: 'Image',
+  fungicide_used: 'Fungicide used',
+  surrounding_water_schedule: 'Water schedule',
+  placement: 'Placement',
+  plant_type: 'Plant type',
+  notes: 'Notes'
+};
+
+export const GASIFIER_COMPLETION_FIELDS: Record<GasifierCompletionField, string> = {
+  gasifier_code: 'Gasifier code',
+  image: 'Image',
+  chemical_type: 'Chemical type',
+  measure: 'Measure',
+  placement_height: 'Placement height',
+  directional_placement: 'Directional placement',
+  placement_strategy: 'Placement strategy',
+  notes: 'Notes'
+};
+
+export const DEFAULT_COMPLETION_RULES: CompletionRules = {
+  petri: { required: ['petri_code', 'surrounding_water_schedule', 'fungicide_used', 'image'] },
+  gasifier: { required: ['gasifier_code', 'chemical_type', 'image'] }
+};
+
+// The values an observation has, keyed by completion field
+export type ObservationCompletionValues = Partial<Record<PetriCompletionField | GasifierCompletionField, unknown>>;
+
+export interface ObservationCompletion {
+  isComplete: boolean;
+  missing: string[];
+}
+
+export interface IncompleteObservation {
+  kind: ObservationKind;
+  index: number;
+  code: string | null;
+  missing: string[];
+}
+
+export interface SessionCompletionSummary {
+  petrisComplete: number;
+  petrisTotal: number;
+  gasifiersComplete: number;
+  gasifiersTotal: number;
+  // 0 to 100, rounded to two decimals like submission_sessions.percentage_complete
+  percentage: number;
+  isComplete: boolean;
+  incomplete: IncompleteObservation[];
+}
+
+const fieldsFor = (kind: ObservationKind): Record<string, string> =>
+  kind === 'petri' ? PETRI_COMPLETION_FIELDS : GASIFIER_COMPLETION_FIELDS;
+
+const requiredFieldsFor = (kind: ObservationKind, rules: CompletionRules): string[] =>
+  kind === 'petri' ? rules.petri.required : rules.gasifier.required;
+
+/**
+ * Fills in defaults for a site's stored rules and drops fields this version
+ * doesn't know about. An observation kind with no rules uses the defaults; an
+ * empty required list means any observation of that kind is complete.
+ */
+export const resolveCompletionRules = (rules?: Partial<CompletionRules> | null): CompletionRules => {
+  const resolve = <K extends ObservationKind>(kind: K) => {
+    const required = rules?.[kind]?.required;
+    if (!Array.isArray(required)) return DEFAULT_COMPLETION_RULES[kind].required;
+    const known = fieldsFor(kind);
+    return Array.from(new Set(required.filter(field => field in known)));
+  };
+
+  return {
+    petri: { required: resolve('petri') as PetriCompletionField[] },
+    gasifier: { required: resolve('gasifier') as GasifierCompletionField[] }
+  };
+};
+
+// Zero and false are answers; blank strings and NaN are not
+export const isFieldFilled = (value: unknown): boolean => {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (typeof value === 'number') return Number.isFinite(value);
+  return true;
+};
+
+/**
+ * Checks one observation against the rules and lists the labels of the
+ * required fields it is missing
+ */
+export const evaluateObservation = (
+  kind: ObservationKind,
+  values: ObservationCompletionValues,
+  rules: CompletionRules = DEFAULT_COMPLETION_RULES
+): ObservationCompletion => {
+  const labels = fieldsFor(kind);
+  const missing = requiredFieldsFor(kind, rules)
+    .filter(field => (field === 'image' ? values.image !== true : !isFieldFilled(values[field as keyof ObservationCompletionValues])))
+    .map(field => labels[field]);
+
+  return { isComplete: missing.length === 0, missing };
+};
+
+/**
+ * Checks every observation of a session and works out how complete it is
+ */
+export const evaluateSessionCompletion = (
+  petris: ObservationCompletionValues[],
+  gasifiers: ObservationCompletionValues[],
+  rules: CompletionRules = DEFAULT_COMPLETION_RULES
+): SessionCompletionSummary => {
+  const incomplete: IncompleteObservation[] = [];
+
+  const countComplete = (kind: ObservationKind, observations: ObservationCompletionValues[]) =>
+    observations.reduce((count, values, index) => {
+      const { isComplete, missing } = evaluateObservation(kind, values, rules);
+      if (!isComplete) {
+        const code = kind === 'petri' ? values.petri_code : values.gasifier_code;
+        incomplete.push({ kind, index, code: typeof code === 'string' && code ? code : null, missing });
+      }
+      return isComplete ? count + 1 : count;
+    }, 0);
+
+  const petrisComplete = countComplete('petri', petris);
+  const gasifiersComplete = countComplete('gasifier', gasifiers);
+  const total = petris.length + gasifiers.length;
+
+  return {
+    petrisComplete,
+    petrisTotal: petris.length,
+    gasifiersComplete,
+    gasifiersTotal: gasifiers.length,
+    percentage: total > 0 ? Math.round(((petrisComplete + gasifiersComplete) * 10000) / total) / 100 : 0,
+    isComplete: incomplete.length === 0,
+    incomplete
+  };
+};
+
+// Completion values of a stored petri observation
+export const petriObservationValues = (
+  observation: Record<string, any>,
+  hasImage = !!observation.image_url
+): ObservationCompletionValues => ({
+  petri_code: observation.petri_code,
+  image: hasImage,
+  fungicide_used: observation.fungicide_used,
+  surrounding_water_schedule: observation.surrounding_water_schedule,
+  placement: observation.placement,
+  plant_type: observation.plant_type,
+  notes: observation.notes
+});
+
+// Completion values of a stored gasifier observation
+export const gasifierObservationValues = (
+  observation: Record<string, any>,
+  hasImage = !!observation.image_url
+): ObservationCompletionValues => ({
+  gasifier_code: observation.gasifier_code,
+  image: hasImage,
+  chemical_type: observation.chemical_type,
+  measure: observation.measure,
+  placement_height: observation.placement_height,
+  directional_placement: observation.directional_placement,
+  placement_strategy: observation.placement_strategy,
+  notes: observation.notes
+});
+
+// Completion values of a petri form, from the data it reports to the page
+export const petriFormValues = (form: {
+  petriCode?: string;
+  hasImage?: boolean;
+  fungicideUsed?: string;
+  surroundingWaterSchedule?: string;
+  placement?: string | null;
+  plantType?: string;
+  notes?: string;
+}): ObservationCompletionValues => ({
+  petri_code: form.petriCode,
+  image: !!form.hasImage,
+  fungicide_used: form.fungicideUsed,
+  surrounding_water_schedule: form.surroundingWaterSchedule,
+  placement: form.placement,
+  plant_type: form.plantType,
+  notes: form.notes
+});
+
+// Completion values of a gasifier form, from the data it reports to the page
+export const gasifierFormValues = (form: {
+  gasifierCode?: string;
+  hasImage?: boolean;
+  chemicalType?: string;
+  measure?: number | null;
+  placementHeight?: string | null;
+  directionalPlacement?: string | null;
+  placementStrategy?: string | null;
+  notes?: string;
+}): ObservationCompletionValues => ({
+  gasifier_code: form.gasifierCode,
+  image: !!form.hasImage,
+  chemical_type: form.chemicalType,
+  measure: form.measure,
+  placement_height: form.placementHeight,
+  directional_placement: form.directionalPlacement,
+  placement_strategy: form.placementStrategy,
+  notes: form.notes
+});
+
+/**
+ * One-line summary of a kind's rules, e.g. "Petri code, Image"
+ */
+export const describeRequiredFields = (kind: ObservationKind, rules: CompletionRules): string => {
+  const labels = fieldsFor(kind);
+  const required = requiredFieldsFor(kind, rules);
+  return required.length > 0 ? required.map(field => labels[field]).join(', ') : 'Nothing required';
+};
+
+export default {
+  resolveCompletionRules,
+  isFieldFilled,
+  evaluateObservation,
+  evaluateSessionCompletion,
+  petriObservationValues,
+  gasifierObservationValues,
+  petriFormValues,
+  gasifierFormValues,
+  describeRequiredFields
+};
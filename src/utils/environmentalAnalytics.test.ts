@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AnalyticsSubmission,
+  aggregateEnvironmentalTrends,
+  bucketSubmissions,
+  countWeatherConditions
+} from './environmentalAnalytics';
+
+// Local times, so bucketing matches whatever timezone the tests run in
+const at = (day: number, hour: number) => new Date(2025, 5, day, hour);
+
+const submission = (createdAt: Date, overrides: Partial<AnalyticsSubmission> = {}): AnalyticsSubmission => ({
+  created_at: createdAt.toISOString(),
+  temperature: 70,
+  humidity: 50,
+  indoor_temperature: null,
+  indoor_humidity: null,
+  weather: 'Clear',
+  ...overrides
+});
+
+// Monday 2 June to Sunday 8 June 2025
+const week = { start: at(2, 0), end: at(8, 23) };
+
+describe('bucketSubmissions', () => {
+  it('keeps every interval in the range, including empty ones', () => {
+    const buckets = bucketSubmissions([submission(at(3, 9))], week, 'day');
+    expect(buckets).toHaveLength(7);
+    expect(buckets.map(bucket => bucket.rows.length)).toEqual([0, 1, 0, 0, 0, 0, 0]);
+    expect(buckets[1].interval).toEqual(at(3, 0));
+  });
+
+  it('splits days at noon for 12-hour intervals', () => {
+    const buckets = bucketSubmissions([submission(at(2, 11)), submission(at(2, 12))], week, '12hour');
+    expect(buckets).toHaveLength(14);
+    expect(buckets[0].rows).toHaveLength(1);
+    expect(buckets[1].interval).toEqual(at(2, 12));
+    expect(buckets[1].rows).toHaveLength(1);
+  });
+
+  it('starts weeks on Monday', () => {
+    const buckets = bucketSubmissions([submission(at(8, 20)), submission(at(9, 8))], { start: at(1, 0), end: at(10, 0) }, 'week');
+    expect(buckets.map(bucket => bucket.interval)).toEqual([new Date(2025, 4, 26), at(2, 0), at(9, 0)]);
+    expect(buckets.map(bucket => bucket.rows.length)).toEqual([0, 1, 1]);
+  });
+
+  it('drops submissions outside the range', () => {
+    const buckets = bucketSubmissions([submission(at(1, 23)), submission(at(9, 0))], week, 'day');
+    expect(buckets.every(bucket => bucket.rows.length === 0)).toBe(true);
+  });
+
+  it('keeps every submission in a 12-hour interval across a DST change', () => {
+    // The tests run in America/New_York, where clocks went forward on 9 March 2025
+    const march = { start: new Date(2025, 2, 7), end: new Date(2025, 2, 12) };
+    const rows = [submission(new Date(2025, 2, 9, 15)), submission(new Date(2025, 2, 11, 9))];
+    const buckets = bucketSubmissions(rows, march, '12hour');
+
+    expect(buckets).toHaveLength(11);
+    expect(buckets.flatMap(bucket => bucket.rows)).toEqual(rows);
+    expect(buckets.find(bucket => bucket.rows.includes(rows[1]))?.interval).toEqual(new Date(2025, 2, 11));
+  });
+});
+
+describe('aggregateEnvironmentalTrends', () => {
+  it('averages each reading per interval and counts submissions', () => {
+    const trends = aggregateEnvironmentalTrends([
+      submission(at(2, 9), { temperature: 60, humidity: 40, indoor_temperature: 68, indoor_humidity: 55 }),
+      submission(at(2, 15), { temperature: 80, humidity: 60, indoor_temperature: 72, indoor_humidity: 45 })
+    ], week, 'day');
+
+    expect(trends[0]).toEqual({
+      interval_start: at(2, 0).toISOString(),
+      avg_temperature: 70,
+      avg_humidity: 50,
+      avg_indoor_temperature: 70,
+      avg_indoor_humidity: 50,
+      submission_count: 2
+    });
+  });
+
+  it('averages indoor readings over the submissions that recorded them', () => {
+    const [trend] = aggregateEnvironmentalTrends([
+      submission(at(2, 9), { indoor_temperature: 66 }),
+      submission(at(2, 10)),
+      submission(at(2, 11), { indoor_temperature: 70 })
+    ], week, 'day');
+
+    expect(trend.avg_indoor_temperature).toBe(68);
+    expect(trend.avg_indoor_humidity).toBeNull();
+    expect(trend.submission_count).toBe(3);
+  });
+
+  it('leaves averages empty for intervals with no submissions', () => {
+    const trends = aggregateEnvironmentalTrends([], week, 'day');
+    expect(trends).toHaveLength(7);
+    expect(trends[0]).toMatchObject({ avg_temperature: null, avg_humidity: null, submission_count: 0 });
+  });
+});
+
+describe('countWeatherConditions', () => {
+  it('counts each condition per interval', () => {
+    const counts = countWeatherConditions([
+      submission(at(2, 9), { weather: 'Clear' }),
+      submission(at(2, 10), { weather: 'Rain' }),
+      submission(at(2, 11), { weather: 'Rain' }),
+      submission(at(3, 9), { weather: 'Cloudy' })
+    ], week, 'day');
+
+    expect(counts[0]).toEqual({
+      interval_start: at(2, 0).toISOString(),
+      clear_count: 1,
+      cloudy_count: 0,
+      rain_count: 2,
+      total_count: 3
+    });
+    expect(counts[1]).toMatchObject({ cloudy_count: 1, total_count: 1 });
+  });
+
+  it('counts submissions without recorded weather in the total only', () => {
+    const [counts] = countWeatherConditions([submission(at(2, 9), { weather: null })], week, 'day');
+    expect(counts).toMatchObject({ clear_count: 0, cloudy_count: 0, rain_count: 0, total_count: 1 });
+  });
+});
@@ -0,0 +1,100 @@
+import { DateRange, intervalStart, listIntervals } from './analyticsPeriods';
+import { AnalyticsGranularity, EnvironmentalTrend, WeatherConditionCounts } from '../lib/types';
+
+// The submission fields the environmental charts are built from
+export interface AnalyticsSubmission {
+  created_at: string;
+  temperature: number | null;
+  humidity: number | null;
+  indoor_temperature: number | null;
+  indoor_humidity: number | null;
+  weather: string | null;
+}
+
+export const WEATHER_CONDITIONS = ['Clear', 'Cloudy', 'Rain'] as const;
+export type WeatherCondition = typeof WEATHER_CONDITIONS[number];
+
+const AVERAGED_FIELDS = {
+  avg_temperature: 'temperature',
+  avg_humidity: 'humidity',
+  avg_indoor_temperature: 'indoor_temperature',
+  avg_indoor_humidity: 'indoor_humidity'
+} as const;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Groups submissions into every interval of a range, oldest first. Intervals
+ * with no submissions are kept so charts show the gap; submissions outside the
+ * range are dropped.
+ */
+export const bucketSubmissions = (
+  rows: AnalyticsSubmission[],
+  range: DateRange,
+  granularity: AnalyticsGranularity
+): { interval: Date; rows: AnalyticsSubmission[] }[] => {
+  const buckets = new Map<number, AnalyticsSubmission[]>(
+    listIntervals(range.start, range.end, granularity).map(interval => [interval.getTime(), []])
+  );
+
+  rows.forEach(row => {
+    const createdAt = new Date(row.created_at);
+    if (createdAt < range.start || createdAt > range.end) return;
+    buckets.get(intervalStart(createdAt, granularity).getTime())?.push(row);
+  });
+
+  return Array.from(buckets.entries()).map(([time, bucketRows]) => ({ interval: new Date(time), rows: bucketRows }));
+};
+
+// Average outdoor and indoor conditions per interval. Each average only counts
+// submissions that recorded that reading, since indoor readings are optional.
+export const aggregateEnvironmentalTrends = (
+  rows: AnalyticsSubmission[],
+  range: DateRange,
+  granularity: AnalyticsGranularity
+): EnvironmentalTrend[] =>
+  bucketSubmissions(rows, range, granularity).map(({ interval, rows: bucketRows }) => {
+    const trend: EnvironmentalTrend = {
+      interval_start: interval.toISOString(),
+      avg_temperature: null,
+      avg_humidity: null,
+      avg_indoor_temperature: null,
+      avg_indoor_humidity: null,
+      submission_count: bucketRows.length
+    };
+
+    (Object.keys(AVERAGED_FIELDS) as (keyof typeof AVERAGED_FIELDS)[]).forEach(key => {
+      trend[key] = average(
+        bucketRows
+          .map(row => row[AVERAGED_FIELDS[key]])
+          .filter((value): value is number => typeof value === 'number' && !isNaN(value))
+      );
+    });
+
+    return trend;
+  });
+
+// Submissions per weather condition per interval. total_count is every
+// submission in the interval, so it exceeds the conditions when weather wasn't recorded.
+export const countWeatherConditions = (
+  rows: AnalyticsSubmission[],
+  range: DateRange,
+  granularity: AnalyticsGranularity
+): WeatherConditionCounts[] =>
+  bucketSubmissions(rows, range, granularity).map(({ interval, rows: bucketRows }) => {
+    const count = (condition: WeatherCondition) => bucketRows.filter(row => row.weather === condition).length;
+    return {
+      interval_start: interval.toISOString(),
+      clear_count: count('Clear'),
+      cloudy_count: count('Cloudy'),
+      rain_count: count('Rain'),
+      total_count: bucketRows.length
+    };
+  });
+
+export default {
+  bucketSubmissions,
+  aggregateEnvironmentalTrends,
+  countWeatherConditions
+};
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_GASIFIER_REPLACEMENT_POLICY,
+  GasifierMeasure,
+  fitDepletion,
+  forecastGasifier
+} from './gasifierDepletion';
+
+const START = Date.parse('2025-06-02T14:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A reading of G-1 the given number of days after START
+const reading = (day: number, measure: number, anomaly = false): GasifierMeasure => ({
+  code: 'G-1',
+  observation_id: `obs-${day}`,
+  submission_id: `sub-${day}`,
+  observed_at: new Date(START + day * DAY_MS).toISOString(),
+  measure,
+  anomaly
+});
+
+const daysAfterStart = (day: number) => new Date(START + day * DAY_MS);
+
+describe('fitDepletion', () => {
+  it('fits a steady decline', () => {
+    const fit = fitDepletion([reading(0, 10), reading(1, 9), reading(2, 8), reading(3, 7)]);
+
+    expect(fit?.rate_per_day).toBeCloseTo(1);
+    expect(fit?.start_measure).toBeCloseTo(10);
+    expect(fit?.since.toISOString()).toBe('2025-06-02T14:00:00.000Z');
+    expect(fit?.points).toBe(4);
+  });
+
+  it('leaves out readings flagged as anomalies', () => {
+    const fit = fitDepletion([reading(0, 10), reading(1, 9), reading(2, 1, true), reading(3, 7)]);
+
+    expect(fit?.rate_per_day).toBeCloseTo(1);
+    expect(fit?.start_measure).toBeCloseTo(10);
+    expect(fit?.points).toBe(3);
+  });
+
+  it('starts a new line after a refill', () => {
+    // The bag was replaced between days 3 and 4
+    const fit = fitDepletion([
+      reading(0, 10), reading(1, 8), reading(2, 6), reading(3, 4),
+      reading(4, 9.5), reading(6, 8.5)
+    ]);
+
+    expect(fit?.since.toISOString()).toBe(daysAfterStart(4).toISOString());
+    expect(fit?.rate_per_day).toBeCloseTo(0.5);
+    expect(fit?.start_measure).toBeCloseTo(9.5);
+    expect(fit?.points).toBe(2);
+  });
+
+  it('treats a rise smaller than a refill as noise on the same line', () => {
+    const fit = fitDepletion([reading(0, 10), reading(1, 9), reading(2, 9.5), reading(3, 8)]);
+
+    expect(fit?.since.toISOString()).toBe(daysAfterStart(0).toISOString());
+    expect(fit?.points).toBe(4);
+  });
+
+  it('needs two readings at least a day apart', () => {
+    expect(fitDepletion([reading(0, 10)])).toBeNull();
+    expect(fitDepletion([reading(0, 10), reading(0, 9)])).toBeNull();
+    expect(fitDepletion([reading(0, 10), reading(0.25, 9)])).toBeNull();
+  });
+
+  it('needs two readings of the current bag', () => {
+    expect(fitDepletion([reading(0, 10), reading(1, 8), reading(2, 9.5)])).toBeNull();
+  });
+});
+
+describe('forecastGasifier', () => {
+  const policy = DEFAULT_GASIFIER_REPLACEMENT_POLICY;
+
+  it('says to replace now when the latest reading is at the threshold', () => {
+    const forecast = forecastGasifier('G-1', [reading(0, 4), reading(1, 3), reading(2, 2)], policy, daysAfterStart(2));
+
+    expect(forecast.status).toBe('replace_now');
+    expect(forecast.latest?.measure).toBe(2);
+  });
+
+  it('says to replace now once the projected date has passed', () => {
+    // 10 falling 1 a day reaches 2 on day 8
+    const forecast = forecastGasifier('G-1', [reading(0, 10), reading(1, 9)], policy, daysAfterStart(9));
+
+    expect(forecast.replaceBy?.toISOString()).toBe(daysAfterStart(8).toISOString());
+    expect(forecast.status).toBe('replace_now');
+  });
+
+  it('says to replace soon within the lead days', () => {
+    const forecast = forecastGasifier('G-1', [reading(0, 10), reading(1, 9)], policy, daysAfterStart(2));
+
+    expect(forecast.status).toBe('replace_soon');
+  });
+
+  it('is ok when the projected date is further off than the lead days', () => {
+    // 10 falling 0.5 a day reaches 2 on day 16
+    const forecast = forecastGasifier('G-1', [reading(0, 10), reading(2, 9)], policy, daysAfterStart(2));
+
+    expect(forecast.replaceBy?.toISOString()).toBe(daysAfterStart(16).toISOString());
+    expect(forecast.status).toBe('ok');
+  });
+
+  it('reports a bag whose readings are level or rising as not depleting', () => {
+    const forecast = forecastGasifier('G-1', [reading(0, 6), reading(1, 6), reading(2, 6.5)], policy, daysAfterStart(2));
+
+    expect(forecast.replaceBy).toBeNull();
+    expect(forecast.status).toBe('not_depleting');
+  });
+
+  it('reports insufficient data for a single reading above the threshold', () => {
+    const forecast = forecastGasifier('G-1', [reading(0, 8)], policy, daysAfterStart(0));
+
+    expect(forecast.fit).toBeNull();
+    expect(forecast.status).toBe('insufficient_data');
+  });
+
+  it('ignores an anomalous low reading when deciding to replace', () => {
+    const forecast = forecastGasifier('G-1', [reading(0, 10), reading(1, 9), reading(2, 0.5, true)], policy, daysAfterStart(2));
+
+    expect(forecast.latest?.measure).toBe(9);
+    expect(forecast.status).toBe('replace_soon');
+  });
+});
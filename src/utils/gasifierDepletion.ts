@@ -0,0 +1,191 @@
+import { normalizeCode } from './codeScanner';
+
+// When a gasifier bag is due for replacement. Stored in
+// sites.gasifier_replacement_policy; a site without one uses the defaults.
+// Measures are on the gasifier form's 0-10 scale and fall as a bag is used up.
+export interface GasifierReplacementPolicy {
+  // Replace a bag once its measure is at or below this
+  threshold: number;
+  // List a bag as "replace soon" this many days before it is projected to reach the threshold
+  lead_days: number;
+}
+
+export const DEFAULT_GASIFIER_REPLACEMENT_POLICY: GasifierReplacementPolicy = {
+  threshold: 2,
+  lead_days: 7
+};
+
+// The gasifier form's range for a measure
+export const MEASURE_MIN = 0;
+export const MEASURE_MAX = 10;
+
+// A reading this much higher than the one before it means the bag was replaced or refilled
+const REFILL_RISE = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A row of get_gasifier_measures(): one gasifier observation with a measure
+export interface GasifierMeasure {
+  code: string;
+  observation_id: string;
+  submission_id: string;
+  observed_at: string;
+  measure: number;
+  anomaly: boolean | null;
+}
+
+// A straight line through a bag's readings since it was last replaced
+export interface DepletionFit {
+  // Measure lost per day; zero or less when the bag isn't depleting
+  rate_per_day: number;
+  // The fitted measure at `since`
+  start_measure: number;
+  // The first reading of the current bag
+  since: Date;
+  // Readings the line was fitted to
+  points: number;
+}
+
+// replace_now: at or below the threshold, or projected to have reached it
+// replace_soon: projected to reach the threshold within the policy's lead days
+// ok: projected to reach the threshold later than that
+// not_depleting: readings are level or rising
+// insufficient_data: fewer than two usable readings of the current bag
+export type ReplacementStatus = 'replace_now' | 'replace_soon' | 'ok' | 'not_depleting' | 'insufficient_data';
+
+export interface GasifierForecast {
+  code: string;
+  // Every reading in time order, anomalies included
+  readings: GasifierMeasure[];
+  // The most recent reading that wasn't flagged as an anomaly
+  latest: GasifierMeasure | null;
+  fit: DepletionFit | null;
+  // When the fitted line reaches the threshold
+  replaceBy: Date | null;
+  status: ReplacementStatus;
+}
+
+export const resolveReplacementPolicy = (
+  policy?: Partial<GasifierReplacementPolicy> | null
+): GasifierReplacementPolicy => ({
+  threshold: typeof policy?.threshold === 'number' ? policy.threshold : DEFAULT_GASIFIER_REPLACEMENT_POLICY.threshold,
+  lead_days: typeof policy?.lead_days === 'number' ? policy.lead_days : DEFAULT_GASIFIER_REPLACEMENT_POLICY.lead_days
+});
+
+// Readings of each gasifier, matched the way codes are everywhere else, in time order
+export const groupGasifierMeasures = (rows: GasifierMeasure[]): Map<string, GasifierMeasure[]> => {
+  const series = new Map<string, GasifierMeasure[]>();
+  rows.forEach(row => {
+    const key = normalizeCode(row.code);
+    series.set(key, [...(series.get(key) || []), row]);
+  });
+  series.forEach(readings => readings.sort((a, b) => a.observed_at.localeCompare(b.observed_at)));
+  return series;
+};
+
+/**
+ * Fits the current bag's depletion by least squares. Readings flagged as
+ * anomalies are left out, and so is everything before the latest refill,
+ * since a new bag starts a new line. Null unless the readings span at least a
+ * day, as readings a few hours apart can't show a daily rate.
+ */
+export const fitDepletion = (readings: GasifierMeasure[]): DepletionFit | null => {
+  const usable = readings
+    .filter(reading => !reading.anomaly)
+    .sort((a, b) => a.observed_at.localeCompare(b.observed_at));
+
+  let start = 0;
+  for (let i = 1; i < usable.length; i++) {
+    if (usable[i].measure - usable[i - 1].measure >= REFILL_RISE) start = i;
+  }
+  const current = usable.slice(start);
+  if (current.length < 2) return null;
+
+  const since = new Date(current[0].observed_at);
+  const points = current.map(reading => ({
+    x: (new Date(reading.observed_at).getTime() - since.getTime()) / DAY_MS,
+    y: reading.measure
+  }));
+
+  const n = points.length;
+  if (points[n - 1].x < 1) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+
+  const slope = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+  return {
+    rate_per_day: -slope,
+    start_measure: meanY - slope * meanX,
+    since,
+    points: n
+  };
+};
+
+// When a fitted line reaches the threshold; null when it never will
+export const projectReplacementDate = (fit: DepletionFit, threshold: number): Date | null => {
+  if (fit.rate_per_day <= 0) return null;
+  const days = (fit.start_measure - threshold) / fit.rate_per_day;
+  return new Date(fit.since.getTime() + days * DAY_MS);
+};
+
+export const forecastGasifier = (
+  code: string,
+  readings: GasifierMeasure[],
+  policy: GasifierReplacementPolicy,
+  now: Date = new Date()
+): GasifierForecast => {
+  const usable = readings.filter(reading => !reading.anomaly);
+  const latest = usable.length > 0 ? usable[usable.length - 1] : null;
+  const fit = fitDepletion(readings);
+  const replaceBy = fit ? projectReplacementDate(fit, policy.threshold) : null;
+
+  let status: ReplacementStatus;
+  if (latest && latest.measure <= policy.threshold) {
+    status = 'replace_now';
+  } else if (!fit) {
+    status = 'insufficient_data';
+  } else if (!replaceBy) {
+    status = 'not_depleting';
+  } else if (replaceBy <= now) {
+    status = 'replace_now';
+  } else if (replaceBy.getTime() - now.getTime() <= policy.lead_days * DAY_MS) {
+    status = 'replace_soon';
+  } else {
+    status = 'ok';
+  }
+
+  return { code, readings, latest, fit, replaceBy, status };
+};
+
+const STATUS_ORDER: ReplacementStatus[] = ['replace_now', 'replace_soon', 'ok', 'not_depleting', 'insufficient_data'];
+
+// A forecast for every gasifier with readings, the most urgent first
+export const forecastGasifiers = (
+  rows: GasifierMeasure[],
+  policy: GasifierReplacementPolicy,
+  now: Date = new Date()
+): GasifierForecast[] =>
+  Array.from(groupGasifierMeasures(rows).values())
+    // The code as it was most recently entered
+    .map(readings => forecastGasifier(readings[readings.length - 1].code, readings, policy, now))
+    .sort((a, b) =>
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+      (a.replaceBy?.getTime() ?? Infinity) - (b.replaceBy?.getTime() ?? Infinity) ||
+      a.code.localeCompare(b.code, undefined, { numeric: true })
+    );
+
+// Bags to replace now or soon
+export const needsReplacement = (forecast: GasifierForecast) =>
+  forecast.status === 'replace_now' || forecast.status === 'replace_soon';
+
+export default {
+  resolveReplacementPolicy,
+  groupGasifierMeasures,
+  fitDepletion,
+  projectReplacementDate,
+  forecastGasifier,
+  forecastGasifiers,
+  needsReplacement
+};
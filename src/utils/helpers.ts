@@ -72,5 +72,15 @@ export async function retry<T>(
   throw lastError!;
 }
 
+/**
+ * Delay before the next attempt of a persisted retry, doubling per failed attempt
+ * @param attempts Number of attempts that have failed so far
+ * @param baseDelay Delay after the first failure in ms
+ * @param maxDelay Upper bound on the delay in ms
+ */
+export function getBackoffDelay(attempts: number, baseDelay: number, maxDelay: number): number {
+  return Math.min(baseDelay * Math.pow(2, Math.max(attempts - 1, 0)), maxDelay);
+}
+
 // Export withRetry to be used throughout the app
 export { withRetry } from '../lib/api';
\ No newline at end of file
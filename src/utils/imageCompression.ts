@@ -0,0 +1,314 @@
+import { createLogger } from './logger';
+
+// Create a logger for image compression
+const logger = createLogger('ImageCompression');
+
+export type CompressedImageType = 'image/webp' | 'image/jpeg';
+
+export interface ImageCompressionOptions {
+  // Longest side of the stored image, in pixels
+  maxDimension: number;
+  // Longest side of the thumbnail, in pixels
+  thumbnailMaxDimension: number;
+  // Preferred output format; falls back to JPEG where the browser can't encode WebP
+  mimeType: CompressedImageType;
+  // Encoder quality between 0 and 1
+  quality: number;
+  thumbnailQuality: number;
+}
+
+export const DEFAULT_IMAGE_COMPRESSION_OPTIONS: ImageCompressionOptions = {
+  maxDimension: 2048,
+  thumbnailMaxDimension: 320,
+  mimeType: 'image/webp',
+  quality: 0.82,
+  thumbnailQuality: 0.7
+};
+
+export interface CompressedImage {
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  originalSize: number;
+}
+
+export type SniffedImageType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' | 'image/heic';
+
+// Work out the real format from the file's first bytes. Phones often label files as
+// HEIC that are actually JPEG (and vice versa), so the declared type can't be trusted.
+export const sniffImageType = (bytes: Uint8Array): SniffedImageType | null => {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (bytes.length >= 4 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return 'image/png';
+  }
+  if (bytes.length >= 3 && bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+    return 'image/gif';
+  }
+
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes.length >= 12 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (bytes.length >= 12 && ascii(4, 8) === 'ftyp' && ['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'].includes(ascii(8, 12))) {
+    return 'image/heic';
+  }
+
+  return null;
+};
+
+// Read the EXIF orientation (1-8) from a JPEG, or 1 if there isn't one
+export const readJpegOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const segmentLength = view.getUint16(offset + 2);
+
+    // Start of scan: image data follows, so there is no EXIF block
+    if (marker === 0xffda) break;
+
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      if (tiffStart + 8 > view.byteLength) return 1;
+
+      const littleEndian = view.getUint16(tiffStart) === 0x4949;
+      const ifdOffset = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+      if (ifdOffset + 2 > view.byteLength) return 1;
+
+      const entryCount = view.getUint16(ifdOffset, littleEndian);
+      for (let i = 0; i < entryCount; i++) {
+        const entryOffset = ifdOffset + 2 + i * 12;
+        if (entryOffset + 12 > view.byteLength) return 1;
+
+        // 0x0112 is the orientation tag
+        if (view.getUint16(entryOffset, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entryOffset + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+
+    offset += 2 + segmentLength;
+  }
+
+  return 1;
+};
+
+// Fit width and height within a maximum dimension, never scaling up
+export const getScaledDimensions = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+};
+
+// Canvas transform that draws an image stored with the given EXIF orientation upright.
+// Width and height are the dimensions of the image as stored.
+export const getOrientationTransform = (orientation: number, width: number, height: number): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+// Browsers that support the image-orientation CSS property also apply EXIF orientation
+// when decoding, in which case the decoded pixels are already upright
+const browserAppliesOrientation = () =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+export type DecodedImage = ImageBitmap | HTMLImageElement;
+
+// RGBA pixels laid out as in ImageData, so image analysis can run without a canvas
+export interface ImagePixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export const decodeImage = async (blob: Blob): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === 'function') {
+    return createImageBitmap(blob);
+  }
+
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const createCanvas = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Decode an image and read its pixels, scaled down to fit within maxDimension
+export const readImagePixels = async (blob: Blob, maxDimension: number): Promise<ImagePixels> => {
+  const image = await decodeImage(blob);
+  try {
+    const { width, height } = getScaledDimensions(image.width, image.height, maxDimension);
+    const canvas = createCanvas(width, height);
+    const context = canvas.getContext('2d', { willReadFrequently: true }) as
+      CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!context) {
+      throw new Error('Canvas is not available');
+    }
+
+    context.drawImage(image, 0, 0, width, height);
+    return context.getImageData(0, 0, width, height);
+  } finally {
+    if ('close' in image) image.close();
+  }
+};
+
+const canvasToBlob = (canvas: OffscreenCanvas | HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      type,
+      quality
+    );
+  });
+};
+
+// Draw the image upright at the given size and encode it
+const renderImage = async (
+  image: DecodedImage,
+  orientation: number,
+  maxDimension: number,
+  mimeType: CompressedImageType,
+  quality: number
+) => {
+  const sourceWidth = image.width;
+  const sourceHeight = image.height;
+  const swapsSides = orientation >= 5;
+
+  const upright = swapsSides
+    ? { width: sourceHeight, height: sourceWidth }
+    : { width: sourceWidth, height: sourceHeight };
+  const target = getScaledDimensions(upright.width, upright.height, maxDimension);
+
+  const canvas = createCanvas(target.width, target.height);
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  // Scale first, then apply the orientation in the source image's coordinate space
+  const scale = target.width / upright.width;
+  context.scale(scale, scale);
+  context.transform(...getOrientationTransform(orientation, sourceWidth, sourceHeight));
+  context.drawImage(image, 0, 0);
+
+  let blob = await canvasToBlob(canvas, mimeType, quality);
+
+  // Browsers that can't encode WebP silently return PNG; use JPEG instead
+  if (blob.type !== mimeType) {
+    blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+  }
+
+  return { blob, ...target };
+};
+
+// Resize and re-encode a photo, producing the image to upload and a thumbnail for previews
+export const compressImage = async (
+  file: File | Blob,
+  options: Partial<ImageCompressionOptions> = {}
+): Promise<CompressedImage> => {
+  const settings = { ...DEFAULT_IMAGE_COMPRESSION_OPTIONS, ...options };
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const actualType = sniffImageType(bytes);
+
+  if (!actualType) {
+    throw new Error('Unrecognized image format');
+  }
+
+  // Decode using the real format so HEIC-labelled JPEGs decode as JPEGs
+  const source = new Blob([bytes], { type: actualType });
+
+  let image: DecodedImage;
+  try {
+    image = await decodeImage(source);
+  } catch (error) {
+    logger.warn(`Failed to decode ${actualType} image`, error);
+    throw new Error(
+      actualType === 'image/heic'
+        ? 'HEIC photos are not supported by this browser. Set the camera format to "Most Compatible" and try again.'
+        : 'Failed to read image file'
+    );
+  }
+
+  const orientation = actualType === 'image/jpeg' && !browserAppliesOrientation()
+    ? readJpegOrientation(bytes)
+    : 1;
+
+  try {
+    const main = await renderImage(image, orientation, settings.maxDimension, settings.mimeType, settings.quality);
+    const thumbnail = await renderImage(image, orientation, settings.thumbnailMaxDimension, settings.mimeType, settings.thumbnailQuality);
+
+    logger.debug('Compressed image', {
+      originalType: file.type,
+      actualType,
+      orientation,
+      originalSize: file.size,
+      compressedSize: main.blob.size,
+      thumbnailSize: thumbnail.blob.size,
+      width: main.width,
+      height: main.height
+    });
+
+    return {
+      image: main.blob,
+      thumbnail: thumbnail.blob,
+      width: main.width,
+      height: main.height,
+      originalSize: file.size
+    };
+  } finally {
+    if ('close' in image) {
+      image.close();
+    }
+  }
+};
+
+// File extension for a compressed image type
+export const getImageExtension = (mimeType: string) =>
+  mimeType === 'image/webp' ? 'webp' : mimeType === 'image/png' ? 'png' : 'jpg';
+
+export default {
+  compressImage,
+  sniffImageType,
+  readJpegOrientation,
+  getScaledDimensions,
+  getOrientationTransform,
+  getImageExtension
+};
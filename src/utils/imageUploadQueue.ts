@@ -0,0 +1,363 @@
+import { supabase, supabaseUrl, supabaseAnonKey } from '../lib/supabaseClient';
+import offlineStorage, { ImageUploadJob } from './offlineStorage';
+import { getBackoffDelay } from './helpers';
+import { createLogger } from './logger';
+
+// Create a logger for the image upload queue
+const logger = createLogger('ImageUploadQueue');
+
+const BUCKET = 'petri-images';
+
+// Retry delays double after each failed attempt, starting here and capped below
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+// How long completed jobs are kept so repeated saves of the same form reuse the upload
+const COMPLETED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Progress of a single queued image, as shown in the UI
+export interface ImageUploadProgress {
+  tempImageKey: string;
+  observationId: string;
+  type: 'petri' | 'gasifier';
+  status: ImageUploadJob['status'];
+  // Fraction of the current attempt that has been sent, from 0 to 1
+  progress: number;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+}
+
+export interface EnqueueImageUploadParams {
+  tempImageKey: string;
+  siteId: string;
+  submissionId: string;
+  observationId: string;
+  type: 'petri' | 'gasifier';
+  // Stored in temp_images if the key is not there already
+  file?: File | Blob | null;
+}
+
+type ImageUploadListener = (uploads: ImageUploadProgress[]) => void;
+
+const listeners = new Set<ImageUploadListener>();
+let uploads: Record<string, ImageUploadProgress> = {};
+
+const notifyListeners = () => {
+  const snapshot = Object.values(uploads);
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const setProgress = (job: ImageUploadJob, progress: number) => {
+  uploads = {
+    ...uploads,
+    [job.tempImageKey]: {
+      tempImageKey: job.tempImageKey,
+      observationId: job.observationId,
+      type: job.type,
+      status: job.status,
+      progress,
+      attempts: job.attempts,
+      lastError: job.lastError,
+      nextAttemptAt: job.status === 'failed' ? job.nextAttemptAt : undefined
+    }
+  };
+  notifyListeners();
+};
+
+const clearProgress = (tempImageKey: string) => {
+  if (!uploads[tempImageKey]) return;
+  const { [tempImageKey]: _removed, ...rest } = uploads;
+  uploads = rest;
+  notifyListeners();
+};
+
+// Subscribe to upload progress; the listener is called immediately with the current state
+export const onImageUploadProgress = (listener: ImageUploadListener) => {
+  listeners.add(listener);
+  listener(Object.values(uploads));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Delay before the next attempt after the given number of failed attempts
+export const getRetryDelay = (attempts: number): number =>
+  getBackoffDelay(attempts, BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
+
+// Upload through the storage REST endpoint so the browser reports upload progress
+const uploadWithProgress = async (
+  blob: Blob,
+  storagePath: string,
+  onProgress: (progress: number) => void
+): Promise<void> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${supabaseUrl}/storage/v1/object/${BUCKET}/${storagePath}`);
+    xhr.setRequestHeader('Authorization', `Bearer ${session?.access_token || supabaseAnonKey}`);
+    xhr.setRequestHeader('apikey', supabaseAnonKey);
+    // Retries write to the same path, so a partially completed earlier attempt is overwritten
+    xhr.setRequestHeader('x-upsert', 'true');
+    xhr.setRequestHeader('Content-Type', blob.type || 'application/octet-stream');
+
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) {
+        onProgress(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}: ${xhr.responseText}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.onabort = () => reject(new Error('Upload was aborted'));
+
+    xhr.send(blob);
+  });
+};
+
+// Check that the object really exists in storage
+const confirmStoredObject = async (storagePath: string): Promise<boolean> => {
+  const separatorIndex = storagePath.lastIndexOf('/');
+  const folder = storagePath.substring(0, separatorIndex);
+  const name = storagePath.substring(separatorIndex + 1);
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .list(folder, { search: name });
+
+  if (error) throw error;
+
+  return !!data?.some(file => file.name === name);
+};
+
+// Point the observation at its uploaded image. If the session was completed while
+// the image was queued, the server recalculates its progress from this update.
+const attachImageToObservation = async (job: ImageUploadJob, imageUrl: string) => {
+  const observationId = await offlineStorage.resolveId(job.observationId);
+
+  if (offlineStorage.isTempId(observationId)) {
+    throw new Error('Observation has not been synced yet');
+  }
+
+  const { error } = await supabase
+    .from(job.type === 'petri' ? 'petri_observations' : 'gasifier_observations')
+    .update({ image_url: imageUrl })
+    .eq('observation_id', observationId);
+
+  if (error) throw error;
+};
+
+const processJob = async (job: ImageUploadJob) => {
+  // A previous attempt may have finished uploading before the app was closed
+  let stored = await confirmStoredObject(job.storagePath);
+
+  if (!stored) {
+    const blob = await offlineStorage.getTempImage(job.tempImageKey);
+    if (!blob) {
+      throw new Error('Image is no longer stored on this device');
+    }
+
+    const uploadingJob: ImageUploadJob = { ...job, status: 'uploading' };
+    await offlineStorage.saveImageUpload(uploadingJob);
+    setProgress(uploadingJob, 0);
+
+    await uploadWithProgress(blob, job.storagePath, progress => setProgress(uploadingJob, progress));
+
+    stored = await confirmStoredObject(job.storagePath);
+    if (!stored) {
+      throw new Error('Uploaded image could not be found in storage');
+    }
+  }
+
+  const { data: publicUrlData } = supabase.storage
+    .from(BUCKET)
+    .getPublicUrl(job.storagePath);
+
+  await attachImageToObservation(job, publicUrlData.publicUrl);
+
+  const completedJob: ImageUploadJob = {
+    ...job,
+    status: 'complete',
+    imageUrl: publicUrlData.publicUrl,
+    lastError: undefined,
+    completedAt: new Date().toISOString()
+  };
+  await offlineStorage.saveImageUpload(completedJob);
+  await offlineStorage.deleteTempImage(job.tempImageKey);
+  setProgress(completedJob, 1);
+
+  logger.info(`Uploaded ${job.type} image for observation ${job.observationId}`);
+
+  // Completed uploads only need to be shown briefly
+  setTimeout(() => clearProgress(job.tempImageKey), 5000);
+};
+
+let processingInProgress = false;
+let retryTimerId: number | undefined;
+
+// Wake the queue up again when the earliest failed job is due
+const scheduleNextAttempt = async () => {
+  if (retryTimerId) {
+    clearTimeout(retryTimerId);
+    retryTimerId = undefined;
+  }
+
+  const jobs = await offlineStorage.getImageUploads();
+  const nextAttemptTimes = jobs
+    .filter(job => job.status !== 'complete')
+    .map(job => Date.parse(job.nextAttemptAt));
+
+  if (nextAttemptTimes.length === 0) return;
+
+  const delay = Math.max(Math.min(...nextAttemptTimes) - Date.now(), 0);
+  retryTimerId = window.setTimeout(() => {
+    retryTimerId = undefined;
+    processImageUploads();
+  }, delay);
+};
+
+// Upload every queued image whose next attempt is due
+export const processImageUploads = async () => {
+  if (processingInProgress || !navigator.onLine) return;
+
+  processingInProgress = true;
+
+  try {
+    const jobs = await offlineStorage.getImageUploads();
+    const now = Date.now();
+
+    for (const queuedJob of jobs) {
+      // Re-read in case the job was cancelled or updated while earlier jobs were uploading
+      const job = await offlineStorage.getImageUpload(queuedJob.tempImageKey);
+      if (!job) continue;
+
+      if (job.status === 'complete') {
+        if (job.completedAt && now - Date.parse(job.completedAt) > COMPLETED_JOB_RETENTION_MS) {
+          await offlineStorage.deleteImageUpload(job.tempImageKey);
+        }
+        continue;
+      }
+
+      if (Date.parse(job.nextAttemptAt) > now) continue;
+
+      try {
+        await processJob(job);
+      } catch (error) {
+        const attempts = job.attempts + 1;
+        const failedJob: ImageUploadJob = {
+          ...job,
+          status: 'failed',
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error),
+          nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)).toISOString()
+        };
+
+        logger.warn(`Upload of ${job.tempImageKey} failed (attempt ${attempts})`, failedJob.lastError);
+        await offlineStorage.saveImageUpload(failedJob);
+        setProgress(failedJob, 0);
+      }
+    }
+  } catch (error) {
+    logger.error('Error processing image uploads:', error);
+  } finally {
+    processingInProgress = false;
+    await scheduleNextAttempt();
+  }
+};
+
+// Drop a queued upload, e.g. when the image is cleared from its form
+export const cancelImageUpload = async (tempImageKey: string) => {
+  const job = await offlineStorage.getImageUpload(tempImageKey);
+  if (job && job.status !== 'complete') {
+    await offlineStorage.deleteImageUpload(tempImageKey);
+    logger.debug(`Cancelled image upload ${tempImageKey}`);
+  }
+  clearProgress(tempImageKey);
+};
+
+// Queue an image for background upload. Returns the existing job if the image is already queued.
+// The caller starts the queue with processImageUploads once the observation itself is saved.
+export const enqueueImageUpload = async (params: EnqueueImageUploadParams): Promise<ImageUploadJob> => {
+  const { tempImageKey, siteId, submissionId, observationId, type, file } = params;
+  const existing = await offlineStorage.getImageUpload(tempImageKey);
+
+  if (existing) {
+    if (existing.status !== 'complete' && existing.observationId !== observationId) {
+      await offlineStorage.saveImageUpload({ ...existing, observationId });
+    }
+    return existing;
+  }
+
+  // A newer image for the same observation replaces any upload still waiting
+  const superseded = (await offlineStorage.getImageUploads()).filter(job =>
+    job.status !== 'complete' && job.type === type && job.observationId === observationId
+  );
+  for (const job of superseded) {
+    await cancelImageUpload(job.tempImageKey);
+  }
+
+  if (file && !(await offlineStorage.getTempImage(tempImageKey))) {
+    await offlineStorage.saveTempImage(tempImageKey, file);
+  }
+
+  const now = new Date().toISOString();
+  const job: ImageUploadJob = {
+    tempImageKey,
+    siteId,
+    submissionId,
+    observationId,
+    type,
+    storagePath: `${siteId}/${submissionId}/${type}-${observationId}-${Date.now()}`,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now
+  };
+
+  await offlineStorage.saveImageUpload(job);
+  setProgress(job, 0);
+  logger.debug(`Queued ${type} image upload`, { tempImageKey, observationId });
+
+  return job;
+};
+
+// Restore progress for uploads persisted before a reload and keep the queue running.
+// Returns a cleanup function.
+export const startImageUploadQueue = () => {
+  offlineStorage.getImageUploads()
+    .then(jobs => {
+      jobs
+        .filter(job => job.status !== 'complete')
+        .forEach(job => setProgress(job, 0));
+      return processImageUploads();
+    })
+    .catch(error => logger.error('Error resuming image uploads:', error));
+
+  const handleOnline = () => {
+    processImageUploads();
+  };
+  window.addEventListener('online', handleOnline);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (retryTimerId) {
+      clearTimeout(retryTimerId);
+      retryTimerId = undefined;
+    }
+  };
+};
+
+export default {
+  enqueueImageUpload,
+  cancelImageUpload,
+  processImageUploads,
+  startImageUploadQueue,
+  onImageUploadProgress,
+  getRetryDelay
+};
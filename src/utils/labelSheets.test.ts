@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { GasifierDefaults, PetriDefaults } from '../lib/types';
+import { SiteLabel, getLabelSheetLayout, paginateLabels, templateLabels } from './labelSheets';
+
+// Avery 5160 holds 30 labels, 3 across
+const layout = getLabelSheetLayout('avery-5160');
+
+const label = (code: string): SiteLabel => ({ kind: 'petri', code, siteName: 'North House', placement: null });
+
+const labels = (count: number) => Array.from({ length: count }, (_, index) => label(`P-${index + 1}`));
+
+const petri = (petri_code: string, placement?: PetriDefaults['placement']): PetriDefaults => ({
+  petri_code,
+  plant_type: 'Other Fresh Perishable',
+  fungicide_used: 'No',
+  surrounding_water_schedule: 'Daily',
+  placement
+});
+
+const gasifier = (gasifier_code: string): GasifierDefaults => ({
+  gasifier_code,
+  chemical_type: 'CLO2',
+  placement_height: 'High',
+  directional_placement: 'Front-Left',
+  placement_strategy: 'Perimeter Coverage'
+});
+
+describe('templateLabels', () => {
+  it('lists petri codes before gasifier codes, in template order', () => {
+    const result = templateLabels('North House', [petri('P-2', 'Center-Center'), petri('P-1')], [gasifier('G-1')], {
+      includePetri: true,
+      includeGasifier: true
+    });
+
+    expect(result).toEqual([
+      { kind: 'petri', code: 'P-2', siteName: 'North House', placement: 'Center-Center' },
+      { kind: 'petri', code: 'P-1', siteName: 'North House', placement: null },
+      { kind: 'gasifier', code: 'G-1', siteName: 'North House', placement: 'High · Front-Left' }
+    ]);
+  });
+
+  it('skips blank codes and trims the rest', () => {
+    const result = templateLabels('North House', [petri('  '), petri(' P-1 ')], null, {
+      includePetri: true,
+      includeGasifier: true
+    });
+
+    expect(result.map(item => item.code)).toEqual(['P-1']);
+  });
+
+  it('leaves out the kinds that were not asked for', () => {
+    const result = templateLabels('North House', [petri('P-1')], [gasifier('G-1')], {
+      includePetri: false,
+      includeGasifier: true
+    });
+
+    expect(result.map(item => item.code)).toEqual(['G-1']);
+  });
+});
+
+describe('paginateLabels', () => {
+  it('fills a sheet from the first position', () => {
+    const sheets = paginateLabels(labels(3), layout, { copies: 1, startPosition: 1 });
+
+    expect(sheets).toHaveLength(1);
+    expect(sheets[0].map(item => item?.code)).toEqual(['P-1', 'P-2', 'P-3']);
+  });
+
+  it('leaves the positions before the start position empty', () => {
+    const sheets = paginateLabels(labels(2), layout, { copies: 1, startPosition: 4 });
+
+    expect(sheets[0]).toEqual([null, null, null, label('P-1'), label('P-2')]);
+  });
+
+  it('moves labels that do not fit onto another sheet', () => {
+    const sheets = paginateLabels(labels(5), layout, { copies: 1, startPosition: 28 });
+
+    expect(sheets).toHaveLength(2);
+    expect(sheets[0]).toHaveLength(30);
+    expect(sheets[0].slice(27).map(item => item?.code)).toEqual(['P-1', 'P-2', 'P-3']);
+    expect(sheets[1].map(item => item?.code)).toEqual(['P-4', 'P-5']);
+  });
+
+  it('keeps copies of a code next to each other', () => {
+    const sheets = paginateLabels(labels(2), layout, { copies: 2, startPosition: 1 });
+
+    expect(sheets[0].map(item => item?.code)).toEqual(['P-1', 'P-1', 'P-2', 'P-2']);
+  });
+
+  it('starts on the last position when asked for one past the end', () => {
+    const sheets = paginateLabels(labels(2), layout, { copies: 1, startPosition: 40 });
+
+    expect(sheets[0].slice(0, 29).every(item => item === null)).toBe(true);
+    expect(sheets[0][29]?.code).toBe('P-1');
+    expect(sheets[1].map(item => item?.code)).toEqual(['P-2']);
+  });
+
+  it('has no sheets when there are no labels', () => {
+    expect(paginateLabels([], layout, { copies: 1, startPosition: 5 })).toEqual([]);
+  });
+});
@@ -0,0 +1,300 @@
+import QRCode from 'qrcode';
+import { GasifierDefaults, PetriDefaults } from '../lib/types';
+
+const MM_PER_INCH = 25.4;
+
+// Label sheets we print on, measured in millimetres from the manufacturer's templates
+export interface LabelSheetLayout {
+  id: string;
+  name: string;
+  description: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  // Space between neighbouring labels
+  columnGap: number;
+  rowGap: number;
+}
+
+const inches = (value: number) => value * MM_PER_INCH;
+
+export const LABEL_SHEET_LAYOUTS: LabelSheetLayout[] = [
+  {
+    id: 'avery-5160',
+    name: 'Avery 5160 / 8160',
+    description: '30 per sheet, 2⅝" × 1", US Letter',
+    pageWidth: inches(8.5),
+    pageHeight: inches(11),
+    columns: 3,
+    rows: 10,
+    labelWidth: inches(2.625),
+    labelHeight: inches(1),
+    marginTop: inches(0.5),
+    marginLeft: inches(0.1875),
+    columnGap: inches(0.125),
+    rowGap: 0
+  },
+  {
+    id: 'avery-5163',
+    name: 'Avery 5163 / 8163',
+    description: '10 per sheet, 4" × 2", US Letter',
+    pageWidth: inches(8.5),
+    pageHeight: inches(11),
+    columns: 2,
+    rows: 5,
+    labelWidth: inches(4),
+    labelHeight: inches(2),
+    marginTop: inches(0.5),
+    marginLeft: inches(0.15625),
+    columnGap: inches(0.1875),
+    rowGap: 0
+  },
+  {
+    id: 'avery-22806',
+    name: 'Avery 22806',
+    description: '12 per sheet, 2" × 2" square, US Letter',
+    pageWidth: inches(8.5),
+    pageHeight: inches(11),
+    columns: 3,
+    rows: 4,
+    labelWidth: inches(2),
+    labelHeight: inches(2),
+    marginTop: inches(0.625),
+    marginLeft: inches(0.625),
+    columnGap: inches(0.625),
+    rowGap: inches(0.5)
+  },
+  {
+    id: 'avery-l7160',
+    name: 'Avery L7160',
+    description: '21 per sheet, 63.5 × 38.1 mm, A4',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.2,
+    columnGap: 2.54,
+    rowGap: 0
+  }
+];
+
+export const DEFAULT_LABEL_SHEET_LAYOUT = LABEL_SHEET_LAYOUTS[0];
+
+export const getLabelSheetLayout = (id: string): LabelSheetLayout =>
+  LABEL_SHEET_LAYOUTS.find(layout => layout.id === id) || DEFAULT_LABEL_SHEET_LAYOUT;
+
+export const labelsPerSheet = (layout: LabelSheetLayout) => layout.columns * layout.rows;
+
+export interface SiteLabel {
+  kind: 'petri' | 'gasifier';
+  code: string;
+  siteName: string;
+  // Where the dish or bag goes, as set on the template
+  placement: string | null;
+}
+
+export interface LabelSheetOptions {
+  includePetri: boolean;
+  includeGasifier: boolean;
+  // Labels printed for each code
+  copies: number;
+  // First free position (1-based) on a partly used sheet
+  startPosition: number;
+}
+
+export const DEFAULT_LABEL_SHEET_OPTIONS: LabelSheetOptions = {
+  includePetri: true,
+  includeGasifier: true,
+  copies: 1,
+  startPosition: 1
+};
+
+// One label per petri and gasifier code on a site's template, in template order
+export const templateLabels = (
+  siteName: string,
+  petriDefaults: PetriDefaults[] | null | undefined,
+  gasifierDefaults: GasifierDefaults[] | null | undefined,
+  options: Pick<LabelSheetOptions, 'includePetri' | 'includeGasifier'>
+): SiteLabel[] => {
+  const petriLabels = options.includePetri
+    ? (petriDefaults || [])
+      .filter(petri => petri.petri_code?.trim())
+      .map(petri => ({
+        kind: 'petri' as const,
+        code: petri.petri_code.trim(),
+        siteName,
+        placement: petri.placement || null
+      }))
+    : [];
+
+  const gasifierLabels = options.includeGasifier
+    ? (gasifierDefaults || [])
+      .filter(gasifier => gasifier.gasifier_code?.trim())
+      .map(gasifier => ({
+        kind: 'gasifier' as const,
+        code: gasifier.gasifier_code.trim(),
+        siteName,
+        placement: [gasifier.placement_height, gasifier.directional_placement].filter(Boolean).join(' · ') || null
+      }))
+    : [];
+
+  return [...petriLabels, ...gasifierLabels];
+};
+
+/**
+ * Lays labels out over as many sheets as they need. Copies of a code sit next
+ * to each other, and positions before `startPosition` on the first sheet are
+ * left empty (null) so a partly used sheet can go back through the printer.
+ */
+export const paginateLabels = (
+  labels: SiteLabel[],
+  layout: LabelSheetLayout,
+  options: Pick<LabelSheetOptions, 'copies' | 'startPosition'>
+): (SiteLabel | null)[][] => {
+  const perSheet = labelsPerSheet(layout);
+  const copies = Math.max(1, Math.floor(options.copies));
+  const skipped = Math.min(Math.max(1, Math.floor(options.startPosition)), perSheet) - 1;
+
+  const positions: (SiteLabel | null)[] = [
+    ...Array<null>(skipped).fill(null),
+    ...labels.flatMap(label => Array<SiteLabel>(copies).fill(label))
+  ];
+  if (positions.length === skipped) return [];
+
+  const sheets: (SiteLabel | null)[][] = [];
+  for (let start = 0; start < positions.length; start += perSheet) {
+    sheets.push(positions.slice(start, start + perSheet));
+  }
+  return sheets;
+};
+
+// A QR code as an SVG path, one unit per module, so it scales without blurring
+export const qrCodeSvg = (text: string): string => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const quietZone = 2;
+  const size = modules.size + quietZone * 2;
+
+  let path = '';
+  for (let row = 0; row < modules.size; row++) {
+    for (let column = 0; column < modules.size; column++) {
+      if (modules.get(row, column)) path += `M${column + quietZone} ${row + quietZone}h1v1h-1z`;
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
+
+// Millimetres for CSS, rounded so inch conversions don't print long fractions
+const mm = (value: number) => `${Number(value.toFixed(2))}mm`;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Space between sheets when the page is viewed on screen rather than printed
+const SCREEN_SHEET_GAP_MM = 6;
+
+// Height of the sheets as shown on screen, for sizing a preview of the page
+export const screenHeight = (layout: LabelSheetLayout, sheetCount: number) =>
+  sheetCount * (layout.pageHeight + SCREEN_SHEET_GAP_MM);
+
+/**
+ * A standalone print-ready page with every sheet at its true size. Labels are
+ * placed absolutely in millimetres so they line up with the sheet's die cuts;
+ * print with margins set to none and scaling at 100%.
+ */
+export const buildLabelSheetHtml = (
+  sheets: (SiteLabel | null)[][],
+  layout: LabelSheetLayout,
+  title: string
+): string => {
+  const padding = Math.min(2, layout.labelHeight * 0.06);
+  // Labels much wider than tall put the code beside the QR, the rest stack them
+  const isWide = layout.labelWidth >= layout.labelHeight * 1.6;
+  const qrSize = isWide
+    ? layout.labelHeight - padding * 2
+    : Math.min(layout.labelWidth, layout.labelHeight) * 0.6;
+  const codeSize = layout.labelHeight < 30 ? 10 : 14;
+  const metaSize = layout.labelHeight < 30 ? 6.5 : 8;
+
+  const qrByCode = new Map<string, string>();
+  const qrFor = (code: string) => {
+    if (!qrByCode.has(code)) qrByCode.set(code, qrCodeSvg(code));
+    return qrByCode.get(code)!;
+  };
+
+  // Positions past the end of a sheet's labels are free; nulls within it were skipped
+  const renderPosition = (sheet: (SiteLabel | null)[], index: number) => {
+    const column = index % layout.columns;
+    const row = Math.floor(index / layout.columns);
+    const left = layout.marginLeft + column * (layout.labelWidth + layout.columnGap);
+    const top = layout.marginTop + row * (layout.labelHeight + layout.rowGap);
+    const position = `style="left:${mm(left)};top:${mm(top)}"`;
+
+    const label = sheet[index];
+    if (!label) {
+      return `<div class="label ${index < sheet.length ? 'skipped' : 'free'}" ${position}></div>`;
+    }
+
+    const kind = label.kind === 'petri' ? 'Petri' : 'Gasifier';
+    return `<div class="label${isWide ? '' : ' stacked'}" ${position}>` +
+      `<div class="qr">${qrFor(label.code)}</div>` +
+      '<div class="text">' +
+      `<div class="code">${escapeHtml(label.code)}</div>` +
+      `<div class="meta">${escapeHtml(label.siteName)}</div>` +
+      `<div class="meta">${kind}${label.placement ? ` · ${escapeHtml(label.placement)}` : ''}</div>` +
+      '</div></div>';
+  };
+
+  const body = sheets
+    .map(sheet => {
+      const positions = Array.from({ length: labelsPerSheet(layout) }, (_, index) => renderPosition(sheet, index));
+      return `<section class="sheet">${positions.join('')}</section>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>
+@page { size: ${mm(layout.pageWidth)} ${mm(layout.pageHeight)}; margin: 0; }
+* { box-sizing: border-box; }
+html, body { margin: 0; padding: 0; }
+body { font-family: 'Inter', system-ui, sans-serif; color: #111827; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.sheet { position: relative; width: ${mm(layout.pageWidth)}; height: ${mm(layout.pageHeight)}; overflow: hidden; background: #fff; break-after: page; }
+.sheet:last-child { break-after: auto; }
+.label { position: absolute; width: ${mm(layout.labelWidth)}; height: ${mm(layout.labelHeight)}; padding: ${mm(padding)}; display: flex; align-items: center; gap: ${mm(padding)}; overflow: hidden; }
+.label.stacked { flex-direction: column; justify-content: center; text-align: center; }
+.qr { flex-shrink: 0; width: ${mm(qrSize)}; height: ${mm(qrSize)}; }
+.qr svg { display: block; width: 100%; height: 100%; }
+.text { min-width: 0; max-width: 100%; }
+.code { font-size: ${codeSize}pt; font-weight: 700; line-height: 1.15; overflow-wrap: anywhere; }
+.meta { font-size: ${metaSize}pt; line-height: 1.25; color: #374151; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+@media screen {
+  body { background: #e5e7eb; padding-bottom: 1px; }
+  .sheet { margin: 0 auto ${mm(SCREEN_SHEET_GAP_MM)}; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.2); }
+  .label { outline: 1px dashed #d1d5db; }
+  .label.skipped { background: #f3f4f6; }
+}
+</style></head><body>${body}</body></html>`;
+};
+
+export default {
+  LABEL_SHEET_LAYOUTS,
+  getLabelSheetLayout,
+  labelsPerSheet,
+  templateLabels,
+  paginateLabels,
+  qrCodeSvg,
+  screenHeight,
+  buildLabelSheetHtml
+};
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MigrationContext,
+  OfflineMigration,
+  OFFLINE_MIGRATIONS,
+  runMigrations,
+  validateMigrations,
+  getLatestVersion
+} from './offlineMigrations';
+
+// In-memory stand-in for an IndexedDB database during an upgrade
+const createMemoryContext = (initialStores: Record<string, Record<string, unknown>> = {}) => {
+  const stores = new Map<string, Map<IDBValidKey, unknown>>(
+    Object.entries(initialStores).map(([name, records]) => [name, new Map(Object.entries(records))])
+  );
+  const indexes = new Map<string, string[]>();
+
+  const context: MigrationContext = {
+    hasStore: storeName => stores.has(storeName),
+    createStore: storeName => {
+      if (!stores.has(storeName)) stores.set(storeName, new Map());
+    },
+    deleteStore: storeName => {
+      stores.delete(storeName);
+    },
+    createIndex: (storeName, indexName) => {
+      if (!stores.has(storeName)) throw new Error(`No store ${storeName}`);
+      indexes.set(storeName, [...(indexes.get(storeName) || []), indexName]);
+    },
+    transformRecords: async (storeName, transform) => {
+      const store = stores.get(storeName);
+      if (!store) throw new Error(`No store ${storeName}`);
+
+      let changed = 0;
+      for (const [key, value] of [...store.entries()]) {
+        const result = transform(value, key);
+        if (result === null) {
+          store.delete(key);
+          changed++;
+        } else if (result !== undefined) {
+          store.set(key, result);
+          changed++;
+        }
+      }
+      return changed;
+    }
+  };
+
+  return { context, stores, indexes };
+};
+
+describe('offline migration registry', () => {
+  it('has contiguous versions starting at 1', () => {
+    expect(() => validateMigrations(OFFLINE_MIGRATIONS)).not.toThrow();
+    expect(getLatestVersion(OFFLINE_MIGRATIONS)).toBe(OFFLINE_MIGRATIONS.length);
+  });
+
+  it('creates every store when starting from an empty database', async () => {
+    const { context, stores, indexes } = createMemoryContext();
+
+    const applied = await runMigrations(OFFLINE_MIGRATIONS, context, 0);
+
+    expect(applied).toEqual(OFFLINE_MIGRATIONS.map(migration => migration.version));
+    expect([...stores.keys()].sort()).toEqual([
+      'dead_letters',
+      'id_mappings',
+      'image_uploads',
+      'outbox',
+      'query_cache',
+      'submission_sessions',
+      'submissions',
+      'temp_images'
+    ]);
+    expect(indexes.get('submissions')).toEqual(['by-site', 'by-status']);
+  });
+
+  it('only applies migrations newer than the existing version', async () => {
+    const { context } = createMemoryContext({ submissions: {} });
+
+    const applied = await runMigrations(OFFLINE_MIGRATIONS, context, 5);
+
+    expect(applied).toEqual([6, 7, 8]);
+  });
+
+  it('stamps existing submissions with storedAt without overwriting existing stamps', async () => {
+    const { context, stores } = createMemoryContext({
+      submissions: {
+        a: { submission: { submission_id: 'a' }, status: 'synced' },
+        b: { submission: { submission_id: 'b' }, status: 'pending', storedAt: '2025-01-01T00:00:00.000Z' }
+      }
+    });
+
+    await runMigrations(OFFLINE_MIGRATIONS, context, 5);
+
+    const submissions = stores.get('submissions')!;
+    expect((submissions.get('a') as { storedAt?: string }).storedAt).toEqual(expect.any(String));
+    expect((submissions.get('b') as { storedAt?: string }).storedAt).toBe('2025-01-01T00:00:00.000Z');
+  });
+
+  it('supports transforms that rewrite and delete records', async () => {
+    const migrations: OfflineMigration[] = [
+      { version: 1, description: 'Create store', up: context => context.createStore('items') },
+      {
+        version: 2,
+        description: 'Drop empty items and upper-case names',
+        up: async context => {
+          await context.transformRecords('items', item => (item.name ? { ...item, name: item.name.toUpperCase() } : null));
+        }
+      }
+    ];
+    const { context, stores } = createMemoryContext({
+      items: { one: { name: 'petri' }, two: { name: '' } }
+    });
+
+    await runMigrations(migrations, context, 1);
+
+    expect([...stores.get('items')!.entries()]).toEqual([['one', { name: 'PETRI' }]]);
+  });
+
+  it('rejects registries with gaps or out-of-order versions', async () => {
+    const noop = () => undefined;
+    const withGap: OfflineMigration[] = [
+      { version: 1, description: 'First', up: noop },
+      { version: 3, description: 'Third', up: noop }
+    ];
+
+    expect(() => validateMigrations(withGap)).toThrow(/expected 2/);
+    await expect(runMigrations(withGap, createMemoryContext().context, 0)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,174 @@
+import { IDBPDatabase, IDBPTransaction } from 'idb';
+import { createLogger } from './logger';
+
+// Create a logger for offline storage migrations
+const logger = createLogger('OfflineMigrations');
+
+export interface StoreOptions {
+  keyPath?: string;
+  autoIncrement?: boolean;
+}
+
+// Operations a migration may perform. Kept independent of IndexedDB so the
+// registry can be exercised against an in-memory implementation in tests.
+export interface MigrationContext {
+  hasStore: (storeName: string) => boolean;
+  createStore: (storeName: string, options?: StoreOptions) => void;
+  deleteStore: (storeName: string) => void;
+  createIndex: (storeName: string, indexName: string, keyPath: string) => void;
+  // Rewrite every record in a store. The transform returns the new value, undefined
+  // to leave the record unchanged, or null to delete it. Resolves to the number of
+  // records changed or deleted.
+  transformRecords: (storeName: string, transform: (value: any, key: IDBValidKey) => unknown) => Promise<number>;
+}
+
+export interface OfflineMigration {
+  version: number;
+  description: string;
+  up: (context: MigrationContext) => void | Promise<void>;
+}
+
+// Every schema change to the offline database, in order. Add new entries at the end;
+// never edit one that has shipped.
+export const OFFLINE_MIGRATIONS: OfflineMigration[] = [
+  {
+    version: 1,
+    description: 'Create submissions store',
+    up: context => {
+      context.createStore('submissions', { keyPath: 'submission.submission_id' });
+      context.createIndex('submissions', 'by-site', 'submission.site_id');
+      context.createIndex('submissions', 'by-status', 'status');
+    }
+  },
+  {
+    version: 2,
+    description: 'Create temp_images store',
+    up: context => {
+      context.createStore('temp_images');
+    }
+  },
+  {
+    version: 3,
+    description: 'Create submission_sessions store',
+    up: context => {
+      context.createStore('submission_sessions', { keyPath: 'session_id' });
+    }
+  },
+  {
+    version: 4,
+    description: 'Create outbox and id_mappings stores',
+    up: context => {
+      context.createStore('outbox', { keyPath: 'seq', autoIncrement: true });
+      context.createStore('id_mappings', { keyPath: 'tempId' });
+    }
+  },
+  {
+    version: 5,
+    description: 'Create image_uploads store',
+    up: context => {
+      context.createStore('image_uploads', { keyPath: 'tempImageKey' });
+    }
+  },
+  {
+    version: 6,
+    description: 'Stamp stored submissions with storedAt so eviction can remove the oldest first',
+    up: async context => {
+      const storedAt = new Date().toISOString();
+      await context.transformRecords('submissions', record =>
+        record.storedAt ? undefined : { ...record, storedAt }
+      );
+    }
+  },
+  {
+    version: 7,
+    description: 'Create dead_letters store for items that repeatedly fail to sync',
+    up: context => {
+      context.createStore('dead_letters', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 8,
+    description: 'Create query_cache store for the persisted React Query cache',
+    up: context => {
+      context.createStore('query_cache', { keyPath: 'userId' });
+    }
+  }
+];
+
+// Check that versions start at 1 and increase by exactly one
+export const validateMigrations = (migrations: OfflineMigration[]) => {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Offline migration "${migration.description}" has version ${migration.version}, expected ${index + 1}`
+      );
+    }
+  });
+};
+
+export const getLatestVersion = (migrations: OfflineMigration[]): number =>
+  migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+// Apply every migration newer than oldVersion, up to newVersion. Returns the versions applied.
+export const runMigrations = async (
+  migrations: OfflineMigration[],
+  context: MigrationContext,
+  oldVersion: number,
+  newVersion: number = getLatestVersion(migrations)
+): Promise<number[]> => {
+  validateMigrations(migrations);
+
+  const applied: number[] = [];
+
+  for (const migration of migrations) {
+    if (migration.version <= oldVersion || migration.version > newVersion) continue;
+
+    logger.info(`Applying offline migration ${migration.version}: ${migration.description}`);
+    await migration.up(context);
+    applied.push(migration.version);
+  }
+
+  return applied;
+};
+
+// Migration context backed by an IndexedDB versionchange transaction
+export const createIDBMigrationContext = (
+  db: IDBPDatabase<any>,
+  transaction: IDBPTransaction<any, any, 'versionchange'>
+): MigrationContext => ({
+  hasStore: storeName => db.objectStoreNames.contains(storeName),
+  createStore: (storeName, options) => {
+    if (!db.objectStoreNames.contains(storeName)) {
+      db.createObjectStore(storeName, options);
+    }
+  },
+  deleteStore: storeName => {
+    if (db.objectStoreNames.contains(storeName)) {
+      db.deleteObjectStore(storeName);
+    }
+  },
+  createIndex: (storeName, indexName, keyPath) => {
+    const store = transaction.objectStore(storeName);
+    if (!store.indexNames.contains(indexName)) {
+      store.createIndex(indexName, keyPath);
+    }
+  },
+  transformRecords: async (storeName, transform) => {
+    let changed = 0;
+    let cursor = await transaction.objectStore(storeName).openCursor();
+
+    while (cursor) {
+      const result = transform(cursor.value, cursor.key);
+      if (result === null) {
+        await cursor.delete();
+        changed++;
+      } else if (result !== undefined) {
+        await cursor.update(result);
+        changed++;
+      }
+      cursor = await cursor.continue();
+    }
+
+    return changed;
+  }
+});
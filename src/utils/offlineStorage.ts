@@ -1,20 +1,144 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Submission, PetriObservation, GasifierObservation } from '../lib/types';
-import { SubmissionSession } from '../types/session';
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction } from 'idb';
+import { v4 as uuidv4 } from 'uuid';
+import { DehydratedState } from '@tanstack/react-query';
+import { Submission, PetriObservation, GasifierObservation, PetriDefaults, GasifierDefaults } from '../lib/types';
+import { SubmissionSession, InitialSubmissionData } from '../types/session';
+import { PetriFormData, GasifierFormData, ObservationConflict } from './submissionUtils';
 import { createLogger } from './logger';
+import { OFFLINE_MIGRATIONS, runMigrations, getLatestVersion, createIDBMigrationContext } from './offlineMigrations';
 
 // Create a logger for offlineStorage
 const logger = createLogger('OfflineStorage');
 
+// Prefix for IDs generated on the device before the server has assigned real ones
+const TEMP_ID_PREFIX = 'offline-';
+
+// Observation data as it is queued in the outbox (files live in temp_images instead)
+export type QueuedPetriFormData = Omit<PetriFormData, 'imageFile'>;
+export type QueuedGasifierFormData = Omit<GasifierFormData, 'imageFile'>;
+
+// Payloads for the operations recorded in the outbox
+export interface CreateSessionOperationPayload {
+  tempSubmissionId: string;
+  tempSessionId: string;
+  siteId: string;
+  programId: string;
+  submissionData: InitialSubmissionData;
+  petriTemplates?: PetriDefaults[];
+  gasifierTemplates?: GasifierDefaults[];
+  // Observations generated locally from the templates, used to map temp IDs after replay
+  templateObservations: { type: 'petri' | 'gasifier'; tempId: string; code: string }[];
+}
+
+export interface UpdateObservationOperationPayload {
+  submissionId: string;
+  siteId: string;
+  observation:
+    | { type: 'petri'; formData: QueuedPetriFormData }
+    | { type: 'gasifier'; formData: QueuedGasifierFormData };
+}
+
+export interface UpdateSubmissionOperationPayload {
+  submissionId: string;
+  siteId: string;
+  fields: Pick<
+    Submission,
+    'temperature' | 'humidity' | 'airflow' | 'odor_distance' | 'weather' | 'notes' | 'indoor_temperature' | 'indoor_humidity'
+  >;
+}
+
+export interface CompleteSessionOperationPayload {
+  sessionId: string;
+  // Lets the completion be set aside with its submission's edits if they cannot sync
+  submissionId?: string;
+}
+
+interface OutboxOperationBase {
+  seq?: number;
+  operationId: string;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+  nextRetryAt?: string;
+  // Set when someone else saved the observation first; the operation then waits to be merged
+  conflict?: ObservationConflict;
+}
+
+export type OutboxOperation = OutboxOperationBase & (
+  | { type: 'createSession'; payload: CreateSessionOperationPayload }
+  | { type: 'updateSubmission'; payload: UpdateSubmissionOperationPayload }
+  | { type: 'updateObservation'; payload: UpdateObservationOperationPayload }
+  | { type: 'completeSession'; payload: CompleteSessionOperationPayload }
+);
+
+// An operation as passed to enqueueOutboxOperation, before bookkeeping fields are filled in
+type WithoutBookkeeping<T> = T extends OutboxOperation ? Omit<T, keyof OutboxOperationBase> : never;
+export type NewOutboxOperation = WithoutBookkeeping<OutboxOperation>;
+
+export interface IdMapping {
+  tempId: string;
+  serverId: string;
+  entity: 'submission' | 'session' | 'observation';
+}
+
+// A submission kept on the device
+export interface OfflineSubmissionRecord {
+  submission: Submission;
+  petriObservations: PetriObservation[];
+  gasifierObservations: GasifierObservation[];
+  // 'draft' records are submissions started or edited offline, owned by the outbox
+  status: 'pending' | 'synced' | 'draft';
+  // When the record was last written, used to evict the oldest synced data first
+  storedAt?: string;
+  // Sync bookkeeping for pending records
+  attempts?: number;
+  lastError?: string;
+  nextRetryAt?: string;
+}
+
+// An item that kept failing to sync, set aside so it no longer blocks the queue
+export type DeadLetterItem = {
+  id: string;
+  attempts: number;
+  lastError: string;
+  deadLetteredAt: string;
+} & (
+  | { source: 'submission'; record: OfflineSubmissionRecord }
+  | { source: 'outbox'; record: OutboxOperation }
+);
+
+// The React Query cache as saved for one user
+export interface PersistedQueryCache {
+  userId: string;
+  // Bumped when the shape of cached data changes so older caches are discarded
+  version: number;
+  persistedAt: string;
+  state: DehydratedState;
+}
+
+// An image waiting to be uploaded to storage in the background
+export interface ImageUploadJob {
+  tempImageKey: string;
+  siteId: string;
+  submissionId: string;
+  observationId: string;
+  type: 'petri' | 'gasifier';
+  // Fixed when queued so retries overwrite the same object instead of creating new ones
+  storagePath: string;
+  // Completed jobs are kept for a while so re-saving the same form reuses the uploaded image
+  status: 'pending' | 'uploading' | 'failed' | 'complete';
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  imageUrl?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
 interface GRMTekDB extends DBSchema {
   submissions: {
     key: string;
-    value: {
-      submission: Submission;
-      petriObservations: PetriObservation[];
-      gasifierObservations: GasifierObservation[];
-      status: 'pending' | 'synced';
-    };
+    value: OfflineSubmissionRecord;
     indexes: { 'by-site': string; 'by-status': string };
   };
   temp_images: {
@@ -25,34 +149,44 @@ interface GRMTekDB extends DBSchema {
     key: string;
     value: SubmissionSession;
   };
+  outbox: {
+    key: number;
+    value: OutboxOperation;
+  };
+  id_mappings: {
+    key: string;
+    value: IdMapping;
+  };
+  image_uploads: {
+    key: string;
+    value: ImageUploadJob;
+  };
+  dead_letters: {
+    key: string;
+    value: DeadLetterItem;
+  };
+  query_cache: {
+    key: string;
+    value: PersistedQueryCache;
+  };
 }
 
 let dbPromise: Promise<IDBPDatabase<GRMTekDB>>;
 
 const initDB = async () => {
   if (!dbPromise) {
-    dbPromise = openDB<GRMTekDB>('grmtek-offline-storage', 3, {
-      upgrade(db, oldVersion, newVersion) {
-        // Create submissions store if it doesn't exist
-        if (oldVersion < 1) {
-          const submissionsStore = db.createObjectStore('submissions', {
-            keyPath: 'submission.submission_id'
-          });
-          submissionsStore.createIndex('by-site', 'submission.site_id');
-          submissionsStore.createIndex('by-status', 'status');
-        }
-        
-        // Create temp_images store if version upgrade to 2
-        if (oldVersion < 2) {
-          db.createObjectStore('temp_images');
-        }
-
-        // Create submission_sessions store if version upgrade to 3
-        if (oldVersion < 3) {
-          db.createObjectStore('submission_sessions', {
-            keyPath: 'session_id'
-          });
-        }
+    dbPromise = openDB<GRMTekDB>('grmtek-offline-storage', getLatestVersion(OFFLINE_MIGRATIONS), {
+      upgrade(db, oldVersion, newVersion, transaction) {
+        // Schema changes are declared in offlineMigrations.ts
+        runMigrations(
+          OFFLINE_MIGRATIONS,
+          createIDBMigrationContext(db as IDBPDatabase<any>, transaction as IDBPTransaction<any, any, 'versionchange'>),
+          oldVersion,
+          newVersion ?? undefined
+        ).catch(error => {
+          logger.error('Offline storage migration failed:', error);
+          transaction.abort();
+        });
       }
     });
   }
@@ -70,7 +204,8 @@ export const saveSubmissionOffline = async (
     submission,
     petriObservations,
     gasifierObservations,
-    status: 'pending'
+    status: 'pending',
+    storedAt: new Date().toISOString()
   });
 };
 
@@ -86,6 +221,7 @@ export const markSubmissionSynced = async (submissionId: string) => {
   const record = await db.get('submissions', submissionId);
   if (record) {
     record.status = 'synced';
+    record.storedAt = new Date().toISOString();
     await db.put('submissions', record);
   }
 };
@@ -150,7 +286,8 @@ export const updateOfflineSubmission = async (
   // Add the updated record with the new ID
   await db.put('submissions', {
     ...updatedRecord,
-    status: 'synced' // Mark as synced
+    status: 'synced', // Mark as synced
+    storedAt: new Date().toISOString()
   });
   
   return true;
@@ -196,6 +333,31 @@ export const getAllSessions = async (): Promise<SubmissionSession[]> => {
 
 // Functions for temporary image storage
 
+// Key under which the thumbnail of a temp image is kept. The prefix keeps thumbnails
+// out of lookups that match image keys by their submission prefix.
+export const getTempThumbnailKey = (key: string): string => `thumb:${key}`;
+
+// Save a temporary image together with its thumbnail
+export const saveTempImageWithThumbnail = async (key: string, blob: Blob, thumbnail: Blob): Promise<string> => {
+  const db = await initDB();
+  logger.debug(`Saving image and thumbnail with key: ${key}`, {
+    blobSize: blob.size,
+    thumbnailSize: thumbnail.size,
+    blobType: blob.type
+  });
+  const tx = db.transaction('temp_images', 'readwrite');
+  await tx.store.put(blob, key);
+  await tx.store.put(thumbnail, getTempThumbnailKey(key));
+  await tx.done;
+  return key;
+};
+
+// Get the thumbnail of a temporary image, if one was stored
+export const getTempThumbnail = async (key: string): Promise<Blob | undefined> => {
+  const db = await initDB();
+  return db.get('temp_images', getTempThumbnailKey(key));
+};
+
 // Save a temporary image with a key
 export const saveTempImage = async (key: string, blob: Blob): Promise<string> => {
   const db = await initDB();
@@ -227,7 +389,10 @@ export const getTempImage = async (key: string): Promise<Blob | undefined> => {
 export const deleteTempImage = async (key: string): Promise<void> => {
   const db = await initDB();
   logger.debug(`Deleting image with key: ${key}`);
-  await db.delete('temp_images', key);
+  const tx = db.transaction('temp_images', 'readwrite');
+  await tx.store.delete(key);
+  await tx.store.delete(getTempThumbnailKey(key));
+  await tx.done;
 };
 
 // Clear all temporary images for a specific submission
@@ -296,6 +461,305 @@ export const getAllTempImages = async (): Promise<{ key: string; blob: Blob }[]>
   return result;
 };
 
+// Functions for the offline outbox
+
+// Generate an ID for a record created while offline
+export const createTempId = (): string => `${TEMP_ID_PREFIX}${uuidv4()}`;
+
+// Check whether an ID was generated on the device and not yet assigned by the server
+export const isTempId = (id?: string | null): boolean => !!id && id.startsWith(TEMP_ID_PREFIX);
+
+// Append an operation to the end of the outbox
+export const enqueueOutboxOperation = async (operation: NewOutboxOperation): Promise<OutboxOperation> => {
+  const db = await initDB();
+  const record = {
+    ...operation,
+    operationId: uuidv4(),
+    createdAt: new Date().toISOString(),
+    attempts: 0
+  } as OutboxOperation;
+  
+  record.seq = await db.add('outbox', record);
+  logger.debug(`Queued ${record.type} operation`, { seq: record.seq, operationId: record.operationId });
+  return record;
+};
+
+// Get all queued operations in the order they were recorded
+export const getOutboxOperations = async (): Promise<OutboxOperation[]> => {
+  const db = await initDB();
+  return db.getAll('outbox');
+};
+
+// Update a queued operation (e.g. to record a failed attempt)
+export const updateOutboxOperation = async (operation: OutboxOperation): Promise<void> => {
+  const db = await initDB();
+  await db.put('outbox', operation);
+};
+
+// Remove an operation once it has been replayed
+export const removeOutboxOperation = async (seq: number): Promise<void> => {
+  const db = await initDB();
+  await db.delete('outbox', seq);
+};
+
+// Count the operations waiting to be replayed
+export const getOutboxCount = async (): Promise<number> => {
+  const db = await initDB();
+  return db.count('outbox');
+};
+
+// Record the server ID that replaced a temporary ID
+export const saveIdMapping = async (mapping: IdMapping): Promise<void> => {
+  const db = await initDB();
+  await db.put('id_mappings', mapping);
+};
+
+// Record several mappings at once, so either all of them are kept or none are
+export const saveIdMappings = async (mappings: IdMapping[]): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction('id_mappings', 'readwrite');
+  await Promise.all(mappings.map(mapping => tx.store.put(mapping)));
+  await tx.done;
+};
+
+// Get all known temporary-to-server ID mappings
+export const getIdMappings = async (): Promise<Record<string, string>> => {
+  const db = await initDB();
+  const mappings = await db.getAll('id_mappings');
+  return Object.fromEntries(mappings.map(m => [m.tempId, m.serverId]));
+};
+
+// Resolve an ID to its server ID if it was created offline and has since been synced
+export const resolveId = async (id: string): Promise<string> => {
+  if (!isTempId(id)) return id;
+  const db = await initDB();
+  const mapping = await db.get('id_mappings', id);
+  return mapping?.serverId || id;
+};
+
+// Save a submission started or edited offline along with its observations
+export const saveDraftSubmission = async (
+  submission: Submission,
+  petriObservations: PetriObservation[] = [],
+  gasifierObservations: GasifierObservation[] = []
+) => {
+  const db = await initDB();
+  await db.put('submissions', {
+    submission,
+    petriObservations,
+    gasifierObservations,
+    status: 'draft',
+    storedAt: new Date().toISOString()
+  });
+};
+
+// Get a submission started or edited offline
+export const getDraftSubmission = async (submissionId: string) => {
+  const db = await initDB();
+  const record = await db.get('submissions', submissionId);
+  return record?.status === 'draft' ? record : undefined;
+};
+
+// Get every draft, including edits to synced submissions made while offline
+export const getDraftSubmissions = async (): Promise<OfflineSubmissionRecord[]> => {
+  const db = await initDB();
+  return db.getAllFromIndex('submissions', 'by-status', 'draft');
+};
+
+// Delete a draft once the server has the submission
+export const deleteDraftSubmission = async (submissionId: string): Promise<void> => {
+  const db = await initDB();
+  await db.delete('submissions', submissionId);
+};
+
+// Replace a locally stored session with its server copy
+export const replaceSession = async (oldSessionId: string, session: SubmissionSession): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction('submission_sessions', 'readwrite');
+  await tx.store.delete(oldSessionId);
+  await tx.store.put(session);
+  await tx.done;
+};
+
+// Rename temp image keys that embed a temporary ID so they match the server ID
+export const remapTempImageKeys = async (oldId: string, newId: string): Promise<number> => {
+  const db = await initDB();
+  const tx = db.transaction('temp_images', 'readwrite');
+  const allKeys = await tx.store.getAllKeys();
+  let remappedCount = 0;
+  
+  for (const key of allKeys) {
+    if (typeof key === 'string' && key.includes(oldId)) {
+      const blob = await tx.store.get(key);
+      if (blob) {
+        await tx.store.put(blob, key.split(oldId).join(newId));
+        await tx.store.delete(key);
+        remappedCount++;
+      }
+    }
+  }
+  
+  await tx.done;
+  logger.debug(`Remapped ${remappedCount} temp image keys from ${oldId} to ${newId}`);
+  return remappedCount;
+};
+
+// Functions for the background image upload queue
+
+// Save an image upload job (new or updated)
+export const saveImageUpload = async (job: ImageUploadJob): Promise<void> => {
+  const db = await initDB();
+  await db.put('image_uploads', job);
+};
+
+// Get the upload job for a temp image, if one is queued
+export const getImageUpload = async (tempImageKey: string): Promise<ImageUploadJob | undefined> => {
+  const db = await initDB();
+  return db.get('image_uploads', tempImageKey);
+};
+
+// Get all queued image uploads
+export const getImageUploads = async (): Promise<ImageUploadJob[]> => {
+  const db = await initDB();
+  return db.getAll('image_uploads');
+};
+
+// Remove an upload job that is no longer needed
+export const deleteImageUpload = async (tempImageKey: string): Promise<void> => {
+  const db = await initDB();
+  await db.delete('image_uploads', tempImageKey);
+};
+
+// Functions for sync bookkeeping and the dead-letter store
+
+// Get a stored submission record by ID, whatever its status
+export const getOfflineSubmission = async (submissionId: string): Promise<OfflineSubmissionRecord | undefined> => {
+  const db = await initDB();
+  return db.get('submissions', submissionId);
+};
+
+// Save a submission record as is (e.g. to record a failed sync attempt)
+export const putOfflineSubmission = async (record: OfflineSubmissionRecord): Promise<void> => {
+  const db = await initDB();
+  await db.put('submissions', record);
+};
+
+// Delete a stored submission record
+export const deleteOfflineSubmission = async (submissionId: string): Promise<void> => {
+  const db = await initDB();
+  await db.delete('submissions', submissionId);
+};
+
+// Get a queued outbox operation by its sequence number
+export const getOutboxOperation = async (seq: number): Promise<OutboxOperation | undefined> => {
+  const db = await initDB();
+  return db.get('outbox', seq);
+};
+
+// Set an item aside in the dead-letter store
+export const saveDeadLetter = async (item: DeadLetterItem): Promise<void> => {
+  const db = await initDB();
+  await db.put('dead_letters', item);
+};
+
+// Get all dead-lettered items
+export const getDeadLetters = async (): Promise<DeadLetterItem[]> => {
+  const db = await initDB();
+  return db.getAll('dead_letters');
+};
+
+// Get a dead-lettered item by ID
+export const getDeadLetter = async (id: string): Promise<DeadLetterItem | undefined> => {
+  const db = await initDB();
+  return db.get('dead_letters', id);
+};
+
+// Remove an item from the dead-letter store
+export const deleteDeadLetter = async (id: string): Promise<void> => {
+  const db = await initDB();
+  await db.delete('dead_letters', id);
+};
+
+// Functions for the persisted query cache
+
+// Get the query cache saved for a user
+export const getPersistedQueryCache = async (userId: string): Promise<PersistedQueryCache | undefined> => {
+  const db = await initDB();
+  return db.get('query_cache', userId);
+};
+
+// Save the query cache for a user, replacing any earlier copy
+export const savePersistedQueryCache = async (cache: PersistedQueryCache): Promise<void> => {
+  const db = await initDB();
+  await db.put('query_cache', cache);
+};
+
+// Delete the saved query cache, for one user or for everyone
+export const clearPersistedQueryCache = async (userId?: string): Promise<void> => {
+  const db = await initDB();
+  if (userId) {
+    await db.delete('query_cache', userId);
+  } else {
+    await db.clear('query_cache');
+  }
+};
+
+// Functions for freeing space
+
+// Session statuses after which nothing more will be recorded locally
+const CLOSED_SESSION_STATUSES = ['Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete'];
+
+// Remove data that already exists on the server: synced submissions (oldest first),
+// finished image uploads and closed sessions. Anything still waiting to sync is kept.
+export const evictSyncedData = async () => {
+  const db = await initDB();
+  
+  // Sessions still referenced by queued or dead-lettered operations must stay
+  const outbox = [
+    ...await db.getAll('outbox'),
+    ...(await db.getAll('dead_letters')).flatMap(item => (item.source === 'outbox' ? [item.record] : []))
+  ];
+  const referencedSessionIds = new Set(outbox.flatMap(operation => {
+    switch (operation.type) {
+      case 'createSession':
+        return [operation.payload.tempSessionId];
+      case 'completeSession':
+        return [operation.payload.sessionId];
+      default:
+        return [];
+    }
+  }));
+  
+  const syncedSubmissions = (await db.getAllFromIndex('submissions', 'by-status', 'synced'))
+    .sort((a, b) => (a.storedAt || '').localeCompare(b.storedAt || ''));
+  for (const record of syncedSubmissions) {
+    await db.delete('submissions', record.submission.submission_id);
+  }
+  
+  const completedUploads = (await db.getAll('image_uploads')).filter(job => job.status === 'complete');
+  for (const job of completedUploads) {
+    await db.delete('image_uploads', job.tempImageKey);
+    await deleteTempImage(job.tempImageKey);
+  }
+  
+  const closedSessions = (await db.getAll('submission_sessions')).filter(session =>
+    CLOSED_SESSION_STATUSES.includes(session.session_status) &&
+    !isTempId(session.session_id) &&
+    !referencedSessionIds.has(session.session_id)
+  );
+  for (const session of closedSessions) {
+    await db.delete('submission_sessions', session.session_id);
+  }
+  
+  const evicted = {
+    submissions: syncedSubmissions.length,
+    imageUploads: completedUploads.length,
+    sessions: closedSessions.length
+  };
+  logger.info('Evicted synced offline data', evicted);
+  return evicted;
+};
+
 export default {
   initDB,
   saveSubmissionOffline,
@@ -305,12 +769,48 @@ export default {
   getSubmissionsForSite,
   clearSyncedSubmissions,
   saveTempImage,
+  saveTempImageWithThumbnail,
   getTempImage,
+  getTempThumbnail,
+  getTempThumbnailKey,
   deleteTempImage,
   clearTempImagesForSubmission,
   getAllTempImages,
   listTempImageKeys,
   saveSession,
   getSession,
-  getAllSessions
+  getAllSessions,
+  createTempId,
+  isTempId,
+  enqueueOutboxOperation,
+  getOutboxOperations,
+  updateOutboxOperation,
+  removeOutboxOperation,
+  getOutboxCount,
+  saveIdMapping,
+  saveIdMappings,
+  getIdMappings,
+  resolveId,
+  saveDraftSubmission,
+  getDraftSubmission,
+  getDraftSubmissions,
+  deleteDraftSubmission,
+  replaceSession,
+  remapTempImageKeys,
+  saveImageUpload,
+  getImageUpload,
+  getImageUploads,
+  deleteImageUpload,
+  getOfflineSubmission,
+  putOfflineSubmission,
+  deleteOfflineSubmission,
+  getOutboxOperation,
+  saveDeadLetter,
+  getDeadLetters,
+  getDeadLetter,
+  deleteDeadLetter,
+  getPersistedQueryCache,
+  savePersistedQueryCache,
+  clearPersistedQueryCache,
+  evictSyncedData
 };
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPresenceClient,
+  createInMemoryPresenceTransport,
+  getInitials,
+  PresenceMember,
+  PresenceTransport,
+  SessionProgressUpdate
+} from './presence';
+
+const SESSION_ID = 'session-1';
+
+// Two clients on one broadcaster, as if two technicians had the same session open
+const createClients = () => {
+  const transport = createInMemoryPresenceTransport();
+  return {
+    transport,
+    alice: createPresenceClient(transport),
+    bob: createPresenceClient(transport)
+  };
+};
+
+const watchMembers = (client: ReturnType<typeof createPresenceClient>, sessionId = SESSION_ID) => {
+  const seen: { members: PresenceMember[] } = { members: [] };
+  const unsubscribe = client.subscribeToMembers(sessionId, members => {
+    seen.members = members;
+  });
+  return { seen, unsubscribe };
+};
+
+const progressUpdate = (overrides: Partial<SessionProgressUpdate> = {}): SessionProgressUpdate => ({
+  sessionId: SESSION_ID,
+  percentage_complete: 50,
+  session_status: 'Working',
+  last_activity_time: '2025-06-17T10:00:00.000Z',
+  ...overrides
+});
+
+describe('session presence', () => {
+  it('shows collaborators joining and leaving', () => {
+    const { alice, bob } = createClients();
+    const { seen } = watchMembers(alice);
+
+    const aliceHandle = alice.join(SESSION_ID, { userId: 'alice', name: 'Alice Moreno' });
+    const bobHandle = bob.join(SESSION_ID, { userId: 'bob', name: 'Bob Tran' });
+
+    expect(seen.members.map(member => member.userId)).toEqual(['alice', 'bob']);
+
+    bobHandle.leave();
+    expect(seen.members.map(member => member.userId)).toEqual(['alice']);
+
+    aliceHandle.leave();
+    expect(seen.members).toEqual([]);
+  });
+
+  it('shares which form a collaborator is editing', () => {
+    const { alice, bob } = createClients();
+    const { seen } = watchMembers(alice);
+
+    alice.join(SESSION_ID, { userId: 'alice', name: 'Alice Moreno' });
+    const bobHandle = bob.join(SESSION_ID, { userId: 'bob', name: 'Bob Tran' });
+
+    bobHandle.setEditing({ formId: 'obs-1', type: 'petri' });
+    expect(seen.members.find(member => member.userId === 'bob')?.editing).toEqual({ formId: 'obs-1', type: 'petri' });
+
+    bobHandle.setEditing(null);
+    expect(seen.members.find(member => member.userId === 'bob')?.editing).toBeNull();
+  });
+
+  it('keeps one entry per user across tabs, preferring the one editing', () => {
+    const { transport, alice } = createClients();
+    const secondTab = createPresenceClient(transport);
+    const { seen } = watchMembers(alice);
+
+    alice.join(SESSION_ID, { userId: 'alice', name: 'Alice Moreno' });
+    const tabHandle = secondTab.join(SESSION_ID, { userId: 'alice', name: 'Alice Moreno' });
+    tabHandle.setEditing({ formId: 'obs-2', type: 'gasifier' });
+
+    expect(seen.members).toHaveLength(1);
+    expect(seen.members[0].editing).toEqual({ formId: 'obs-2', type: 'gasifier' });
+  });
+
+  it('delivers progress to other clients but not the sender', () => {
+    const { alice, bob } = createClients();
+    const aliceUpdates: SessionProgressUpdate[] = [];
+    const bobUpdates: SessionProgressUpdate[] = [];
+
+    alice.subscribeToProgress(SESSION_ID, update => aliceUpdates.push(update));
+    bob.subscribeToProgress(SESSION_ID, update => bobUpdates.push(update));
+
+    alice.broadcastProgress(progressUpdate());
+
+    expect(aliceUpdates).toEqual([]);
+    expect(bobUpdates).toEqual([progressUpdate()]);
+  });
+
+  it('broadcasts progress for a session the sender is not watching', () => {
+    const { alice, bob } = createClients();
+    const bobUpdates: SessionProgressUpdate[] = [];
+    bob.subscribeToProgress(SESSION_ID, update => bobUpdates.push(update));
+
+    alice.broadcastProgress(progressUpdate({ percentage_complete: 100, session_status: 'Completed' }));
+
+    expect(bobUpdates).toHaveLength(1);
+    expect(bobUpdates[0].session_status).toBe('Completed');
+  });
+
+  it('closes the channel once nothing uses it', () => {
+    const joined: string[] = [];
+    const closed: string[] = [];
+    const inner = createInMemoryPresenceTransport();
+    const transport: PresenceTransport = {
+      join: (sessionId, handlers) => {
+        joined.push(sessionId);
+        const channel = inner.join(sessionId, handlers);
+        return {
+          ...channel,
+          unsubscribe: () => {
+            closed.push(sessionId);
+            channel.unsubscribe();
+          }
+        };
+      }
+    };
+    const client = createPresenceClient(transport);
+
+    const stopMembers = client.subscribeToMembers(SESSION_ID, () => {});
+    const stopProgress = client.subscribeToProgress(SESSION_ID, () => {});
+    const handle = client.join(SESSION_ID, { userId: 'alice', name: 'Alice Moreno' });
+
+    expect(joined).toEqual([SESSION_ID]);
+
+    stopMembers();
+    stopProgress();
+    expect(closed).toEqual([]);
+
+    handle.leave();
+    expect(closed).toEqual([SESSION_ID]);
+  });
+});
+
+describe('getInitials', () => {
+  it('uses the first letters of up to two words', () => {
+    expect(getInitials('Jordan Lee')).toBe('JL');
+    expect(getInitials('mary ann de la cruz')).toBe('MA');
+  });
+
+  it('uses the local part of an email address', () => {
+    expect(getInitials('sam@example.com')).toBe('S');
+    expect(getInitials('sam.rivera@example.com')).toBe('SR');
+  });
+
+  it('falls back for an empty name', () => {
+    expect(getInitials('')).toBe('?');
+  });
+});
@@ -0,0 +1,272 @@
+import { createLogger } from './logger';
+
+// Create a logger for session presence
+const logger = createLogger('Presence');
+
+// The observation form a collaborator is working in
+export interface PresenceEditing {
+  // Observation ID for saved observations, otherwise the local form ID
+  formId: string;
+  type: 'petri' | 'gasifier';
+}
+
+// One collaborator in a session
+export interface PresenceMember {
+  userId: string;
+  name: string;
+  editing: PresenceEditing | null;
+  joinedAt: string;
+}
+
+// Progress of a session, sent whenever someone saves it
+export interface SessionProgressUpdate {
+  sessionId: string;
+  percentage_complete: number;
+  session_status: string;
+  last_activity_time: string;
+}
+
+export interface PresenceChannelHandlers {
+  // Everyone currently tracked on the channel, including this client
+  onMembers: (members: PresenceMember[]) => void;
+  // Progress updates sent by other clients
+  onProgress: (update: SessionProgressUpdate) => void;
+}
+
+// A connection to one session's channel
+export interface PresenceChannel {
+  track: (member: PresenceMember) => void;
+  untrack: () => void;
+  broadcast: (update: SessionProgressUpdate) => void;
+  unsubscribe: () => void;
+}
+
+// How presence reaches other clients. Supabase Realtime in the app; an
+// in-memory broadcaster in tests.
+export interface PresenceTransport {
+  join: (sessionId: string, handlers: PresenceChannelHandlers) => PresenceChannel;
+}
+
+type MembersListener = (members: PresenceMember[]) => void;
+type ProgressListener = (update: SessionProgressUpdate) => void;
+
+interface PresenceRoom {
+  channel: PresenceChannel;
+  members: PresenceMember[];
+  membersListeners: Set<MembersListener>;
+  progressListeners: Set<ProgressListener>;
+  // This client's own state while it has joined the session
+  self: PresenceMember | null;
+  joinCount: number;
+}
+
+// A client may be connected from several tabs; keep one entry per user,
+// preferring one that is editing a form
+const dedupeMembers = (members: PresenceMember[]) => {
+  const byUser = new Map<string, PresenceMember>();
+  members.forEach(member => {
+    const existing = byUser.get(member.userId);
+    if (!existing || (!existing.editing && member.editing)) {
+      byUser.set(member.userId, member);
+    }
+  });
+  return [...byUser.values()].sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+};
+
+// Handle returned when this client joins a session as a collaborator
+export interface PresenceJoinHandle {
+  setEditing: (editing: PresenceEditing | null) => void;
+  leave: () => void;
+}
+
+// Create a presence client over a transport. Channels are opened on first use
+// and closed once nothing is listening, so any number of components can share one.
+export const createPresenceClient = (transport: PresenceTransport) => {
+  const rooms = new Map<string, PresenceRoom>();
+
+  const getRoom = (sessionId: string): PresenceRoom => {
+    const existing = rooms.get(sessionId);
+    if (existing) return existing;
+
+    const room: PresenceRoom = {
+      channel: undefined as unknown as PresenceChannel,
+      members: [],
+      membersListeners: new Set(),
+      progressListeners: new Set(),
+      self: null,
+      joinCount: 0
+    };
+    rooms.set(sessionId, room);
+
+    room.channel = transport.join(sessionId, {
+      onMembers: members => {
+        room.members = dedupeMembers(members);
+        room.membersListeners.forEach(listener => listener(room.members));
+      },
+      onProgress: update => {
+        room.progressListeners.forEach(listener => listener(update));
+      }
+    });
+
+    return room;
+  };
+
+  const releaseRoom = (sessionId: string) => {
+    const room = rooms.get(sessionId);
+    if (!room) return;
+    if (room.joinCount > 0 || room.membersListeners.size > 0 || room.progressListeners.size > 0) return;
+
+    room.channel.unsubscribe();
+    rooms.delete(sessionId);
+  };
+
+  // Watch who is in a session; the listener is called immediately with the current members
+  const subscribeToMembers = (sessionId: string, listener: MembersListener) => {
+    const room = getRoom(sessionId);
+    room.membersListeners.add(listener);
+    listener(room.members);
+
+    return () => {
+      room.membersListeners.delete(listener);
+      releaseRoom(sessionId);
+    };
+  };
+
+  // Receive progress updates sent by other clients for a session
+  const subscribeToProgress = (sessionId: string, listener: ProgressListener) => {
+    const room = getRoom(sessionId);
+    room.progressListeners.add(listener);
+
+    return () => {
+      room.progressListeners.delete(listener);
+      releaseRoom(sessionId);
+    };
+  };
+
+  // Announce this client in a session until the returned handle leaves
+  const join = (sessionId: string, user: { userId: string; name: string }): PresenceJoinHandle => {
+    const room = getRoom(sessionId);
+    room.joinCount++;
+    room.self = room.self || { ...user, editing: null, joinedAt: new Date().toISOString() };
+    room.channel.track(room.self);
+
+    let left = false;
+
+    return {
+      setEditing: editing => {
+        if (left || !room.self) return;
+        if (room.self.editing?.formId === editing?.formId && room.self.editing?.type === editing?.type) return;
+
+        room.self = { ...room.self, editing };
+        room.channel.track(room.self);
+      },
+      leave: () => {
+        if (left) return;
+        left = true;
+        room.joinCount--;
+
+        if (room.joinCount === 0) {
+          room.self = null;
+          room.channel.untrack();
+        }
+        releaseRoom(sessionId);
+      }
+    };
+  };
+
+  // Tell everyone watching a session about its new progress
+  const broadcastProgress = (update: SessionProgressUpdate) => {
+    const room = rooms.get(update.sessionId);
+    if (room) {
+      room.channel.broadcast(update);
+      return;
+    }
+
+    // Nobody here is watching the session, so open the channel just long enough to send
+    const channel = transport.join(update.sessionId, { onMembers: () => {}, onProgress: () => {} });
+    try {
+      channel.broadcast(update);
+    } catch (error) {
+      logger.warn('Failed to broadcast session progress', error);
+    } finally {
+      channel.unsubscribe();
+    }
+  };
+
+  return {
+    subscribeToMembers,
+    subscribeToProgress,
+    join,
+    broadcastProgress
+  };
+};
+
+export type PresenceClient = ReturnType<typeof createPresenceClient>;
+
+// Transport that delivers everything in memory between clients sharing the same
+// broadcaster, for tests and local development without Realtime
+export const createInMemoryPresenceTransport = (): PresenceTransport => {
+  interface Connection {
+    handlers: PresenceChannelHandlers;
+    member: PresenceMember | null;
+  }
+  const sessions = new Map<string, Set<Connection>>();
+
+  const publishMembers = (sessionId: string) => {
+    const connections = sessions.get(sessionId);
+    if (!connections) return;
+
+    const members = [...connections]
+      .map(connection => connection.member)
+      .filter((member): member is PresenceMember => member !== null);
+    connections.forEach(connection => connection.handlers.onMembers(members));
+  };
+
+  return {
+    join: (sessionId, handlers) => {
+      const connection: Connection = { handlers, member: null };
+      const connections = sessions.get(sessionId) || new Set<Connection>();
+      connections.add(connection);
+      sessions.set(sessionId, connections);
+      publishMembers(sessionId);
+
+      return {
+        track: member => {
+          connection.member = member;
+          publishMembers(sessionId);
+        },
+        untrack: () => {
+          connection.member = null;
+          publishMembers(sessionId);
+        },
+        broadcast: update => {
+          // Like Realtime broadcast, the sender does not receive its own message
+          sessions.get(sessionId)?.forEach(other => {
+            if (other !== connection) other.handlers.onProgress(update);
+          });
+        },
+        unsubscribe: () => {
+          connections.delete(connection);
+          if (connections.size === 0) {
+            sessions.delete(sessionId);
+          } else {
+            publishMembers(sessionId);
+          }
+        }
+      };
+    }
+  };
+};
+
+// Initials for an avatar, e.g. "Jordan Lee" -> "JL", "sam@example.com" -> "S"
+export const getInitials = (name: string) => {
+  const words = name.split('@')[0].split(/[\s._-]+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  return words.slice(0, 2).map(word => word[0].toUpperCase()).join('');
+};
+
+export default {
+  createPresenceClient,
+  createInMemoryPresenceTransport,
+  getInitials
+};
@@ -0,0 +1,83 @@
+import { SCHEDULE_STATE_ORDER, ScheduleStatus, needsVisitToday } from './submissionSchedule';
+
+// What the Today page needs to know to place a site on the route
+export interface RouteStop {
+  site_id: string;
+  site_name: string;
+  status: ScheduleStatus | null;
+  hasActiveSession: boolean;
+}
+
+// The time that decides a site's place among sites in the same state: when it
+// became overdue, when its open window closes, or when its next window opens
+const dueTime = (status: ScheduleStatus): number => {
+  if (status.state === 'overdue' && status.overdueSince) return status.overdueSince.getTime();
+  if (status.state === 'due' && status.nextWindow) return status.nextWindow.end.getTime();
+  return status.nextWindow ? status.nextWindow.start.getTime() : Number.MAX_SAFE_INTEGER;
+};
+
+/**
+ * Orders sites by when they are due: sites with a session in progress, then
+ * overdue, due now, due later today, done and unscheduled sites
+ */
+export const compareByDueTime = (a: RouteStop, b: RouteStop): number => {
+  if (a.hasActiveSession !== b.hasActiveSession) return a.hasActiveSession ? -1 : 1;
+  if (!a.status || !b.status) {
+    if (a.status || b.status) return a.status ? -1 : 1;
+    return a.site_name.localeCompare(b.site_name);
+  }
+
+  return SCHEDULE_STATE_ORDER[a.status.state] - SCHEDULE_STATE_ORDER[b.status.state] ||
+    dueTime(a.status) - dueTime(b.status) ||
+    a.site_name.localeCompare(b.site_name);
+};
+
+// Whether a site belongs on today's route without the user adding it
+export const isDueOnRoute = (stop: RouteStop): boolean =>
+  stop.hasActiveSession || (!!stop.status && needsVisitToday(stop.status));
+
+/**
+ * Splits sites into today's route and the rest. The route holds sites that are
+ * due or have a session in progress plus any the user added; sites in the
+ * saved order come first in that order, and the others follow by due time.
+ */
+export const planRoute = <T extends RouteStop>(
+  stops: T[],
+  savedOrder: string[]
+): { route: T[]; others: T[] } => {
+  const position = new Map(savedOrder.map((siteId, index) => [siteId, index]));
+
+  const route = stops
+    .filter(stop => position.has(stop.site_id) || isDueOnRoute(stop))
+    .sort((a, b) => {
+      const aPosition = position.get(a.site_id);
+      const bPosition = position.get(b.site_id);
+      if (aPosition !== undefined && bPosition !== undefined) return aPosition - bPosition;
+      if (aPosition !== undefined || bPosition !== undefined) return aPosition !== undefined ? -1 : 1;
+      return compareByDueTime(a, b);
+    });
+
+  const others = stops
+    .filter(stop => !route.includes(stop))
+    .sort(compareByDueTime);
+
+  return { route, others };
+};
+
+// A route order with one site moved up (-1) or down (1)
+export const moveStop = (siteIds: string[], siteId: string, offset: -1 | 1): string[] => {
+  const index = siteIds.indexOf(siteId);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= siteIds.length) return siteIds;
+
+  const next = [...siteIds];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export default {
+  compareByDueTime,
+  isDueOnRoute,
+  planRoute,
+  moveStop
+};
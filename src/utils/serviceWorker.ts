@@ -0,0 +1,107 @@
+import { createLogger } from './logger';
+
+// Create a logger for service worker registration
+const logger = createLogger('ServiceWorker');
+
+// How often an open app checks for a new release
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+type UpdateListener = (updateAvailable: boolean) => void;
+const updateListeners: UpdateListener[] = [];
+
+let waitingWorker: ServiceWorker | null = null;
+// Set once the user has chosen to switch to the waiting version
+let updateAccepted = false;
+
+const notifyUpdateListeners = () => {
+  for (const listener of updateListeners) {
+    try {
+      listener(!!waitingWorker);
+    } catch (error) {
+      logger.error('Error in service worker update listener:', error);
+    }
+  }
+};
+
+// Register a listener for new versions; it is called immediately with the current state.
+// Returns an unsubscribe function.
+export const onUpdateAvailable = (listener: UpdateListener) => {
+  updateListeners.push(listener);
+  listener(!!waitingWorker);
+  return () => {
+    const index = updateListeners.indexOf(listener);
+    if (index !== -1) updateListeners.splice(index, 1);
+  };
+};
+
+const setWaitingWorker = (worker: ServiceWorker | null) => {
+  waitingWorker = worker;
+  notifyUpdateListeners();
+};
+
+// A newly installed worker only counts as an update if an older one controls the page;
+// on first install there is nothing to replace
+const trackInstallingWorker = (worker: ServiceWorker) => {
+  worker.addEventListener('statechange', () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+      logger.info('A new version of the app is ready');
+      setWaitingWorker(worker);
+    }
+  });
+};
+
+// Register the service worker in production builds so the app shell is available offline
+export const registerServiceWorker = async () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  // The first worker claims the page as soon as it activates; that is not a new version
+  const hadController = !!navigator.serviceWorker.controller;
+
+  try {
+    const registration = await navigator.serviceWorker.register('/sw.js');
+
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      setWaitingWorker(registration.waiting);
+    }
+    if (registration.installing) {
+      trackInstallingWorker(registration.installing);
+    }
+    registration.addEventListener('updatefound', () => {
+      if (registration.installing) {
+        trackInstallingWorker(registration.installing);
+      }
+    });
+
+    // Once a new version takes over, reload so the page runs it. Another tab may have
+    // applied the update, so a page that was already controlled reloads either way.
+    let reloading = false;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (reloading || !(hadController || updateAccepted)) return;
+      reloading = true;
+      window.location.reload();
+    });
+
+    window.setInterval(() => {
+      if (navigator.onLine) {
+        registration.update().catch(error => logger.warn('Failed to check for app updates', error));
+      }
+    }, UPDATE_CHECK_INTERVAL_MS);
+
+    logger.info('Service worker registered');
+  } catch (error) {
+    logger.error('Service worker registration failed:', error);
+  }
+};
+
+// Switch to the waiting version; the page reloads once it has taken over
+export const applyUpdate = () => {
+  if (!waitingWorker) return;
+  updateAccepted = true;
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+};
+
+export default {
+  registerServiceWorker,
+  onUpdateAvailable,
+  applyUpdate
+};
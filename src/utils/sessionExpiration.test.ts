@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSessionExpiration, zonedTimeToDate } from './sessionExpiration';
+
+const NEW_YORK = 'America/New_York';
+
+describe('zonedTimeToDate', () => {
+  it('converts a wall-clock time using the zone offset in effect', () => {
+    expect(zonedTimeToDate(2025, 1, 15, 9, 0, 0, NEW_YORK).toISOString()).toBe('2025-01-15T14:00:00.000Z');
+    expect(zonedTimeToDate(2025, 7, 15, 9, 0, 0, NEW_YORK).toISOString()).toBe('2025-07-15T13:00:00.000Z');
+  });
+
+  it('moves a time skipped by spring forward to after the gap', () => {
+    // 02:30 does not exist on 9 March 2025; like PostgreSQL it is read as 02:30 EST, i.e. 03:30 EDT
+    expect(zonedTimeToDate(2025, 3, 9, 2, 30, 0, NEW_YORK).toISOString()).toBe('2025-03-09T07:30:00.000Z');
+  });
+
+  it('takes the second of a time repeated by fall back', () => {
+    // 01:30 happens in EDT and again in EST on 2 November 2025
+    expect(zonedTimeToDate(2025, 11, 2, 1, 30, 0, NEW_YORK).toISOString()).toBe('2025-11-02T06:30:00.000Z');
+  });
+
+  it('handles times either side of a change on the same day', () => {
+    expect(zonedTimeToDate(2025, 3, 9, 1, 0, 0, NEW_YORK).toISOString()).toBe('2025-03-09T06:00:00.000Z');
+    expect(zonedTimeToDate(2025, 3, 9, 12, 0, 0, NEW_YORK).toISOString()).toBe('2025-03-09T16:00:00.000Z');
+  });
+});
+
+describe('calculateSessionExpiration', () => {
+  it('ends the day in the site zone, not the device zone', () => {
+    // 20:00 UTC on 10 June is already 11 June in Tokyo, and still 10 June in Los Angeles
+    const start = '2025-06-10T20:00:00Z';
+    const policy = { rule: 'end_of_day' as const };
+
+    expect(calculateSessionExpiration(start, policy, 'Asia/Tokyo').toISOString()).toBe('2025-06-11T14:59:59.000Z');
+    expect(calculateSessionExpiration(start, policy, 'America/Los_Angeles').toISOString()).toBe('2025-06-11T06:59:59.000Z');
+  });
+
+  it('ends a 25-hour fall-back day at its local midnight', () => {
+    expect(
+      calculateSessionExpiration('2025-11-02T12:00:00Z', { rule: 'end_of_day' }, NEW_YORK).toISOString()
+    ).toBe('2025-11-03T04:59:59.000Z');
+  });
+
+  it('uses the same day cutoff for a session started before it', () => {
+    expect(
+      calculateSessionExpiration('2025-06-10T08:00:00Z', { rule: 'custom_cutoff', cutoff_time: '06:00' }, NEW_YORK).toISOString()
+    ).toBe('2025-06-10T10:00:00.000Z');
+  });
+
+  it('rolls a custom cutoff over to the next day for a session started after it', () => {
+    expect(
+      calculateSessionExpiration('2025-06-10T14:00:00Z', { rule: 'custom_cutoff', cutoff_time: '06:00' }, NEW_YORK).toISOString()
+    ).toBe('2025-06-11T10:00:00.000Z');
+  });
+
+  it('moves a next-day cutoff that falls in the spring-forward gap to after it', () => {
+    expect(
+      calculateSessionExpiration('2025-03-08T23:00:00Z', { rule: 'custom_cutoff', cutoff_time: '02:30' }, NEW_YORK).toISOString()
+    ).toBe('2025-03-09T07:30:00.000Z');
+  });
+
+  it('counts hours after start in elapsed time across a DST change', () => {
+    expect(
+      calculateSessionExpiration('2025-03-09T04:00:00Z', { rule: 'hours_after_start', hours_after_start: 12 }, NEW_YORK).toISOString()
+    ).toBe('2025-03-09T16:00:00.000Z');
+  });
+});
@@ -0,0 +1,203 @@
+// How a submission session's expiration time is chosen. Policies are set on a
+// program and can be overridden per site; the server snapshots the result into
+// submission_sessions.expires_at when a session is created.
+export type SessionExpirationRule = 'end_of_day' | 'hours_after_start' | 'custom_cutoff';
+
+export interface SessionExpirationPolicy {
+  rule: SessionExpirationRule;
+  // Used by 'hours_after_start'
+  hours_after_start?: number | null;
+  // Site-local time of day as HH:mm, used by 'custom_cutoff'. A session that
+  // starts after the cutoff expires at the next day's cutoff.
+  cutoff_time?: string | null;
+  // Warn this many minutes before the session expires
+  warning_minutes?: number | null;
+}
+
+// The behavior before policies existed: 11:59:59 PM of the start day
+export const DEFAULT_EXPIRATION_POLICY: SessionExpirationPolicy = {
+  rule: 'end_of_day',
+  warning_minutes: 60
+};
+
+export const DEFAULT_WARNING_MINUTES = 60;
+export const DEFAULT_HOURS_AFTER_START = 12;
+export const DEFAULT_CUTOFF_TIME = '06:00';
+
+// Fields the client needs to work out when a session expires
+export interface ExpiringSession {
+  session_start_time: string;
+  expires_at?: string | null;
+  expiration_warning_minutes?: number | null;
+}
+
+export const getDeviceTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimeZone = (timeZone?: string | null): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock fields of an instant in a timezone
+export const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+};
+
+// Milliseconds the timezone is ahead of UTC at an instant
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The instant a wall-clock time occurs in a timezone. Day overflow is allowed
+// (day + 1 is the next day). Like PostgreSQL's AT TIME ZONE, a time skipped by a
+// DST change takes the offset from before the change (02:30 becomes 03:30), and
+// a time that occurs twice takes the offset from after it (the second 01:30).
+export const zonedTimeToDate = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string
+): Date => {
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute, second);
+  // The offsets a day either side, so at most one DST change lies between them
+  const offsetBefore = getTimeZoneOffset(new Date(wallTime - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallTime + DAY_MS), timeZone);
+
+  const after = wallTime - offsetAfter;
+  return getTimeZoneOffset(new Date(after), timeZone) === offsetAfter
+    ? new Date(after)
+    : new Date(wallTime - offsetBefore);
+};
+
+const parseCutoffTime = (cutoff?: string | null) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(cutoff || DEFAULT_CUTOFF_TIME);
+  if (!match) return { hour: 6, minute: 0 };
+  return {
+    hour: Math.min(Number(match[1]), 23),
+    minute: Math.min(Number(match[2]), 59)
+  };
+};
+
+// The site's policy wins over the program's; neither means the default
+export const resolveExpirationPolicy = (
+  sitePolicy?: SessionExpirationPolicy | null,
+  programPolicy?: SessionExpirationPolicy | null
+): SessionExpirationPolicy => sitePolicy || programPolicy || DEFAULT_EXPIRATION_POLICY;
+
+/**
+ * When a session started at startTime expires under a policy, evaluated in the
+ * given timezone (the device's when missing or invalid). Mirrors the
+ * calculate_session_expiration() database function.
+ */
+export const calculateSessionExpiration = (
+  startTime: string | Date,
+  policy: SessionExpirationPolicy = DEFAULT_EXPIRATION_POLICY,
+  timeZone?: string | null
+): Date => {
+  const start = new Date(startTime);
+  const zone = isValidTimeZone(timeZone) ? timeZone : getDeviceTimeZone();
+
+  if (policy.rule === 'hours_after_start') {
+    const hours = policy.hours_after_start && policy.hours_after_start > 0
+      ? policy.hours_after_start
+      : DEFAULT_HOURS_AFTER_START;
+    return new Date(start.getTime() + hours * 60 * 60 * 1000);
+  }
+
+  const local = getZonedParts(start, zone);
+
+  if (policy.rule === 'custom_cutoff') {
+    const { hour, minute } = parseCutoffTime(policy.cutoff_time);
+    const sameDay = zonedTimeToDate(local.year, local.month, local.day, hour, minute, 0, zone);
+    return sameDay > start
+      ? sameDay
+      : zonedTimeToDate(local.year, local.month, local.day + 1, hour, minute, 0, zone);
+  }
+
+  return zonedTimeToDate(local.year, local.month, local.day, 23, 59, 59, zone);
+};
+
+// When a session expires: the server's snapshot, or the default policy on this
+// device for sessions that have not reached the server yet
+export const getSessionExpiration = (session: ExpiringSession): Date =>
+  session.expires_at
+    ? new Date(session.expires_at)
+    : calculateSessionExpiration(session.session_start_time);
+
+export const getSessionWarningMinutes = (session: ExpiringSession): number =>
+  session.expiration_warning_minutes ?? DEFAULT_WARNING_MINUTES;
+
+export const isSessionExpired = (session: ExpiringSession, now: Date = new Date()): boolean =>
+  now > getSessionExpiration(session);
+
+// Format seconds remaining as HH:MM:SS
+export const formatTimeRemaining = (seconds: number): string => {
+  if (seconds <= 0) return '00:00:00';
+
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// One-line summary of a policy for settings screens
+export const describeExpirationPolicy = (policy: SessionExpirationPolicy): string => {
+  switch (policy.rule) {
+    case 'hours_after_start': {
+      const hours = policy.hours_after_start || DEFAULT_HOURS_AFTER_START;
+      return `${hours} hour${hours === 1 ? '' : 's'} after the session starts`;
+    }
+    case 'custom_cutoff':
+      return `At ${policy.cutoff_time || DEFAULT_CUTOFF_TIME} site time (next day if started after)`;
+    default:
+      return 'At the end of the site-local day';
+  }
+};
+
+export default {
+  DEFAULT_EXPIRATION_POLICY,
+  resolveExpirationPolicy,
+  calculateSessionExpiration,
+  getSessionExpiration,
+  getSessionWarningMinutes,
+  isSessionExpired,
+  formatTimeRemaining,
+  describeExpirationPolicy,
+  isValidTimeZone,
+  getDeviceTimeZone
+};
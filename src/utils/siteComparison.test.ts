@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { ComparisonGroup, ComparisonRow, compareGroups, summarizeComparison } from './siteComparison';
+
+const row = (overrides: Partial<ComparisonRow> = {}): ComparisonRow => ({
+  submission_id: 'submission-1',
+  site_id: 'site-1',
+  comparison_group: 'control',
+  created_at: new Date(2025, 5, 10, 9).toISOString(),
+  temperature: null,
+  humidity: null,
+  indoor_temperature: null,
+  indoor_humidity: null,
+  petri_observations: 0,
+  colony_observations: 0,
+  colony_coverage_sum: 0,
+  colony_count_sum: 0,
+  gasifier_observations: 0,
+  gasifier_anomalies: 0,
+  ...overrides
+});
+
+describe('summarizeComparison', () => {
+  it('averages growth over estimated petri observations rather than submissions', () => {
+    const stats = summarizeComparison([
+      row({ petri_observations: 2, colony_observations: 1, colony_coverage_sum: 10, colony_count_sum: 4 }),
+      row({ submission_id: 'submission-2', petri_observations: 3, colony_observations: 3, colony_coverage_sum: 90, colony_count_sum: 8 })
+    ]);
+
+    expect(stats.colony_coverage).toBe(25);
+    expect(stats.colony_count).toBe(3);
+    expect(stats.petri_observations).toBe(5);
+    expect(stats.colony_observations).toBe(4);
+  });
+
+  it('averages anomalies over gasifier observations as a percentage', () => {
+    const stats = summarizeComparison([
+      row({ gasifier_observations: 1, gasifier_anomalies: 1 }),
+      row({ submission_id: 'submission-2', gasifier_observations: 3, gasifier_anomalies: 0 })
+    ]);
+
+    expect(stats.anomaly_rate).toBe(25);
+  });
+
+  it('averages conditions per submission, skipping those that did not record them', () => {
+    const stats = summarizeComparison([
+      row({ temperature: 60, indoor_humidity: 40 }),
+      row({ submission_id: 'submission-2', site_id: 'site-2', temperature: 80 })
+    ]);
+
+    expect(stats.temperature).toBe(70);
+    expect(stats.indoor_humidity).toBe(40);
+    expect(stats.humidity).toBeNull();
+    expect(stats.sites).toBe(2);
+    expect(stats.submissions).toBe(2);
+  });
+
+  it('has no averages when there is nothing to average', () => {
+    expect(summarizeComparison([])).toMatchObject({
+      sites: 0,
+      submissions: 0,
+      colony_coverage: null,
+      colony_count: null,
+      anomaly_rate: null,
+      temperature: null
+    });
+  });
+});
+
+describe('compareGroups', () => {
+  const now = new Date(2025, 5, 12, 15);
+
+  it('leaves out sites without a group and gives an empty group no averages', () => {
+    const comparison = compareGroups([
+      row({ temperature: 70 }),
+      row({ submission_id: 'submission-2', comparison_group: null as unknown as ComparisonGroup, temperature: 90 })
+    ], '7days', now);
+
+    expect(comparison.groups.control.summary).toMatchObject({ submissions: 1, temperature: 70 });
+    expect(comparison.groups.treatment.summary).toMatchObject({ submissions: 0, temperature: null });
+    expect(comparison.groups.treatment.series.every(stats => stats.submissions === 0)).toBe(true);
+  });
+
+  it('puts each submission in the interval it was made in', () => {
+    const comparison = compareGroups([row({ created_at: new Date(2025, 5, 10, 15).toISOString() })], '7days', now);
+    const index = comparison.intervals.findIndex(interval => interval.getTime() === new Date(2025, 5, 10, 12).getTime());
+
+    expect(comparison.granularity).toBe('12hour');
+    expect(comparison.groups.control.series[index].submissions).toBe(1);
+    expect(comparison.groups.control.series.reduce((sum, stats) => sum + stats.submissions, 0)).toBe(1);
+  });
+
+  it('counts a submission made after a DST change', () => {
+    // The tests run in America/New_York, where clocks went forward on 9 March 2025
+    const comparison = compareGroups(
+      [row({ created_at: new Date(2025, 2, 11, 9).toISOString() })],
+      '7days',
+      new Date(2025, 2, 12, 15)
+    );
+
+    expect(comparison.groups.control.series.reduce((sum, stats) => sum + stats.submissions, 0)).toBe(1);
+  });
+
+  it('starts all-time comparisons at the first submission', () => {
+    const comparison = compareGroups([row({ created_at: new Date(2025, 4, 26, 9).toISOString() })], 'all', now);
+
+    expect(comparison.granularity).toBe('week');
+    expect(comparison.intervals[0]).toEqual(new Date(2025, 4, 26));
+    expect(comparison.groups.control.series[0].submissions).toBe(1);
+  });
+});
@@ -0,0 +1,170 @@
+import { AnalyticsPeriod, intervalStart, listIntervals, periodGranularity, periodStart } from './analyticsPeriods';
+import { AnalyticsGranularity } from '../lib/types';
+
+// Which side of a pilot's comparison a site is on. Stored in
+// sites.comparison_group; sites without one are left out of the comparison.
+export type ComparisonGroup = 'control' | 'treatment';
+
+export const COMPARISON_GROUPS: ComparisonGroup[] = ['control', 'treatment'];
+
+export const COMPARISON_GROUP_LABELS: Record<ComparisonGroup, string> = {
+  control: 'Control',
+  treatment: 'Treatment'
+};
+
+// A row of get_program_comparison(): one submission at a grouped site
+export interface ComparisonRow {
+  submission_id: string;
+  site_id: string;
+  comparison_group: ComparisonGroup;
+  created_at: string;
+  temperature: number | null;
+  humidity: number | null;
+  indoor_temperature: number | null;
+  indoor_humidity: number | null;
+  petri_observations: number;
+  // Petri observations with a colony estimate, and their totals
+  colony_observations: number;
+  colony_coverage_sum: number;
+  colony_count_sum: number;
+  gasifier_observations: number;
+  gasifier_anomalies: number;
+}
+
+export type ComparisonMetric =
+  | 'colony_coverage'
+  | 'colony_count'
+  | 'anomaly_rate'
+  | 'temperature'
+  | 'humidity'
+  | 'indoor_temperature'
+  | 'indoor_humidity';
+
+// One group's readings over a period or interval, with the sample behind them.
+// Growth is averaged per estimated petri observation, anomalies per gasifier
+// observation and conditions per submission; null when there is nothing to average.
+export interface ComparisonStats extends Record<ComparisonMetric, number | null> {
+  sites: number;
+  submissions: number;
+  petri_observations: number;
+  colony_observations: number;
+  gasifier_observations: number;
+}
+
+export interface MetricDefinition {
+  key: ComparisonMetric;
+  label: string;
+  unit: string;
+  category: 'growth' | 'anomalies' | 'environment';
+  // The sample a value is averaged over, for display alongside it
+  sample: keyof Pick<ComparisonStats, 'colony_observations' | 'gasifier_observations' | 'submissions'>;
+}
+
+export const COMPARISON_METRICS: MetricDefinition[] = [
+  { key: 'colony_coverage', label: 'Colony coverage', unit: '%', category: 'growth', sample: 'colony_observations' },
+  { key: 'colony_count', label: 'Colonies per plate', unit: '', category: 'growth', sample: 'colony_observations' },
+  { key: 'anomaly_rate', label: 'Gasifier anomaly rate', unit: '%', category: 'anomalies', sample: 'gasifier_observations' },
+  { key: 'temperature', label: 'Outdoor temperature', unit: '°F', category: 'environment', sample: 'submissions' },
+  { key: 'humidity', label: 'Outdoor humidity', unit: '%', category: 'environment', sample: 'submissions' },
+  { key: 'indoor_temperature', label: 'Indoor temperature', unit: '°F', category: 'environment', sample: 'submissions' },
+  { key: 'indoor_humidity', label: 'Indoor humidity', unit: '%', category: 'environment', sample: 'submissions' }
+];
+
+const ENVIRONMENT_FIELDS = ['temperature', 'humidity', 'indoor_temperature', 'indoor_humidity'] as const;
+
+export const summarizeComparison = (rows: ComparisonRow[]): ComparisonStats => {
+  const environment = ENVIRONMENT_FIELDS.map(field => {
+    const values = rows.map(row => row[field]).filter((value): value is number => value !== null);
+    return [field, values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null] as const;
+  });
+
+  const total = (field: keyof Pick<ComparisonRow,
+    'petri_observations' | 'colony_observations' | 'colony_coverage_sum' | 'colony_count_sum' | 'gasifier_observations' | 'gasifier_anomalies'
+  >) => rows.reduce((sum, row) => sum + row[field], 0);
+
+  const colonyObservations = total('colony_observations');
+  const gasifierObservations = total('gasifier_observations');
+
+  return {
+    sites: new Set(rows.map(row => row.site_id)).size,
+    submissions: rows.length,
+    petri_observations: total('petri_observations'),
+    colony_observations: colonyObservations,
+    gasifier_observations: gasifierObservations,
+    colony_coverage: colonyObservations > 0 ? total('colony_coverage_sum') / colonyObservations : null,
+    colony_count: colonyObservations > 0 ? total('colony_count_sum') / colonyObservations : null,
+    anomaly_rate: gasifierObservations > 0 ? total('gasifier_anomalies') / gasifierObservations * 100 : null,
+    temperature: null,
+    humidity: null,
+    indoor_temperature: null,
+    indoor_humidity: null,
+    ...Object.fromEntries(environment)
+  };
+};
+
+export interface GroupComparison {
+  // The whole period
+  summary: ComparisonStats;
+  // One entry per interval, in the same order as ProgramComparison.intervals
+  series: ComparisonStats[];
+}
+
+export interface ProgramComparison {
+  granularity: AnalyticsGranularity;
+  intervals: Date[];
+  groups: Record<ComparisonGroup, GroupComparison>;
+}
+
+/**
+ * Splits a program's rows by group and averages each group over the period and
+ * over each interval in it. Intervals run from the period's start, or the first
+ * row for all time, to now, including intervals with no readings.
+ */
+export const compareGroups = (
+  rows: ComparisonRow[],
+  period: AnalyticsPeriod,
+  now: Date = new Date()
+): ProgramComparison => {
+  const granularity = periodGranularity(period);
+  const earliest = rows.length > 0
+    ? new Date(Math.min(...rows.map(row => new Date(row.created_at).getTime())))
+    : null;
+  const start = periodStart(period, now) || earliest;
+  const intervals = start ? listIntervals(start, now, granularity) : [];
+
+  const compareGroup = (group: ComparisonGroup): GroupComparison => {
+    const groupRows = rows.filter(row => row.comparison_group === group);
+    const byInterval = new Map<number, ComparisonRow[]>();
+    groupRows.forEach(row => {
+      const key = intervalStart(new Date(row.created_at), granularity).getTime();
+      byInterval.set(key, [...(byInterval.get(key) || []), row]);
+    });
+
+    return {
+      summary: summarizeComparison(groupRows),
+      series: intervals.map(interval => summarizeComparison(byInterval.get(interval.getTime()) || []))
+    };
+  };
+
+  return {
+    granularity,
+    intervals,
+    groups: {
+      control: compareGroup('control'),
+      treatment: compareGroup('treatment')
+    }
+  };
+};
+
+// Treatment minus control; null unless both groups have a value
+export const metricDifference = (comparison: ProgramComparison, metric: ComparisonMetric): number | null => {
+  const control = comparison.groups.control.summary[metric];
+  const treatment = comparison.groups.treatment.summary[metric];
+  return control === null || treatment === null ? null : treatment - control;
+};
+
+export default {
+  summarizeComparison,
+  compareGroups,
+  metricDifference
+};
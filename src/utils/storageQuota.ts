@@ -0,0 +1,84 @@
+import { toast } from 'react-toastify';
+import offlineStorage from './offlineStorage';
+import { formatFileSize } from './helpers';
+import { createLogger } from './logger';
+
+// Create a logger for the storage quota manager
+const logger = createLogger('StorageQuota');
+
+// Share of the quota in use before synced data is evicted
+const EVICTION_THRESHOLD = 0.8;
+// Share of the quota still in use after eviction before the user is warned
+const WARNING_THRESHOLD = 0.9;
+// Avoid repeating the warning on every capture
+const WARNING_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface StorageEstimateSummary {
+  usage: number;
+  quota: number;
+  ratio: number;
+}
+
+export type QuotaStatus = 'ok' | 'evict' | 'warn' | 'full';
+
+// Current storage usage for this origin, or null where the browser can't tell us
+export const getStorageEstimate = async (): Promise<StorageEstimateSummary | null> => {
+  if (!navigator.storage?.estimate) return null;
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  if (!quota) return null;
+
+  return { usage, quota, ratio: usage / quota };
+};
+
+// How close a write of requiredBytes would bring storage to the quota
+export const getQuotaStatus = (estimate: StorageEstimateSummary, requiredBytes: number = 0): QuotaStatus => {
+  const projectedRatio = (estimate.usage + requiredBytes) / estimate.quota;
+
+  if (projectedRatio >= 1) return 'full';
+  if (projectedRatio >= WARNING_THRESHOLD) return 'warn';
+  if (projectedRatio >= EVICTION_THRESHOLD) return 'evict';
+  return 'ok';
+};
+
+let lastWarningAt = 0;
+
+// Make room for a write of requiredBytes, evicting synced data once storage is filling up.
+// Warns the user when space is still short, and resolves to false if the write would not fit.
+export const ensureStorageSpace = async (requiredBytes: number = 0): Promise<boolean> => {
+  try {
+    let estimate = await getStorageEstimate();
+    if (!estimate || getQuotaStatus(estimate, requiredBytes) === 'ok') return true;
+
+    await offlineStorage.evictSyncedData();
+
+    estimate = await getStorageEstimate();
+    if (!estimate) return true;
+
+    const status = getQuotaStatus(estimate, requiredBytes);
+    const usageText = `${formatFileSize(estimate.usage)} of ${formatFileSize(estimate.quota)} used`;
+
+    if (status === 'full') {
+      logger.warn(`Not enough storage for ${requiredBytes} bytes (${usageText})`);
+      toast.error(`Device storage is full (${usageText}). Sync pending data or free up space before capturing more photos.`);
+      return false;
+    }
+
+    if (status === 'warn' && Date.now() - lastWarningAt > WARNING_INTERVAL_MS) {
+      lastWarningAt = Date.now();
+      toast.warning(`Device storage is almost full (${usageText}). Sync pending data soon so new photos can be saved.`);
+    }
+
+    return true;
+  } catch (error) {
+    // Never block a capture because the estimate itself failed
+    logger.error('Error checking storage quota:', error);
+    return true;
+  }
+};
+
+export default {
+  getStorageEstimate,
+  getQuotaStatus,
+  ensureStorageSpace
+};
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { getScheduleStatus, SubmissionSchedule } from './submissionSchedule';
+
+const NEW_YORK = 'America/New_York';
+
+const statusAt = (schedule: SubmissionSchedule, now: string, lastSubmissionAt: string | null) =>
+  getScheduleStatus(schedule, { timeZone: NEW_YORK, now: new Date(now), lastSubmissionAt });
+
+describe('getScheduleStatus', () => {
+  const dailyMornings: SubmissionSchedule = {
+    days_of_week: [0, 1, 2, 3, 4, 5, 6],
+    starts_on: '2025-06-01',
+    window_start: '08:00',
+    window_end: '12:00'
+  };
+
+  it('does not count a submission made before the window opened', () => {
+    // 11:00 on 10 June; the submission was at 07:30 that morning
+    const status = statusAt(dailyMornings, '2025-06-10T15:00:00Z', '2025-06-10T11:30:00Z');
+
+    expect(status.state).toBe('due');
+    expect(status.nextWindow?.start.toISOString()).toBe('2025-06-10T12:00:00.000Z');
+    expect(status.missedCount).toBe(0);
+  });
+
+  it('counts a submission made after the window opened', () => {
+    const status = statusAt(dailyMornings, '2025-06-10T15:00:00Z', '2025-06-10T12:30:00Z');
+
+    expect(status.state).toBe('submitted');
+  });
+
+  it('is overdue once a window closes with only an earlier submission', () => {
+    const status = statusAt(dailyMornings, '2025-06-10T17:00:00Z', '2025-06-10T11:30:00Z');
+
+    expect(status.state).toBe('overdue');
+    expect(status.missedCount).toBe(1);
+    expect(status.overdueSince?.toISOString()).toBe('2025-06-10T16:00:00.000Z');
+  });
+
+  describe('overnight windows', () => {
+    const overnight: SubmissionSchedule = {
+      days_of_week: [0, 1, 2, 3, 4, 5, 6],
+      starts_on: '2025-06-01',
+      window_start: '22:00',
+      window_end: '06:00'
+    };
+
+    it('keeps the previous evening\'s window open after midnight', () => {
+      // 03:00 on 11 June, in the window that opened at 22:00 on 10 June
+      const status = statusAt(overnight, '2025-06-11T07:00:00Z', '2025-06-10T03:00:00Z');
+
+      expect(status.state).toBe('due');
+      expect(status.nextWindow?.start.toISOString()).toBe('2025-06-11T02:00:00.000Z');
+      expect(status.nextWindow?.end.toISOString()).toBe('2025-06-11T10:00:00.000Z');
+      expect(status.missedCount).toBe(0);
+    });
+
+    it('counts a submission made after midnight for the window it falls in', () => {
+      const status = statusAt(overnight, '2025-06-11T07:00:00Z', '2025-06-11T05:00:00Z');
+
+      expect(status.state).toBe('submitted');
+    });
+  });
+
+  describe('every other week', () => {
+    const alternateMondays: SubmissionSchedule = {
+      days_of_week: [1],
+      interval_weeks: 2,
+      starts_on: '2025-06-02',
+      window_start: '08:00',
+      window_end: '12:00'
+    };
+
+    it('has nothing due on a Monday in an off week', () => {
+      const status = statusAt(alternateMondays, '2025-06-09T14:00:00Z', '2025-06-02T13:00:00Z');
+
+      expect(status.state).toBe('scheduled');
+      expect(status.todayWindow).toBeNull();
+      expect(status.nextWindow?.start.toISOString()).toBe('2025-06-16T12:00:00.000Z');
+    });
+
+    it('is due on a Monday two weeks after the last', () => {
+      const status = statusAt(alternateMondays, '2025-06-16T14:00:00Z', '2025-06-02T13:00:00Z');
+
+      expect(status.state).toBe('due');
+      expect(status.missedCount).toBe(0);
+    });
+
+    it('counts only the scheduled weeks as missed', () => {
+      // Windows on 2 and 16 June passed with no submission; 9 June was an off week
+      const status = statusAt(alternateMondays, '2025-06-20T14:00:00Z', null);
+
+      expect(status.state).toBe('overdue');
+      expect(status.missedCount).toBe(2);
+      expect(status.overdueSince?.toISOString()).toBe('2025-06-02T16:00:00.000Z');
+    });
+  });
+
+  describe('across a DST change', () => {
+    const sundayMornings: SubmissionSchedule = {
+      days_of_week: [0],
+      starts_on: '2025-03-02',
+      window_start: '08:00',
+      window_end: '12:00'
+    };
+
+    it('opens at the same site-local time after clocks spring forward', () => {
+      // 08:00 is 13:00 UTC on 2 March (EST) and 12:00 UTC on 9 March (EDT)
+      const status = statusAt(sundayMornings, '2025-03-09T13:00:00Z', '2025-03-02T14:00:00Z');
+
+      expect(status.state).toBe('due');
+      expect(status.nextWindow?.start.toISOString()).toBe('2025-03-09T12:00:00.000Z');
+      expect(status.nextWindow?.end.toISOString()).toBe('2025-03-09T16:00:00.000Z');
+    });
+
+    it('runs a window that starts in the skipped hour from after the gap', () => {
+      const status = statusAt(
+        { ...sundayMornings, window_start: '02:30', window_end: '04:00' },
+        '2025-03-09T07:45:00Z',
+        '2025-03-02T08:00:00Z'
+      );
+
+      expect(status.state).toBe('due');
+      expect(status.nextWindow?.start.toISOString()).toBe('2025-03-09T07:30:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { getDeviceTimeZone, getZonedParts, isValidTimeZone, zonedTimeToDate } from './sessionExpiration';
+
+// When a site's readings are due. Schedules are stored in
+// sites.submission_schedule and evaluated in the site's timezone, so a
+// Mon/Wed/Fri 08:00-12:00 schedule means those days and hours at the site
+// whatever timezone the viewer is in.
+export interface SubmissionSchedule {
+  // Days readings are due, 0 = Sunday
+  days_of_week: number[];
+  // Repeat every this many weeks, counted from the week of starts_on
+  interval_weeks?: number | null;
+  // Site-local date (YYYY-MM-DD) of the first day the schedule applies
+  starts_on: string;
+  // Site-local times (HH:mm) a reading may be taken; no start means midnight
+  // and no end means the end of the day. An end before the start runs overnight.
+  window_start?: string | null;
+  window_end?: string | null;
+}
+
+// overdue: a window closed with no submission since it opened
+// due: a window is open and has no submission yet
+// upcoming: a window opens later today
+// submitted: today's window has a submission
+// scheduled: nothing is due today
+export type ScheduleState = 'overdue' | 'due' | 'upcoming' | 'submitted' | 'scheduled';
+
+export interface ScheduleWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface ScheduleStatus {
+  state: ScheduleState;
+  // The open window, or the next one to open
+  nextWindow: ScheduleWindow | null;
+  // The window on the site's current day, if readings are due today
+  todayWindow: ScheduleWindow | null;
+  // Windows that closed with no submission since the last one
+  missedCount: number;
+  // When the earliest of those windows closed
+  overdueSince: Date | null;
+  // The timezone the schedule was evaluated in, for display
+  timeZone: string;
+}
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const MAX_INTERVAL_WEEKS = 8;
+
+// How far back missed windows are counted
+const LOOKBACK_DAYS = 56;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseTimeOfDay = (value?: string | null) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  if (!match) return null;
+  return {
+    hour: Math.min(Number(match[1]), 23),
+    minute: Math.min(Number(match[2]), 59)
+  };
+};
+
+const parseLocalDate = (value?: string | null) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+};
+
+// Days since 1970-01-01 of a calendar date
+const toDayNumber = (year: number, month: number, day: number) =>
+  Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+
+// Weeks since the epoch, with weeks starting on Sunday (1970-01-01 was a Thursday)
+const toWeekNumber = (dayNumber: number) => Math.floor((dayNumber + 4) / 7);
+
+const getIntervalWeeks = (schedule: SubmissionSchedule) =>
+  Math.min(Math.max(Math.round(schedule.interval_weeks || 1), 1), MAX_INTERVAL_WEEKS);
+
+// A schedule that can produce windows
+export const isValidSchedule = (schedule?: SubmissionSchedule | null): schedule is SubmissionSchedule =>
+  !!schedule &&
+  Array.isArray(schedule.days_of_week) &&
+  schedule.days_of_week.some(day => Number.isInteger(day) && day >= 0 && day <= 6) &&
+  !!parseLocalDate(schedule.starts_on);
+
+// The window of the scheduled day at dayNumber
+const windowForDay = (schedule: SubmissionSchedule, dayNumber: number, timeZone: string): ScheduleWindow => {
+  const date = new Date(dayNumber * DAY_MS);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const day = date.getUTCDate();
+
+  const startTime = parseTimeOfDay(schedule.window_start) || { hour: 0, minute: 0 };
+  const endTime = parseTimeOfDay(schedule.window_end);
+
+  const start = zonedTimeToDate(year, month, day, startTime.hour, startTime.minute, 0, timeZone);
+  if (!endTime) {
+    return { start, end: zonedTimeToDate(year, month, day + 1, 0, 0, 0, timeZone) };
+  }
+
+  const sameDayEnd = zonedTimeToDate(year, month, day, endTime.hour, endTime.minute, 0, timeZone);
+  return {
+    start,
+    end: sameDayEnd > start
+      ? sameDayEnd
+      : zonedTimeToDate(year, month, day + 1, endTime.hour, endTime.minute, 0, timeZone)
+  };
+};
+
+/**
+ * Works out whether a site's readings are due, given when its last submission
+ * was made. A submission counts for every window that opened before it, so
+ * missed windows are those since the last submission.
+ */
+export const getScheduleStatus = (
+  schedule: SubmissionSchedule,
+  options: {
+    timeZone?: string | null;
+    lastSubmissionAt?: string | Date | null;
+    now?: Date;
+  } = {}
+): ScheduleStatus => {
+  const timeZone = isValidTimeZone(options.timeZone) ? options.timeZone : getDeviceTimeZone();
+  const now = options.now || new Date();
+  const lastSubmission = options.lastSubmissionAt ? new Date(options.lastSubmissionAt) : null;
+
+  const empty: ScheduleStatus = {
+    state: 'scheduled',
+    nextWindow: null,
+    todayWindow: null,
+    missedCount: 0,
+    overdueSince: null,
+    timeZone
+  };
+  if (!isValidSchedule(schedule)) return empty;
+
+  const startsOn = parseLocalDate(schedule.starts_on)!;
+  const firstDay = toDayNumber(startsOn.year, startsOn.month, startsOn.day);
+  const local = getZonedParts(now, timeZone);
+  const today = toDayNumber(local.year, local.month, local.day);
+  const intervalWeeks = getIntervalWeeks(schedule);
+  const days = new Set(schedule.days_of_week);
+
+  const isScheduledDay = (dayNumber: number) =>
+    dayNumber >= firstDay &&
+    days.has((dayNumber + 4) % 7) &&
+    (toWeekNumber(dayNumber) - toWeekNumber(firstDay)) % intervalWeeks === 0;
+
+  const submittedSince = (window: ScheduleWindow) => !!lastSubmission && lastSubmission >= window.start;
+
+  let missedCount = 0;
+  let overdueSince: Date | null = null;
+  let currentWindow: ScheduleWindow | null = null;
+  let nextWindow: ScheduleWindow | null = null;
+  let todayWindow: ScheduleWindow | null = null;
+
+  // Starting in the past also catches an overnight window still open from yesterday
+  const lastDay = today + 7 * intervalWeeks;
+  for (let dayNumber = Math.max(firstDay, today - LOOKBACK_DAYS); dayNumber <= lastDay; dayNumber++) {
+    if (!isScheduledDay(dayNumber)) continue;
+
+    const window = windowForDay(schedule, dayNumber, timeZone);
+    if (dayNumber === today) todayWindow = window;
+
+    if (window.end <= now) {
+      if (!submittedSince(window)) {
+        missedCount++;
+        overdueSince = overdueSince || window.end;
+      }
+    } else if (window.start <= now) {
+      currentWindow = window;
+    } else if (!nextWindow) {
+      nextWindow = window;
+    }
+
+    if (dayNumber > today && nextWindow) break;
+  }
+
+  let state: ScheduleState;
+  if (currentWindow && submittedSince(currentWindow)) {
+    state = 'submitted';
+  } else if (missedCount > 0) {
+    state = 'overdue';
+  } else if (currentWindow) {
+    state = 'due';
+  } else if (todayWindow && todayWindow.start > now) {
+    state = 'upcoming';
+  } else if (todayWindow) {
+    state = 'submitted';
+  } else {
+    state = 'scheduled';
+  }
+
+  return {
+    state,
+    nextWindow: currentWindow || nextWindow,
+    todayWindow,
+    missedCount,
+    overdueSince,
+    timeZone
+  };
+};
+
+// Whether a site needs a visit today: overdue, due now or due later today
+export const needsVisitToday = (status: ScheduleStatus): boolean =>
+  status.state === 'overdue' || status.state === 'due' || status.state === 'upcoming';
+
+// Most urgent first, for sorting lists of sites
+export const SCHEDULE_STATE_ORDER: Record<ScheduleState, number> = {
+  overdue: 0,
+  due: 1,
+  upcoming: 2,
+  submitted: 3,
+  scheduled: 4
+};
+
+// A site-local time such as "8:00 AM" or "Mon 8:00 AM"
+export const formatScheduleTime = (date: Date, timeZone: string, withDay = false): string =>
+  date.toLocaleString(undefined, {
+    timeZone,
+    weekday: withDay ? 'short' : undefined,
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+/**
+ * One-line summary of a schedule, e.g. "Mon, Wed, Fri, 08:00-12:00"
+ */
+export const describeSchedule = (schedule: SubmissionSchedule): string => {
+  if (!isValidSchedule(schedule)) return 'No schedule';
+
+  const days = Array.from(new Set(schedule.days_of_week)).sort((a, b) => a - b).map(day => DAY_LABELS[day]);
+  const dayText = days.length === 7 ? 'Every day' : days.join(', ');
+  const intervalWeeks = getIntervalWeeks(schedule);
+  const intervalText = intervalWeeks > 1 ? ` every ${intervalWeeks} weeks` : '';
+  const windowText = schedule.window_start || schedule.window_end
+    ? `, ${schedule.window_start || '00:00'}-${schedule.window_end || '24:00'}`
+    : '';
+
+  return `${dayText}${intervalText}${windowText}`;
+};
+
+export default {
+  getScheduleStatus,
+  needsVisitToday,
+  isValidSchedule,
+  formatScheduleTime,
+  describeSchedule
+};
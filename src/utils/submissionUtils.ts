@@ -1,6 +1,9 @@
 import { supabase } from '../lib/supabaseClient';
 import { toast } from 'react-toastify';
 import { PetriObservation, GasifierObservation } from '../lib/types';
+import { enqueueImageUpload, processImageUploads } from './imageUploadQueue';
+import { recordSessionEvent } from '../lib/sessionEvents';
+import { ColonyAnalysis, colonyValues } from './colonyCoverage';
 
 // Types for observation data
 export interface PetriFormData {
@@ -17,7 +20,9 @@ export interface PetriFormData {
   placement_dynamics?: string | null;
   outdoor_temperature?: number;
   outdoor_humidity?: number;
+  colonyAnalysis?: ColonyAnalysis | null;
   observationId?: string;
+  revision?: number;
   isValid: boolean;
   hasData: boolean;
   hasImage: boolean;
@@ -40,12 +45,147 @@ export interface GasifierFormData {
   outdoor_temperature?: number;
   outdoor_humidity?: number;
   observationId?: string;
+  revision?: number;
   isValid: boolean;
   hasData: boolean;
   hasImage: boolean;
   isDirty: boolean;
 }
 
+// A save that was rejected because someone else updated the observation first
+export type ObservationConflict =
+  | {
+      type: 'petri';
+      formId: string;
+      observationId: string;
+      yours: PetriFormData;
+      theirs: PetriObservation;
+    }
+  | {
+      type: 'gasifier';
+      formId: string;
+      observationId: string;
+      yours: GasifierFormData;
+      theirs: GasifierObservation;
+    };
+
+// Result of creating or updating a single observation
+export interface ObservationUpdateResult {
+  success: boolean;
+  observationId?: string;
+  revision?: number;
+  message?: string;
+  conflict?: ObservationConflict;
+}
+
+// Result of creating or updating a batch of observations
+export interface ObservationBatchResult {
+  success: boolean;
+  updatedObservations: { clientId: string; observationId: string; revision?: number }[];
+  conflicts: ObservationConflict[];
+}
+
+export const CONFLICT_MESSAGE = 'This observation was changed by someone else since you loaded it';
+
+// Map a saved petri observation back to form data (used when merging conflicting edits)
+export const petriObservationToFormData = (observation: PetriObservation, formId: string): PetriFormData => ({
+  formId,
+  petriCode: observation.petri_code,
+  imageFile: null,
+  imageUrl: observation.image_url || undefined,
+  plantType: observation.plant_type,
+  fungicideUsed: observation.fungicide_used,
+  surroundingWaterSchedule: observation.surrounding_water_schedule,
+  notes: observation.notes || '',
+  placement: observation.placement,
+  placement_dynamics: observation.placement_dynamics,
+  outdoor_temperature: observation.outdoor_temperature,
+  outdoor_humidity: observation.outdoor_humidity,
+  colonyAnalysis: observation.colony_analysis ?? null,
+  observationId: observation.observation_id,
+  revision: observation.revision,
+  isValid: true,
+  hasData: true,
+  hasImage: !!observation.image_url,
+  isDirty: false
+});
+
+// Map a saved gasifier observation back to form data (used when merging conflicting edits)
+export const gasifierObservationToFormData = (observation: GasifierObservation, formId: string): GasifierFormData => ({
+  formId,
+  gasifierCode: observation.gasifier_code,
+  imageFile: null,
+  imageUrl: observation.image_url || undefined,
+  chemicalType: observation.chemical_type,
+  measure: observation.measure,
+  anomaly: observation.anomaly,
+  placementHeight: observation.placement_height || undefined,
+  directionalPlacement: observation.directional_placement || undefined,
+  placementStrategy: observation.placement_strategy || undefined,
+  notes: observation.notes || '',
+  outdoor_temperature: observation.outdoor_temperature,
+  outdoor_humidity: observation.outdoor_humidity,
+  observationId: observation.observation_id,
+  revision: observation.revision,
+  isValid: true,
+  hasData: true,
+  hasImage: !!observation.image_url,
+  isDirty: false
+});
+
+// Colony columns for a petri observation, leaving them alone when the form never had an analysis
+const colonyColumns = (analysis: ColonyAnalysis | null | undefined) => {
+  if (analysis === undefined) return {};
+  const { coverage_percent, colony_count } = colonyValues(analysis);
+  return { colony_coverage_percent: coverage_percent, colony_count, colony_analysis: analysis };
+};
+
+// Map petri form data to observation columns (used for drafts kept on the device)
+export const petriFormDataToObservation = (formData: Omit<PetriFormData, 'imageFile'>): Partial<PetriObservation> => ({
+  petri_code: formData.petriCode,
+  image_url: formData.imageUrl || null,
+  plant_type: formData.plantType,
+  fungicide_used: formData.fungicideUsed,
+  surrounding_water_schedule: formData.surroundingWaterSchedule,
+  placement: formData.placement || null,
+  placement_dynamics: formData.placement_dynamics || null,
+  notes: formData.notes || null,
+  outdoor_temperature: formData.outdoor_temperature,
+  outdoor_humidity: formData.outdoor_humidity,
+  ...colonyColumns(formData.colonyAnalysis)
+} as Partial<PetriObservation>);
+
+// Map gasifier form data to observation columns (used for drafts kept on the device)
+export const gasifierFormDataToObservation = (formData: Omit<GasifierFormData, 'imageFile'>): Partial<GasifierObservation> => ({
+  gasifier_code: formData.gasifierCode,
+  image_url: formData.imageUrl || null,
+  chemical_type: formData.chemicalType,
+  measure: formData.measure,
+  anomaly: formData.anomaly,
+  placement_height: formData.placementHeight || null,
+  directional_placement: formData.directionalPlacement || null,
+  placement_strategy: formData.placementStrategy || null,
+  notes: formData.notes || null,
+  outdoor_temperature: formData.outdoor_temperature,
+  outdoor_humidity: formData.outdoor_humidity
+} as Partial<GasifierObservation>);
+
+// Record a saved observation, and any image captured for it, in the session's event log
+const recordObservationEvents = async (
+  submissionId: string,
+  type: 'petri' | 'gasifier',
+  observationId: string,
+  code: string,
+  isNew: boolean,
+  hasNewImage: boolean
+) => {
+  const options = { observationId, observationType: type, details: { code } };
+  await recordSessionEvent(submissionId, isNew ? 'ObservationAdded' : 'ObservationEdited', options);
+  if (hasNewImage) {
+    await recordSessionEvent(submissionId, 'ImageCaptured', options);
+  }
+};
+
 // Function to upload an image to Supabase storage
 export const uploadImage = async (
   file: File, 
@@ -92,7 +232,7 @@ export const updatePetriObservation = async (
   formData: PetriFormData, 
   submissionId: string,
   siteId: string
-): Promise<{ success: boolean; observationId?: string; message?: string }> => {
+): Promise<ObservationUpdateResult> => {
   try {
     console.log('[updatePetriObservation] Starting with form data:', { 
       hasFormData: !!formData,
@@ -108,12 +248,32 @@ export const updatePetriObservation = async (
       observationId: formData.observationId
     });
     
+    // Images already kept on the device upload in the background and are attached
+    // to the observation once the storage object is confirmed
+    const queueImage = !!(formData.imageFile && formData.tempImageKey);
+    
     // If we have an existing observation
     if (formData.observationId) {
       // If there's a new image file, upload it
       let imageUrl = formData.imageUrl;
+      let imagePending = false;
       
-      if (formData.imageFile) {
+      if (queueImage) {
+        const job = await enqueueImageUpload({
+          tempImageKey: formData.tempImageKey!,
+          file: formData.imageFile,
+          siteId,
+          submissionId,
+          observationId: formData.observationId,
+          type: 'petri'
+        });
+        
+        if (job.status === 'complete') {
+          imageUrl = job.imageUrl;
+        } else {
+          imagePending = true;
+        }
+      } else if (formData.imageFile) {
         console.log('[updatePetriObservation] Uploading new image for existing observation');
         imageUrl = await uploadImage(formData.imageFile, siteId, submissionId, formData.formId, 'petri');
         
@@ -125,12 +285,13 @@ export const updatePetriObservation = async (
 
       console.log('[updatePetriObservation] Updating existing observation with new data');
       
-      // Update the observation
-      const { error } = await supabase
+      // Update the observation, only if nobody else has saved it since it was loaded
+      let updateQuery = supabase
         .from('petri_observations')
         .update({
           petri_code: formData.petriCode,
-          image_url: imageUrl,
+          // Leave the current image in place until the queued upload is confirmed
+          ...(imagePending ? {} : { image_url: imageUrl }),
           plant_type: formData.plantType,
           fungicide_used: formData.fungicideUsed,
           surrounding_water_schedule: formData.surroundingWaterSchedule,
@@ -139,23 +300,65 @@ export const updatePetriObservation = async (
           notes: formData.notes || null,
           last_updated_by_user_id: (await supabase.auth.getUser()).data.user?.id,
           outdoor_temperature: formData.outdoor_temperature,
-          outdoor_humidity: formData.outdoor_humidity
+          outdoor_humidity: formData.outdoor_humidity,
+          ...colonyColumns(formData.colonyAnalysis)
         })
         .eq('observation_id', formData.observationId);
         
+      if (formData.revision !== undefined) {
+        updateQuery = updateQuery.eq('revision', formData.revision);
+      }
+      
+      const { data, error } = await updateQuery.select('observation_id, revision');
+      
+      // Start the queued upload only now, so attaching the image cannot race this update
+      if (imagePending) {
+        processImageUploads();
+      }
+        
       if (error) {
         console.error('Error updating petri observation:', error);
         return { success: false, message: error.message };
       }
       
-      return { success: true, observationId: formData.observationId };
+      // No rows updated means the revision precondition failed
+      if (!data || data.length === 0) {
+        console.warn('[updatePetriObservation] Revision conflict for observation:', formData.observationId);
+        
+        const { data: current, error: fetchError } = await supabase
+          .from('petri_observations')
+          .select('*')
+          .eq('observation_id', formData.observationId)
+          .single();
+          
+        if (fetchError || !current) {
+          console.error('Error fetching conflicting petri observation:', fetchError);
+          return { success: false, message: fetchError?.message || 'Observation not found' };
+        }
+        
+        return {
+          success: false,
+          message: CONFLICT_MESSAGE,
+          conflict: {
+            type: 'petri',
+            formId: formData.formId,
+            observationId: formData.observationId,
+            yours: { ...formData, imageFile: null, imageUrl: imageUrl || undefined },
+            theirs: current
+          }
+        };
+      }
+      
+      await recordObservationEvents(submissionId, 'petri', formData.observationId, formData.petriCode, false, !!formData.imageFile);
+      
+      return { success: true, observationId: formData.observationId, revision: data[0].revision };
     } 
     // Create a new observation
     else {
       // If there's an image file, upload it
       let imageUrl = null;
       
-      if (formData.imageFile) {
+      if (formData.imageFile && !queueImage) {
         console.log('[updatePetriObservation] Uploading new image for new observation');
         imageUrl = await uploadImage(formData.imageFile, siteId, submissionId, formData.formId, 'petri');
         
@@ -183,9 +386,10 @@ export const updatePetriObservation = async (
           notes: formData.notes || null,
           last_updated_by_user_id: (await supabase.auth.getUser()).data.user?.id,
           outdoor_temperature: formData.outdoor_temperature,
-          outdoor_humidity: formData.outdoor_humidity
+          outdoor_humidity: formData.outdoor_humidity,
+          ...colonyColumns(formData.colonyAnalysis)
         })
-        .select('observation_id')
+        .select('observation_id, revision')
         .single();
         
       if (error) {
@@ -195,7 +399,22 @@ export const updatePetriObservation = async (
       
       console.log('[updatePetriObservation] Created new observation with ID:', data.observation_id);
       
-      return { success: true, observationId: data.observation_id };
+      // The image can only be queued once the observation has an ID
+      if (queueImage) {
+        await enqueueImageUpload({
+          tempImageKey: formData.tempImageKey!,
+          file: formData.imageFile,
+          siteId,
+          submissionId,
+          observationId: data.observation_id,
+          type: 'petri'
+        });
+        processImageUploads();
+      }
+      
+      await recordObservationEvents(submissionId, 'petri', data.observation_id, formData.petriCode, true, !!formData.imageFile);
+      
+      return { success: true, observationId: data.observation_id, revision: data.revision };
     }
   } catch (error) {
     console.error('Error in updatePetriObservation:', error);
@@ -208,7 +427,7 @@ export const updateGasifierObservation = async (
   formData: GasifierFormData, 
   submissionId: string,
   siteId: string
-): Promise<{ success: boolean; observationId?: string; message?: string }> => {
+): Promise<ObservationUpdateResult> => {
   try {
     console.log('[updateGasifierObservation] Starting with form data:', { 
       hasFormData: !!formData,
@@ -224,12 +443,32 @@ export const updateGasifierObservation = async (
       observationId: formData.observationId
     });
     
+    // Images already kept on the device upload in the background and are attached
+    // to the observation once the storage object is confirmed
+    const queueImage = !!(formData.imageFile && formData.tempImageKey);
+    
     // If we have an existing observation
     if (formData.observationId) {
       // If there's a new image file, upload it
       let imageUrl = formData.imageUrl;
+      let imagePending = false;
       
-      if (formData.imageFile) {
+      if (queueImage) {
+        const job = await enqueueImageUpload({
+          tempImageKey: formData.tempImageKey!,
+          file: formData.imageFile,
+          siteId,
+          submissionId,
+          observationId: formData.observationId,
+          type: 'gasifier'
+        });
+        
+        if (job.status === 'complete') {
+          imageUrl = job.imageUrl;
+        } else {
+          imagePending = true;
+        }
+      } else if (formData.imageFile) {
         console.log('[updateGasifierObservation] Uploading new image for existing observation');
         imageUrl = await uploadImage(formData.imageFile, siteId, submissionId, formData.formId, 'gasifier');
         
@@ -241,12 +480,13 @@ export const updateGasifierObservation = async (
 
       console.log('[updateGasifierObservation] Updating existing observation with new data');
       
-      // Update the observation
-      const { error } = await supabase
+      // Update the observation, only if nobody else has saved it since it was loaded
+      let updateQuery = supabase
         .from('gasifier_observations')
         .update({
           gasifier_code: formData.gasifierCode,
-          image_url: imageUrl,
+          // Leave the current image in place until the queued upload is confirmed
+          ...(imagePending ? {} : { image_url: imageUrl }),
           chemical_type: formData.chemicalType,
           measure: formData.measure,
           anomaly: formData.anomaly,
@@ -260,19 +500,60 @@ export const updateGasifierObservation = async (
         })
         .eq('observation_id', formData.observationId);
         
+      if (formData.revision !== undefined) {
+        updateQuery = updateQuery.eq('revision', formData.revision);
+      }
+      
+      const { data, error } = await updateQuery.select('observation_id, revision');
+      
+      // Start the queued upload only now, so attaching the image cannot race this update
+      if (imagePending) {
+        processImageUploads();
+      }
+        
       if (error) {
         console.error('Error updating gasifier observation:', error);
         return { success: false, message: error.message };
       }
       
-      return { success: true, observationId: formData.observationId };
+      // No rows updated means the revision precondition failed
+      if (!data || data.length === 0) {
+        console.warn('[updateGasifierObservation] Revision conflict for observation:', formData.observationId);
+        
+        const { data: current, error: fetchError } = await supabase
+          .from('gasifier_observations')
+          .select('*')
+          .eq('observation_id', formData.observationId)
+          .single();
+          
+        if (fetchError || !current) {
+          console.error('Error fetching conflicting gasifier observation:', fetchError);
+          return { success: false, message: fetchError?.message || 'Observation not found' };
+        }
+        
+        return {
+          success: false,
+          message: CONFLICT_MESSAGE,
+          conflict: {
+            type: 'gasifier',
+            formId: formData.formId,
+            observationId: formData.observationId,
+            yours: { ...formData, imageFile: null, imageUrl: imageUrl || undefined },
+            theirs: current
+          }
+        };
+      }
+      
+      await recordObservationEvents(submissionId, 'gasifier', formData.observationId, formData.gasifierCode, false, !!formData.imageFile);
+      
+      return { success: true, observationId: formData.observationId, revision: data[0].revision };
     } 
     // Create a new observation
     else {
       // If there's an image file, upload it
       let imageUrl = null;
       
-      if (formData.imageFile) {
+      if (formData.imageFile && !queueImage) {
         console.log('[updateGasifierObservation] Uploading new image for new observation');
         imageUrl = await uploadImage(formData.imageFile, siteId, submissionId, formData.formId, 'gasifier');
         
@@ -303,7 +584,7 @@ export const updateGasifierObservation = async (
           outdoor_temperature: formData.outdoor_temperature,
           outdoor_humidity: formData.outdoor_humidity
         })
-        .select('observation_id')
+        .select('observation_id, revision')
         .single();
         
       if (error) {
@@ -313,7 +594,22 @@ export const updateGasifierObservation = async (
       
       console.log('[updateGasifierObservation] Created new observation with ID:', data.observation_id);
       
-      return { success: true, observationId: data.observation_id };
+      // The image can only be queued once the observation has an ID
+      if (queueImage) {
+        await enqueueImageUpload({
+          tempImageKey: formData.tempImageKey!,
+          file: formData.imageFile,
+          siteId,
+          submissionId,
+          observationId: data.observation_id,
+          type: 'gasifier'
+        });
+        processImageUploads();
+      }
+      
+      await recordObservationEvents(submissionId, 'gasifier', data.observation_id, formData.gasifierCode, true, !!formData.imageFile);
+      
+      return { success: true, observationId: data.observation_id, revision: data.revision };
     }
   } catch (error) {
     console.error('Error in updateGasifierObservation:', error);
@@ -326,7 +622,7 @@ export const updatePetriObservations = async (
   petriObservations: PetriFormData[],
   submissionId: string,
   siteId: string
-): Promise<{ success: boolean; updatedObservations: { clientId: string; observationId: string }[] }> => {
+): Promise<ObservationBatchResult> => {
   console.log(`[updatePetriObservations] Processing ${petriObservations.length} petri observations`, 
     petriObservations.map(p => ({
       formId: p.formId,
@@ -339,7 +635,8 @@ export const updatePetriObservations = async (
     }))
   );
   
-  const updatedObservations: { clientId: string; observationId: string }[] = [];
+  const updatedObservations: ObservationBatchResult['updatedObservations'] = [];
+  const conflicts: ObservationConflict[] = [];
   let success = true;
   
   // Process each observation in sequence (to avoid race conditions)
@@ -349,8 +646,13 @@ export const updatePetriObservations = async (
     if (result.success && result.observationId) {
       updatedObservations.push({
         clientId: observation.formId,
-        observationId: result.observationId
+        observationId: result.observationId,
+        revision: result.revision
       });
+    } else if (result.conflict) {
+      // Keep saving the rest; conflicts are resolved by the user afterwards
+      success = false;
+      conflicts.push(result.conflict);
     } else {
       success = false;
       console.error(`Failed to update petri observation ${observation.formId}:`, result.message);
@@ -359,7 +661,7 @@ export const updatePetriObservations = async (
     }
   }
   
-  return { success, updatedObservations };
+  return { success, updatedObservations, conflicts };
 };
 
 // Function to process and update multiple gasifier observations
@@ -367,7 +669,7 @@ export const updateGasifierObservations = async (
   gasifierObservations: GasifierFormData[],
   submissionId: string,
   siteId: string
-): Promise<{ success: boolean; updatedObservations: { clientId: string; observationId: string }[] }> => {
+): Promise<ObservationBatchResult> => {
   console.log(`[updateGasifierObservations] Processing ${gasifierObservations.length} gasifier observations`,
     gasifierObservations.map(g => ({
       formId: g.formId,
@@ -380,7 +682,8 @@ export const updateGasifierObservations = async (
     }))
   );
   
-  const updatedObservations: { clientId: string; observationId: string }[] = [];
+  const updatedObservations: ObservationBatchResult['updatedObservations'] = [];
+  const conflicts: ObservationConflict[] = [];
   let success = true;
   
   // Process each observation in sequence (to avoid race conditions)
@@ -390,8 +693,13 @@ export const updateGasifierObservations = async (
     if (result.success && result.observationId) {
       updatedObservations.push({
         clientId: observation.formId,
-        observationId: result.observationId
+        observationId: result.observationId,
+        revision: result.revision
       });
+    } else if (result.conflict) {
+      // Keep saving the rest; conflicts are resolved by the user afterwards
+      success = false;
+      conflicts.push(result.conflict);
     } else {
       success = false;
       console.error(`Failed to update gasifier observation ${observation.formId}:`, result.message);
@@ -400,5 +708,5 @@ export const updateGasifierObservations = async (
     }
   }
   
-  return { success, updatedObservations };
+  return { success, updatedObservations, conflicts };
 };
\ No newline at end of file
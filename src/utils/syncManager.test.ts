@@ -0,0 +1,295 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// A stand-in for the Supabase client. Every query resolves through `respond`, which
+// each test replaces; `queries` records what was sent, in order.
+const server = vi.hoisted(() => {
+  interface Query {
+    table: string;
+    calls: [string, unknown[]][];
+  }
+  type Response = { data: unknown; error: unknown };
+
+  const state = {
+    queries: [] as Query[],
+    rpcs: [] as { name: string; args: Record<string, unknown> }[],
+    respond: (_query: Query): Response => ({ data: null, error: null }),
+    respondRpc: (_name: string, _args: Record<string, unknown>): Response => ({ data: null, error: null })
+  };
+
+  const from = (table: string) => {
+    const query: Query = { table, calls: [] };
+    state.queries.push(query);
+    const builder: any = new Proxy({}, {
+      get: (_target, method: string) => method === 'then'
+        ? (resolve: (value: Response) => void, reject: (error: unknown) => void) =>
+            Promise.resolve().then(() => state.respond(query)).then(resolve, reject)
+        : (...args: unknown[]) => {
+            query.calls.push([method, args]);
+            return builder;
+          }
+    });
+    return builder;
+  };
+
+  const supabase = {
+    from,
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      state.rpcs.push({ name, args });
+      return state.respondRpc(name, args);
+    },
+    auth: {
+      getUser: async () => ({ data: { user: { id: 'user-1' } } }),
+      getSession: async () => ({ data: { session: null } })
+    }
+  };
+
+  return { state, supabase };
+});
+
+vi.mock('../lib/supabaseClient', () => ({
+  supabase: server.supabase,
+  supabaseUrl: 'https://example.supabase.co',
+  supabaseAnonKey: 'anon-key'
+}));
+
+vi.mock('react-toastify', () => ({
+  toast: { info: vi.fn(), success: vi.fn(), warning: vi.fn(), error: vi.fn() }
+}));
+
+import offlineStorage, { NewOutboxOperation } from './offlineStorage';
+import { getSyncConflicts, replayOutbox } from './syncManager';
+
+vi.stubGlobal('navigator', { onLine: true });
+
+// The value passed to a query's filter on the given column
+const filterValue = (query: { calls: [string, unknown[]][] }, column: string) =>
+  query.calls.find(([method, args]) => method === 'eq' && args[0] === column)?.[1][1];
+
+const enqueue = (...operations: NewOutboxOperation[]) =>
+  operations.reduce(
+    (previous, operation) => previous.then(() => offlineStorage.enqueueOutboxOperation(operation)),
+    Promise.resolve() as Promise<unknown>
+  );
+
+// A session started offline, with one petri observation made from a template
+const newSession = () => {
+  const ids = {
+    submission: offlineStorage.createTempId(),
+    session: offlineStorage.createTempId(),
+    observation: offlineStorage.createTempId()
+  };
+  const operation: NewOutboxOperation = {
+    type: 'createSession',
+    payload: {
+      tempSubmissionId: ids.submission,
+      tempSessionId: ids.session,
+      siteId: 'site-1',
+      programId: 'program-1',
+      submissionData: {} as any,
+      templateObservations: [{ type: 'petri', tempId: ids.observation, code: 'P-1' }]
+    }
+  };
+  return { ids, operation };
+};
+
+const updateSubmission = (submissionId: string, notes: string): NewOutboxOperation => ({
+  type: 'updateSubmission',
+  payload: {
+    submissionId,
+    siteId: 'site-1',
+    fields: { notes } as any
+  }
+});
+
+const completeSession = (sessionId: string, submissionId: string): NewOutboxOperation => ({
+  type: 'completeSession',
+  payload: { sessionId, submissionId }
+});
+
+// The server answers for a created session
+const createdSession = { success: true, submission_id: 'submission-1', session_id: 'session-1' };
+
+const respondRpc = (name: string) => ({
+  data: name === 'create_submission_session' ? createdSession : { success: true },
+  error: null
+});
+
+const rpcNames = () => server.state.rpcs.map(rpc => rpc.name);
+
+beforeEach(async () => {
+  server.state.queries = [];
+  server.state.rpcs = [];
+  server.state.respond = query => ({
+    data: query.table === 'petri_observations' ? [{ observation_id: 'observation-1', petri_code: 'P-1' }] : [],
+    error: null
+  });
+  server.state.respondRpc = respondRpc;
+
+  for (const operation of await offlineStorage.getOutboxOperations()) {
+    await offlineStorage.removeOutboxOperation(operation.seq!);
+  }
+  for (const item of await offlineStorage.getDeadLetters()) {
+    await offlineStorage.deleteDeadLetter(item.id);
+  }
+});
+
+describe('replayOutbox', () => {
+  it('replays operations in the order they were queued', async () => {
+    const { ids, operation } = newSession();
+    await enqueue(operation, updateSubmission(ids.submission, 'Door left open'), completeSession(ids.session, ids.submission));
+
+    const result = await replayOutbox();
+
+    expect(result.pendingCount).toBe(0);
+    expect(rpcNames()).toEqual(['create_submission_session', 'complete_submission_session']);
+    const submissionUpdate = server.state.queries.findIndex(query => query.table === 'submissions');
+    expect(submissionUpdate).toBeGreaterThan(-1);
+    expect(server.state.queries.slice(submissionUpdate + 1).some(query => query.table === 'submissions')).toBe(false);
+  });
+
+  it('sends the server IDs in place of temporary ones in later operations', async () => {
+    const { ids, operation } = newSession();
+    await enqueue(operation, updateSubmission(ids.submission, 'Door left open'), completeSession(ids.session, ids.submission));
+
+    await replayOutbox();
+
+    const submissionUpdate = server.state.queries.find(query => query.table === 'submissions')!;
+    expect(filterValue(submissionUpdate, 'submission_id')).toBe('submission-1');
+    expect(server.state.rpcs[1].args).toEqual({ p_session_id: 'session-1' });
+    expect(await offlineStorage.getIdMappings()).toMatchObject({
+      [ids.submission]: 'submission-1',
+      [ids.session]: 'session-1',
+      [ids.observation]: 'observation-1'
+    });
+  });
+
+  it('does not create a session again when a step after creating it failed', async () => {
+    const { ids, operation } = newSession();
+    await enqueue(operation, completeSession(ids.session, ids.submission));
+
+    // Matching up the observations fails once, after the server created the session
+    server.state.respond = query => query.table === 'petri_observations'
+      ? { data: null, error: { message: 'Network error' } }
+      : { data: [], error: null };
+
+    const failed = await replayOutbox();
+    expect(failed.pendingCount).toBe(2);
+    expect(rpcNames()).toEqual(['create_submission_session']);
+
+    // Retry straight away rather than waiting for the backoff
+    for (const queued of await offlineStorage.getOutboxOperations()) {
+      await offlineStorage.updateOutboxOperation({ ...queued, nextRetryAt: undefined });
+    }
+    server.state.respond = query => {
+      switch (query.table) {
+        case 'petri_observations':
+          return { data: [{ observation_id: 'observation-1', petri_code: 'P-1' }], error: null };
+        case 'submission_sessions':
+          return { data: { session_id: 'session-1', submission_id: 'submission-1' }, error: null };
+        default:
+          return { data: [], error: null };
+      }
+    };
+
+    const retried = await replayOutbox();
+
+    expect(retried.pendingCount).toBe(0);
+    expect(rpcNames()).toEqual(['create_submission_session', 'complete_submission_session']);
+    expect(await offlineStorage.getIdMappings()).toMatchObject({ [ids.observation]: 'observation-1' });
+  });
+
+  it('sets aside the operations that depend on one that cannot sync', async () => {
+    const { ids, operation } = newSession();
+    await enqueue(
+      operation,
+      updateSubmission(ids.submission, 'Door left open'),
+      updateSubmission('submission-2', 'Unrelated'),
+      completeSession(ids.session, ids.submission)
+    );
+
+    // A constraint violation fails the same way on every attempt
+    server.state.respondRpc = name => name === 'create_submission_session'
+      ? { data: null, error: { code: '23505', message: 'duplicate key value' } }
+      : respondRpc(name);
+
+    const result = await replayOutbox();
+
+    expect(result.pendingCount).toBe(0);
+    const deadLetters = await offlineStorage.getDeadLetters();
+    expect(deadLetters.map(item => item.source === 'outbox' && item.record.type).sort())
+      .toEqual(['completeSession', 'createSession', 'updateSubmission']);
+    expect(rpcNames()).toEqual(['create_submission_session']);
+
+    // The unrelated submission was still updated
+    const submissionUpdates = server.state.queries.filter(query => query.table === 'submissions');
+    expect(submissionUpdates.map(query => filterValue(query, 'submission_id'))).toEqual(['submission-2']);
+  });
+});
+
+describe('replaying observation edits', () => {
+  // An edit to petri observation observation-9, saved offline from the copy at revision 3
+  const editObservation = (notes: string): NewOutboxOperation => ({
+    type: 'updateObservation',
+    payload: {
+      submissionId: 'submission-9',
+      siteId: 'site-1',
+      observation: {
+        type: 'petri',
+        formData: {
+          formId: 'form-9',
+          petriCode: 'P-9',
+          plantType: 'Other Fresh Perishable',
+          fungicideUsed: 'No',
+          surroundingWaterSchedule: 'Daily',
+          notes,
+          observationId: 'observation-9',
+          revision: 3,
+          isValid: true,
+          hasData: true,
+          hasImage: false,
+          isDirty: true
+        }
+      }
+    }
+  });
+
+  // The server's copy of observation-9; updates only apply at its current revision
+  const serveObservation = (revision: number) => {
+    server.state.respond = query => {
+      if (query.table !== 'petri_observations') return { data: [], error: null };
+      if (!query.calls.some(([method]) => method === 'update')) {
+        return { data: { observation_id: 'observation-9', petri_code: 'P-9', notes: 'Theirs', revision }, error: null };
+      }
+      if (filterValue(query, 'revision') !== revision) return { data: [], error: null };
+      revision++;
+      return { data: [{ observation_id: 'observation-9', revision }], error: null };
+    };
+  };
+
+  it('applies a second offline edit on top of the first', async () => {
+    serveObservation(3);
+    await enqueue(editObservation('First'), editObservation('Second'));
+
+    const result = await replayOutbox();
+
+    expect(result.pendingCount).toBe(0);
+    const updates = server.state.queries.filter(query => query.calls.some(([method]) => method === 'update'));
+    expect(updates.map(query => filterValue(query, 'revision'))).toEqual([3, 4]);
+    expect(await offlineStorage.getDeadLetters()).toHaveLength(0);
+  });
+
+  it('keeps edits that someone else saved over first for merging', async () => {
+    serveObservation(4);
+    await enqueue(editObservation('First'), editObservation('Second'));
+
+    const result = await replayOutbox();
+
+    expect(result.pendingCount).toBe(2);
+    expect(await offlineStorage.getDeadLetters()).toHaveLength(0);
+    const conflicts = await getSyncConflicts('submission-9');
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].yours.notes).toBe('Second');
+    expect(conflicts[0].theirs).toMatchObject({ notes: 'Theirs', revision: 4 });
+  });
+});
@@ -1,7 +1,25 @@
 import { supabase } from '../lib/supabaseClient';
-import offlineStorage from './offlineStorage';
+import offlineStorage, {
+  OutboxOperation,
+  OfflineSubmissionRecord,
+  CreateSessionOperationPayload,
+  UpdateSubmissionOperationPayload,
+  UpdateObservationOperationPayload,
+  CompleteSessionOperationPayload
+} from './offlineStorage';
+import {
+  updatePetriObservation,
+  updateGasifierObservation,
+  ObservationConflict,
+  CONFLICT_MESSAGE
+} from './submissionUtils';
+import { SubmissionSession } from '../types/session';
 import { toast } from 'react-toastify';
-import { retry } from './helpers';
+import { retry, getBackoffDelay } from './helpers';
+import { createLogger } from './logger';
+
+// Create a logger for syncManager
+const logger = createLogger('SyncManager');
 
 // Check if we're online
 const isOnline = () => navigator.onLine;
@@ -9,6 +27,194 @@ const isOnline = () => navigator.onLine;
 // Track if a toast notification for syncing is already showing
 let syncingToastShown = false;
 
+// Items are set aside in the dead-letter store after this many failed attempts
+const MAX_SYNC_ATTEMPTS = 5;
+
+// Retry delays double after each failed attempt, starting here and capped below
+const BASE_SYNC_RETRY_DELAY_MS = 30 * 1000;
+const MAX_SYNC_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// An edit that someone else saved over first. Retrying would conflict again, so it is kept
+// for the user to merge instead.
+class SyncConflictError extends Error {
+  constructor(readonly conflict: ObservationConflict) {
+    super(CONFLICT_MESSAGE);
+  }
+}
+
+// Postgres data exceptions (22), constraint violations (23) and syntax or
+// undefined-column errors (42) fail the same way on every attempt
+const isPermanentSyncError = (error: unknown) => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && /^(22|23|42)/.test(code);
+};
+
+const getErrorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' ? message : String(error);
+};
+
+const isDue = (nextRetryAt?: string) => !nextRetryAt || Date.parse(nextRetryAt) <= Date.now();
+
+const getNextRetryAt = (attempts: number) =>
+  new Date(Date.now() + getBackoffDelay(attempts, BASE_SYNC_RETRY_DELAY_MS, MAX_SYNC_RETRY_DELAY_MS)).toISOString();
+
+// Listeners notified when items are added to, retried from or removed from the dead-letter store
+type SyncQueueListener = () => void;
+const syncQueueListeners: SyncQueueListener[] = [];
+
+// Register a listener for sync queue changes; returns an unsubscribe function
+export const onSyncQueueChanged = (listener: SyncQueueListener) => {
+  syncQueueListeners.push(listener);
+  return () => {
+    const index = syncQueueListeners.indexOf(listener);
+    if (index !== -1) syncQueueListeners.splice(index, 1);
+  };
+};
+
+const notifySyncQueueChanged = () => {
+  for (const listener of syncQueueListeners) {
+    try {
+      listener();
+    } catch (error) {
+      logger.error('Error in sync queue listener:', error);
+    }
+  }
+};
+
+// Record a failed attempt to sync a pending submission, setting it aside if it keeps failing
+const recordSubmissionFailure = async (record: OfflineSubmissionRecord, error: unknown) => {
+  const attempts = (record.attempts || 0) + 1;
+  const lastError = getErrorMessage(error);
+  const submissionId = record.submission.submission_id;
+  
+  if (attempts >= MAX_SYNC_ATTEMPTS || isPermanentSyncError(error)) {
+    logger.warn(`Moving submission ${submissionId} to the dead-letter store after ${attempts} attempts`, lastError);
+    await offlineStorage.saveDeadLetter({
+      id: submissionId,
+      source: 'submission',
+      record: { ...record, attempts, lastError, nextRetryAt: undefined },
+      attempts,
+      lastError,
+      deadLetteredAt: new Date().toISOString()
+    });
+    await offlineStorage.deleteOfflineSubmission(submissionId);
+    return true;
+  }
+  
+  await offlineStorage.putOfflineSubmission({
+    ...record,
+    attempts,
+    lastError,
+    nextRetryAt: getNextRetryAt(attempts)
+  });
+  return false;
+};
+
+// Move an outbox operation to the dead-letter store
+const deadLetterOutboxOperation = async (operation: OutboxOperation, attempts: number, lastError: string) => {
+  await offlineStorage.saveDeadLetter({
+    id: operation.operationId,
+    source: 'outbox',
+    record: { ...operation, attempts, lastError, nextRetryAt: undefined },
+    attempts,
+    lastError,
+    deadLetteredAt: new Date().toISOString()
+  });
+  await offlineStorage.removeOutboxOperation(operation.seq!);
+};
+
+// Record a failed attempt to replay an outbox operation, setting it aside if it keeps failing.
+// Returns true when the operation was moved out of the outbox.
+const recordOutboxFailure = async (operation: OutboxOperation, error: unknown) => {
+  const attempts = operation.attempts + 1;
+  const lastError = getErrorMessage(error);
+  
+  if (attempts >= MAX_SYNC_ATTEMPTS || isPermanentSyncError(error)) {
+    logger.warn(`Moving ${operation.type} operation ${operation.operationId} to the dead-letter store after ${attempts} attempts`, lastError);
+    await deadLetterOutboxOperation(operation, attempts, lastError);
+    return true;
+  }
+  
+  await offlineStorage.updateOutboxOperation({
+    ...operation,
+    attempts,
+    lastError,
+    nextRetryAt: getNextRetryAt(attempts)
+  });
+  return false;
+};
+
+// The submission and session IDs an operation touches, temporary and server IDs alike
+const getOperationEntityIds = async (operation: OutboxOperation, mappings: Record<string, string>) => {
+  let ids: (string | undefined)[];
+  switch (operation.type) {
+    case 'createSession':
+      ids = [operation.payload.tempSubmissionId, operation.payload.tempSessionId];
+      break;
+    case 'updateSubmission':
+    case 'updateObservation':
+      ids = [operation.payload.submissionId];
+      break;
+    case 'completeSession': {
+      // Completions queued before they recorded their submission fall back to the local session
+      const submissionId = operation.payload.submissionId
+        || (await offlineStorage.getSession(operation.payload.sessionId))?.submission_id;
+      ids = [operation.payload.sessionId, submissionId];
+      break;
+    }
+  }
+  
+  return ids
+    .filter((id): id is string => !!id)
+    .flatMap(id => mappings[id] ? [id, mappings[id]] : [id]);
+};
+
+// Set aside every queued operation on the same submission or session as one that was just set
+// aside. Replaying them without it would fail on its temporary IDs, or complete the session
+// without its edits. Returns the IDs of the operations set aside.
+const deadLetterDependentOperations = async (deadLettered: OutboxOperation) => {
+  const mappings = await offlineStorage.getIdMappings();
+  const blockedIds = new Set(await getOperationEntityIds(deadLettered, mappings));
+  const lastError = `Waiting on an earlier change to the same session that could not be synced (${describeOutboxOperation(deadLettered)})`;
+  const operationIds: string[] = [];
+  
+  for (const operation of await offlineStorage.getOutboxOperations()) {
+    if (operation.conflict) continue;
+    
+    const ids = await getOperationEntityIds(operation, mappings);
+    if (!ids.some(id => blockedIds.has(id))) continue;
+    
+    ids.forEach(id => blockedIds.add(id));
+    logger.warn(`Moving ${operation.type} operation ${operation.operationId} to the dead-letter store with ${deadLettered.operationId}`);
+    await deadLetterOutboxOperation(operation, operation.attempts, lastError);
+    operationIds.push(operation.operationId);
+  }
+  
+  return operationIds;
+};
+
+// Delete the local copies of synced submissions once none of their edits are still queued.
+// Drafts of submissions started offline are deleted when their session is created.
+const deleteSettledDrafts = async () => {
+  const [drafts, operations, mappings] = await Promise.all([
+    offlineStorage.getDraftSubmissions(),
+    offlineStorage.getOutboxOperations(),
+    offlineStorage.getIdMappings()
+  ]);
+  const queuedIds = new Set(
+    (await Promise.all(operations.map(operation => getOperationEntityIds(operation, mappings)))).flat()
+  );
+  
+  for (const draft of drafts) {
+    const submissionId = draft.submission.submission_id;
+    if (!offlineStorage.isTempId(submissionId) && !queuedIds.has(submissionId)) {
+      await offlineStorage.deleteDraftSubmission(submissionId);
+    }
+  }
+};
+
 // Sync all pending submissions
 export const syncPendingSubmissions = async (onProgress?: (current: number, total: number, failed?: number) => void) => {
   if (!isOnline()) {
@@ -19,18 +225,24 @@ export const syncPendingSubmissions = async (onProgress?: (current: number, tota
     };
   }
   
-  const pendingSubmissions = await offlineStorage.getPendingSubmissions();
+  const allPendingSubmissions = await offlineStorage.getPendingSubmissions();
+  
+  // Submissions that failed recently wait until their retry time
+  const pendingSubmissions = allPendingSubmissions.filter(item => isDue(item.nextRetryAt));
   
   if (pendingSubmissions.length === 0) {
     return {
-      success: true,
-      message: 'No pending submissions to sync',
-      pendingCount: 0
+      success: allPendingSubmissions.length === 0,
+      message: allPendingSubmissions.length === 0
+        ? 'No pending submissions to sync'
+        : 'Pending submissions are waiting to be retried',
+      pendingCount: allPendingSubmissions.length
     };
   }
   
   let successCount = 0;
   let errorCount = 0;
+  let deadLetteredCount = 0;
   const total = pendingSubmissions.length;
   
   // Show a single toast notification when syncing starts
@@ -129,6 +341,10 @@ export const syncPendingSubmissions = async (onProgress?: (current: number, tota
       console.error('Error syncing submission:', error);
       errorCount++;
       
+      if (await recordSubmissionFailure(pendingItem, error)) {
+        deadLetteredCount++;
+      }
+      
       // Update progress with failure count
       if (onProgress) {
         onProgress(index + 1, total, errorCount);
@@ -147,6 +363,12 @@ export const syncPendingSubmissions = async (onProgress?: (current: number, tota
     toast.error(`Failed to sync ${errorCount} submission${errorCount > 1 ? 's' : ''}`);
   }
   
+  if (deadLetteredCount > 0) {
+    toast.warning(`${deadLetteredCount} submission${deadLetteredCount > 1 ? 's' : ''} could not be synced and need${deadLetteredCount > 1 ? '' : 's'} your attention`);
+  }
+  
+  notifySyncQueueChanged();
+  
   // Get remaining pending submissions count after sync
   const remainingSubmissions = await offlineStorage.getPendingSubmissions();
   
@@ -157,12 +379,574 @@ export const syncPendingSubmissions = async (onProgress?: (current: number, tota
   };
 };
 
+// Listeners notified when temporary IDs are replaced by server IDs
+type IdRemapListener = (mappings: Record<string, string>) => void;
+const idRemapListeners: IdRemapListener[] = [];
+
+// Register a listener for ID remapping; returns an unsubscribe function
+export const onIdsRemapped = (listener: IdRemapListener) => {
+  idRemapListeners.push(listener);
+  return () => {
+    const index = idRemapListeners.indexOf(listener);
+    if (index !== -1) idRemapListeners.splice(index, 1);
+  };
+};
+
+const notifyIdsRemapped = (mappings: Record<string, string>) => {
+  for (const listener of idRemapListeners) {
+    try {
+      listener(mappings);
+    } catch (error) {
+      logger.error('Error in ID remap listener:', error);
+    }
+  }
+};
+
+// Replace every temporary ID embedded in a string (e.g. a temp image key)
+const remapIdsInString = (value: string, mappings: Record<string, string>) =>
+  Object.entries(mappings).reduce(
+    (result, [tempId, serverId]) => result.split(tempId).join(serverId),
+    value
+  );
+
+// Replay a session created offline and map its temporary IDs to the server IDs
+const replayCreateSession = async (payload: CreateSessionOperationPayload) => {
+  const knownMappings = await offlineStorage.getIdMappings();
+  let submissionId = knownMappings[payload.tempSubmissionId];
+  let sessionId = knownMappings[payload.tempSessionId];
+  let session: SubmissionSession | null = null;
+  
+  if (submissionId && sessionId) {
+    // An earlier attempt created the session but stopped before finishing; creating it
+    // again would leave a duplicate submission on the server
+    logger.info(`Session ${payload.tempSessionId} was already created as ${sessionId}`);
+    const { data, error } = await supabase
+      .from('submission_sessions')
+      .select('*')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+    
+    if (error) throw error;
+    session = data;
+  } else {
+    const { data, error } = await supabase.rpc('create_submission_session', {
+      p_site_id: payload.siteId,
+      p_program_id: payload.programId,
+      p_submission_data: payload.submissionData,
+      p_petri_templates: payload.petriTemplates ? JSON.stringify(payload.petriTemplates) : null,
+      p_gasifier_templates: payload.gasifierTemplates ? JSON.stringify(payload.gasifierTemplates) : null
+    });
+    
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.message || 'Failed to create submission session');
+    
+    submissionId = data.submission_id;
+    sessionId = data.session_id;
+    session = data.session || null;
+    
+    // Recorded straight away and together, so a retry finds them whatever fails next
+    await offlineStorage.saveIdMappings([
+      { tempId: payload.tempSubmissionId, serverId: submissionId, entity: 'submission' },
+      { tempId: payload.tempSessionId, serverId: sessionId, entity: 'session' }
+    ]);
+  }
+  
+  const mappings: Record<string, string> = {
+    [payload.tempSubmissionId]: submissionId,
+    [payload.tempSessionId]: sessionId
+  };
+  
+  // The server created observations from the same templates; match them up by code
+  if (payload.templateObservations.length > 0) {
+    const [{ data: petriRows, error: petriError }, { data: gasifierRows, error: gasifierError }] = await Promise.all([
+      supabase.from('petri_observations').select('observation_id, petri_code').eq('submission_id', submissionId),
+      supabase.from('gasifier_observations').select('observation_id, gasifier_code').eq('submission_id', submissionId)
+    ]);
+    
+    if (petriError) throw petriError;
+    if (gasifierError) throw gasifierError;
+    
+    const unmatched = {
+      petri: (petriRows || []).map(row => ({ id: row.observation_id, code: row.petri_code })),
+      gasifier: (gasifierRows || []).map(row => ({ id: row.observation_id, code: row.gasifier_code }))
+    };
+    
+    for (const templateObservation of payload.templateObservations) {
+      const candidates = unmatched[templateObservation.type];
+      const index = candidates.findIndex(c => c.code === templateObservation.code);
+      if (index === -1) continue;
+      
+      const [match] = candidates.splice(index, 1);
+      mappings[templateObservation.tempId] = match.id;
+      await offlineStorage.saveIdMapping({
+        tempId: templateObservation.tempId,
+        serverId: match.id,
+        entity: 'observation'
+      });
+    }
+  }
+  
+  await offlineStorage.remapTempImageKeys(payload.tempSessionId, sessionId);
+  await offlineStorage.remapTempImageKeys(payload.tempSubmissionId, submissionId);
+  
+  if (session) {
+    await offlineStorage.replaceSession(payload.tempSessionId, session);
+  }
+  
+  await offlineStorage.deleteDraftSubmission(payload.tempSubmissionId);
+  
+  return mappings;
+};
+
+// Replay an edit to the submission's own fields made offline
+const replayUpdateSubmission = async (payload: UpdateSubmissionOperationPayload) => {
+  const submissionId = await offlineStorage.resolveId(payload.submissionId);
+  
+  if (offlineStorage.isTempId(submissionId)) {
+    throw new Error(`Submission ${payload.submissionId} has not been created on the server yet`);
+  }
+  
+  const { error } = await supabase
+    .from('submissions')
+    .update(payload.fields)
+    .eq('submission_id', submissionId);
+  
+  if (error) throw error;
+};
+
+// Move queued edits to an observation from one base revision to another
+const rebaseQueuedObservationEdits = async (
+  observationIds: (string | undefined)[],
+  fromRevision: number,
+  toRevision: number
+) => {
+  for (const operation of await offlineStorage.getOutboxOperations()) {
+    if (operation.type !== 'updateObservation') continue;
+    
+    const { formData } = operation.payload.observation;
+    if (!observationIds.includes(formData.observationId) || formData.revision !== fromRevision) continue;
+    
+    formData.revision = toRevision;
+    await offlineStorage.updateOutboxOperation(operation);
+  }
+};
+
+// Replay an observation edit made offline
+const replayUpdateObservation = async (payload: UpdateObservationOperationPayload) => {
+  const knownMappings = await offlineStorage.getIdMappings();
+  const submissionId = knownMappings[payload.submissionId] || payload.submissionId;
+  
+  if (offlineStorage.isTempId(submissionId)) {
+    throw new Error(`Submission ${payload.submissionId} has not been created on the server yet`);
+  }
+  
+  const { formData } = payload.observation;
+  const tempObservationId = formData.observationId;
+  const observationId = tempObservationId ? knownMappings[tempObservationId] || tempObservationId : undefined;
+  
+  // Load the captured image from temp storage if it has not been uploaded yet
+  let imageFile: File | null = null;
+  if (formData.tempImageKey && !formData.imageUrl) {
+    const tempImageKey = remapIdsInString(formData.tempImageKey, knownMappings);
+    const blob = await offlineStorage.getTempImage(tempImageKey);
+    if (blob) {
+      imageFile = new File([blob], `image-${formData.formId}.jpg`, { type: blob.type });
+    }
+  }
+  
+  // Observations added offline have no server row yet, so they are inserted
+  const resolvedObservationId = offlineStorage.isTempId(observationId) ? undefined : observationId;
+  
+  const result = payload.observation.type === 'petri'
+    ? await updatePetriObservation(
+        { ...payload.observation.formData, observationId: resolvedObservationId, imageFile },
+        submissionId,
+        payload.siteId
+      )
+    : await updateGasifierObservation(
+        { ...payload.observation.formData, observationId: resolvedObservationId, imageFile },
+        submissionId,
+        payload.siteId
+      );
+  
+  if (result.conflict) {
+    throw new SyncConflictError(result.conflict);
+  }
+  
+  if (!result.success || !result.observationId) {
+    throw new Error(result.message || 'Failed to sync observation');
+  }
+  
+  // Later edits queued from the same loaded copy are the user's own, so they build on this save
+  const baseRevision = formData.revision;
+  if (baseRevision !== undefined && result.revision !== undefined) {
+    await rebaseQueuedObservationEdits([tempObservationId, result.observationId], baseRevision, result.revision);
+  }
+  
+  if (tempObservationId && offlineStorage.isTempId(tempObservationId) && !resolvedObservationId) {
+    await offlineStorage.saveIdMapping({
+      tempId: tempObservationId,
+      serverId: result.observationId,
+      entity: 'observation'
+    });
+    return { [tempObservationId]: result.observationId };
+  }
+  
+  return {};
+};
+
+// Replay a session completion made offline
+const replayCompleteSession = async (payload: CompleteSessionOperationPayload) => {
+  const resolvedSessionId = await offlineStorage.resolveId(payload.sessionId);
+  
+  const { data, error } = await supabase.rpc('complete_submission_session', {
+    p_session_id: resolvedSessionId
+  });
+  
+  if (error) throw error;
+  if (data && data.success === false) throw new Error(data.message || 'Failed to complete session');
+  
+  if (data?.session) {
+    await offlineStorage.saveSession(data.session);
+  }
+};
+
+const replayOperation = async (operation: OutboxOperation): Promise<Record<string, string>> => {
+  switch (operation.type) {
+    case 'createSession':
+      return replayCreateSession(operation.payload);
+    case 'updateSubmission':
+      await replayUpdateSubmission(operation.payload);
+      return {};
+    case 'updateObservation':
+      return replayUpdateObservation(operation.payload);
+    case 'completeSession':
+      await replayCompleteSession(operation.payload);
+      return {};
+  }
+};
+
+// Get the offline edits to a submission that conflicted when replayed, the latest for each observation
+export const getSyncConflicts = async (submissionId: string): Promise<ObservationConflict[]> => {
+  const mappings = await offlineStorage.getIdMappings();
+  const conflicts = new Map<string, ObservationConflict>();
+  
+  for (const operation of await offlineStorage.getOutboxOperations()) {
+    if (operation.type !== 'updateObservation' || !operation.conflict) continue;
+    
+    const operationSubmissionId = mappings[operation.payload.submissionId] || operation.payload.submissionId;
+    if (operationSubmissionId === submissionId) {
+      conflicts.set(operation.conflict.observationId, operation.conflict);
+    }
+  }
+  
+  return [...conflicts.values()];
+};
+
+// Drop the conflicted offline edits to an observation once they have been merged
+export const resolveSyncConflict = async (observationId: string) => {
+  const operations = (await offlineStorage.getOutboxOperations())
+    .filter(operation => operation.conflict?.observationId === observationId);
+  
+  for (const operation of operations) {
+    await offlineStorage.removeOutboxOperation(operation.seq!);
+  }
+  
+  if (operations.length > 0) {
+    notifySyncQueueChanged();
+  }
+};
+
+// Track if the outbox is currently being replayed
+let outboxReplayInProgress = false;
+
+// Replay queued offline operations in the order they were recorded
+export const replayOutbox = async () => {
+  if (!isOnline()) {
+    return {
+      success: false,
+      message: 'Cannot replay outbox while offline',
+      pendingCount: await offlineStorage.getOutboxCount()
+    };
+  }
+  
+  if (outboxReplayInProgress) {
+    return {
+      success: false,
+      message: 'Outbox replay already in progress',
+      pendingCount: await offlineStorage.getOutboxCount()
+    };
+  }
+  
+  outboxReplayInProgress = true;
+  let replayedCount = 0;
+  let deadLetteredCount = 0;
+  let conflictCount = 0;
+  let failed = false;
+  
+  try {
+    const operations = await offlineStorage.getOutboxOperations();
+    
+    for (const queuedOperation of operations) {
+      // Re-read in case an earlier operation set this one aside or rebased it
+      const operation = await offlineStorage.getOutboxOperation(queuedOperation.seq!);
+      if (!operation) continue;
+      
+      // Conflicted edits wait for the user to merge them and no longer block the rest
+      if (operation.conflict) continue;
+      
+      // Operations run in order, so everything waits for the first one to be due again
+      if (!isDue(operation.nextRetryAt)) break;
+      
+      try {
+        const mappings = await replayOperation(operation);
+        await offlineStorage.removeOutboxOperation(operation.seq!);
+        replayedCount++;
+        
+        if (Object.keys(mappings).length > 0) {
+          notifyIdsRemapped(mappings);
+        }
+      } catch (error) {
+        if (error instanceof SyncConflictError) {
+          logger.warn(`${operation.type} operation ${operation.operationId} conflicts with a newer save`);
+          await offlineStorage.updateOutboxOperation({
+            ...operation,
+            lastError: error.message,
+            conflict: error.conflict
+          });
+          conflictCount++;
+          continue;
+        }
+        
+        logger.error(`Error replaying ${operation.type} operation ${operation.operationId}:`, error);
+        failed = true;
+        
+        // Once set aside the operation and those that depend on it no longer block the rest
+        if (await recordOutboxFailure(operation, error)) {
+          const dependentIds = await deadLetterDependentOperations(operation);
+          deadLetteredCount += 1 + dependentIds.length;
+          continue;
+        }
+        
+        // Later operations may depend on this one, so stop here and keep the order intact
+        break;
+      }
+    }
+    
+    if (replayedCount > 0 || conflictCount > 0) {
+      await deleteSettledDrafts();
+    }
+  } finally {
+    outboxReplayInProgress = false;
+  }
+  
+  const pendingCount = await offlineStorage.getOutboxCount();
+  
+  if (replayedCount > 0) {
+    toast.success(`Synced ${replayedCount} offline change${replayedCount > 1 ? 's' : ''}`);
+  }
+  
+  if (deadLetteredCount > 0) {
+    toast.warning(`${deadLetteredCount} offline change${deadLetteredCount > 1 ? 's' : ''} could not be synced and need${deadLetteredCount > 1 ? '' : 's'} your attention`);
+  }
+  
+  if (conflictCount > 0) {
+    toast.warning(`${conflictCount} offline change${conflictCount > 1 ? 's' : ''} clashed with edits made by someone else. Open the submission to merge ${conflictCount > 1 ? 'them' : 'it'}.`);
+  }
+  
+  if (failed || replayedCount > 0 || conflictCount > 0) {
+    notifySyncQueueChanged();
+  }
+  
+  return {
+    success: pendingCount === 0,
+    message: `Replayed ${replayedCount} operations, ${pendingCount} pending`,
+    pendingCount
+  };
+};
+
 // Get pending submissions count
 export const getPendingSubmissionsCount = async () => {
   const pendingSubmissions = await offlineStorage.getPendingSubmissions();
   return pendingSubmissions.length;
 };
 
+// A pending or dead-lettered item, as listed in the sync status panel
+export interface SyncQueueItem {
+  // Prefixed with the store the item lives in: 'submission:', 'outbox:' or 'dead:'
+  id: string;
+  source: 'submission' | 'outbox';
+  label: string;
+  deadLettered: boolean;
+  attempts: number;
+  lastError?: string;
+  nextRetryAt?: string;
+}
+
+const describeSubmission = (record: OfflineSubmissionRecord) =>
+  `Submission from ${new Date(record.submission.created_at).toLocaleString()}`;
+
+const describeOutboxOperation = (operation: OutboxOperation) => {
+  switch (operation.type) {
+    case 'createSession':
+      return 'New session';
+    case 'updateSubmission':
+      return 'Submission details';
+    case 'updateObservation': {
+      const { observation } = operation.payload;
+      return observation.type === 'petri'
+        ? `Petri observation ${observation.formData.petriCode}`
+        : `Gasifier observation ${observation.formData.gasifierCode}`;
+    }
+    case 'completeSession':
+      return 'Session completion';
+  }
+};
+
+const parseSyncQueueItemId = (id: string) => {
+  const separatorIndex = id.indexOf(':');
+  return {
+    store: id.substring(0, separatorIndex) as 'submission' | 'outbox' | 'dead',
+    key: id.substring(separatorIndex + 1)
+  };
+};
+
+// Get every item still waiting to sync, including those set aside after failing
+export const getSyncQueueItems = async (): Promise<SyncQueueItem[]> => {
+  const [submissions, operations, deadLetters] = await Promise.all([
+    offlineStorage.getPendingSubmissions(),
+    offlineStorage.getOutboxOperations(),
+    offlineStorage.getDeadLetters()
+  ]);
+  
+  return [
+    ...deadLetters.map(item => ({
+      id: `dead:${item.id}`,
+      source: item.source,
+      label: item.source === 'submission' ? describeSubmission(item.record) : describeOutboxOperation(item.record),
+      deadLettered: true,
+      attempts: item.attempts,
+      lastError: item.lastError
+    })),
+    ...submissions.map(record => ({
+      id: `submission:${record.submission.submission_id}`,
+      source: 'submission' as const,
+      label: describeSubmission(record),
+      deadLettered: false,
+      attempts: record.attempts || 0,
+      lastError: record.lastError,
+      nextRetryAt: record.nextRetryAt
+    })),
+    ...operations.map(operation => ({
+      id: `outbox:${operation.seq}`,
+      source: 'outbox' as const,
+      label: describeOutboxOperation(operation),
+      deadLettered: false,
+      attempts: operation.attempts,
+      lastError: operation.lastError,
+      nextRetryAt: operation.nextRetryAt
+    }))
+  ];
+};
+
+// Get the stored data behind a queue item, e.g. to export or edit it
+export const getSyncQueueItemRecord = async (id: string): Promise<OfflineSubmissionRecord | OutboxOperation | undefined> => {
+  const { store, key } = parseSyncQueueItemId(id);
+  
+  switch (store) {
+    case 'submission':
+      return offlineStorage.getOfflineSubmission(key);
+    case 'outbox':
+      return offlineStorage.getOutboxOperation(Number(key));
+    case 'dead':
+      return (await offlineStorage.getDeadLetter(key))?.record;
+  }
+};
+
+// Replace the stored data behind a queue item with an edited copy
+export const updateSyncQueueItemRecord = async (id: string, record: OfflineSubmissionRecord | OutboxOperation) => {
+  const { store, key } = parseSyncQueueItemId(id);
+  
+  switch (store) {
+    case 'submission': {
+      const submissionRecord = record as OfflineSubmissionRecord;
+      if (submissionRecord.submission?.submission_id !== key) {
+        throw new Error('The submission ID cannot be changed');
+      }
+      await offlineStorage.putOfflineSubmission(submissionRecord);
+      break;
+    }
+    case 'outbox':
+      await offlineStorage.updateOutboxOperation({ ...(record as OutboxOperation), seq: Number(key) });
+      break;
+    case 'dead': {
+      const item = await offlineStorage.getDeadLetter(key);
+      if (!item) throw new Error('Item no longer exists');
+      await offlineStorage.saveDeadLetter({ ...item, record } as typeof item);
+      break;
+    }
+  }
+  
+  notifySyncQueueChanged();
+};
+
+// Retry a queue item now. Dead-lettered items go back into the queue with a fresh attempt count.
+export const retrySyncQueueItem = async (id: string) => {
+  const { store, key } = parseSyncQueueItemId(id);
+  let source: SyncQueueItem['source'];
+  
+  if (store === 'submission') {
+    source = 'submission';
+    const record = await offlineStorage.getOfflineSubmission(key);
+    if (record) {
+      await offlineStorage.putOfflineSubmission({ ...record, nextRetryAt: undefined });
+    }
+  } else if (store === 'outbox') {
+    source = 'outbox';
+    const operation = await offlineStorage.getOutboxOperation(Number(key));
+    if (operation) {
+      await offlineStorage.updateOutboxOperation({ ...operation, nextRetryAt: undefined, conflict: undefined });
+    }
+  } else {
+    const item = await offlineStorage.getDeadLetter(key);
+    if (!item) return;
+    
+    source = item.source;
+    const reset = { attempts: 0, lastError: undefined, nextRetryAt: undefined };
+    if (item.source === 'submission') {
+      await offlineStorage.putOfflineSubmission({ ...item.record, ...reset, status: 'pending' });
+    } else {
+      // Restoring with the original sequence number puts the operation back in its place
+      await offlineStorage.updateOutboxOperation({ ...item.record, ...reset });
+    }
+    await offlineStorage.deleteDeadLetter(key);
+  }
+  
+  notifySyncQueueChanged();
+  
+  return source === 'submission' ? syncPendingSubmissions() : replayOutbox();
+};
+
+// Permanently drop a queue item without syncing it
+export const discardSyncQueueItem = async (id: string) => {
+  const { store, key } = parseSyncQueueItemId(id);
+  
+  switch (store) {
+    case 'submission':
+      await offlineStorage.deleteOfflineSubmission(key);
+      break;
+    case 'outbox':
+      await offlineStorage.removeOutboxOperation(Number(key));
+      break;
+    case 'dead':
+      await offlineStorage.deleteDeadLetter(key);
+      break;
+  }
+  
+  logger.info(`Discarded sync queue item ${id}`);
+  notifySyncQueueChanged();
+};
+
 // Track if we have an active sync interval
 let syncIntervalId: number | undefined;
 
@@ -180,6 +964,7 @@ export const setupAutoSync = (onProgress?: (current: number, total: number, fail
 
   const syncIfOnline = async () => {
     if (isOnline()) {
+      await replayOutbox();
       await syncPendingSubmissions(onProgress);
     }
   };
@@ -201,5 +986,15 @@ export const setupAutoSync = (onProgress?: (current: number, total: number, fail
 export default {
   syncPendingSubmissions,
   getPendingSubmissionsCount,
+  replayOutbox,
+  onIdsRemapped,
+  onSyncQueueChanged,
+  getSyncConflicts,
+  resolveSyncConflict,
+  getSyncQueueItems,
+  getSyncQueueItemRecord,
+  updateSyncQueueItemRecord,
+  retrySyncQueueItem,
+  discardSyncQueueItem,
   setupAutoSync
 };
\ No newline at end of file
@@ -0,0 +1,41 @@
+/*
+  # Add Revision Tracking to Observations
+  
+  1. Changes
+    - Adds a revision column to petri_observations and gasifier_observations
+    - Adds a trigger that increments the revision on every update
+    
+  2. Purpose
+    - Lets clients send the revision they loaded as a precondition on updates
+    - Detects when two users sharing a session edit the same observation,
+      instead of the last writer silently overwriting the other
+*/
+
+-- Add revision columns
+ALTER TABLE petri_observations ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE gasifier_observations ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+-- Increment the revision whenever an observation is updated
+CREATE OR REPLACE FUNCTION increment_observation_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.revision = OLD.revision + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS increment_revision_petri_observations ON petri_observations;
+CREATE TRIGGER increment_revision_petri_observations
+BEFORE UPDATE ON petri_observations
+FOR EACH ROW
+EXECUTE PROCEDURE increment_observation_revision();
+
+DROP TRIGGER IF EXISTS increment_revision_gasifier_observations ON gasifier_observations;
+CREATE TRIGGER increment_revision_gasifier_observations
+BEFORE UPDATE ON gasifier_observations
+FOR EACH ROW
+EXECUTE PROCEDURE increment_observation_revision();
+
+-- Add comments for documentation
+COMMENT ON COLUMN petri_observations.revision IS 'Incremented on every update; used as an optimistic concurrency precondition';
+COMMENT ON COLUMN gasifier_observations.revision IS 'Incremented on every update; used as an optimistic concurrency precondition';
@@ -0,0 +1,30 @@
+/*
+  # Keep Observation Revisions Stable for Background Image Uploads
+  
+  1. Changes
+    - Updates increment_observation_revision() so an update that only attaches
+      an image (image_url plus bookkeeping columns) keeps the current revision
+    - The bookkeeping timestamps are ignored whichever order the update triggers
+      run in
+    
+  2. Purpose
+    - Images now upload in a background queue and are attached to the observation
+      once the storage object is confirmed
+    - Attaching the image should not make the uploader's next save look like a
+      conflicting edit
+*/
+
+CREATE OR REPLACE FUNCTION increment_observation_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - ARRAY['image_url', 'revision', 'updated_at', 'last_edit_time', 'last_updated_by_user_id'])
+     = (to_jsonb(OLD) - ARRAY['image_url', 'revision', 'updated_at', 'last_edit_time', 'last_updated_by_user_id']) THEN
+    NEW.revision = OLD.revision;
+  ELSE
+    NEW.revision = OLD.revision + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION increment_observation_revision() IS 'Increments the observation revision on every update except image-only updates from the upload queue';
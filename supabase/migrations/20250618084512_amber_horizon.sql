@@ -0,0 +1,264 @@
+/*
+  # Configurable, Timezone-Aware Session Expiration
+
+  1. Changes
+    - Adds session_expiration_policy to pilot_programs and sites
+    - Adds expires_at and expiration_warning_minutes to submission_sessions
+    - Adds calculate_session_expiration() and a trigger that sets expires_at
+      when a session is created
+    - Updates expire_incomplete_sessions() and get_active_sessions_with_details()
+      to use expires_at
+
+  2. Policy format (JSONB)
+    - {"rule": "end_of_day"}: 11:59:59 PM of the site-local start day
+    - {"rule": "hours_after_start", "hours_after_start": 12}
+    - {"rule": "custom_cutoff", "cutoff_time": "06:00"}: the next site-local
+      06:00 after the session starts
+    - Any rule may set "warning_minutes" for the expiration warning
+
+  3. Purpose
+    - Expiration was hardcoded to 11:59 PM of the start day in the server's or
+      browser's timezone, which broke night shifts and techs whose device
+      timezone differs from the site
+    - A site's policy overrides its program's; sessions are evaluated in the
+      submission's timezone, falling back to the site's
+    - expires_at is a snapshot so editing a policy does not move the deadline
+      of sessions already in progress
+*/
+
+-- Policy columns
+ALTER TABLE pilot_programs ADD COLUMN IF NOT EXISTS session_expiration_policy JSONB;
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS session_expiration_policy JSONB;
+
+ALTER TABLE submission_sessions ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+ALTER TABLE submission_sessions ADD COLUMN IF NOT EXISTS expiration_warning_minutes INTEGER NOT NULL DEFAULT 60;
+
+CREATE INDEX IF NOT EXISTS idx_submission_sessions_expires_at ON submission_sessions(expires_at);
+
+-- Calculate when a session started at p_start_time expires under a policy
+CREATE OR REPLACE FUNCTION calculate_session_expiration(
+  p_start_time TIMESTAMPTZ,
+  p_policy JSONB,
+  p_timezone TEXT
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_rule TEXT := COALESCE(p_policy->>'rule', 'end_of_day');
+  v_timezone TEXT := 'UTC';
+  v_local_start TIMESTAMP;
+  v_cutoff TIME;
+  v_hours NUMERIC;
+  v_local_expiration TIMESTAMP;
+BEGIN
+  IF p_timezone IS NOT NULL AND EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    v_timezone := p_timezone;
+  END IF;
+
+  IF v_rule = 'hours_after_start' THEN
+    v_hours := COALESCE(NULLIF(p_policy->>'hours_after_start', '')::NUMERIC, 12);
+    IF v_hours <= 0 THEN
+      v_hours := 12;
+    END IF;
+    RETURN p_start_time + v_hours * interval '1 hour';
+  END IF;
+
+  v_local_start := p_start_time AT TIME ZONE v_timezone;
+
+  IF v_rule = 'custom_cutoff' THEN
+    BEGIN
+      v_cutoff := COALESCE(NULLIF(p_policy->>'cutoff_time', ''), '06:00')::TIME;
+    EXCEPTION WHEN others THEN
+      v_cutoff := '06:00'::TIME;
+    END;
+
+    v_local_expiration := date_trunc('day', v_local_start) + v_cutoff;
+    IF v_local_expiration <= v_local_start THEN
+      v_local_expiration := v_local_expiration + interval '1 day';
+    END IF;
+  ELSE
+    v_local_expiration := date_trunc('day', v_local_start) + interval '23 hours 59 minutes 59 seconds';
+  END IF;
+
+  RETURN v_local_expiration AT TIME ZONE v_timezone;
+END;
+$$;
+
+-- Set expires_at from the site's or program's policy when a session is created
+CREATE OR REPLACE FUNCTION set_session_expiration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_policy JSONB;
+  v_timezone TEXT;
+BEGIN
+  SELECT
+    COALESCE(s.session_expiration_policy, p.session_expiration_policy),
+    COALESCE(sub.submission_timezone, s.timezone)
+  INTO v_policy, v_timezone
+  FROM sites s
+    JOIN pilot_programs p ON p.program_id = s.program_id
+    LEFT JOIN submissions sub ON sub.submission_id = NEW.submission_id
+  WHERE s.site_id = NEW.site_id;
+
+  NEW.expires_at := calculate_session_expiration(COALESCE(NEW.session_start_time, now()), v_policy, v_timezone);
+  NEW.expiration_warning_minutes := COALESCE(NULLIF(v_policy->>'warning_minutes', '')::INTEGER, 60);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_session_expiration_on_insert ON submission_sessions;
+CREATE TRIGGER set_session_expiration_on_insert
+BEFORE INSERT ON submission_sessions
+FOR EACH ROW
+EXECUTE FUNCTION set_session_expiration();
+
+-- Backfill existing sessions with the previous end-of-day rule, now in the site's timezone
+UPDATE submission_sessions ss
+SET expires_at = calculate_session_expiration(
+  ss.session_start_time,
+  NULL,
+  (SELECT COALESCE(sub.submission_timezone, s.timezone)
+     FROM sites s
+     LEFT JOIN submissions sub ON sub.submission_id = ss.submission_id
+    WHERE s.site_id = ss.site_id)
+)
+WHERE ss.expires_at IS NULL;
+
+-- Expire sessions whose expires_at has passed
+CREATE OR REPLACE FUNCTION expire_incomplete_sessions()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  completed_count INTEGER;
+  incomplete_count INTEGER;
+  result JSONB;
+BEGIN
+  -- Update completed sessions that are past their expiration time
+  WITH completed_sessions AS (
+    UPDATE submission_sessions
+    SET
+      session_status = 'Expired-Complete',
+      last_activity_time = now()
+    WHERE
+      session_status NOT IN ('Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete')
+      AND expires_at < now()
+      -- Only mark as Expired-Complete if percentage_complete is 100
+      AND percentage_complete = 100
+    RETURNING session_id
+  )
+  SELECT COUNT(*) INTO completed_count FROM completed_sessions;
+
+  -- Update incomplete sessions that are past their expiration time
+  WITH incomplete_sessions AS (
+    UPDATE submission_sessions
+    SET
+      session_status = 'Expired-Incomplete',
+      last_activity_time = now()
+    WHERE
+      session_status NOT IN ('Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete')
+      AND expires_at < now()
+      -- Only mark as Expired-Incomplete if percentage_complete is less than 100
+      AND percentage_complete < 100
+    RETURNING session_id
+  )
+  SELECT COUNT(*) INTO incomplete_count FROM incomplete_sessions;
+
+  result := jsonb_build_object(
+    'success', TRUE,
+    'expired_complete_count', completed_count,
+    'expired_incomplete_count', incomplete_count,
+    'timestamp', now()
+  );
+
+  RETURN result;
+END;
+$$;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS get_active_sessions_with_details();
+
+CREATE OR REPLACE FUNCTION get_active_sessions_with_details()
+RETURNS TABLE (
+  session_id UUID,
+  submission_id UUID,
+  site_id UUID,
+  site_name TEXT,
+  program_id UUID,
+  program_name TEXT,
+  opened_by_user_id UUID,
+  opened_by_user_email TEXT,
+  opened_by_user_name TEXT,
+  session_start_time TIMESTAMPTZ,
+  last_activity_time TIMESTAMPTZ,
+  session_status TEXT,
+  percentage_complete NUMERIC,
+  global_submission_id BIGINT,
+  escalated_to_user_ids UUID[],
+  expires_at TIMESTAMPTZ,
+  expiration_warning_minutes INTEGER
+) LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ss.session_id,
+    ss.submission_id,
+    ss.site_id,
+    s.name::TEXT AS site_name,
+    ss.program_id,
+    p.name::TEXT AS program_name,
+    ss.opened_by_user_id,
+    u.email AS opened_by_user_email,
+    u.full_name AS opened_by_user_name,
+    ss.session_start_time,
+    ss.last_activity_time,
+    ss.session_status::TEXT,
+    ss.percentage_complete,
+    sub.global_submission_id,
+    ss.escalated_to_user_ids,
+    ss.expires_at,
+    ss.expiration_warning_minutes
+  FROM
+    submission_sessions ss
+    JOIN sites s ON ss.site_id = s.site_id
+    JOIN pilot_programs p ON ss.program_id = p.program_id
+    JOIN users u ON ss.opened_by_user_id = u.id
+    JOIN submissions sub ON ss.submission_id = sub.submission_id
+  WHERE
+    -- Only show active sessions (not Completed, Cancelled, or any Expired status)
+    ss.session_status NOT IN ('Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete')
+    AND
+    (
+      -- Sessions opened by the current user
+      ss.opened_by_user_id = auth.uid()
+      OR
+      -- Sessions escalated to the current user
+      ss.escalated_to_user_ids @> ARRAY[auth.uid()]
+    )
+  ORDER BY
+    ss.last_activity_time DESC;
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION calculate_session_expiration(TIMESTAMPTZ, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION expire_incomplete_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_active_sessions_with_details() TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON COLUMN pilot_programs.session_expiration_policy IS 'Default session expiration policy for the program''s sites';
+COMMENT ON COLUMN sites.session_expiration_policy IS 'Session expiration policy for the site; overrides the program policy';
+COMMENT ON COLUMN submission_sessions.expires_at IS 'When the session expires, set from the site or program policy at creation';
+COMMENT ON COLUMN submission_sessions.expiration_warning_minutes IS 'Minutes before expires_at to warn the user';
+COMMENT ON FUNCTION calculate_session_expiration IS 'Calculates a session expiration time from a policy, evaluated in the given timezone';
+COMMENT ON FUNCTION expire_incomplete_sessions IS 'Expires sessions whose expires_at has passed, using Expired-Complete and Expired-Incomplete to indicate completion state';
+COMMENT ON FUNCTION get_active_sessions_with_details IS 'Returns active sessions with related details including global_submission_id, escalated_to_user_ids and expiration.';
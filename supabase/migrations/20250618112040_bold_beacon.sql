@@ -0,0 +1,541 @@
+/*
+  # Escalation Workflow With Reasons, Acknowledgement and an In-App Inbox
+
+  1. New Types
+    - escalation_reason_enum: why a session was escalated
+    - escalation_status_enum: Pending, Acknowledged, Accepted, Reassigned, Returned
+    - History event types for acknowledging, accepting, reassigning and returning
+
+  2. New Tables
+    - session_escalations: one row per escalation of a session to a recipient,
+      with the reason, note, acknowledgement time and resolution
+    - inbox_items: per-user in-app inbox; items that require acknowledgement
+      stay highlighted until acknowledged
+
+  3. New Functions
+    - escalate_submission_session(): escalates with a reason and note, shares
+      the session with the recipient and creates their inbox item
+    - acknowledge_escalation(): recipient acknowledges; records time to acknowledge
+    - resolve_escalation(): recipient accepts, reassigns or returns the session
+    - acknowledge_inbox_item() / mark_inbox_items_read()
+
+  4. Purpose
+    - Escalating used to only flip the session status, with no reason and no
+      way for the admin to know it happened
+    - Every step is written to pilot_program_history
+*/
+
+-- Reasons and statuses
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'escalation_reason_enum') THEN
+    CREATE TYPE escalation_reason_enum AS ENUM (
+      'Equipment Issue',
+      'Site Access',
+      'Data Question',
+      'Safety Concern',
+      'Time Constraint',
+      'Other'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'escalation_status_enum') THEN
+    CREATE TYPE escalation_status_enum AS ENUM (
+      'Pending',
+      'Acknowledged',
+      'Accepted',
+      'Reassigned',
+      'Returned'
+    );
+  END IF;
+END $$;
+
+ALTER TYPE history_event_type_enum ADD VALUE IF NOT EXISTS 'EscalationAcknowledged';
+ALTER TYPE history_event_type_enum ADD VALUE IF NOT EXISTS 'EscalationAccepted';
+ALTER TYPE history_event_type_enum ADD VALUE IF NOT EXISTS 'EscalationReassigned';
+ALTER TYPE history_event_type_enum ADD VALUE IF NOT EXISTS 'EscalationReturned';
+
+-- Escalations
+CREATE TABLE IF NOT EXISTS session_escalations (
+  escalation_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES submission_sessions(session_id) ON DELETE CASCADE,
+  submission_id UUID NOT NULL REFERENCES submissions(submission_id) ON DELETE CASCADE,
+  program_id UUID NOT NULL REFERENCES pilot_programs(program_id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES sites(site_id) ON DELETE CASCADE,
+  escalated_by_user_id UUID NOT NULL REFERENCES auth.users(id),
+  assigned_to_user_id UUID NOT NULL REFERENCES auth.users(id),
+  reason_category escalation_reason_enum NOT NULL,
+  note TEXT,
+  status escalation_status_enum NOT NULL DEFAULT 'Pending',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  acknowledged_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  resolved_by_user_id UUID REFERENCES auth.users(id),
+  resolution_note TEXT,
+  -- Set on the escalation created when another one is reassigned
+  reassigned_from_escalation_id UUID REFERENCES session_escalations(escalation_id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_escalations_session_id ON session_escalations(session_id);
+CREATE INDEX IF NOT EXISTS idx_session_escalations_assigned_to ON session_escalations(assigned_to_user_id);
+CREATE INDEX IF NOT EXISTS idx_session_escalations_program_id ON session_escalations(program_id);
+
+-- Only one open escalation per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_session_escalations_one_open
+ON session_escalations(session_id)
+WHERE status IN ('Pending', 'Acknowledged');
+
+ALTER TABLE session_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants and program admins can view escalations"
+ON session_escalations
+FOR SELECT
+USING (
+  escalated_by_user_id = auth.uid()
+  OR assigned_to_user_id = auth.uid()
+  OR get_user_program_role(program_id) = 'Admin'
+  OR is_company_admin_for_program(program_id)
+);
+
+-- Inbox
+CREATE TABLE IF NOT EXISTS inbox_items (
+  item_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL,
+  -- The escalation (or other record) the item is about
+  reference_id UUID,
+  program_id UUID REFERENCES pilot_programs(program_id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT,
+  link_path TEXT,
+  requires_acknowledgement BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  read_at TIMESTAMPTZ,
+  acknowledged_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_items_user_id ON inbox_items(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inbox_items_reference_id ON inbox_items(reference_id);
+
+ALTER TABLE inbox_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own inbox"
+ON inbox_items
+FOR SELECT
+USING (user_id = auth.uid());
+
+-- Deliver inbox changes over Realtime so the badge updates without polling
+ALTER PUBLICATION supabase_realtime ADD TABLE inbox_items;
+
+-- Write a history entry for an escalation step
+CREATE OR REPLACE FUNCTION log_escalation_history(
+  p_update_type history_event_type_enum,
+  p_escalation session_escalations,
+  p_old_data JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_details RECORD;
+BEGIN
+  SELECT * FROM get_user_audit_details(p_escalation.program_id) INTO user_details;
+
+  INSERT INTO pilot_program_history (
+    update_type,
+    object_id,
+    object_type,
+    program_id,
+    user_id,
+    user_email,
+    user_company,
+    user_role,
+    old_data,
+    new_data
+  )
+  VALUES (
+    p_update_type,
+    p_escalation.session_id,
+    'submission_session',
+    p_escalation.program_id,
+    user_details.user_id,
+    user_details.user_email,
+    user_details.user_company,
+    user_details.user_role,
+    p_old_data,
+    to_jsonb(p_escalation) || jsonb_build_object(
+      'seconds_to_acknowledge',
+      CASE WHEN p_escalation.acknowledged_at IS NOT NULL
+        THEN EXTRACT(EPOCH FROM p_escalation.acknowledged_at - p_escalation.created_at)::INTEGER
+        ELSE NULL
+      END
+    )
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Failed to log escalation history: %', SQLERRM;
+END;
+$$;
+
+-- Create the recipient's inbox item for an escalation
+CREATE OR REPLACE FUNCTION create_escalation_inbox_item(p_escalation session_escalations)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_site_name TEXT;
+  v_escalated_by TEXT;
+BEGIN
+  SELECT name INTO v_site_name FROM sites WHERE site_id = p_escalation.site_id;
+  SELECT COALESCE(full_name, email) INTO v_escalated_by FROM users WHERE id = auth.uid();
+
+  INSERT INTO inbox_items (
+    user_id,
+    item_type,
+    reference_id,
+    program_id,
+    title,
+    body,
+    link_path,
+    requires_acknowledgement
+  )
+  VALUES (
+    p_escalation.assigned_to_user_id,
+    'escalation',
+    p_escalation.escalation_id,
+    p_escalation.program_id,
+    'Escalated: ' || COALESCE(v_site_name, 'submission') || ' (' || p_escalation.reason_category::TEXT || ')',
+    COALESCE(v_escalated_by, 'A user') || ' escalated a submission session to you.'
+      || CASE WHEN p_escalation.note IS NOT NULL AND p_escalation.note <> '' THEN E'\n' || p_escalation.note ELSE '' END,
+    '/programs/' || p_escalation.program_id || '/sites/' || p_escalation.site_id
+      || '/submissions/' || p_escalation.submission_id || '/edit',
+    TRUE
+  );
+END;
+$$;
+
+-- Escalate a session with a reason. Sends it to p_assign_to_user_id, or the
+-- program's admin when not given.
+CREATE OR REPLACE FUNCTION escalate_submission_session(
+  p_session_id UUID,
+  p_reason_category escalation_reason_enum,
+  p_note TEXT DEFAULT NULL,
+  p_assign_to_user_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session submission_sessions;
+  v_assignee UUID;
+  v_escalation session_escalations;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_session FROM submission_sessions WHERE session_id = p_session_id;
+
+  IF v_session.session_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session not found');
+  END IF;
+
+  IF v_session.session_status IN ('Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete') THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session cannot be escalated: ' || v_session.session_status);
+  END IF;
+
+  IF v_session.opened_by_user_id != auth.uid()
+     AND NOT COALESCE(v_session.escalated_to_user_ids @> ARRAY[auth.uid()], FALSE) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'You do not have permission to escalate this session');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM session_escalations
+    WHERE session_id = p_session_id AND status IN ('Pending', 'Acknowledged')
+  ) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'This session already has an open escalation');
+  END IF;
+
+  v_assignee := COALESCE(p_assign_to_user_id, get_program_admin_user_id(v_session.program_id));
+
+  IF v_assignee IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'No admin found for this program');
+  END IF;
+
+  IF v_assignee = auth.uid() THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'You cannot escalate a session to yourself');
+  END IF;
+
+  -- Give the recipient access and mark the session escalated
+  UPDATE submission_sessions
+  SET
+    escalated_to_user_ids = (
+      SELECT array_agg(DISTINCT user_id)
+      FROM unnest(COALESCE(escalated_to_user_ids, ARRAY[]::UUID[]) || v_assignee) AS user_id
+    ),
+    session_status = 'Escalated',
+    last_activity_time = now()
+  WHERE session_id = p_session_id
+  RETURNING to_jsonb(submission_sessions.*) INTO v_result;
+
+  INSERT INTO session_escalations (
+    session_id,
+    submission_id,
+    program_id,
+    site_id,
+    escalated_by_user_id,
+    assigned_to_user_id,
+    reason_category,
+    note
+  )
+  VALUES (
+    v_session.session_id,
+    v_session.submission_id,
+    v_session.program_id,
+    v_session.site_id,
+    auth.uid(),
+    v_assignee,
+    p_reason_category,
+    NULLIF(trim(p_note), '')
+  )
+  RETURNING * INTO v_escalation;
+
+  PERFORM create_escalation_inbox_item(v_escalation);
+  PERFORM log_escalation_history('SessionEscalation', v_escalation);
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'message', 'Session escalated',
+    'session', v_result,
+    'escalation', to_jsonb(v_escalation)
+  );
+END;
+$$;
+
+-- The recipient acknowledges an escalation
+CREATE OR REPLACE FUNCTION acknowledge_escalation(p_escalation_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_escalation session_escalations;
+BEGIN
+  SELECT * INTO v_escalation FROM session_escalations WHERE escalation_id = p_escalation_id;
+
+  IF v_escalation.escalation_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Escalation not found');
+  END IF;
+
+  IF v_escalation.assigned_to_user_id != auth.uid() THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Only the recipient can acknowledge this escalation');
+  END IF;
+
+  IF v_escalation.status != 'Pending' THEN
+    RETURN jsonb_build_object('success', TRUE, 'message', 'Escalation already acknowledged', 'escalation', to_jsonb(v_escalation));
+  END IF;
+
+  UPDATE session_escalations
+  SET status = 'Acknowledged', acknowledged_at = now()
+  WHERE escalation_id = p_escalation_id
+  RETURNING * INTO v_escalation;
+
+  UPDATE inbox_items
+  SET acknowledged_at = now(), read_at = COALESCE(read_at, now())
+  WHERE reference_id = p_escalation_id AND user_id = auth.uid();
+
+  PERFORM log_escalation_history('EscalationAcknowledged', v_escalation);
+
+  RETURN jsonb_build_object('success', TRUE, 'message', 'Escalation acknowledged', 'escalation', to_jsonb(v_escalation));
+END;
+$$;
+
+-- The recipient accepts, reassigns or returns an escalated session.
+-- Resolving an escalation that was not acknowledged acknowledges it first.
+CREATE OR REPLACE FUNCTION resolve_escalation(
+  p_escalation_id UUID,
+  p_action TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_reassign_to_user_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_escalation session_escalations;
+  v_old JSONB;
+  v_new_escalation session_escalations;
+  v_session JSONB;
+BEGIN
+  SELECT * INTO v_escalation FROM session_escalations WHERE escalation_id = p_escalation_id;
+
+  IF v_escalation.escalation_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Escalation not found');
+  END IF;
+
+  IF v_escalation.assigned_to_user_id != auth.uid() THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Only the recipient can act on this escalation');
+  END IF;
+
+  IF v_escalation.status NOT IN ('Pending', 'Acknowledged') THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Escalation has already been ' || lower(v_escalation.status::TEXT));
+  END IF;
+
+  IF p_action NOT IN ('accept', 'reassign', 'return') THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Unknown action: ' || p_action);
+  END IF;
+
+  IF p_action = 'reassign' AND (p_reassign_to_user_id IS NULL OR p_reassign_to_user_id = auth.uid()) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Choose someone else to reassign to');
+  END IF;
+
+  IF v_escalation.status = 'Pending' THEN
+    PERFORM acknowledge_escalation(p_escalation_id);
+    SELECT * INTO v_escalation FROM session_escalations WHERE escalation_id = p_escalation_id;
+  END IF;
+
+  v_old := to_jsonb(v_escalation);
+
+  UPDATE session_escalations
+  SET
+    status = CASE p_action
+      WHEN 'accept' THEN 'Accepted'::escalation_status_enum
+      WHEN 'reassign' THEN 'Reassigned'::escalation_status_enum
+      ELSE 'Returned'::escalation_status_enum
+    END,
+    resolved_at = now(),
+    resolved_by_user_id = auth.uid(),
+    resolution_note = NULLIF(trim(p_note), '')
+  WHERE escalation_id = p_escalation_id
+  RETURNING * INTO v_escalation;
+
+  IF p_action = 'accept' THEN
+    PERFORM log_escalation_history('EscalationAccepted', v_escalation, v_old);
+
+  ELSIF p_action = 'reassign' THEN
+    PERFORM log_escalation_history('EscalationReassigned', v_escalation, v_old);
+
+    UPDATE submission_sessions
+    SET
+      escalated_to_user_ids = (
+        SELECT array_agg(DISTINCT user_id)
+        FROM unnest(COALESCE(escalated_to_user_ids, ARRAY[]::UUID[]) || p_reassign_to_user_id) AS user_id
+      ),
+      last_activity_time = now()
+    WHERE session_id = v_escalation.session_id;
+
+    INSERT INTO session_escalations (
+      session_id,
+      submission_id,
+      program_id,
+      site_id,
+      escalated_by_user_id,
+      assigned_to_user_id,
+      reason_category,
+      note,
+      reassigned_from_escalation_id
+    )
+    VALUES (
+      v_escalation.session_id,
+      v_escalation.submission_id,
+      v_escalation.program_id,
+      v_escalation.site_id,
+      auth.uid(),
+      p_reassign_to_user_id,
+      v_escalation.reason_category,
+      COALESCE(NULLIF(trim(p_note), ''), v_escalation.note),
+      v_escalation.escalation_id
+    )
+    RETURNING * INTO v_new_escalation;
+
+    PERFORM create_escalation_inbox_item(v_new_escalation);
+    PERFORM log_escalation_history('SessionEscalation', v_new_escalation);
+
+  ELSE
+    PERFORM log_escalation_history('EscalationReturned', v_escalation, v_old);
+
+    -- Hand the session back to whoever escalated it
+    UPDATE submission_sessions
+    SET
+      session_status = CASE WHEN percentage_complete > 0 THEN 'Working'::session_status_enum ELSE 'Opened'::session_status_enum END,
+      last_activity_time = now()
+    WHERE session_id = v_escalation.session_id;
+
+    INSERT INTO inbox_items (user_id, item_type, reference_id, program_id, title, body, link_path)
+    VALUES (
+      v_escalation.escalated_by_user_id,
+      'escalation_returned',
+      v_escalation.escalation_id,
+      v_escalation.program_id,
+      'Escalation returned to you',
+      COALESCE(v_escalation.resolution_note, 'The session was returned without a note.'),
+      '/programs/' || v_escalation.program_id || '/sites/' || v_escalation.site_id
+        || '/submissions/' || v_escalation.submission_id || '/edit'
+    );
+  END IF;
+
+  SELECT to_jsonb(ss.*) INTO v_session FROM submission_sessions ss WHERE ss.session_id = v_escalation.session_id;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'message', 'Escalation ' || lower(v_escalation.status::TEXT),
+    'escalation', to_jsonb(v_escalation),
+    'session', v_session
+  );
+END;
+$$;
+
+-- Acknowledge an inbox item that is not tied to an escalation step
+CREATE OR REPLACE FUNCTION acknowledge_inbox_item(p_item_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item inbox_items;
+BEGIN
+  UPDATE inbox_items
+  SET acknowledged_at = COALESCE(acknowledged_at, now()), read_at = COALESCE(read_at, now())
+  WHERE item_id = p_item_id AND user_id = auth.uid()
+  RETURNING * INTO v_item;
+
+  IF v_item.item_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Inbox item not found');
+  END IF;
+
+  RETURN jsonb_build_object('success', TRUE, 'item', to_jsonb(v_item));
+END;
+$$;
+
+-- Mark the current user's inbox items as read
+CREATE OR REPLACE FUNCTION mark_inbox_items_read(p_item_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE inbox_items
+  SET read_at = now()
+  WHERE item_id = ANY(p_item_ids) AND user_id = auth.uid() AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION escalate_submission_session(UUID, escalation_reason_enum, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION acknowledge_escalation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_escalation(UUID, TEXT, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION acknowledge_inbox_item(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_inbox_items_read(UUID[]) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON TABLE session_escalations IS 'Escalations of submission sessions, with reason, acknowledgement and resolution';
+COMMENT ON TABLE inbox_items IS 'Per-user in-app inbox items; some require acknowledgement';
+COMMENT ON FUNCTION escalate_submission_session IS 'Escalates a session with a reason category and note to a user (default: the program admin) and creates their inbox item';
+COMMENT ON FUNCTION acknowledge_escalation IS 'Marks an escalation acknowledged by its recipient and records the time to acknowledge';
+COMMENT ON FUNCTION resolve_escalation IS 'Accepts, reassigns or returns an escalated session; each step is recorded in the program history';
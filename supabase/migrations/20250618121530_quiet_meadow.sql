@@ -0,0 +1,241 @@
+/*
+  # Submission Session Event Log
+
+  1. New Types
+    - session_event_type_enum: Opened, ObservationAdded, ObservationEdited,
+      ImageCaptured, Shared, Escalated, Completed, Cancelled, Expired
+
+  2. New Tables
+    - session_events: one row per thing that happened in a session, with who
+      did it, when, and the observation it concerns
+
+  3. New Functions
+    - record_session_event(): records an event for the session of a submission
+      as the current user
+    - get_session_events(): a session's events with user names, oldest first
+    - Trigger log_session_expiration records Expired when a session's status
+      becomes Expired-Complete or Expired-Incomplete, whether the client or
+      the scheduled expire_incomplete_sessions() expired it
+
+  4. Purpose
+    - A session only had start, last activity and completion times, so when it
+      ended Expired-Incomplete there was no way to tell who did what
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'session_event_type_enum') THEN
+    CREATE TYPE session_event_type_enum AS ENUM (
+      'Opened',
+      'ObservationAdded',
+      'ObservationEdited',
+      'ImageCaptured',
+      'Shared',
+      'Escalated',
+      'Completed',
+      'Cancelled',
+      'Expired'
+    );
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS session_events (
+  event_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES submission_sessions(session_id) ON DELETE CASCADE,
+  submission_id UUID NOT NULL REFERENCES submissions(submission_id) ON DELETE CASCADE,
+  program_id UUID NOT NULL REFERENCES pilot_programs(program_id) ON DELETE CASCADE,
+  event_type session_event_type_enum NOT NULL,
+  -- NULL for events recorded by the system, such as scheduled expiration
+  user_id UUID REFERENCES auth.users(id),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  observation_id UUID,
+  observation_type TEXT CHECK (observation_type IN ('petri', 'gasifier')),
+  details JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_events_session_id ON session_events(session_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_session_events_user_id ON session_events(user_id);
+
+ALTER TABLE session_events ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as the program's submissions
+CREATE POLICY "session_events_select_policy" ON session_events
+  FOR SELECT
+  USING (
+    program_id IN (
+      SELECT program_id FROM pilot_program_users
+      WHERE user_id = auth.uid()
+    ) OR program_id IN (
+      SELECT program_id FROM pilot_programs
+      WHERE company_id IN (
+        SELECT company_id FROM users
+        WHERE id = auth.uid() AND company_id IS NOT NULL
+      )
+    )
+  );
+
+-- Deliver new events over Realtime so open timelines update live
+ALTER PUBLICATION supabase_realtime ADD TABLE session_events;
+
+-- Record an event for the session of a submission as the current user
+CREATE OR REPLACE FUNCTION record_session_event(
+  p_submission_id UUID,
+  p_event_type session_event_type_enum,
+  p_observation_id UUID DEFAULT NULL,
+  p_observation_type TEXT DEFAULT NULL,
+  p_details JSONB DEFAULT NULL,
+  p_occurred_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session submission_sessions;
+  v_event session_events;
+BEGIN
+  SELECT * INTO v_session FROM submission_sessions WHERE submission_id = p_submission_id;
+
+  IF v_session.session_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session not found');
+  END IF;
+
+  IF get_user_program_role(v_session.program_id) IS NULL
+     AND NOT is_company_admin_for_program(v_session.program_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'You do not have access to this session');
+  END IF;
+
+  INSERT INTO session_events (
+    session_id,
+    submission_id,
+    program_id,
+    event_type,
+    user_id,
+    occurred_at,
+    observation_id,
+    observation_type,
+    details
+  )
+  VALUES (
+    v_session.session_id,
+    v_session.submission_id,
+    v_session.program_id,
+    p_event_type,
+    auth.uid(),
+    -- Events replayed after working offline keep the time they happened, but never a future one
+    LEAST(COALESCE(p_occurred_at, now()), now()),
+    p_observation_id,
+    p_observation_type,
+    p_details
+  )
+  RETURNING * INTO v_event;
+
+  RETURN jsonb_build_object('success', TRUE, 'event', to_jsonb(v_event));
+END;
+$$;
+
+-- A session's events with the name of whoever recorded each, oldest first
+CREATE OR REPLACE FUNCTION get_session_events(p_session_id UUID)
+RETURNS TABLE (
+  event_id UUID,
+  session_id UUID,
+  submission_id UUID,
+  event_type TEXT,
+  user_id UUID,
+  user_email TEXT,
+  user_name TEXT,
+  occurred_at TIMESTAMPTZ,
+  observation_id UUID,
+  observation_type TEXT,
+  details JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_program_id UUID;
+BEGIN
+  SELECT ss.program_id INTO v_program_id FROM submission_sessions ss WHERE ss.session_id = p_session_id;
+
+  IF v_program_id IS NULL
+     OR (get_user_program_role(v_program_id) IS NULL AND NOT is_company_admin_for_program(v_program_id)) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.event_id,
+    e.session_id,
+    e.submission_id,
+    e.event_type::TEXT,
+    e.user_id,
+    u.email AS user_email,
+    u.full_name AS user_name,
+    e.occurred_at,
+    e.observation_id,
+    e.observation_type,
+    e.details
+  FROM
+    session_events e
+    LEFT JOIN users u ON e.user_id = u.id
+  WHERE
+    e.session_id = p_session_id
+  ORDER BY
+    e.occurred_at ASC;
+END;
+$$;
+
+-- Record Expired however a session came to expire
+CREATE OR REPLACE FUNCTION log_session_expiration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.session_status IN ('Expired', 'Expired-Complete', 'Expired-Incomplete')
+     AND OLD.session_status IS DISTINCT FROM NEW.session_status
+     AND OLD.session_status NOT IN ('Expired', 'Expired-Complete', 'Expired-Incomplete') THEN
+    INSERT INTO session_events (
+      session_id,
+      submission_id,
+      program_id,
+      event_type,
+      user_id,
+      details
+    )
+    VALUES (
+      NEW.session_id,
+      NEW.submission_id,
+      NEW.program_id,
+      'Expired',
+      auth.uid(),
+      jsonb_build_object(
+        'status', NEW.session_status,
+        'percentage_complete', NEW.percentage_complete,
+        'expires_at', NEW.expires_at
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Failed to log session expiration: %', SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_session_expiration_on_update ON submission_sessions;
+CREATE TRIGGER log_session_expiration_on_update
+AFTER UPDATE OF session_status ON submission_sessions
+FOR EACH ROW
+EXECUTE FUNCTION log_session_expiration();
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION record_session_event(UUID, session_event_type_enum, UUID, TEXT, JSONB, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_session_events(UUID) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON TABLE session_events IS 'Event log of submission sessions: who opened, edited, shared, escalated, completed or let them expire';
+COMMENT ON FUNCTION record_session_event IS 'Records an event for the session of a submission as the current user';
+COMMENT ON FUNCTION get_session_events IS 'Returns a session''s events with user details, oldest first';
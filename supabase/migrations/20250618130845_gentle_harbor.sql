@@ -0,0 +1,134 @@
+/*
+  # Admin Reopen of Expired Sessions
+
+  1. Changes
+    - Adds reopened_at, reopened_by_user_id, reopen_justification and
+      reopen_count to submission_sessions
+    - Adds SessionReopened to history_event_type_enum and Reopened to
+      session_event_type_enum
+    - Adds reopen_submission_session()
+
+  2. Rules
+    - Only program admins and company admins for the program can reopen
+    - Only sessions that ended Expired, Expired-Complete or Expired-Incomplete
+      can be reopened
+    - A justification of at least 10 characters is required
+    - The session is reopened for 15 to 240 minutes (default 60): expires_at
+      is moved to the end of that window, after which the session expires
+      again through the normal path
+
+  3. Purpose
+    - A tech who missed the deadline by minutes had no way to finish the
+      session
+    - The reopen is recorded in pilot_program_history, and everything logged
+      in the session after reopened_at was entered late
+*/
+
+ALTER TABLE submission_sessions ADD COLUMN IF NOT EXISTS reopened_at TIMESTAMPTZ;
+ALTER TABLE submission_sessions ADD COLUMN IF NOT EXISTS reopened_by_user_id UUID REFERENCES auth.users(id);
+ALTER TABLE submission_sessions ADD COLUMN IF NOT EXISTS reopen_justification TEXT;
+ALTER TABLE submission_sessions ADD COLUMN IF NOT EXISTS reopen_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TYPE history_event_type_enum ADD VALUE IF NOT EXISTS 'SessionReopened';
+ALTER TYPE session_event_type_enum ADD VALUE IF NOT EXISTS 'Reopened';
+
+CREATE OR REPLACE FUNCTION reopen_submission_session(
+  p_session_id UUID,
+  p_justification TEXT,
+  p_window_minutes INTEGER DEFAULT 60
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session submission_sessions;
+  v_old JSONB;
+  v_justification TEXT := trim(COALESCE(p_justification, ''));
+  v_window INTEGER := COALESCE(p_window_minutes, 60);
+  user_details RECORD;
+BEGIN
+  SELECT * INTO v_session FROM submission_sessions WHERE session_id = p_session_id;
+
+  IF v_session.session_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session not found');
+  END IF;
+
+  IF get_user_program_role(v_session.program_id) IS DISTINCT FROM 'Admin'
+     AND NOT is_company_admin_for_program(v_session.program_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Only program admins can reopen a session');
+  END IF;
+
+  IF v_session.session_status NOT IN ('Expired', 'Expired-Complete', 'Expired-Incomplete') THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Only expired sessions can be reopened');
+  END IF;
+
+  IF length(v_justification) < 10 THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'A justification of at least 10 characters is required');
+  END IF;
+
+  IF v_window < 15 OR v_window > 240 THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Sessions can be reopened for 15 to 240 minutes');
+  END IF;
+
+  v_old := to_jsonb(v_session);
+
+  UPDATE submission_sessions
+  SET
+    session_status = CASE WHEN percentage_complete > 0 THEN 'Working'::session_status_enum ELSE 'Opened'::session_status_enum END,
+    expires_at = now() + v_window * interval '1 minute',
+    reopened_at = now(),
+    reopened_by_user_id = auth.uid(),
+    reopen_justification = v_justification,
+    reopen_count = reopen_count + 1,
+    last_activity_time = now()
+  WHERE session_id = p_session_id
+  RETURNING * INTO v_session;
+
+  BEGIN
+    SELECT * FROM get_user_audit_details(v_session.program_id) INTO user_details;
+
+    INSERT INTO pilot_program_history (
+      update_type,
+      object_id,
+      object_type,
+      program_id,
+      user_id,
+      user_email,
+      user_company,
+      user_role,
+      old_data,
+      new_data
+    )
+    VALUES (
+      'SessionReopened',
+      v_session.session_id,
+      'submission_session',
+      v_session.program_id,
+      user_details.user_id,
+      user_details.user_email,
+      user_details.user_company,
+      user_details.user_role,
+      v_old,
+      to_jsonb(v_session) || jsonb_build_object('window_minutes', v_window)
+    );
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE NOTICE 'Failed to log session reopen: %', SQLERRM;
+  END;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'message', 'Session reopened until ' || to_char(v_session.expires_at, 'YYYY-MM-DD HH24:MI TZ'),
+    'session', to_jsonb(v_session)
+  );
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION reopen_submission_session(UUID, TEXT, INTEGER) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON COLUMN submission_sessions.reopened_at IS 'When an admin last reopened the session after it expired; data logged after this was entered late';
+COMMENT ON COLUMN submission_sessions.reopen_justification IS 'Why the session was last reopened';
+COMMENT ON FUNCTION reopen_submission_session IS 'Lets a program admin reopen an expired session for a bounded window with a required justification';
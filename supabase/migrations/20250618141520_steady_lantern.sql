@@ -0,0 +1,465 @@
+/*
+  # Bulk Session Administration
+
+  1. Changes
+    - Adds can_administer_program_sessions() for program admins and company
+      admins for the program
+    - Adds get_administered_sessions(), the active sessions in every program
+      the caller administers
+    - Adds extend_submission_session() and reassign_session_owner()
+    - Updates cancel_submission_session() and share_submission_session() so
+      admins can act on sessions in their programs they did not open
+    - Adds SessionExtended and SessionOwnerReassigned to
+      history_event_type_enum, and Extended and OwnerReassigned to
+      session_event_type_enum
+
+  2. Rules
+    - Sessions can be extended by 15 minutes to 24 hours, counted from
+      expires_at or from now if that is later
+    - A new owner must be a user of the session's program; they are removed
+      from the session's shared users since they now own it
+
+  3. Purpose
+    - Admins clean up dozens of stale sessions at the end of each week; the
+      active sessions drawer acts on many sessions at once through these
+      functions, one call per session so each can succeed or fail on its own
+*/
+
+ALTER TYPE history_event_type_enum ADD VALUE IF NOT EXISTS 'SessionExtended';
+ALTER TYPE history_event_type_enum ADD VALUE IF NOT EXISTS 'SessionOwnerReassigned';
+ALTER TYPE session_event_type_enum ADD VALUE IF NOT EXISTS 'Extended';
+ALTER TYPE session_event_type_enum ADD VALUE IF NOT EXISTS 'OwnerReassigned';
+
+-- Whether the current user can administer the sessions of a program
+CREATE OR REPLACE FUNCTION can_administer_program_sessions(p_program_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+BEGIN
+  RETURN COALESCE(get_user_program_role(p_program_id) = 'Admin', FALSE)
+    OR COALESCE(is_company_admin_for_program(p_program_id), FALSE);
+END;
+$$;
+
+-- Active sessions in every program the current user administers
+CREATE OR REPLACE FUNCTION get_administered_sessions()
+RETURNS TABLE (
+  session_id UUID,
+  submission_id UUID,
+  site_id UUID,
+  site_name TEXT,
+  program_id UUID,
+  program_name TEXT,
+  opened_by_user_id UUID,
+  opened_by_user_email TEXT,
+  opened_by_user_name TEXT,
+  session_start_time TIMESTAMPTZ,
+  last_activity_time TIMESTAMPTZ,
+  session_status TEXT,
+  percentage_complete NUMERIC,
+  global_submission_id BIGINT,
+  escalated_to_user_ids UUID[],
+  expires_at TIMESTAMPTZ,
+  expiration_warning_minutes INTEGER
+) LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ss.session_id,
+    ss.submission_id,
+    ss.site_id,
+    s.name::TEXT AS site_name,
+    ss.program_id,
+    p.name::TEXT AS program_name,
+    ss.opened_by_user_id,
+    u.email AS opened_by_user_email,
+    u.full_name AS opened_by_user_name,
+    ss.session_start_time,
+    ss.last_activity_time,
+    ss.session_status::TEXT,
+    ss.percentage_complete,
+    sub.global_submission_id,
+    ss.escalated_to_user_ids,
+    ss.expires_at,
+    ss.expiration_warning_minutes
+  FROM
+    submission_sessions ss
+    JOIN sites s ON ss.site_id = s.site_id
+    JOIN pilot_programs p ON ss.program_id = p.program_id
+    JOIN users u ON ss.opened_by_user_id = u.id
+    JOIN submissions sub ON ss.submission_id = sub.submission_id
+  WHERE
+    ss.session_status NOT IN ('Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete')
+    AND can_administer_program_sessions(ss.program_id)
+  ORDER BY
+    ss.last_activity_time ASC;
+END;
+$$;
+
+-- Log a session administration action to the program history
+CREATE OR REPLACE FUNCTION log_session_admin_history(
+  p_event_type history_event_type_enum,
+  p_old JSONB,
+  p_new submission_sessions
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_details RECORD;
+BEGIN
+  SELECT * FROM get_user_audit_details(p_new.program_id) INTO user_details;
+
+  INSERT INTO pilot_program_history (
+    update_type,
+    object_id,
+    object_type,
+    program_id,
+    user_id,
+    user_email,
+    user_company,
+    user_role,
+    old_data,
+    new_data
+  )
+  VALUES (
+    p_event_type,
+    p_new.session_id,
+    'submission_session',
+    p_new.program_id,
+    user_details.user_id,
+    user_details.user_email,
+    user_details.user_company,
+    user_details.user_role,
+    p_old,
+    to_jsonb(p_new)
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Failed to log session administration: %', SQLERRM;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION extend_submission_session(
+  p_session_id UUID,
+  p_minutes INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session submission_sessions;
+  v_old JSONB;
+BEGIN
+  SELECT * INTO v_session FROM submission_sessions WHERE session_id = p_session_id;
+
+  IF v_session.session_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session not found');
+  END IF;
+
+  IF NOT can_administer_program_sessions(v_session.program_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Only program admins can extend a session');
+  END IF;
+
+  IF v_session.session_status IN ('Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete') THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session cannot be extended: ' || v_session.session_status);
+  END IF;
+
+  IF p_minutes IS NULL OR p_minutes < 15 OR p_minutes > 1440 THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Sessions can be extended by 15 minutes to 24 hours');
+  END IF;
+
+  v_old := to_jsonb(v_session);
+
+  UPDATE submission_sessions
+  SET expires_at = GREATEST(COALESCE(expires_at, now()), now()) + p_minutes * interval '1 minute'
+  WHERE session_id = p_session_id
+  RETURNING * INTO v_session;
+
+  PERFORM log_session_admin_history('SessionExtended', v_old, v_session);
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'message', 'Session extended until ' || to_char(v_session.expires_at, 'YYYY-MM-DD HH24:MI TZ'),
+    'session', to_jsonb(v_session)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reassign_session_owner(
+  p_session_id UUID,
+  p_new_owner_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session submission_sessions;
+  v_old JSONB;
+BEGIN
+  SELECT * INTO v_session FROM submission_sessions WHERE session_id = p_session_id;
+
+  IF v_session.session_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session not found');
+  END IF;
+
+  IF NOT can_administer_program_sessions(v_session.program_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Only program admins can reassign a session');
+  END IF;
+
+  IF v_session.session_status IN ('Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete') THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session cannot be reassigned: ' || v_session.session_status);
+  END IF;
+
+  IF v_session.opened_by_user_id = p_new_owner_user_id THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session is already owned by this user');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pilot_program_users
+    WHERE program_id = v_session.program_id AND user_id = p_new_owner_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'The new owner is not a user of this program');
+  END IF;
+
+  v_old := to_jsonb(v_session);
+
+  UPDATE submission_sessions
+  SET
+    opened_by_user_id = p_new_owner_user_id,
+    escalated_to_user_ids = array_remove(escalated_to_user_ids, p_new_owner_user_id),
+    last_activity_time = now()
+  WHERE session_id = p_session_id
+  RETURNING * INTO v_session;
+
+  PERFORM log_session_admin_history('SessionOwnerReassigned', v_old, v_session);
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'message', 'Session reassigned successfully',
+    'session', to_jsonb(v_session)
+  );
+END;
+$$;
+
+-- Let program admins cancel sessions in their programs
+CREATE OR REPLACE FUNCTION cancel_submission_session(
+  p_session_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result JSONB;
+  v_submission_id UUID;
+  v_opened_by_user_id UUID;
+  v_current_status session_status_enum;
+  v_program_id UUID;
+  v_petri_count INTEGER;
+  v_gasifier_count INTEGER;
+BEGIN
+  -- Get session details
+  SELECT
+    submission_id,
+    opened_by_user_id,
+    session_status,
+    program_id
+  INTO
+    v_submission_id,
+    v_opened_by_user_id,
+    v_current_status,
+    v_program_id
+  FROM submission_sessions
+  WHERE session_id = p_session_id;
+
+  -- Check if session exists
+  IF v_submission_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', 'Session not found'
+    );
+  END IF;
+
+  -- Check if session can be cancelled (not already Completed, Cancelled, or Expired)
+  IF v_current_status IN ('Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete') THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', 'Session cannot be cancelled: ' || v_current_status
+    );
+  END IF;
+
+  -- Verify user permissions (opened_by_user_id, in escalated_to_user_ids, or a program admin)
+  IF v_opened_by_user_id != auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM submission_sessions
+    WHERE session_id = p_session_id
+    AND escalated_to_user_ids @> ARRAY[auth.uid()]
+  ) AND NOT can_administer_program_sessions(v_program_id) THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', 'You do not have permission to cancel this session'
+    );
+  END IF;
+
+  -- Delete petri observations for this submission
+  DELETE FROM petri_observations
+  WHERE submission_id = v_submission_id;
+
+  GET DIAGNOSTICS v_petri_count = ROW_COUNT;
+
+  -- Delete gasifier observations for this submission
+  DELETE FROM gasifier_observations
+  WHERE submission_id = v_submission_id;
+
+  GET DIAGNOSTICS v_gasifier_count = ROW_COUNT;
+
+  -- Update session to Cancelled
+  UPDATE submission_sessions
+  SET
+    session_status = 'Cancelled',
+    last_activity_time = now()
+  WHERE session_id = p_session_id
+  RETURNING to_jsonb(submission_sessions.*) INTO v_result;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'message', 'Session cancelled successfully',
+    'session', v_result,
+    'deleted_petri_count', v_petri_count,
+    'deleted_gasifier_count', v_gasifier_count
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', SQLERRM
+    );
+END;
+$$;
+
+-- Let program admins share sessions in their programs
+CREATE OR REPLACE FUNCTION share_submission_session(
+  p_session_id UUID,
+  p_user_ids UUID[],
+  p_action_type TEXT DEFAULT 'share'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result JSONB;
+  v_submission_id UUID;
+  v_opened_by_user_id UUID;
+  v_current_status session_status_enum;
+  v_current_escalated_ids UUID[];
+  v_updated_escalated_ids UUID[];
+  v_program_id UUID;
+  v_new_status session_status_enum;
+BEGIN
+  -- Get session details
+  SELECT
+    submission_id,
+    opened_by_user_id,
+    session_status,
+    escalated_to_user_ids,
+    program_id
+  INTO
+    v_submission_id,
+    v_opened_by_user_id,
+    v_current_status,
+    v_current_escalated_ids,
+    v_program_id
+  FROM submission_sessions
+  WHERE session_id = p_session_id;
+
+  -- Check if session exists
+  IF v_submission_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session not found');
+  END IF;
+
+  -- Check if session can be shared (not Cancelled or Expired)
+  IF v_current_status IN ('Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete') THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session cannot be shared: ' || v_current_status);
+  END IF;
+
+  -- Verify user permissions (opened_by_user_id, in escalated_to_user_ids, or a program admin)
+  IF v_opened_by_user_id != auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM submission_sessions
+    WHERE session_id = p_session_id
+    AND escalated_to_user_ids @> ARRAY[auth.uid()]
+  ) AND NOT can_administer_program_sessions(v_program_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'You do not have permission to share this session');
+  END IF;
+
+  -- Combine existing and new user IDs, removing duplicates
+  IF v_current_escalated_ids IS NULL THEN
+    v_updated_escalated_ids := p_user_ids;
+  ELSE
+    WITH combined_ids AS (
+      SELECT DISTINCT unnest(v_current_escalated_ids || p_user_ids) AS user_id
+    )
+    SELECT array_agg(user_id) INTO v_updated_escalated_ids
+    FROM combined_ids;
+  END IF;
+
+  -- Only set to 'Escalated' if action is explicitly 'escalate'; sharing keeps an escalated session escalated
+  IF p_action_type = 'escalate' THEN
+    v_new_status := 'Escalated';
+  ELSIF p_action_type = 'share' THEN
+    IF v_current_status = 'Escalated' THEN
+      v_new_status := 'Escalated';
+    ELSE
+      v_new_status := 'Shared';
+    END IF;
+  ELSE
+    v_new_status := v_current_status;
+  END IF;
+
+  UPDATE submission_sessions
+  SET
+    escalated_to_user_ids = v_updated_escalated_ids,
+    session_status = v_new_status,
+    last_activity_time = now()
+  WHERE session_id = p_session_id
+  RETURNING to_jsonb(submission_sessions.*) INTO v_result;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'message', CASE
+      WHEN p_action_type = 'escalate' THEN 'Session escalated successfully'
+      ELSE 'Session shared successfully'
+    END,
+    'session', v_result,
+    'action', p_action_type,
+    'new_status', v_new_status
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', SQLERRM
+    );
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION can_administer_program_sessions(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_administered_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION extend_submission_session(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION reassign_session_owner(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_submission_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION share_submission_session(UUID, UUID[], TEXT) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION can_administer_program_sessions IS 'Whether the current user is a program admin or a company admin for the program';
+COMMENT ON FUNCTION get_administered_sessions IS 'Returns active sessions, stalest first, in every program the current user administers';
+COMMENT ON FUNCTION extend_submission_session IS 'Lets a program admin push back a session''s expiration by 15 minutes to 24 hours';
+COMMENT ON FUNCTION reassign_session_owner IS 'Lets a program admin hand a session to another user of the program';
@@ -0,0 +1,230 @@
+/*
+  # Configurable Session Completion Criteria
+
+  1. Changes
+    - Adds completion_rules to sites, stored with the site template
+    - Adds default_completion_rules() and observation_meets_completion_rules()
+    - Updates calculate_session_percentage_complete() to count observations
+      that meet the site's rules instead of any observation with an image
+    - Replaces complete_submission_session(UUID) with a version that accepts
+      the client's evaluation of the session
+
+  2. Rules format (JSONB)
+    - {"petri": {"required": ["petri_code", "image"]},
+       "gasifier": {"required": ["gasifier_code", "measure"]}}
+    - Field names are observation columns; "image" means image_url
+    - A kind without rules uses the defaults; an empty list means any
+      observation of that kind is complete
+    - Mirrors src/utils/completionRules.ts, which the forms and the completion
+      call use; keep the two in step
+
+  3. Purpose
+    - "Valid" was hard-coded as code + water schedule + fungicide + image for
+      petris and code + chemical type + image for gasifiers, and the server
+      counted anything with an image; customers need their own rules, such as
+      a required gasifier measure or an optional image
+*/
+
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS completion_rules JSONB;
+
+-- The rules used when a site has none, matching what the forms always required
+CREATE OR REPLACE FUNCTION default_completion_rules()
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '{
+    "petri": {"required": ["petri_code", "surrounding_water_schedule", "fungicide_used", "image"]},
+    "gasifier": {"required": ["gasifier_code", "chemical_type", "image"]}
+  }'::jsonb;
+$$;
+
+-- Whether an observation row has every required field. Fields that are not
+-- columns of the row are ignored, as the client ignores unknown fields.
+CREATE OR REPLACE FUNCTION observation_meets_completion_rules(
+  p_observation JSONB,
+  p_required JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(p_required) = 'array' THEN p_required ELSE '[]'::jsonb END
+    ) AS required(field),
+    LATERAL (SELECT CASE WHEN required.field = 'image' THEN 'image_url' ELSE required.field END AS column_name) c
+    WHERE p_observation ? c.column_name
+      AND NULLIF(trim(p_observation->>c.column_name), '') IS NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_session_percentage_complete(p_session_id UUID)
+RETURNS NUMERIC(5,2)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_submission_id UUID;
+  v_rules JSONB;
+  v_petri_required JSONB;
+  v_gasifier_required JSONB;
+  v_petri_total INTEGER;
+  v_gasifier_total INTEGER;
+  v_petri_complete INTEGER;
+  v_gasifier_complete INTEGER;
+  v_percentage NUMERIC(5,2);
+BEGIN
+  -- Get the submission and its site's rules
+  SELECT ss.submission_id, s.completion_rules
+  INTO v_submission_id, v_rules
+  FROM submission_sessions ss
+  JOIN sites s ON s.site_id = ss.site_id
+  WHERE ss.session_id = p_session_id;
+
+  v_petri_required := COALESCE(v_rules->'petri'->'required', default_completion_rules()->'petri'->'required');
+  v_gasifier_required := COALESCE(v_rules->'gasifier'->'required', default_completion_rules()->'gasifier'->'required');
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE observation_meets_completion_rules(to_jsonb(po), v_petri_required))
+  INTO v_petri_total, v_petri_complete
+  FROM petri_observations po
+  WHERE po.submission_id = v_submission_id;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE observation_meets_completion_rules(to_jsonb(gas), v_gasifier_required))
+  INTO v_gasifier_total, v_gasifier_complete
+  FROM gasifier_observations gas
+  WHERE gas.submission_id = v_submission_id;
+
+  IF (v_petri_total + v_gasifier_total) > 0 THEN
+    v_percentage := (v_petri_complete + v_gasifier_complete)::NUMERIC * 100 / (v_petri_total + v_gasifier_total)::NUMERIC;
+  ELSE
+    v_percentage := 0;
+  END IF;
+
+  -- Update the session's counts
+  UPDATE submission_sessions
+  SET
+    valid_petris_logged = v_petri_complete,
+    valid_gasifiers_logged = v_gasifier_complete
+  WHERE session_id = p_session_id;
+
+  RETURN ROUND(v_percentage, 2);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS complete_submission_session(UUID);
+
+-- The client evaluates the session with the site's rules, counting images
+-- captured on the device that may not have uploaded yet; without that
+-- evaluation (e.g. a completion replayed by an older client) the server's
+-- own calculation is used
+CREATE OR REPLACE FUNCTION complete_submission_session(
+  p_session_id UUID,
+  p_valid_petris INTEGER DEFAULT NULL,
+  p_valid_gasifiers INTEGER DEFAULT NULL,
+  p_percentage_complete NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result JSONB;
+  v_submission_id UUID;
+  v_opened_by_user_id UUID;
+  v_current_status session_status_enum;
+  v_percentage NUMERIC(5,2);
+BEGIN
+  -- Get session details
+  SELECT
+    submission_id,
+    opened_by_user_id,
+    session_status
+  INTO
+    v_submission_id,
+    v_opened_by_user_id,
+    v_current_status
+  FROM submission_sessions
+  WHERE session_id = p_session_id;
+
+  -- Check if session exists
+  IF v_submission_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', 'Session not found'
+    );
+  END IF;
+
+  -- Check if session can be completed (not already Completed, Cancelled, or Expired)
+  IF v_current_status IN ('Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete') THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', 'Session cannot be completed: ' || v_current_status
+    );
+  END IF;
+
+  -- Verify user permissions (must be opened_by_user_id or in escalated_to_user_ids)
+  IF v_opened_by_user_id != auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM submission_sessions
+    WHERE session_id = p_session_id
+    AND escalated_to_user_ids @> ARRAY[auth.uid()]
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', 'You do not have permission to complete this session'
+    );
+  END IF;
+
+  IF p_percentage_complete IS NULL THEN
+    v_percentage := calculate_session_percentage_complete(p_session_id);
+  ELSE
+    v_percentage := LEAST(GREATEST(ROUND(p_percentage_complete, 2), 0), 100);
+
+    UPDATE submission_sessions
+    SET
+      valid_petris_logged = COALESCE(p_valid_petris, valid_petris_logged),
+      valid_gasifiers_logged = COALESCE(p_valid_gasifiers, valid_gasifiers_logged)
+    WHERE session_id = p_session_id;
+  END IF;
+
+  -- Update session to Completed
+  UPDATE submission_sessions
+  SET
+    session_status = 'Completed',
+    completion_time = now(),
+    completed_by_user_id = auth.uid(),
+    last_activity_time = now(),
+    percentage_complete = v_percentage
+  WHERE session_id = p_session_id
+  RETURNING to_jsonb(submission_sessions.*) INTO v_result;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'message', 'Session completed successfully',
+    'session', v_result
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', SQLERRM
+    );
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION default_completion_rules() TO authenticated;
+GRANT EXECUTE ON FUNCTION observation_meets_completion_rules(JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_session_percentage_complete(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_submission_session(UUID, INTEGER, INTEGER, NUMERIC) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON COLUMN sites.completion_rules IS 'Fields each petri and gasifier observation needs to count as complete; NULL uses default_completion_rules()';
+COMMENT ON FUNCTION observation_meets_completion_rules IS 'Whether an observation row has every field in a completion rules required list';
+COMMENT ON FUNCTION calculate_session_percentage_complete IS 'Percentage of a session''s observations that meet its site''s completion rules';
+COMMENT ON FUNCTION complete_submission_session IS 'Completes a session, recording the client''s evaluation of its completion rules or calculating it if none is given';
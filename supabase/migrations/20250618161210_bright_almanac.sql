@@ -0,0 +1,68 @@
+/*
+  # Recurring Submission Schedules
+
+  1. Changes
+    - Adds submission_schedule to sites
+    - Adds get_site_schedules(), returning each scheduled site the user can see
+      with the time of its latest submission
+
+  2. Schedule format (JSONB)
+    - {"days_of_week": [1, 3, 5], "interval_weeks": 1, "starts_on": "2025-06-16",
+       "window_start": "08:00", "window_end": "12:00"}
+    - days_of_week uses 0 = Sunday; dates and times are site-local, in
+      sites.timezone
+    - Due and overdue states are worked out on the client by
+      src/utils/submissionSchedule.ts from the schedule and the latest submission
+
+  3. Purpose
+    - Pilot programs require readings on a cadence, but nothing recorded it, so
+      missed visits were only noticed weeks later
+*/
+
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS submission_schedule JSONB;
+
+-- Scheduled sites with their latest submission. Runs as the caller, so sites
+-- are limited by the same policies as a direct select.
+CREATE OR REPLACE FUNCTION get_site_schedules(p_program_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  site_id UUID,
+  site_name TEXT,
+  program_id UUID,
+  program_name TEXT,
+  timezone TEXT,
+  submission_schedule JSONB,
+  last_submission_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    s.site_id,
+    s.name::TEXT,
+    s.program_id,
+    p.name::TEXT,
+    s.timezone::TEXT,
+    s.submission_schedule,
+    latest.created_at
+  FROM sites s
+  JOIN pilot_programs p ON p.program_id = s.program_id
+  LEFT JOIN LATERAL (
+    SELECT sub.created_at
+    FROM submissions sub
+    WHERE sub.site_id = s.site_id
+    ORDER BY sub.created_at DESC
+    LIMIT 1
+  ) latest ON TRUE
+  WHERE s.submission_schedule IS NOT NULL
+    AND (p_program_id IS NULL OR s.program_id = p_program_id)
+  ORDER BY p.name, s.name;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_submissions_site_created_at ON submissions(site_id, created_at DESC);
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION get_site_schedules(UUID) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON COLUMN sites.submission_schedule IS 'Recurring days and site-local window readings are due; NULL means the site has no schedule';
+COMMENT ON FUNCTION get_site_schedules IS 'Scheduled sites visible to the caller with the time of each site''s latest submission';
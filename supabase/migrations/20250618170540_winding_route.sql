@@ -0,0 +1,92 @@
+/*
+  # Today's Route Planner
+
+  1. New Tables
+    - user_route_orders: each user's saved order for visiting their sites
+
+  2. New Functions
+    - get_route_sites(): every site in a program where the user can respond
+      (Admin, Edit or Respond, or company admin), with its schedule and the
+      time of its latest submission
+
+  3. Security
+    - Users can only read and write their own route order
+
+  4. Purpose
+    - Field techs work several programs and had to move between each program's
+      sites page to decide where to go next
+*/
+
+CREATE TABLE IF NOT EXISTS user_route_orders (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Sites in the order the user wants to visit them; sites not listed follow
+  -- in order of when they are due
+  site_ids UUID[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE user_route_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own route order"
+ON user_route_orders
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own route order"
+ON user_route_orders
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own route order"
+ON user_route_orders
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION get_route_sites()
+RETURNS TABLE (
+  site_id UUID,
+  site_name TEXT,
+  site_type TEXT,
+  program_id UUID,
+  program_name TEXT,
+  timezone TEXT,
+  submission_schedule JSONB,
+  last_submission_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    s.site_id,
+    s.name::TEXT,
+    s.type::TEXT,
+    s.program_id,
+    p.name::TEXT,
+    s.timezone::TEXT,
+    s.submission_schedule,
+    latest.created_at
+  FROM sites s
+  JOIN pilot_programs p ON p.program_id = s.program_id
+  LEFT JOIN LATERAL (
+    SELECT sub.created_at
+    FROM submissions sub
+    WHERE sub.site_id = s.site_id
+    ORDER BY sub.created_at DESC
+    LIMIT 1
+  ) latest ON TRUE
+  WHERE s.program_id IN (
+    SELECT ppu.program_id FROM pilot_program_users ppu
+    WHERE ppu.user_id = auth.uid()
+    AND ppu.role IN ('Admin', 'Edit', 'Respond')
+  )
+  OR is_company_admin_for_program(s.program_id)
+  ORDER BY p.name, s.name;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION get_route_sites() TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON TABLE user_route_orders IS 'Each user''s saved order for visiting their sites on the Today page';
+COMMENT ON FUNCTION get_route_sites IS 'Sites the caller can submit to across programs, with schedules and latest submission times';
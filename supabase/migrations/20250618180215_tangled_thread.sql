@@ -0,0 +1,163 @@
+/*
+  # Petri and Gasifier Code Lineage
+
+  1. Changes
+    - Adds normalize_observation_code(), which compares codes regardless of case
+      and whitespace, as the submission forms do
+    - Adds get_site_codes(), listing the petri and gasifier codes observed at a
+      site with how often and when
+    - Adds get_code_lineage(), returning every observation of one code at a
+      site in time order with its submission's conditions
+    - Adds indexes on site and normalized code for both observation tables
+
+  2. Notes
+    - Both functions run as the caller, so observations are limited by the same
+      policies as a direct select
+    - Outdoor conditions come from the observation where they were recorded and
+      from its submission otherwise
+
+  3. Purpose
+    - Each submission creates fresh observation rows, so there was no way to
+      follow one dish or bag over the course of a pilot
+*/
+
+CREATE OR REPLACE FUNCTION normalize_observation_code(p_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT upper(regexp_replace(p_code, '\s', '', 'g'));
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_petri_observations_site_code
+  ON petri_observations(site_id, normalize_observation_code(petri_code));
+CREATE INDEX IF NOT EXISTS idx_gasifier_observations_site_code
+  ON gasifier_observations(site_id, normalize_observation_code(gasifier_code));
+
+-- Codes observed at a site, spelled as they were most recently entered
+CREATE OR REPLACE FUNCTION get_site_codes(p_site_id UUID)
+RETURNS TABLE (
+  kind TEXT,
+  code TEXT,
+  observation_count BIGINT,
+  first_observed_at TIMESTAMPTZ,
+  last_observed_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    'petri'::TEXT,
+    (array_agg(o.petri_code::TEXT ORDER BY sub.created_at DESC))[1],
+    COUNT(*),
+    MIN(sub.created_at),
+    MAX(sub.created_at)
+  FROM petri_observations o
+  JOIN submissions sub ON sub.submission_id = o.submission_id
+  WHERE o.site_id = p_site_id
+    AND normalize_observation_code(o.petri_code) <> ''
+  GROUP BY normalize_observation_code(o.petri_code)
+
+  UNION ALL
+
+  SELECT
+    'gasifier'::TEXT,
+    (array_agg(o.gasifier_code ORDER BY sub.created_at DESC))[1],
+    COUNT(*),
+    MIN(sub.created_at),
+    MAX(sub.created_at)
+  FROM gasifier_observations o
+  JOIN submissions sub ON sub.submission_id = o.submission_id
+  WHERE o.site_id = p_site_id
+    AND normalize_observation_code(o.gasifier_code) <> ''
+  GROUP BY normalize_observation_code(o.gasifier_code)
+
+  ORDER BY 1 DESC, 2;
+$$;
+
+-- Every observation of one petri or gasifier code at a site, oldest first
+CREATE OR REPLACE FUNCTION get_code_lineage(p_site_id UUID, p_kind TEXT, p_code TEXT)
+RETURNS TABLE (
+  observation_id UUID,
+  submission_id UUID,
+  global_submission_id BIGINT,
+  observed_at TIMESTAMPTZ,
+  code TEXT,
+  image_url TEXT,
+  placement TEXT,
+  placement_detail TEXT,
+  fungicide_used TEXT,
+  surrounding_water_schedule TEXT,
+  chemical_type TEXT,
+  measure NUMERIC,
+  anomaly BOOLEAN,
+  notes TEXT,
+  outdoor_temperature NUMERIC,
+  outdoor_humidity NUMERIC,
+  weather TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    o.observation_id,
+    o.submission_id,
+    sub.global_submission_id,
+    sub.created_at,
+    o.petri_code::TEXT,
+    o.image_url,
+    o.placement::TEXT,
+    o.placement_dynamics::TEXT,
+    o.fungicide_used::TEXT,
+    o.surrounding_water_schedule::TEXT,
+    NULL::TEXT,
+    NULL::NUMERIC,
+    NULL::BOOLEAN,
+    o.notes::TEXT,
+    COALESCE(o.outdoor_temperature, sub.temperature),
+    COALESCE(o.outdoor_humidity, sub.humidity),
+    sub.weather::TEXT
+  FROM petri_observations o
+  JOIN submissions sub ON sub.submission_id = o.submission_id
+  WHERE p_kind = 'petri'
+    AND o.site_id = p_site_id
+    AND normalize_observation_code(o.petri_code) = normalize_observation_code(p_code)
+
+  UNION ALL
+
+  SELECT
+    o.observation_id,
+    o.submission_id,
+    sub.global_submission_id,
+    sub.created_at,
+    o.gasifier_code,
+    o.image_url,
+    NULLIF(concat_ws(' · ', o.placement_height::TEXT, o.directional_placement::TEXT), ''),
+    o.placement_strategy::TEXT,
+    NULL::TEXT,
+    NULL::TEXT,
+    o.chemical_type::TEXT,
+    o.measure,
+    o.anomaly,
+    o.notes,
+    COALESCE(o.outdoor_temperature, sub.temperature),
+    COALESCE(o.outdoor_humidity, sub.humidity),
+    sub.weather::TEXT
+  FROM gasifier_observations o
+  JOIN submissions sub ON sub.submission_id = o.submission_id
+  WHERE p_kind = 'gasifier'
+    AND o.site_id = p_site_id
+    AND normalize_observation_code(o.gasifier_code) = normalize_observation_code(p_code)
+
+  ORDER BY 4, 1;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION normalize_observation_code(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_site_codes(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_code_lineage(UUID, TEXT, TEXT) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION normalize_observation_code IS 'Petri or gasifier code in upper case without whitespace, for matching codes as entered';
+COMMENT ON FUNCTION get_site_codes IS 'Petri and gasifier codes observed at a site with their observation counts and first and last dates';
+COMMENT ON FUNCTION get_code_lineage IS 'Every observation of a petri or gasifier code at a site, oldest first, with placement, treatment and outdoor conditions';
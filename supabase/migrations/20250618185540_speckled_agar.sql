@@ -0,0 +1,38 @@
+/*
+  # Colony Coverage Estimates
+
+  1. Changes
+    - Adds colony_coverage_percent and colony_count to petri_observations,
+      holding the values in effect: the tech's where they entered one, the
+      estimate otherwise
+    - Adds colony_analysis to petri_observations, recording the estimate and
+      any override behind those values
+
+  2. Analysis format (JSONB)
+    - {"version": 1, "analyzed_at": "2025-06-18T18:55:40Z",
+       "estimate": {"coverage_percent": 7.9, "colony_count": 7,
+                    "plate": {"x": 127, "y": 86, "r": 70}, "plate_found": true,
+                    "width": 240, "height": 180},
+       "override": {"coverage_percent": 9.5, "colony_count": null,
+                    "overridden_at": "2025-06-18T19:02:11Z"}}
+    - The estimate is worked out on the device by src/utils/colonyCoverage.ts
+      when the photo is taken; the plate is in pixels of the analysis grid
+    - estimate is null when the values were entered without an analysis, and
+      override is null until a tech replaces the estimate
+
+  3. Purpose
+    - Growth on each plate was only recorded in free-text notes, so it could
+      not be compared across visits or sites
+*/
+
+ALTER TABLE petri_observations
+  ADD COLUMN IF NOT EXISTS colony_coverage_percent NUMERIC(5,2)
+    CHECK (colony_coverage_percent BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS colony_count INTEGER
+    CHECK (colony_count >= 0),
+  ADD COLUMN IF NOT EXISTS colony_analysis JSONB;
+
+-- Add comments for documentation
+COMMENT ON COLUMN petri_observations.colony_coverage_percent IS 'Share of the agar covered by growth, 0-100: the tech''s value if they overrode the estimate';
+COMMENT ON COLUMN petri_observations.colony_count IS 'Colonies on the plate: the tech''s value if they overrode the estimate';
+COMMENT ON COLUMN petri_observations.colony_analysis IS 'On-device colony estimate and any override by a tech; see src/utils/colonyCoverage.ts';
@@ -0,0 +1,67 @@
+/*
+  # Gasifier Depletion Forecasts
+
+  1. Changes
+    - Adds gasifier_replacement_policy to sites
+    - Adds get_gasifier_measures(), returning every gasifier reading at a site
+      with a measure, in time order per gasifier
+
+  2. Policy format (JSONB)
+    - {"threshold": 2, "lead_days": 7}
+    - threshold is on the gasifier form's 0-10 measure scale; a bag at or below
+      it is due for replacement
+    - lead_days is how long before the projected date a bag is listed as
+      "replace soon"
+    - NULL uses the defaults in src/utils/gasifierDepletion.ts, which also fits
+      the depletion rate and projects replacement dates from the readings
+
+  3. Notes
+    - Runs as the caller, so readings are limited by the same policies as a
+      direct select
+    - Codes are matched with normalize_observation_code() and returned as most
+      recently entered, so one bag is one series whatever its spelling
+
+  4. Purpose
+    - Measures were recorded with every gasifier observation but never trended,
+      so bags ran out between visits instead of being replaced ahead of time
+*/
+
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS gasifier_replacement_policy JSONB;
+
+-- Gasifier readings at a site, oldest first within each gasifier
+CREATE OR REPLACE FUNCTION get_gasifier_measures(p_site_id UUID)
+RETURNS TABLE (
+  code TEXT,
+  observation_id UUID,
+  submission_id UUID,
+  observed_at TIMESTAMPTZ,
+  measure NUMERIC,
+  anomaly BOOLEAN
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    first_value(o.gasifier_code::TEXT) OVER (
+      PARTITION BY normalize_observation_code(o.gasifier_code)
+      ORDER BY sub.created_at DESC
+    ),
+    o.observation_id,
+    o.submission_id,
+    sub.created_at,
+    o.measure,
+    o.anomaly
+  FROM gasifier_observations o
+  JOIN submissions sub ON sub.submission_id = o.submission_id
+  WHERE o.site_id = p_site_id
+    AND o.measure IS NOT NULL
+    AND normalize_observation_code(o.gasifier_code) <> ''
+  ORDER BY normalize_observation_code(o.gasifier_code), sub.created_at;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION get_gasifier_measures(UUID) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON COLUMN sites.gasifier_replacement_policy IS 'Measure threshold for replacing a gasifier bag and days of warning before it; NULL uses the defaults';
+COMMENT ON FUNCTION get_gasifier_measures IS 'Every gasifier reading with a measure at a site, grouped by code and oldest first, with its anomaly flag';
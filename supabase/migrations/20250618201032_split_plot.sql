@@ -0,0 +1,99 @@
+/*
+  # Control vs Treatment Comparison
+
+  1. Changes
+    - Adds comparison_group to sites, marking a site as a control or treatment
+      site within its program
+    - Adds get_program_comparison(), returning one row per submission at a
+      grouped site with the readings the comparison dashboard aggregates
+
+  2. Row format
+    - Environmental readings are the submission's own
+    - colony_coverage_sum / colony_observations and colony_count_sum are over
+      petri observations with a colony estimate, so groups can be averaged per
+      observation rather than per submission
+    - gasifier_anomalies / gasifier_observations gives the anomaly rate
+
+  3. Notes
+    - Runs as the caller, so rows are limited by the same policies as a direct
+      select
+    - Sites without a group are left out; src/utils/siteComparison.ts buckets
+      the rows over time and averages each group
+
+  4. Purpose
+    - Pilots exist to show the product works, which means comparing treated
+      sites against untreated ones over the same period
+*/
+
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS comparison_group TEXT
+  CHECK (comparison_group IN ('control', 'treatment'));
+
+-- One row per submission at a program's control and treatment sites
+CREATE OR REPLACE FUNCTION get_program_comparison(
+  p_program_id UUID,
+  p_start TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  submission_id UUID,
+  site_id UUID,
+  comparison_group TEXT,
+  created_at TIMESTAMPTZ,
+  temperature NUMERIC,
+  humidity NUMERIC,
+  indoor_temperature NUMERIC,
+  indoor_humidity NUMERIC,
+  petri_observations INTEGER,
+  colony_observations INTEGER,
+  colony_coverage_sum NUMERIC,
+  colony_count_sum NUMERIC,
+  gasifier_observations INTEGER,
+  gasifier_anomalies INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    sub.submission_id,
+    sub.site_id,
+    s.comparison_group,
+    sub.created_at,
+    sub.temperature,
+    sub.humidity,
+    sub.indoor_temperature,
+    sub.indoor_humidity,
+    COALESCE(p.observations, 0)::INTEGER,
+    COALESCE(p.estimated, 0)::INTEGER,
+    COALESCE(p.coverage_sum, 0),
+    COALESCE(p.count_sum, 0),
+    COALESCE(g.observations, 0)::INTEGER,
+    COALESCE(g.anomalies, 0)::INTEGER
+  FROM submissions sub
+  JOIN sites s ON s.site_id = sub.site_id
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS observations,
+      COUNT(po.colony_coverage_percent) AS estimated,
+      SUM(po.colony_coverage_percent) AS coverage_sum,
+      SUM(po.colony_count) FILTER (WHERE po.colony_coverage_percent IS NOT NULL) AS count_sum
+    FROM petri_observations po
+    WHERE po.submission_id = sub.submission_id
+  ) p ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS observations,
+      COUNT(*) FILTER (WHERE go.anomaly) AS anomalies
+    FROM gasifier_observations go
+    WHERE go.submission_id = sub.submission_id
+  ) g ON true
+  WHERE sub.program_id = p_program_id
+    AND s.comparison_group IS NOT NULL
+    AND (p_start IS NULL OR sub.created_at >= p_start)
+  ORDER BY sub.created_at;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION get_program_comparison(UUID, TIMESTAMPTZ) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON COLUMN sites.comparison_group IS 'Whether the site is a control or treatment site in its program''s comparison; NULL leaves it out';
+COMMENT ON FUNCTION get_program_comparison IS 'Per-submission environmental readings, colony totals and gasifier anomaly counts at a program''s control and treatment sites';
@@ -0,0 +1,417 @@
+/*
+  # Threshold Alert Rules
+
+  1. New Tables
+    - alert_rules: a program's rules, each on one reading with a comparator and
+      threshold, optionally only after N consecutive readings breach it. A rule
+      with no site applies to every site in the program.
+    - site_alerts: one row per reading that tripped a rule, open until resolved
+
+  2. New Functions
+    - evaluate_alert_rules(): checks a submission's readings against the rules
+      for its site, records an alert for each breach and sends it to the
+      program's admins' inboxes with a link to the offending observation
+    - resolve_site_alert(): closes an alert and acknowledges its inbox items
+    - acknowledge_inbox_item() now resolves the alert behind a threshold alert
+
+  3. Rule fields
+    - temperature, humidity, indoor_temperature, indoor_humidity: the
+      submission's readings, one series per site
+    - gasifier_measure, petri_colony_coverage: observation readings, one series
+      per code (matched with normalize_observation_code())
+    - Readings without a value are skipped, so they neither trip a rule nor
+      break a run of consecutive readings
+
+  4. Notes
+    - src/lib/siteAlerts.ts calls evaluate_alert_rules() once a session is
+      completed, including completions replayed after being offline
+    - Evaluating a submission again does not repeat its alerts
+
+  5. Purpose
+    - Out-of-range readings and empty gasifiers waited for someone to notice
+      them instead of prompting action
+*/
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  rule_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  program_id UUID NOT NULL REFERENCES pilot_programs(program_id) ON DELETE CASCADE,
+  -- NULL applies the rule to every site in the program
+  site_id UUID REFERENCES sites(site_id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN (
+    'temperature',
+    'humidity',
+    'indoor_temperature',
+    'indoor_humidity',
+    'gasifier_measure',
+    'petri_colony_coverage'
+  )),
+  comparator TEXT NOT NULL CHECK (comparator IN ('<', '<=', '>', '>=', '=')),
+  threshold NUMERIC NOT NULL,
+  consecutive_readings INTEGER NOT NULL DEFAULT 1 CHECK (consecutive_readings BETWEEN 1 AND 10),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_program_id ON alert_rules(program_id);
+
+CREATE TRIGGER set_updated_at_alert_rules
+BEFORE UPDATE ON alert_rules
+FOR EACH ROW
+EXECUTE PROCEDURE set_updated_at();
+
+CREATE TABLE IF NOT EXISTS site_alerts (
+  alert_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_id UUID NOT NULL REFERENCES alert_rules(rule_id) ON DELETE CASCADE,
+  program_id UUID NOT NULL REFERENCES pilot_programs(program_id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES sites(site_id) ON DELETE CASCADE,
+  submission_id UUID NOT NULL REFERENCES submissions(submission_id) ON DELETE CASCADE,
+  -- The petri or gasifier observation, for observation readings
+  observation_id UUID,
+  observation_type TEXT CHECK (observation_type IN ('petri', 'gasifier')),
+  code TEXT,
+  -- The rule as it was when it tripped
+  field TEXT NOT NULL,
+  comparator TEXT NOT NULL,
+  threshold NUMERIC NOT NULL,
+  consecutive_readings INTEGER NOT NULL,
+  value NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by_user_id UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_alerts_program_open ON site_alerts(program_id) WHERE resolved_at IS NULL;
+
+-- One alert per rule per reading, so evaluating a submission again repeats nothing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_site_alerts_one_per_reading
+ON site_alerts(rule_id, submission_id, COALESCE(observation_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE site_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Program members can view alert rules"
+ON alert_rules
+FOR SELECT
+USING (
+  get_user_program_role(program_id) IS NOT NULL
+  OR is_company_admin_for_program(program_id)
+);
+
+CREATE POLICY "Program admins can add alert rules"
+ON alert_rules
+FOR INSERT
+WITH CHECK (
+  get_user_program_role(program_id) = 'Admin'
+  OR is_company_admin_for_program(program_id)
+);
+
+CREATE POLICY "Program admins can update alert rules"
+ON alert_rules
+FOR UPDATE
+USING (
+  get_user_program_role(program_id) = 'Admin'
+  OR is_company_admin_for_program(program_id)
+);
+
+CREATE POLICY "Program admins can delete alert rules"
+ON alert_rules
+FOR DELETE
+USING (
+  get_user_program_role(program_id) = 'Admin'
+  OR is_company_admin_for_program(program_id)
+);
+
+CREATE POLICY "Program members can view site alerts"
+ON site_alerts
+FOR SELECT
+USING (
+  get_user_program_role(program_id) IS NOT NULL
+  OR is_company_admin_for_program(program_id)
+);
+
+-- Whether a reading breaches a rule
+CREATE OR REPLACE FUNCTION alert_comparator_matches(p_value NUMERIC, p_comparator TEXT, p_threshold NUMERIC)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_comparator
+    WHEN '<' THEN p_value < p_threshold
+    WHEN '<=' THEN p_value <= p_threshold
+    WHEN '>' THEN p_value > p_threshold
+    WHEN '>=' THEN p_value >= p_threshold
+    WHEN '=' THEN p_value = p_threshold
+    ELSE FALSE
+  END;
+$$;
+
+-- How a rule field reads in alert titles
+CREATE OR REPLACE FUNCTION alert_field_label(p_field TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_field
+    WHEN 'temperature' THEN 'Outdoor temperature'
+    WHEN 'humidity' THEN 'Outdoor humidity'
+    WHEN 'indoor_temperature' THEN 'Indoor temperature'
+    WHEN 'indoor_humidity' THEN 'Indoor humidity'
+    WHEN 'gasifier_measure' THEN 'Gasifier measure'
+    WHEN 'petri_colony_coverage' THEN 'Colony coverage'
+    ELSE p_field
+  END;
+$$;
+
+-- Check a submission's readings against its site's active rules and raise an
+-- alert for each breach. Returns the alerts raised by this call.
+CREATE OR REPLACE FUNCTION evaluate_alert_rules(p_submission_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_submission submissions;
+  v_site_name TEXT;
+  v_alert site_alerts;
+  v_alerts JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_submission FROM submissions WHERE submission_id = p_submission_id;
+
+  IF v_submission.submission_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Submission not found');
+  END IF;
+
+  IF get_user_program_role(v_submission.program_id) IS NULL
+     AND NOT is_company_admin_for_program(v_submission.program_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'You do not have access to this submission');
+  END IF;
+
+  SELECT name INTO v_site_name FROM sites WHERE site_id = v_submission.site_id;
+
+  FOR v_alert IN
+    WITH readings AS (
+      SELECT
+        f.field,
+        NULL::UUID AS observation_id,
+        NULL::TEXT AS observation_type,
+        NULL::TEXT AS code,
+        '' AS series,
+        sub.submission_id,
+        sub.created_at,
+        f.value
+      FROM submissions sub
+      CROSS JOIN LATERAL (VALUES
+        ('temperature', sub.temperature),
+        ('humidity', sub.humidity),
+        ('indoor_temperature', sub.indoor_temperature),
+        ('indoor_humidity', sub.indoor_humidity)
+      ) AS f(field, value)
+      WHERE sub.site_id = v_submission.site_id
+        AND f.value IS NOT NULL
+
+      UNION ALL
+
+      SELECT
+        'gasifier_measure',
+        o.observation_id,
+        'gasifier',
+        o.gasifier_code::TEXT,
+        normalize_observation_code(o.gasifier_code),
+        o.submission_id,
+        sub.created_at,
+        o.measure
+      FROM gasifier_observations o
+      JOIN submissions sub ON sub.submission_id = o.submission_id
+      WHERE o.site_id = v_submission.site_id
+        AND o.measure IS NOT NULL
+
+      UNION ALL
+
+      SELECT
+        'petri_colony_coverage',
+        o.observation_id,
+        'petri',
+        o.petri_code::TEXT,
+        normalize_observation_code(o.petri_code),
+        o.submission_id,
+        sub.created_at,
+        o.colony_coverage_percent
+      FROM petri_observations o
+      JOIN submissions sub ON sub.submission_id = o.submission_id
+      WHERE o.site_id = v_submission.site_id
+        AND o.colony_coverage_percent IS NOT NULL
+    )
+    INSERT INTO site_alerts (
+      rule_id,
+      program_id,
+      site_id,
+      submission_id,
+      observation_id,
+      observation_type,
+      code,
+      field,
+      comparator,
+      threshold,
+      consecutive_readings,
+      value
+    )
+    SELECT
+      r.rule_id,
+      v_submission.program_id,
+      v_submission.site_id,
+      cur.submission_id,
+      cur.observation_id,
+      cur.observation_type,
+      cur.code,
+      r.field,
+      r.comparator,
+      r.threshold,
+      r.consecutive_readings,
+      cur.value
+    FROM alert_rules r
+    JOIN readings cur ON cur.field = r.field AND cur.submission_id = p_submission_id
+    WHERE r.program_id = v_submission.program_id
+      AND (r.site_id IS NULL OR r.site_id = v_submission.site_id)
+      AND r.is_active
+      AND alert_comparator_matches(cur.value, r.comparator, r.threshold)
+      -- The reading and the ones before it in its series all breach the rule
+      AND (
+        r.consecutive_readings = 1
+        OR (
+          SELECT COUNT(*) = r.consecutive_readings AND bool_and(alert_comparator_matches(prev.value, r.comparator, r.threshold))
+          FROM (
+            SELECT p.value
+            FROM readings p
+            WHERE p.field = cur.field
+              AND p.series = cur.series
+              AND p.created_at <= cur.created_at
+            ORDER BY p.created_at DESC
+            LIMIT r.consecutive_readings
+          ) prev
+        )
+      )
+    ON CONFLICT DO NOTHING
+    RETURNING *
+  LOOP
+    INSERT INTO inbox_items (
+      user_id,
+      item_type,
+      reference_id,
+      program_id,
+      title,
+      body,
+      link_path,
+      requires_acknowledgement
+    )
+    SELECT
+      recipients.user_id,
+      'threshold_alert',
+      v_alert.alert_id,
+      v_alert.program_id,
+      'Alert: ' || COALESCE(v_site_name, 'site') || ' - ' || alert_field_label(v_alert.field)
+        || CASE WHEN v_alert.code IS NOT NULL THEN ' (' || v_alert.code || ')' ELSE '' END,
+      alert_field_label(v_alert.field) || ' was ' || v_alert.value::TEXT
+        || ', breaching the rule ' || v_alert.comparator || ' ' || v_alert.threshold::TEXT
+        || CASE WHEN v_alert.consecutive_readings > 1
+          THEN ' for ' || v_alert.consecutive_readings || ' consecutive readings'
+          ELSE ''
+        END || '.',
+      '/programs/' || v_alert.program_id || '/sites/' || v_alert.site_id
+        || '/submissions/' || v_alert.submission_id || '/edit'
+        || CASE WHEN v_alert.observation_id IS NOT NULL
+          THEN '#' || v_alert.observation_type || '-form-' || v_alert.observation_id
+          ELSE ''
+        END,
+      TRUE
+    FROM (
+      SELECT user_id FROM pilot_program_users
+      WHERE program_id = v_alert.program_id AND role = 'Admin'
+      UNION
+      SELECT get_program_admin_user_id(v_alert.program_id)
+    ) recipients
+    WHERE recipients.user_id IS NOT NULL;
+
+    v_alerts := v_alerts || to_jsonb(v_alert);
+  END LOOP;
+
+  RETURN jsonb_build_object('success', TRUE, 'alerts', v_alerts);
+END;
+$$;
+
+-- Close an alert and acknowledge every admin's inbox item for it
+CREATE OR REPLACE FUNCTION resolve_site_alert(p_alert_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_alert site_alerts;
+BEGIN
+  SELECT * INTO v_alert FROM site_alerts WHERE alert_id = p_alert_id;
+
+  IF v_alert.alert_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Alert not found');
+  END IF;
+
+  IF COALESCE(get_user_program_role(v_alert.program_id), '') NOT IN ('Admin', 'Edit')
+     AND NOT is_company_admin_for_program(v_alert.program_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'You do not have permission to resolve this alert');
+  END IF;
+
+  UPDATE site_alerts
+  SET resolved_at = COALESCE(resolved_at, now()), resolved_by_user_id = COALESCE(resolved_by_user_id, auth.uid())
+  WHERE alert_id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  UPDATE inbox_items
+  SET acknowledged_at = COALESCE(acknowledged_at, now()), read_at = COALESCE(read_at, now())
+  WHERE reference_id = p_alert_id AND item_type = 'threshold_alert';
+
+  RETURN jsonb_build_object('success', TRUE, 'alert', to_jsonb(v_alert));
+END;
+$$;
+
+-- Acknowledge an inbox item that is not tied to an escalation step.
+-- Acknowledging a threshold alert resolves the alert for everyone it was sent to.
+CREATE OR REPLACE FUNCTION acknowledge_inbox_item(p_item_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item inbox_items;
+BEGIN
+  UPDATE inbox_items
+  SET acknowledged_at = COALESCE(acknowledged_at, now()), read_at = COALESCE(read_at, now())
+  WHERE item_id = p_item_id AND user_id = auth.uid()
+  RETURNING * INTO v_item;
+
+  IF v_item.item_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Inbox item not found');
+  END IF;
+
+  IF v_item.item_type = 'threshold_alert' AND v_item.reference_id IS NOT NULL THEN
+    UPDATE site_alerts
+    SET resolved_at = now(), resolved_by_user_id = auth.uid()
+    WHERE alert_id = v_item.reference_id AND resolved_at IS NULL;
+
+    UPDATE inbox_items
+    SET acknowledged_at = COALESCE(acknowledged_at, now()), read_at = COALESCE(read_at, now())
+    WHERE reference_id = v_item.reference_id AND item_type = 'threshold_alert';
+  END IF;
+
+  RETURN jsonb_build_object('success', TRUE, 'item', to_jsonb(v_item));
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION evaluate_alert_rules(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_site_alert(UUID) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON TABLE alert_rules IS 'Threshold rules on submission and observation readings, per program or site';
+COMMENT ON TABLE site_alerts IS 'Readings that tripped an alert rule; open until resolved';
+COMMENT ON FUNCTION evaluate_alert_rules IS 'Checks a submission''s readings against its site''s alert rules, records each breach and notifies the program''s admins';
+COMMENT ON FUNCTION resolve_site_alert IS 'Resolves an alert and acknowledges its inbox items';
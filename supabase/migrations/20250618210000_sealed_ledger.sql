@@ -0,0 +1,349 @@
+/*
+  # Server-Recorded Session Lifecycle Events
+
+  1. Changes
+    - Adds log_session_event(), which writes an event for a session as the
+      current user at the current time; it is not callable by clients
+    - Trigger log_session_opened records Opened when a session is created
+    - Trigger log_session_lifecycle records Completed, Cancelled, Reopened,
+      Extended and OwnerReassigned from the change made to the session
+    - Trigger log_session_escalated records Escalated for each escalation,
+      including one reassigned by its recipient
+    - share_submission_session() records Shared, or Escalated when called with
+      the escalate action
+    - record_session_event() now only records ObservationAdded,
+      ObservationEdited and ImageCaptured, from users who can edit the
+      session, at the time it is called; p_occurred_at is removed
+
+  2. Purpose
+    - Lifecycle events were recorded by the client after each RPC, so any
+      program member could record any event at any past time, and an event
+      was lost whenever the client failed between the RPC and the log. They
+      are now written in the same transaction as the change, as Expired
+      already was
+*/
+
+-- Record an event for a session as the current user
+CREATE OR REPLACE FUNCTION log_session_event(
+  p_session submission_sessions,
+  p_event_type session_event_type_enum,
+  p_details JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO session_events (
+    session_id,
+    submission_id,
+    program_id,
+    event_type,
+    user_id,
+    details
+  )
+  VALUES (
+    p_session.session_id,
+    p_session.submission_id,
+    p_session.program_id,
+    p_event_type,
+    auth.uid(),
+    p_details
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION log_session_event(submission_sessions, session_event_type_enum, JSONB) FROM PUBLIC;
+
+-- Record Opened however a session was created, online or replayed from the device
+CREATE OR REPLACE FUNCTION log_session_opened()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM log_session_event(NEW, 'Opened');
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Failed to log session creation: %', SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_session_opened_on_insert ON submission_sessions;
+CREATE TRIGGER log_session_opened_on_insert
+AFTER INSERT ON submission_sessions
+FOR EACH ROW
+EXECUTE FUNCTION log_session_opened();
+
+-- Record what the RPCs that end, reopen, extend or reassign a session did to it.
+-- Expired is recorded by log_session_expiration(); sharing and escalation are
+-- recorded where they happen, since the session change alone cannot tell them apart.
+CREATE OR REPLACE FUNCTION log_session_lifecycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_owner_name TEXT;
+BEGIN
+  IF NEW.session_status = 'Completed' AND OLD.session_status IS DISTINCT FROM 'Completed' THEN
+    PERFORM log_session_event(NEW, 'Completed', jsonb_build_object(
+      'percentage_complete', NEW.percentage_complete
+    ));
+
+  ELSIF NEW.session_status = 'Cancelled' AND OLD.session_status IS DISTINCT FROM 'Cancelled' THEN
+    PERFORM log_session_event(NEW, 'Cancelled');
+
+  ELSIF NEW.reopened_at IS DISTINCT FROM OLD.reopened_at AND NEW.reopened_at IS NOT NULL THEN
+    PERFORM log_session_event(NEW, 'Reopened', jsonb_build_object(
+      'justification', NEW.reopen_justification,
+      'window_minutes', round(extract(epoch FROM NEW.expires_at - NEW.reopened_at) / 60)::INTEGER,
+      'expires_at', NEW.expires_at
+    ));
+
+  ELSIF NEW.opened_by_user_id IS DISTINCT FROM OLD.opened_by_user_id THEN
+    SELECT COALESCE(full_name, email) INTO v_owner_name FROM users WHERE id = NEW.opened_by_user_id;
+
+    PERFORM log_session_event(NEW, 'OwnerReassigned', jsonb_build_object(
+      'new_owner_user_id', NEW.opened_by_user_id,
+      'new_owner_name', v_owner_name
+    ));
+
+  ELSIF NEW.expires_at > OLD.expires_at AND NEW.session_status = OLD.session_status THEN
+    -- Extensions count from expires_at, or from now if that has already passed
+    PERFORM log_session_event(NEW, 'Extended', jsonb_build_object(
+      'minutes', round(extract(epoch FROM NEW.expires_at - GREATEST(OLD.expires_at, now())) / 60)::INTEGER,
+      'expires_at', NEW.expires_at
+    ));
+  END IF;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Failed to log session change: %', SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_session_lifecycle_on_update ON submission_sessions;
+CREATE TRIGGER log_session_lifecycle_on_update
+AFTER UPDATE OF session_status, reopened_at, opened_by_user_id, expires_at ON submission_sessions
+FOR EACH ROW
+EXECUTE FUNCTION log_session_lifecycle();
+
+-- Record Escalated for each escalation, whether raised by escalate_submission_session()
+-- or passed on by its recipient through resolve_escalation()
+CREATE OR REPLACE FUNCTION log_session_escalated()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session submission_sessions;
+BEGIN
+  SELECT * INTO v_session FROM submission_sessions WHERE session_id = NEW.session_id;
+
+  PERFORM log_session_event(v_session, 'Escalated', jsonb_build_object(
+    'reason_category', NEW.reason_category,
+    'assigned_to_user_id', NEW.assigned_to_user_id,
+    'reassigned_from_escalation_id', NEW.reassigned_from_escalation_id
+  ));
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Failed to log session escalation: %', SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_session_escalated_on_insert ON session_escalations;
+CREATE TRIGGER log_session_escalated_on_insert
+AFTER INSERT ON session_escalations
+FOR EACH ROW
+EXECUTE FUNCTION log_session_escalated();
+
+
+-- Share a session, recording who it is now shared with
+CREATE OR REPLACE FUNCTION share_submission_session(
+  p_session_id UUID,
+  p_user_ids UUID[],
+  p_action_type TEXT DEFAULT 'share'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result JSONB;
+  v_submission_id UUID;
+  v_opened_by_user_id UUID;
+  v_current_status session_status_enum;
+  v_current_escalated_ids UUID[];
+  v_updated_escalated_ids UUID[];
+  v_program_id UUID;
+  v_new_status session_status_enum;
+BEGIN
+  -- Get session details
+  SELECT
+    submission_id,
+    opened_by_user_id,
+    session_status,
+    escalated_to_user_ids,
+    program_id
+  INTO
+    v_submission_id,
+    v_opened_by_user_id,
+    v_current_status,
+    v_current_escalated_ids,
+    v_program_id
+  FROM submission_sessions
+  WHERE session_id = p_session_id;
+
+  -- Check if session exists
+  IF v_submission_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session not found');
+  END IF;
+
+  -- Check if session can be shared (not Cancelled or Expired)
+  IF v_current_status IN ('Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete') THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session cannot be shared: ' || v_current_status);
+  END IF;
+
+  -- Verify user permissions (opened_by_user_id, in escalated_to_user_ids, or a program admin)
+  IF v_opened_by_user_id != auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM submission_sessions
+    WHERE session_id = p_session_id
+    AND escalated_to_user_ids @> ARRAY[auth.uid()]
+  ) AND NOT can_administer_program_sessions(v_program_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'You do not have permission to share this session');
+  END IF;
+
+  -- Combine existing and new user IDs, removing duplicates
+  IF v_current_escalated_ids IS NULL THEN
+    v_updated_escalated_ids := p_user_ids;
+  ELSE
+    WITH combined_ids AS (
+      SELECT DISTINCT unnest(v_current_escalated_ids || p_user_ids) AS user_id
+    )
+    SELECT array_agg(user_id) INTO v_updated_escalated_ids
+    FROM combined_ids;
+  END IF;
+
+  -- Only set to 'Escalated' if action is explicitly 'escalate'; sharing keeps an escalated session escalated
+  IF p_action_type = 'escalate' THEN
+    v_new_status := 'Escalated';
+  ELSIF p_action_type = 'share' THEN
+    IF v_current_status = 'Escalated' THEN
+      v_new_status := 'Escalated';
+    ELSE
+      v_new_status := 'Shared';
+    END IF;
+  ELSE
+    v_new_status := v_current_status;
+  END IF;
+
+  UPDATE submission_sessions
+  SET
+    escalated_to_user_ids = v_updated_escalated_ids,
+    session_status = v_new_status,
+    last_activity_time = now()
+  WHERE session_id = p_session_id
+  RETURNING to_jsonb(submission_sessions.*) INTO v_result;
+
+  PERFORM log_session_event(
+    jsonb_populate_record(NULL::submission_sessions, v_result),
+    CASE WHEN p_action_type = 'escalate' THEN 'Escalated' ELSE 'Shared' END::session_event_type_enum,
+    jsonb_build_object('user_ids', v_updated_escalated_ids)
+  );
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'message', CASE
+      WHEN p_action_type = 'escalate' THEN 'Session escalated successfully'
+      ELSE 'Session shared successfully'
+    END,
+    'session', v_result,
+    'action', p_action_type,
+    'new_status', v_new_status
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', SQLERRM
+    );
+END;
+$$;
+
+
+-- Clients only record the observation work that happens outside an RPC
+DROP FUNCTION IF EXISTS record_session_event(UUID, session_event_type_enum, UUID, TEXT, JSONB, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION record_session_event(
+  p_submission_id UUID,
+  p_event_type session_event_type_enum,
+  p_observation_id UUID DEFAULT NULL,
+  p_observation_type TEXT DEFAULT NULL,
+  p_details JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session submission_sessions;
+  v_event session_events;
+BEGIN
+  IF p_event_type NOT IN ('ObservationAdded', 'ObservationEdited', 'ImageCaptured') THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', p_event_type::TEXT || ' events are recorded by the server');
+  END IF;
+
+  SELECT * INTO v_session FROM submission_sessions WHERE submission_id = p_submission_id;
+
+  IF v_session.session_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Session not found');
+  END IF;
+
+  -- Same users who can work on the session (opened_by_user_id, in escalated_to_user_ids, or a program admin)
+  IF v_session.opened_by_user_id != auth.uid()
+     AND NOT COALESCE(v_session.escalated_to_user_ids @> ARRAY[auth.uid()], FALSE)
+     AND NOT can_administer_program_sessions(v_session.program_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'You do not have permission to edit this session');
+  END IF;
+
+  INSERT INTO session_events (
+    session_id,
+    submission_id,
+    program_id,
+    event_type,
+    user_id,
+    observation_id,
+    observation_type,
+    details
+  )
+  VALUES (
+    v_session.session_id,
+    v_session.submission_id,
+    v_session.program_id,
+    p_event_type,
+    auth.uid(),
+    p_observation_id,
+    p_observation_type,
+    p_details
+  )
+  RETURNING * INTO v_event;
+
+  RETURN jsonb_build_object('success', TRUE, 'event', to_jsonb(v_event));
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION record_session_event(UUID, session_event_type_enum, UUID, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION share_submission_session(UUID, UUID[], TEXT) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION log_session_event IS 'Records a session event as the current user; used by the session RPCs and triggers, not by clients';
+COMMENT ON FUNCTION record_session_event IS 'Records an observation event for the session of a submission as the current user, who must be able to edit the session';
@@ -0,0 +1,147 @@
+/*
+  # Server-Calculated Session Completion
+
+  1. Changes
+    - Replaces complete_submission_session(UUID, INTEGER, INTEGER, NUMERIC)
+      with complete_submission_session(UUID), which always calculates the
+      session's progress with calculate_session_percentage_complete()
+    - Trigger refresh_completed_session_progress recalculates the progress of
+      a Completed session when one of its observations is added or changed
+
+  2. Purpose
+    - The client sent its own counts and percentage so that images captured
+      but not yet uploaded would count, which let a session be recorded as
+      100% complete with no observations. Observation edits and images still
+      queued on the device when the session is completed reach the server
+      afterwards; the trigger brings the session's progress up to date as
+      each of them lands, including when the image upload queue attaches an
+      uploaded image to its observation
+*/
+
+DROP FUNCTION IF EXISTS complete_submission_session(UUID, INTEGER, INTEGER, NUMERIC);
+
+CREATE OR REPLACE FUNCTION complete_submission_session(p_session_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result JSONB;
+  v_submission_id UUID;
+  v_opened_by_user_id UUID;
+  v_current_status session_status_enum;
+  v_percentage NUMERIC(5,2);
+BEGIN
+  -- Get session details
+  SELECT
+    submission_id,
+    opened_by_user_id,
+    session_status
+  INTO
+    v_submission_id,
+    v_opened_by_user_id,
+    v_current_status
+  FROM submission_sessions
+  WHERE session_id = p_session_id;
+
+  -- Check if session exists
+  IF v_submission_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', 'Session not found'
+    );
+  END IF;
+
+  -- Check if session can be completed (not already Completed, Cancelled, or Expired)
+  IF v_current_status IN ('Completed', 'Cancelled', 'Expired', 'Expired-Complete', 'Expired-Incomplete') THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', 'Session cannot be completed: ' || v_current_status
+    );
+  END IF;
+
+  -- Verify user permissions (must be opened_by_user_id or in escalated_to_user_ids)
+  IF v_opened_by_user_id != auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM submission_sessions
+    WHERE session_id = p_session_id
+    AND escalated_to_user_ids @> ARRAY[auth.uid()]
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', 'You do not have permission to complete this session'
+    );
+  END IF;
+
+  -- Counts the observations that meet the site's rules and records them on the session
+  v_percentage := calculate_session_percentage_complete(p_session_id);
+
+  -- Update session to Completed
+  UPDATE submission_sessions
+  SET
+    session_status = 'Completed',
+    completion_time = now(),
+    completed_by_user_id = auth.uid(),
+    last_activity_time = now(),
+    percentage_complete = v_percentage
+  WHERE session_id = p_session_id
+  RETURNING to_jsonb(submission_sessions.*) INTO v_result;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'message', 'Session completed successfully',
+    'session', v_result
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', FALSE,
+      'message', SQLERRM
+    );
+END;
+$$;
+
+-- Keep a Completed session's progress in step with observations that sync after it was completed
+CREATE OR REPLACE FUNCTION refresh_completed_session_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session_id UUID;
+  v_percentage NUMERIC(5,2);
+BEGIN
+  SELECT session_id INTO v_session_id
+  FROM submission_sessions
+  WHERE submission_id = NEW.submission_id
+    AND session_status = 'Completed';
+
+  IF v_session_id IS NOT NULL THEN
+    v_percentage := calculate_session_percentage_complete(v_session_id);
+
+    UPDATE submission_sessions
+    SET percentage_complete = v_percentage
+    WHERE session_id = v_session_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_completed_session_progress_petri ON petri_observations;
+CREATE TRIGGER refresh_completed_session_progress_petri
+AFTER INSERT OR UPDATE ON petri_observations
+FOR EACH ROW
+EXECUTE FUNCTION refresh_completed_session_progress();
+
+DROP TRIGGER IF EXISTS refresh_completed_session_progress_gasifier ON gasifier_observations;
+CREATE TRIGGER refresh_completed_session_progress_gasifier
+AFTER INSERT OR UPDATE ON gasifier_observations
+FOR EACH ROW
+EXECUTE FUNCTION refresh_completed_session_progress();
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION complete_submission_session(UUID) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION complete_submission_session IS 'Completes a session, recording how many of its observations meet its site''s completion rules';
+COMMENT ON FUNCTION refresh_completed_session_progress IS 'Recalculates a Completed session''s progress when its observations change after completion';
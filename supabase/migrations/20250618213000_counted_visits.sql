@@ -0,0 +1,101 @@
+/*
+  # Latest Visit From Submission Sessions
+
+  1. Changes
+    - get_site_schedules() and get_route_sites() return the start of the
+      site's latest submission session as last_submission_at, leaving out
+      Cancelled and Expired-Incomplete sessions
+    - Adds an index on submission_sessions(site_id, session_start_time)
+
+  2. Purpose
+    - last_submission_at was the insert time of any submission, so a visit
+      that was cancelled, or expired before its readings were complete, still
+      met the schedule and hid a missed window
+*/
+
+-- Scheduled sites with their latest visit. Runs as the caller, so sites
+-- are limited by the same policies as a direct select.
+CREATE OR REPLACE FUNCTION get_site_schedules(p_program_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  site_id UUID,
+  site_name TEXT,
+  program_id UUID,
+  program_name TEXT,
+  timezone TEXT,
+  submission_schedule JSONB,
+  last_submission_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    s.site_id,
+    s.name::TEXT,
+    s.program_id,
+    p.name::TEXT,
+    s.timezone::TEXT,
+    s.submission_schedule,
+    latest.session_start_time
+  FROM sites s
+  JOIN pilot_programs p ON p.program_id = s.program_id
+  LEFT JOIN LATERAL (
+    SELECT ss.session_start_time
+    FROM submission_sessions ss
+    WHERE ss.site_id = s.site_id
+      AND ss.session_status NOT IN ('Cancelled', 'Expired-Incomplete')
+    ORDER BY ss.session_start_time DESC
+    LIMIT 1
+  ) latest ON TRUE
+  WHERE s.submission_schedule IS NOT NULL
+    AND (p_program_id IS NULL OR s.program_id = p_program_id)
+  ORDER BY p.name, s.name;
+$$;
+
+-- Sites the caller can submit to with their latest visit
+CREATE OR REPLACE FUNCTION get_route_sites()
+RETURNS TABLE (
+  site_id UUID,
+  site_name TEXT,
+  site_type TEXT,
+  program_id UUID,
+  program_name TEXT,
+  timezone TEXT,
+  submission_schedule JSONB,
+  last_submission_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    s.site_id,
+    s.name::TEXT,
+    s.type::TEXT,
+    s.program_id,
+    p.name::TEXT,
+    s.timezone::TEXT,
+    s.submission_schedule,
+    latest.session_start_time
+  FROM sites s
+  JOIN pilot_programs p ON p.program_id = s.program_id
+  LEFT JOIN LATERAL (
+    SELECT ss.session_start_time
+    FROM submission_sessions ss
+    WHERE ss.site_id = s.site_id
+      AND ss.session_status NOT IN ('Cancelled', 'Expired-Incomplete')
+    ORDER BY ss.session_start_time DESC
+    LIMIT 1
+  ) latest ON TRUE
+  WHERE s.program_id IN (
+    SELECT ppu.program_id FROM pilot_program_users ppu
+    WHERE ppu.user_id = auth.uid()
+    AND ppu.role IN ('Admin', 'Edit', 'Respond')
+  )
+  OR is_company_admin_for_program(s.program_id)
+  ORDER BY p.name, s.name;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_submission_sessions_site_start_time ON submission_sessions(site_id, session_start_time DESC);
+
+-- Add comments for documentation
+COMMENT ON FUNCTION get_site_schedules IS 'Scheduled sites visible to the caller with the start of each site''s latest session that was not cancelled or abandoned';
+COMMENT ON FUNCTION get_route_sites IS 'Sites the caller can submit to across programs, with schedules and the start of each site''s latest session that was not cancelled or abandoned';
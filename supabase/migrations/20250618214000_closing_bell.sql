@@ -0,0 +1,218 @@
+/*
+  # Evaluate Alert Rules When Sessions End
+
+  1. Changes
+    - Trigger evaluate_session_alerts_on_update calls evaluate_alert_rules()
+      when a session becomes Completed, Expired-Complete or
+      Expired-Incomplete, in the same transaction as the change
+    - evaluate_alert_rules() no longer checks the caller's access, and
+      clients can no longer call it
+
+  2. Purpose
+    - The client called evaluate_alert_rules() after completing a session and
+      ignored any failure, so alerts were lost when that call failed, and
+      sessions that expired were never evaluated. Any program member,
+      ReadOnly included, could also raise alerts for any submission at will
+*/
+
+-- Check a submission's readings against its site's active rules and raise an
+-- alert for each breach. Returns the alerts raised by this call. Only called
+-- by the trigger below, so it no longer checks the caller's access.
+CREATE OR REPLACE FUNCTION evaluate_alert_rules(p_submission_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_submission submissions;
+  v_site_name TEXT;
+  v_alert site_alerts;
+  v_alerts JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_submission FROM submissions WHERE submission_id = p_submission_id;
+
+  IF v_submission.submission_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'message', 'Submission not found');
+  END IF;
+
+  SELECT name INTO v_site_name FROM sites WHERE site_id = v_submission.site_id;
+
+  FOR v_alert IN
+    WITH readings AS (
+      SELECT
+        f.field,
+        NULL::UUID AS observation_id,
+        NULL::TEXT AS observation_type,
+        NULL::TEXT AS code,
+        '' AS series,
+        sub.submission_id,
+        sub.created_at,
+        f.value
+      FROM submissions sub
+      CROSS JOIN LATERAL (VALUES
+        ('temperature', sub.temperature),
+        ('humidity', sub.humidity),
+        ('indoor_temperature', sub.indoor_temperature),
+        ('indoor_humidity', sub.indoor_humidity)
+      ) AS f(field, value)
+      WHERE sub.site_id = v_submission.site_id
+        AND f.value IS NOT NULL
+
+      UNION ALL
+
+      SELECT
+        'gasifier_measure',
+        o.observation_id,
+        'gasifier',
+        o.gasifier_code::TEXT,
+        normalize_observation_code(o.gasifier_code),
+        o.submission_id,
+        sub.created_at,
+        o.measure
+      FROM gasifier_observations o
+      JOIN submissions sub ON sub.submission_id = o.submission_id
+      WHERE o.site_id = v_submission.site_id
+        AND o.measure IS NOT NULL
+
+      UNION ALL
+
+      SELECT
+        'petri_colony_coverage',
+        o.observation_id,
+        'petri',
+        o.petri_code::TEXT,
+        normalize_observation_code(o.petri_code),
+        o.submission_id,
+        sub.created_at,
+        o.colony_coverage_percent
+      FROM petri_observations o
+      JOIN submissions sub ON sub.submission_id = o.submission_id
+      WHERE o.site_id = v_submission.site_id
+        AND o.colony_coverage_percent IS NOT NULL
+    )
+    INSERT INTO site_alerts (
+      rule_id,
+      program_id,
+      site_id,
+      submission_id,
+      observation_id,
+      observation_type,
+      code,
+      field,
+      comparator,
+      threshold,
+      consecutive_readings,
+      value
+    )
+    SELECT
+      r.rule_id,
+      v_submission.program_id,
+      v_submission.site_id,
+      cur.submission_id,
+      cur.observation_id,
+      cur.observation_type,
+      cur.code,
+      r.field,
+      r.comparator,
+      r.threshold,
+      r.consecutive_readings,
+      cur.value
+    FROM alert_rules r
+    JOIN readings cur ON cur.field = r.field AND cur.submission_id = p_submission_id
+    WHERE r.program_id = v_submission.program_id
+      AND (r.site_id IS NULL OR r.site_id = v_submission.site_id)
+      AND r.is_active
+      AND alert_comparator_matches(cur.value, r.comparator, r.threshold)
+      -- The reading and the ones before it in its series all breach the rule
+      AND (
+        r.consecutive_readings = 1
+        OR (
+          SELECT COUNT(*) = r.consecutive_readings AND bool_and(alert_comparator_matches(prev.value, r.comparator, r.threshold))
+          FROM (
+            SELECT p.value
+            FROM readings p
+            WHERE p.field = cur.field
+              AND p.series = cur.series
+              AND p.created_at <= cur.created_at
+            ORDER BY p.created_at DESC
+            LIMIT r.consecutive_readings
+          ) prev
+        )
+      )
+    ON CONFLICT DO NOTHING
+    RETURNING *
+  LOOP
+    INSERT INTO inbox_items (
+      user_id,
+      item_type,
+      reference_id,
+      program_id,
+      title,
+      body,
+      link_path,
+      requires_acknowledgement
+    )
+    SELECT
+      recipients.user_id,
+      'threshold_alert',
+      v_alert.alert_id,
+      v_alert.program_id,
+      'Alert: ' || COALESCE(v_site_name, 'site') || ' - ' || alert_field_label(v_alert.field)
+        || CASE WHEN v_alert.code IS NOT NULL THEN ' (' || v_alert.code || ')' ELSE '' END,
+      alert_field_label(v_alert.field) || ' was ' || v_alert.value::TEXT
+        || ', breaching the rule ' || v_alert.comparator || ' ' || v_alert.threshold::TEXT
+        || CASE WHEN v_alert.consecutive_readings > 1
+          THEN ' for ' || v_alert.consecutive_readings || ' consecutive readings'
+          ELSE ''
+        END || '.',
+      '/programs/' || v_alert.program_id || '/sites/' || v_alert.site_id
+        || '/submissions/' || v_alert.submission_id || '/edit'
+        || CASE WHEN v_alert.observation_id IS NOT NULL
+          THEN '#' || v_alert.observation_type || '-form-' || v_alert.observation_id
+          ELSE ''
+        END,
+      TRUE
+    FROM (
+      SELECT user_id FROM pilot_program_users
+      WHERE program_id = v_alert.program_id AND role = 'Admin'
+      UNION
+      SELECT get_program_admin_user_id(v_alert.program_id)
+    ) recipients
+    WHERE recipients.user_id IS NOT NULL;
+
+    v_alerts := v_alerts || to_jsonb(v_alert);
+  END LOOP;
+
+  RETURN jsonb_build_object('success', TRUE, 'alerts', v_alerts);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION evaluate_alert_rules(UUID) FROM PUBLIC, authenticated;
+
+-- Raise alerts for a session's readings once it ends, whether it was completed
+-- or expired. Reopened sessions are evaluated again when they end; readings
+-- already alerted on are not repeated.
+CREATE OR REPLACE FUNCTION evaluate_session_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.session_status IN ('Completed', 'Expired-Complete', 'Expired-Incomplete')
+     AND OLD.session_status IS DISTINCT FROM NEW.session_status THEN
+    PERFORM evaluate_alert_rules(NEW.submission_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS evaluate_session_alerts_on_update ON submission_sessions;
+CREATE TRIGGER evaluate_session_alerts_on_update
+AFTER UPDATE OF session_status ON submission_sessions
+FOR EACH ROW
+EXECUTE FUNCTION evaluate_session_alerts();
+
+-- Add comments for documentation
+COMMENT ON FUNCTION evaluate_alert_rules IS 'Checks a submission''s readings against its site''s alert rules, records each breach and notifies the program''s admins; run when its session ends';
+COMMENT ON FUNCTION evaluate_session_alerts IS 'Evaluates a session''s alert rules when it is completed or expires';
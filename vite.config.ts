@@ -1,11 +1,72 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'node:crypto';
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+
+// Public files that are hosting configuration rather than part of the app
+const UNCACHED_PUBLIC_FILES = ['_redirects', '_headers'];
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir).flatMap(name => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+
+// Emit sw.js from src/serviceWorker/sw.js with the built app shell filled in
+const serviceWorkerPlugin = (): Plugin => {
+  let publicDir = '';
+
+  return {
+    name: 'grmtek-service-worker',
+    apply: 'build',
+    // Run after Vite has emitted index.html
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = publicDir
+        ? listFiles(publicDir)
+            .map(path => relative(publicDir, path).split('\\').join('/'))
+            .filter(name => !UNCACHED_PUBLIC_FILES.includes(name))
+        : [];
+
+      const urls = [...Object.keys(bundle), ...publicFiles]
+        .filter(name => !name.endsWith('.map'))
+        .map(name => `/${name}`)
+        .sort();
+
+      // Bundle names carry content hashes; public files are hashed by content
+      const hash = createHash('sha256');
+      urls.forEach(url => hash.update(url));
+      publicFiles.forEach(name => hash.update(readFileSync(join(publicDir, name))));
+      const index = bundle['index.html'];
+      if (index?.type === 'asset') hash.update(index.source);
+
+      const template = readFileSync(new URL('./src/serviceWorker/sw.js', import.meta.url), 'utf-8');
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template
+          .replace('__PRECACHE_URLS__', JSON.stringify(urls))
+          .replace('__CACHE_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+      });
+    }
+  };
+};
+
+// Date tests cover DST changes, so they run in a timezone that has them. This has to be set
+// before the test workers start; changing it inside a test has no effect.
+if (process.env.VITEST) {
+  process.env.TZ = 'America/New_York';
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerPlugin()],
   optimizeDeps: {
     exclude: ['lucide-react'],
     include: ['react-dropzone', 'idb'],
   },
-});
\ No newline at end of file
+});